@@ -0,0 +1,160 @@
+/**
+ * Unit tests for IP abuse detection and the in-memory security store
+ */
+
+import { Request } from 'express';
+import {
+  checkIPBlocked,
+  getIPTrackingStats,
+  isIPBlocked,
+  recordFailedAttempt,
+  resetFailedAttempts,
+  securityStore,
+} from '../../middleware/abuseDetection';
+import { InMemorySecurityStore } from '../../repositories/security.repository';
+import { auditLogger, AuditAction } from '../../services/audit.service';
+
+jest.mock('../../config', () => ({
+  __esModule: true,
+  default: {
+    ...jest.requireActual('../../config').default,
+    securityStore: { driver: 'memory' },
+  },
+}));
+jest.mock('../../services/audit.service', () => ({
+  ...jest.requireActual('../../services/audit.service'),
+  auditLogger: { log: jest.fn(), logFromRequest: jest.fn() },
+}));
+
+// req.ip is the address Express resolved through the trusted proxy
+const buildRequest = (ip: string): Request => ({ headers: {}, ip }) as unknown as Request;
+
+describe('abuse detection', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-06-01T00:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should use the store selected by SECURITY_STORE_DRIVER', () => {
+    expect(securityStore).toBeInstanceOf(InMemorySecurityStore);
+  });
+
+  it('should block an IP after repeated failures', async () => {
+    const req = buildRequest('203.0.113.1');
+
+    for (let i = 0; i < 9; i++) {
+      await recordFailedAttempt(req, 'invalid_token');
+    }
+    expect(await isIPBlocked(req)).toBe(false);
+
+    await recordFailedAttempt(req, 'invalid_token');
+
+    expect(await isIPBlocked(req)).toBe(true);
+    expect(auditLogger.log).toHaveBeenCalledTimes(1);
+    expect(auditLogger.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: AuditAction.SECURITY_IP_BLOCKED,
+        ip: '203.0.113.1',
+        metadata: expect.objectContaining({ failedAttempts: 10, blockDurationMs: 15 * 60 * 1000 }),
+      })
+    );
+    await expect(checkIPBlocked(req, {} as never, jest.fn())).rejects.toMatchObject({
+      statusCode: 403,
+    });
+    expect(await getIPTrackingStats()).toMatchObject({ blocked: 1 });
+  });
+
+  it('should unblock an IP once the block expires', async () => {
+    const req = buildRequest('203.0.113.2');
+    for (let i = 0; i < 10; i++) {
+      await recordFailedAttempt(req, 'invalid_token');
+    }
+
+    jest.advanceTimersByTime(15 * 60 * 1000 + 1);
+
+    expect(await isIPBlocked(req)).toBe(false);
+    expect((await securityStore.getIPTracker('203.0.113.2'))?.blockedUntil).toBeUndefined();
+  });
+
+  it('should start counting again after the failure window', async () => {
+    const req = buildRequest('203.0.113.3');
+    for (let i = 0; i < 9; i++) {
+      await recordFailedAttempt(req, 'invalid_token');
+    }
+
+    jest.advanceTimersByTime(15 * 60 * 1000 + 1);
+    await recordFailedAttempt(req, 'invalid_token');
+
+    expect(await securityStore.getIPTracker('203.0.113.3')).toMatchObject({ failedAttempts: 1 });
+    expect(await isIPBlocked(req)).toBe(false);
+  });
+
+  it('should forget failures after a successful authentication', async () => {
+    const req = buildRequest('203.0.113.4');
+    await recordFailedAttempt(req, 'invalid_token');
+
+    await resetFailedAttempts(req);
+
+    expect(await securityStore.getIPTracker('203.0.113.4')).toBeNull();
+  });
+
+  it('should fail open when the store is unavailable', async () => {
+    const req = buildRequest('203.0.113.5');
+    jest.spyOn(securityStore, 'getIPTracker').mockRejectedValueOnce(new Error('unavailable'));
+
+    expect(await isIPBlocked(req)).toBe(false);
+  });
+});
+
+describe('InMemorySecurityStore', () => {
+  let store: InMemorySecurityStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-06-01T00:00:00Z') });
+    store = new InMemorySecurityStore();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should count hits within a window and start over after it', async () => {
+    await store.incrementHits('general:203.0.113.1', 60000);
+    const hits = await store.incrementHits('general:203.0.113.1', 60000);
+
+    expect(hits).toEqual({ totalHits: 2, resetTime: new Date('2024-06-01T00:01:00Z') });
+
+    jest.advanceTimersByTime(60001);
+
+    expect((await store.incrementHits('general:203.0.113.1', 60000)).totalHits).toBe(1);
+  });
+
+  it('should count keys separately', async () => {
+    await store.incrementHits('general:203.0.113.1', 60000);
+
+    expect((await store.incrementHits('upload:203.0.113.1', 60000)).totalHits).toBe(1);
+  });
+
+  it('should remove expired counters and trackers', async () => {
+    const now = Date.now();
+    await store.incrementHits('general:203.0.113.1', 60000);
+    await store.updateIPTracker('203.0.113.1', () => ({
+      failedAttempts: 1,
+      firstFailureTime: now,
+      expiresAt: now + 30000,
+    }));
+    await store.updateIPTracker('203.0.113.2', () => ({
+      failedAttempts: 1,
+      firstFailureTime: now,
+      expiresAt: now + 120000,
+    }));
+
+    expect(await store.deleteExpired(now + 90000)).toBe(2);
+    expect(await store.listIPTrackers()).toEqual([
+      expect.objectContaining({ ip: '203.0.113.2', failedAttempts: 1 }),
+    ]);
+  });
+});
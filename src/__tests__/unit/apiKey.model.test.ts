@@ -0,0 +1,171 @@
+/**
+ * Unit tests for API key helpers
+ */
+
+import {
+  APIKey,
+  generateAPIKey,
+  getAPIKeyPrefix,
+  getRotationExpiry,
+  getUsagePeriodStart,
+  hashAPIKey,
+  isAPIKeyUsable,
+  isValidAPIKeyFormat,
+  normalizeAPIKeyRateLimit,
+  sumUsage,
+} from '../../models/apiKey.model';
+import { createApiKeySchema, updateApiKeySchema } from '../../models/apiKey.validation';
+
+const buildAPIKey = (overrides: Partial<APIKey> = {}): APIKey => ({
+  id: 'key-1',
+  userId: 'user123',
+  name: 'Accounting sync',
+  keyPrefix: 'rsk_test_1a2b3c',
+  scopes: ['receipts:read'],
+  active: true,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  lastUsedAt: null,
+  expiresAt: null,
+  revokedAt: null,
+  rotatedTo: null,
+  ...overrides,
+});
+
+describe('API key models', () => {
+  describe('key generation', () => {
+    it('should generate keys in the documented format', () => {
+      const key = generateAPIKey();
+
+      expect(isValidAPIKeyFormat(key)).toBe(true);
+      expect(key.startsWith('rsk_test_')).toBe(true);
+      expect(generateAPIKey()).not.toBe(key);
+    });
+
+    it('should hash keys deterministically without exposing them', () => {
+      const key = generateAPIKey();
+
+      expect(hashAPIKey(key)).toBe(hashAPIKey(key));
+      expect(hashAPIKey(key)).toMatch(/^[a-f0-9]{64}$/);
+      expect(hashAPIKey(key)).not.toContain(key.slice(9));
+    });
+
+    it('should show only the start of a key', () => {
+      expect(getAPIKeyPrefix(`rsk_live_1a2b3c${'0'.repeat(42)}`)).toBe('rsk_live_1a2b3c');
+    });
+
+    it('should reject malformed keys', () => {
+      expect(isValidAPIKeyFormat('rsk_live_short')).toBe(false);
+      expect(isValidAPIKeyFormat(`sk_live_${'a'.repeat(48)}`)).toBe(false);
+    });
+  });
+
+  describe('isAPIKeyUsable helper', () => {
+    const now = new Date('2024-06-01T00:00:00Z');
+
+    it('should accept active keys that have not expired', () => {
+      expect(isAPIKeyUsable(buildAPIKey(), now)).toBe(true);
+      expect(isAPIKeyUsable(buildAPIKey({ expiresAt: new Date('2024-06-02') }), now)).toBe(true);
+    });
+
+    it('should reject revoked and expired keys', () => {
+      expect(isAPIKeyUsable(buildAPIKey({ active: false }), now)).toBe(false);
+      expect(isAPIKeyUsable(buildAPIKey({ expiresAt: new Date('2024-05-31') }), now)).toBe(false);
+    });
+  });
+
+  describe('getRotationExpiry helper', () => {
+    const now = new Date('2024-06-01T00:00:00Z');
+
+    it('should keep the old key working for the grace period', () => {
+      expect(getRotationExpiry(buildAPIKey(), 24, now)).toEqual(new Date('2024-06-02T00:00:00Z'));
+    });
+
+    it('should not extend a key past its own expiry', () => {
+      const expiresAt = new Date('2024-06-01T06:00:00Z');
+
+      expect(getRotationExpiry(buildAPIKey({ expiresAt }), 24, now)).toEqual(expiresAt);
+    });
+  });
+
+  describe('getUsagePeriodStart helper', () => {
+    const date = new Date('2024-06-01T13:45:12.345Z');
+
+    it('should round down to the UTC hour or day', () => {
+      expect(getUsagePeriodStart(date, 'hour')).toEqual(new Date('2024-06-01T13:00:00Z'));
+      expect(getUsagePeriodStart(date, 'day')).toEqual(new Date('2024-06-01T00:00:00Z'));
+    });
+  });
+
+  describe('sumUsage helper', () => {
+    it('should total requests and rate limited requests', () => {
+      const periodStart = new Date('2024-06-01T00:00:00Z');
+
+      expect(
+        sumUsage([
+          { periodStart, requests: 10, rateLimited: 2 },
+          { periodStart, requests: 5, rateLimited: 0 },
+        ])
+      ).toEqual({ requests: 15, rateLimited: 2 });
+      expect(sumUsage([])).toEqual({ requests: 0, rateLimited: 0 });
+    });
+  });
+
+  describe('normalizeAPIKeyRateLimit helper', () => {
+    it('should keep quotas with a supported window', () => {
+      const rateLimit = { maxRequests: 1000, windowMs: 3600000 };
+      expect(normalizeAPIKeyRateLimit(rateLimit)).toBe(rateLimit);
+    });
+
+    it('should scale quotas onto the longest supported window that fits', () => {
+      expect(normalizeAPIKeyRateLimit({ maxRequests: 600, windowMs: 2 * 3600000 })).toEqual({
+        maxRequests: 300,
+        windowMs: 3600000,
+      });
+    });
+
+    it('should use the shortest window for quotas below it, within the per-minute cap', () => {
+      expect(normalizeAPIKeyRateLimit({ maxRequests: 10, windowMs: 1000 })).toEqual({
+        maxRequests: 120,
+        windowMs: 60000,
+      });
+      expect(normalizeAPIKeyRateLimit({ maxRequests: 1, windowMs: 120000 })).toEqual({
+        maxRequests: 1,
+        windowMs: 60000,
+      });
+    });
+  });
+
+  describe('rate limit validation', () => {
+    const baseKey = { name: 'Accounting sync', scopes: ['receipts:read'] };
+
+    it('should accept quotas within the per-minute cap', () => {
+      expect(
+        createApiKeySchema.parse({
+          ...baseKey,
+          rateLimit: { maxRequests: 5000, windowMs: 3600000 },
+        }).rateLimit
+      ).toEqual({ maxRequests: 5000, windowMs: 3600000 });
+    });
+
+    it('should reject quotas above the per-minute cap', () => {
+      expect(
+        createApiKeySchema.safeParse({
+          ...baseKey,
+          rateLimit: { maxRequests: 121, windowMs: 60000 },
+        }).success
+      ).toBe(false);
+    });
+
+    it('should reject unsupported windows', () => {
+      expect(
+        createApiKeySchema.safeParse({ ...baseKey, rateLimit: { maxRequests: 10, windowMs: 1000 } })
+          .success
+      ).toBe(false);
+    });
+
+    it('should allow clearing a quota on update', () => {
+      expect(updateApiKeySchema.parse({ rateLimit: null })).toEqual({ rateLimit: null });
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for issuing, rotating and authenticating API keys
+ */
+
+import { ApiKeyService } from '../../services/apiKey.service';
+import { ApiKeyRepository } from '../../repositories/apiKey.repository';
+import { AuthService } from '../../services/auth.service';
+import { APIKey, hashAPIKey, isValidAPIKeyFormat } from '../../models/apiKey.model';
+import { SubscriptionTier, UserProfile, UserRole } from '../../models/user.model';
+
+jest.mock('../../repositories/apiKey.repository');
+jest.mock('../../services/auth.service');
+
+const buildAPIKey = (overrides: Partial<APIKey> = {}): APIKey => ({
+  id: 'key-1',
+  userId: 'user123',
+  name: 'Accounting sync',
+  keyPrefix: 'rsk_test_1a2b3c',
+  scopes: ['receipts:read'],
+  active: true,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  lastUsedAt: null,
+  expiresAt: null,
+  revokedAt: null,
+  rotatedTo: null,
+  ...overrides,
+});
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+  let repository: jest.Mocked<ApiKeyRepository>;
+  let authService: jest.Mocked<AuthService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ApiKeyService();
+    repository = jest.mocked(ApiKeyRepository).mock.instances[0] as jest.Mocked<ApiKeyRepository>;
+    authService = jest.mocked(AuthService).mock.instances[0] as jest.Mocked<AuthService>;
+
+    repository.getAPIKeysByUserId.mockResolvedValue([]);
+    repository.getAPIKeyById.mockResolvedValue(buildAPIKey());
+    repository.createAPIKey.mockImplementation(async (userId, data, _hashedKey, keyPrefix) =>
+      buildAPIKey({ id: 'key-2', userId, name: data.name, scopes: data.scopes, keyPrefix })
+    );
+    repository.rotateAPIKey.mockImplementation(async (oldKey, _hashedKey, keyPrefix) =>
+      buildAPIKey({ ...oldKey, id: 'key-2', keyPrefix })
+    );
+    repository.touchAPIKey.mockResolvedValue(undefined);
+  });
+
+  it('should return the key once and store only its hash', async () => {
+    const { apiKey, key } = await service.createAPIKey('user123', {
+      name: 'Accounting sync',
+      scopes: ['receipts:read'],
+    });
+
+    expect(isValidAPIKeyFormat(key)).toBe(true);
+    expect(apiKey).not.toHaveProperty('key');
+    expect(repository.createAPIKey).toHaveBeenCalledWith(
+      'user123',
+      { name: 'Accounting sync', scopes: ['receipts:read'] },
+      hashAPIKey(key),
+      key.slice(0, 15)
+    );
+  });
+
+  it('should limit the number of active keys', async () => {
+    repository.getAPIKeysByUserId.mockResolvedValue([
+      ...Array.from({ length: 10 }, (_, i) => buildAPIKey({ id: `key-${i}` })),
+      buildAPIKey({ id: 'revoked', active: false }),
+    ]);
+
+    await expect(
+      service.createAPIKey('user123', { name: 'One more', scopes: ['receipts:read'] })
+    ).rejects.toThrow('You can have at most 10 active API keys');
+  });
+
+  it('should reject quotas with an unsupported window on create and update', async () => {
+    const rateLimit = { maxRequests: 10, windowMs: 1000 };
+
+    await expect(
+      service.createAPIKey('user123', { name: 'Sync', scopes: ['receipts:read'], rateLimit })
+    ).rejects.toThrow('windowMs must be one of 60000, 3600000, 86400000');
+    await expect(service.updateAPIKey('key-1', 'user123', { rateLimit })).rejects.toThrow(
+      'windowMs must be one of'
+    );
+    expect(repository.createAPIKey).not.toHaveBeenCalled();
+    expect(repository.updateAPIKey).not.toHaveBeenCalled();
+  });
+
+  it('should keep the old key working for the grace period when rotating', async () => {
+    const before = Date.now();
+
+    const { key } = await service.rotateAPIKey('key-1', 'user123', 2);
+
+    const [oldKey, hashedKey, , oldKeyExpiresAt] = repository.rotateAPIKey.mock.calls[0];
+    expect(oldKey.id).toBe('key-1');
+    expect(hashedKey).toBe(hashAPIKey(key));
+    expect(oldKeyExpiresAt!.getTime()).toBeGreaterThanOrEqual(before + 2 * 60 * 60 * 1000);
+  });
+
+  it('should revoke the old key at once without a grace period', async () => {
+    await service.rotateAPIKey('key-1', 'user123', 0);
+
+    expect(repository.rotateAPIKey.mock.calls[0][3]).toBeNull();
+  });
+
+  it('should not rotate revoked or already rotated keys', async () => {
+    repository.getAPIKeyById.mockResolvedValueOnce(buildAPIKey({ active: false }));
+    await expect(service.rotateAPIKey('key-1', 'user123')).rejects.toThrow(
+      'API key has been revoked or has expired'
+    );
+
+    repository.getAPIKeyById.mockResolvedValueOnce(buildAPIKey({ rotatedTo: 'key-2' }));
+    await expect(service.rotateAPIKey('key-1', 'user123')).rejects.toThrow(
+      'API key has already been rotated'
+    );
+    expect(repository.rotateAPIKey).not.toHaveBeenCalled();
+  });
+
+  describe('authenticate', () => {
+    const profile: UserProfile = {
+      userId: 'user123',
+      email: 'user@example.com',
+      role: UserRole.USER,
+      subscriptionTier: SubscriptionTier.PRO,
+      receiptUsageThisMonth: 0,
+      usagePeriodStart: new Date('2024-01-01'),
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01'),
+    };
+
+    it("should act as the key's owner", async () => {
+      repository.findActiveAPIKeyByHash.mockResolvedValue(buildAPIKey());
+      authService.getUserProfile.mockResolvedValue(profile);
+
+      const result = await service.authenticate('rsk_test_key');
+
+      expect(repository.findActiveAPIKeyByHash).toHaveBeenCalledWith(hashAPIKey('rsk_test_key'));
+      expect(result?.user).toEqual({
+        uid: 'user123',
+        email: 'user@example.com',
+        role: UserRole.USER,
+        subscriptionTier: SubscriptionTier.PRO,
+      });
+      expect(repository.touchAPIKey).toHaveBeenCalledWith('key-1');
+    });
+
+    it('should not authenticate unknown keys', async () => {
+      repository.findActiveAPIKeyByHash.mockResolvedValue(null);
+
+      await expect(service.authenticate('rsk_test_key')).resolves.toBeNull();
+    });
+
+    it('should reject expired keys, including rotated keys past their grace period', async () => {
+      repository.findActiveAPIKeyByHash.mockResolvedValue(
+        buildAPIKey({ rotatedTo: 'key-2', expiresAt: new Date(Date.now() - 1000) })
+      );
+
+      await expect(service.authenticate('rsk_test_key')).rejects.toThrow('API key has expired');
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for API key usage counting
+ */
+
+import { ApiKeyUsageService } from '../../services/apiKeyUsage.service';
+import { ApiKeyUsageRepository } from '../../repositories/apiKeyUsage.repository';
+import { APIKeyUsageBucket, DEFAULT_API_KEY_RATE_LIMIT } from '../../models/apiKey.model';
+
+jest.mock('../../repositories/apiKeyUsage.repository');
+
+describe('ApiKeyUsageService', () => {
+  const now = new Date('2024-06-01T13:45:00Z');
+  let service: ApiKeyUsageService;
+  let repository: jest.Mocked<ApiKeyUsageRepository>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ApiKeyUsageService();
+    repository = jest.mocked(ApiKeyUsageRepository).mock.instances[
+      jest.mocked(ApiKeyUsageRepository).mock.instances.length - 1
+    ] as jest.Mocked<ApiKeyUsageRepository>;
+    repository.incrementUsage.mockResolvedValue(undefined);
+  });
+
+  it('should add buffered requests to hourly and daily buckets', async () => {
+    service.record('key-1', 'user123', false, now);
+    service.record('key-1', 'user123', false, now);
+    service.record('key-1', 'user123', true, now);
+    await service.flush();
+
+    expect(repository.incrementUsage).toHaveBeenCalledTimes(1);
+    expect(repository.incrementUsage.mock.calls[0][0]).toEqual([
+      {
+        apiKeyId: 'key-1',
+        userId: 'user123',
+        granularity: 'hour',
+        periodStart: new Date('2024-06-01T13:00:00Z'),
+        requests: 2,
+        rateLimited: 1,
+      },
+      {
+        apiKeyId: 'key-1',
+        userId: 'user123',
+        granularity: 'day',
+        periodStart: new Date('2024-06-01T00:00:00Z'),
+        requests: 2,
+        rateLimited: 1,
+      },
+    ]);
+  });
+
+  it('should not write when nothing was recorded', async () => {
+    await service.flush();
+
+    expect(repository.incrementUsage).not.toHaveBeenCalled();
+  });
+
+  it('should keep counts that fail to write for the next flush', async () => {
+    repository.incrementUsage.mockRejectedValueOnce(new Error('unavailable'));
+
+    service.record('key-1', 'user123', false, now);
+    await service.flush();
+    service.record('key-1', 'user123', false, now);
+    await service.flush();
+
+    expect(repository.incrementUsage).toHaveBeenCalledTimes(2);
+    const buckets = repository.incrementUsage.mock.calls[1][0];
+    expect(buckets.map((bucket) => bucket.requests)).toEqual([2, 2]);
+  });
+
+  it('should summarise the last 24 hours and 30 days', async () => {
+    const bucket = (granularity: 'hour' | 'day', periodStart: string, requests: number) =>
+      ({
+        apiKeyId: 'key-1',
+        userId: 'user123',
+        granularity,
+        periodStart: new Date(periodStart),
+        requests,
+        rateLimited: 1,
+      }) as APIKeyUsageBucket;
+    repository.getUsage.mockImplementation(async (_apiKeyId, granularity) =>
+      granularity === 'hour'
+        ? [bucket('hour', '2024-06-01T12:00:00Z', 3), bucket('hour', '2024-06-01T13:00:00Z', 4)]
+        : [bucket('day', '2024-05-31T00:00:00Z', 20), bucket('day', '2024-06-01T00:00:00Z', 7)]
+    );
+
+    const summary = await service.getUsageSummary('key-1', DEFAULT_API_KEY_RATE_LIMIT, now);
+
+    expect(repository.getUsage).toHaveBeenCalledWith(
+      'key-1',
+      'hour',
+      new Date('2024-05-31T14:00:00Z')
+    );
+    expect(repository.getUsage).toHaveBeenCalledWith(
+      'key-1',
+      'day',
+      new Date('2024-05-03T00:00:00Z')
+    );
+    expect(summary.last24Hours).toMatchObject({ requests: 7, rateLimited: 2 });
+    expect(summary.last24Hours.hourly).toHaveLength(2);
+    expect(summary.last30Days).toMatchObject({ requests: 27, rateLimited: 2 });
+    expect(summary.last30Days.daily[0]).toEqual({
+      periodStart: new Date('2024-05-31T00:00:00Z'),
+      requests: 20,
+      rateLimited: 1,
+    });
+  });
+});
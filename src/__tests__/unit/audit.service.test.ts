@@ -0,0 +1,103 @@
+/**
+ * Unit tests for audit log exports
+ */
+
+import {
+  AuditAction,
+  AuditLog,
+  AuditLogger,
+  MAX_AUDIT_EXPORT_ROWS,
+} from '../../services/audit.service';
+
+const buildLog = (index: number, overrides: Partial<AuditLog> = {}): AuditLog => ({
+  id: `log-${index}`,
+  timestamp: new Date(Date.UTC(2024, 0, 1, 0, 0, index)),
+  action: AuditAction.RECEIPT_CREATE,
+  userId: 'user123',
+  success: true,
+  ...overrides,
+});
+
+describe('AuditLogger.queryLogs', () => {
+  it('should reject filter combinations without an index', async () => {
+    const auditLogger = new AuditLogger();
+
+    await expect(
+      auditLogger.queryLogs({ ip: '203.0.113.1', requestId: 'req-1' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    await expect(
+      auditLogger.queryLogs({ actions: [AuditAction.AUTH_LOGIN], resourceId: 'receipt123' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
+
+describe('AuditLogger.exportLogs', () => {
+  let auditLogger: AuditLogger;
+  let queryLogs: jest.SpyInstance;
+
+  beforeEach(() => {
+    auditLogger = new AuditLogger();
+    queryLogs = jest.spyOn(auditLogger, 'queryLogs');
+  });
+
+  it('should page through matching logs until a short page', async () => {
+    const firstPage = Array.from({ length: 500 }, (_, i) => buildLog(i));
+    queryLogs.mockResolvedValueOnce(firstPage).mockResolvedValueOnce([buildLog(500)]);
+
+    const filters = { userId: 'user123' };
+    const result = await auditLogger.exportLogs(filters, 'json');
+
+    expect(queryLogs).toHaveBeenNthCalledWith(1, filters, 500, undefined);
+    expect(queryLogs).toHaveBeenNthCalledWith(2, filters, 500, 'log-499');
+    expect(result).toMatchObject({ count: 501, truncated: false });
+    expect(JSON.parse(result.content.toString())).toHaveLength(501);
+  });
+
+  it('should stop at the export limit and flag the export as truncated', async () => {
+    queryLogs.mockImplementation(async (_filters, limit: number) =>
+      Array.from({ length: limit }, (_, i) => buildLog(i))
+    );
+
+    const result = await auditLogger.exportLogs({}, 'json');
+
+    expect(result).toMatchObject({ count: MAX_AUDIT_EXPORT_ROWS, truncated: true });
+    expect(queryLogs).toHaveBeenCalledTimes(MAX_AUDIT_EXPORT_ROWS / 500 + 1);
+  });
+
+  it('should not flag an export that exactly reaches the limit', async () => {
+    let calls = 0;
+    queryLogs.mockImplementation(async (_filters, limit: number) =>
+      ++calls <= MAX_AUDIT_EXPORT_ROWS / 500
+        ? Array.from({ length: limit }, (_, i) => buildLog(i))
+        : []
+    );
+
+    const result = await auditLogger.exportLogs({}, 'json');
+
+    expect(result).toMatchObject({ count: MAX_AUDIT_EXPORT_ROWS, truncated: false });
+  });
+
+  it('should write one CSV row per log and neutralize formulas', async () => {
+    queryLogs.mockResolvedValueOnce([
+      buildLog(1, {
+        userAgent: '=HYPERLINK("http://evil.example")',
+        resource: { type: 'receipt', id: 'receipt123' },
+        metadata: { merchant: 'Cafe, "Downtown"' },
+      }),
+      buildLog(2, { action: AuditAction.AUTH_LOGIN, success: false, errorMessage: 'Failed' }),
+    ]);
+
+    const result = await auditLogger.exportLogs({}, 'csv');
+    const lines = result.content.toString().split('\n');
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toBe(
+      'Timestamp,Action,Success,User ID,User Email,API Key ID,IP,User Agent,Request ID,Resource Type,Resource ID,Error,Metadata'
+    );
+    expect(lines[1]).toContain(`'=HYPERLINK(""http://evil.example"")`);
+    expect(lines[1]).toContain('receipt,receipt123');
+    expect(lines[1]).toContain('"{""merchant"":""Cafe, \\""Downtown\\""""}"');
+    expect(lines[2]).toMatch(/^2024-01-01T00:00:02.000Z,auth.login,false,user123,/);
+    expect(lines[2]).toContain(',Failed,');
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for budget periods, thresholds and validation
+ */
+
+import { getBudgetPeriodRange, getCrossedThresholds } from '../../models/budget.model';
+import { createBudgetSchema, updateBudgetSchema } from '../../models/budget.validation';
+
+describe('getBudgetPeriodRange', () => {
+  const date = new Date(2024, 4, 15, 12, 0, 0);
+
+  it('should cover the calendar month', () => {
+    const range = getBudgetPeriodRange('monthly', date);
+
+    expect(range.key).toBe('2024-05');
+    expect(range.start).toEqual(new Date(2024, 4, 1, 0, 0, 0));
+    expect(range.end).toEqual(new Date(2024, 4, 31, 23, 59, 59));
+  });
+
+  it('should cover the calendar quarter', () => {
+    const range = getBudgetPeriodRange('quarterly', date);
+
+    expect(range.key).toBe('2024-Q2');
+    expect(range.start).toEqual(new Date(2024, 3, 1, 0, 0, 0));
+    expect(range.end).toEqual(new Date(2024, 5, 30, 23, 59, 59));
+  });
+
+  it('should cover the calendar year', () => {
+    const range = getBudgetPeriodRange('yearly', date);
+
+    expect(range.key).toBe('2024');
+    expect(range.start).toEqual(new Date(2024, 0, 1, 0, 0, 0));
+    expect(range.end).toEqual(new Date(2024, 11, 31, 23, 59, 59));
+  });
+
+  it('should end February on the leap day', () => {
+    expect(getBudgetPeriodRange('monthly', new Date(2024, 1, 10)).end).toEqual(
+      new Date(2024, 1, 29, 23, 59, 59)
+    );
+  });
+});
+
+describe('getCrossedThresholds', () => {
+  it('should return every threshold at or below the percentage spent', () => {
+    expect(getCrossedThresholds(49.99, 100)).toEqual([]);
+    expect(getCrossedThresholds(50, 100)).toEqual([50]);
+    expect(getCrossedThresholds(85, 100)).toEqual([50, 80]);
+    expect(getCrossedThresholds(120, 100)).toEqual([50, 80, 100]);
+  });
+});
+
+describe('budget validation', () => {
+  it('should accept built-in and custom categories', () => {
+    expect(
+      createBudgetSchema.parse({ category: 'Groceries', period: 'monthly', amount: 400 })
+    ).toEqual({ category: 'Groceries', period: 'monthly', amount: 400 });
+    expect(
+      createBudgetSchema.parse({ category: '  Pet Care ', period: 'yearly', amount: 1200 }).category
+    ).toBe('Pet Care');
+  });
+
+  it('should reject non-positive amounts and unknown periods', () => {
+    expect(() =>
+      createBudgetSchema.parse({ category: 'Groceries', period: 'monthly', amount: 0 })
+    ).toThrow('Budget amount must be positive');
+    expect(() =>
+      createBudgetSchema.parse({ category: 'Groceries', period: 'weekly', amount: 100 })
+    ).toThrow();
+  });
+
+  it('should require at least one field on update', () => {
+    expect(() => updateBudgetSchema.parse({})).toThrow(
+      'At least one field must be provided for update'
+    );
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Unit tests for budget status and threshold alerts
+ */
+
+import { BudgetService } from '../../services/budget.service';
+import { BudgetRepository } from '../../repositories/budget.repository';
+import { CategoryRepository } from '../../repositories/category.repository';
+import { AnalyticsService } from '../../services/analytics.service';
+import { AuthService } from '../../services/auth.service';
+import { Budget, BudgetAlert, BudgetAlertNotifier } from '../../models/budget.model';
+import { Category } from '../../models/category.model';
+
+jest.mock('../../repositories/budget.repository');
+jest.mock('../../repositories/category.repository');
+jest.mock('../../services/analytics.service');
+jest.mock('../../services/auth.service');
+
+const buildBudget = (overrides: Partial<Budget> = {}): Budget => ({
+  id: 'budget-1',
+  userId: 'user123',
+  category: 'Groceries',
+  period: 'monthly',
+  amount: 200,
+  currency: 'USD',
+  alertState: null,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  ...overrides,
+});
+
+const buildCategory = (overrides: Partial<Category>): Category => ({
+  id: 'category-1',
+  userId: 'user123',
+  name: 'Category',
+  nameKey: (overrides.name || 'Category').toLowerCase(),
+  parentId: null,
+  color: null,
+  icon: null,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  ...overrides,
+});
+
+describe('BudgetService', () => {
+  let service: BudgetService;
+  let repository: jest.Mocked<BudgetRepository>;
+  let categoryRepository: jest.Mocked<CategoryRepository>;
+  let analyticsService: jest.Mocked<AnalyticsService>;
+  let authService: jest.Mocked<AuthService>;
+  let notifier: jest.Mocked<BudgetAlertNotifier>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    notifier = { name: 'test', notify: jest.fn().mockResolvedValue(undefined) };
+    service = new BudgetService([notifier]);
+    repository = jest.mocked(BudgetRepository).mock.instances[0] as jest.Mocked<BudgetRepository>;
+    analyticsService = jest.mocked(AnalyticsService).mock
+      .instances[0] as jest.Mocked<AnalyticsService>;
+    authService = jest.mocked(AuthService).mock.instances[0] as jest.Mocked<AuthService>;
+
+    categoryRepository = jest.mocked(CategoryRepository).mock
+      .instances[0] as jest.Mocked<CategoryRepository>;
+
+    categoryRepository.getCategoriesByUserId.mockResolvedValue([]);
+    analyticsService.getCategorySpending.mockResolvedValue({ Groceries: 170, Dining: 20 });
+    repository.createAlert.mockImplementation(async (alert) => ({ id: 'alert-1', ...alert }));
+  });
+
+  it('should report spending against each budget', async () => {
+    repository.getBudgetsByUserId.mockResolvedValue([
+      buildBudget(),
+      buildBudget({ id: 'budget-2', category: 'Travel', amount: 500 }),
+    ]);
+
+    const statuses = await service.getBudgetStatus('user123', new Date(2024, 2, 10));
+
+    expect(statuses.map((status) => [status.spent, status.remaining, status.percentUsed])).toEqual([
+      [170, 30, 85],
+      [0, 500, 0],
+    ]);
+    expect(statuses[0].periodKey).toBe('2024-03');
+    expect(statuses[0].crossedThresholds).toEqual([50, 80]);
+    // Both budgets share a period and currency, so spending is fetched once
+    expect(analyticsService.getCategorySpending).toHaveBeenCalledTimes(1);
+  });
+
+  it('should alert once at the highest newly crossed threshold', async () => {
+    repository.getBudgetsByUserId.mockResolvedValue([buildBudget()]);
+    repository.updateAlertState.mockResolvedValue([50, 80]);
+
+    await service.onReceiptsChanged('user123', [{ category: 'Groceries', date: new Date() }]);
+
+    expect(repository.createAlert).toHaveBeenCalledTimes(1);
+    expect(repository.createAlert.mock.calls[0][0]).toMatchObject({ threshold: 80, spent: 170 });
+    expect(notifier.notify).toHaveBeenCalledWith(
+      expect.objectContaining<Partial<BudgetAlert>>({ id: 'alert-1', threshold: 80 })
+    );
+  });
+
+  it('should not alert for thresholds already reported this period', async () => {
+    repository.getBudgetsByUserId.mockResolvedValue([buildBudget()]);
+    repository.updateAlertState.mockResolvedValue([]);
+
+    await service.onReceiptsChanged('user123', [{ category: 'Groceries', date: new Date() }]);
+
+    expect(repository.createAlert).not.toHaveBeenCalled();
+    expect(notifier.notify).not.toHaveBeenCalled();
+  });
+
+  it('should ignore receipts in other categories or past periods', async () => {
+    repository.getBudgetsByUserId.mockResolvedValue([buildBudget()]);
+
+    await service.onReceiptsChanged('user123', [
+      { category: 'Dining', date: new Date() },
+      { category: 'Groceries', date: new Date(2000, 0, 1) },
+    ]);
+
+    expect(analyticsService.getCategorySpending).not.toHaveBeenCalled();
+    expect(repository.updateAlertState).not.toHaveBeenCalled();
+  });
+
+  it('should re-check a parent budget when a subcategory receipt changes', async () => {
+    repository.getBudgetsByUserId.mockResolvedValue([buildBudget({ category: 'Food' })]);
+    repository.updateAlertState.mockResolvedValue([]);
+    categoryRepository.getCategoriesByUserId.mockResolvedValue([
+      buildCategory({ id: 'food', name: 'Food' }),
+      buildCategory({ id: 'coffee', name: 'Coffee', parentId: 'food' }),
+    ]);
+
+    await service.onReceiptsChanged('user123', [{ category: 'Coffee', date: new Date() }]);
+
+    expect(repository.updateAlertState).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not fail the receipt change when alerts cannot be updated', async () => {
+    repository.getBudgetsByUserId.mockResolvedValue([buildBudget()]);
+    analyticsService.getCategorySpending.mockRejectedValue(new Error('Firestore unavailable'));
+
+    await expect(
+      service.onReceiptsChanged('user123', [{ category: 'Groceries', date: new Date() }])
+    ).resolves.toBeUndefined();
+  });
+
+  it('should default the currency to the home currency and reject duplicates', async () => {
+    repository.findBudget.mockResolvedValueOnce(null).mockResolvedValueOnce(buildBudget());
+    repository.createBudget.mockImplementation(async (userId, data) =>
+      buildBudget({ userId, ...data })
+    );
+    repository.updateAlertState.mockResolvedValue([]);
+    authService.getHomeCurrency.mockResolvedValue('EUR');
+
+    const budget = await service.createBudget('user123', {
+      category: 'Groceries',
+      period: 'monthly',
+      amount: 200,
+    });
+
+    expect(budget.currency).toBe('EUR');
+    await expect(
+      service.createBudget('user123', { category: 'Groceries', period: 'monthly', amount: 300 })
+    ).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Unit tests for category helpers and validation
+ */
+
+import { Category, normalizeCategoryKey, getParentNames } from '../../models/category.model';
+import { createCategorySchema, mergeCategoriesSchema } from '../../models/category.validation';
+
+const buildCategory = (id: string, name: string, parentId: string | null = null): Category => ({
+  id,
+  userId: 'user123',
+  name,
+  nameKey: normalizeCategoryKey(name),
+  parentId,
+  color: null,
+  icon: null,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+});
+
+describe('normalizeCategoryKey', () => {
+  it('should ignore case and extra whitespace', () => {
+    expect(normalizeCategoryKey('  Meals ')).toBe('meals');
+    expect(normalizeCategoryKey('Food  &   Dining')).toBe('food & dining');
+  });
+});
+
+describe('getParentNames', () => {
+  it('should map each child name to its parent name', () => {
+    const parentNames = getParentNames([
+      buildCategory('food', 'Food'),
+      buildCategory('coffee', 'Coffee', 'food'),
+      buildCategory('travel', 'Travel'),
+    ]);
+
+    expect(Array.from(parentNames.entries())).toEqual([['Coffee', 'Food']]);
+  });
+
+  it('should skip children whose parent no longer exists', () => {
+    expect(getParentNames([buildCategory('coffee', 'Coffee', 'deleted')]).size).toBe(0);
+  });
+});
+
+describe('category validation', () => {
+  it('should trim names and accept hex colours', () => {
+    expect(createCategorySchema.parse({ name: ' Coffee ', color: '#795548' })).toEqual({
+      name: 'Coffee',
+      color: '#795548',
+    });
+  });
+
+  it('should reject colours that are not hex', () => {
+    expect(() => createCategorySchema.parse({ name: 'Coffee', color: 'brown' })).toThrow(
+      'Color must be a hex colour like #4CAF50'
+    );
+  });
+
+  it('should require at least one merge source', () => {
+    expect(() => mergeCategoriesSchema.parse({ sources: [] })).toThrow();
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for category rename, merge and nesting rules
+ */
+
+import { CategoryService } from '../../services/category.service';
+import { CategoryRepository } from '../../repositories/category.repository';
+import { ReceiptRepository } from '../../repositories/receipt.repository';
+import { BudgetRepository } from '../../repositories/budget.repository';
+import { ParsingRuleRepository } from '../../repositories/parsingRule.repository';
+import { ReceiptRuleRepository } from '../../repositories/receiptRule.repository';
+import { Category, normalizeCategoryKey } from '../../models/category.model';
+
+jest.mock('../../repositories/category.repository');
+jest.mock('../../repositories/receipt.repository');
+jest.mock('../../repositories/budget.repository');
+jest.mock('../../repositories/parsingRule.repository');
+jest.mock('../../repositories/receiptRule.repository');
+
+const buildCategory = (id: string, name: string, parentId: string | null = null): Category => ({
+  id,
+  userId: 'user123',
+  name,
+  nameKey: normalizeCategoryKey(name),
+  parentId,
+  color: null,
+  icon: null,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+});
+
+describe('CategoryService', () => {
+  let service: CategoryService;
+  let categoryRepository: jest.Mocked<CategoryRepository>;
+  let receiptRepository: jest.Mocked<ReceiptRepository>;
+  let budgetRepository: jest.Mocked<BudgetRepository>;
+  let parsingRuleRepository: jest.Mocked<ParsingRuleRepository>;
+  let receiptRuleRepository: jest.Mocked<ReceiptRuleRepository>;
+  let categories: Category[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new CategoryService();
+    categoryRepository = jest.mocked(CategoryRepository).mock
+      .instances[0] as jest.Mocked<CategoryRepository>;
+    receiptRepository = jest.mocked(ReceiptRepository).mock
+      .instances[0] as jest.Mocked<ReceiptRepository>;
+    budgetRepository = jest.mocked(BudgetRepository).mock
+      .instances[0] as jest.Mocked<BudgetRepository>;
+    parsingRuleRepository = jest.mocked(ParsingRuleRepository).mock
+      .instances[0] as jest.Mocked<ParsingRuleRepository>;
+    receiptRuleRepository = jest.mocked(ReceiptRuleRepository).mock
+      .instances[0] as jest.Mocked<ReceiptRuleRepository>;
+
+    categories = [
+      buildCategory('food', 'Food'),
+      buildCategory('meals', 'Meals'),
+      buildCategory('coffee', 'Coffee', 'food'),
+    ];
+    categoryRepository.getCategoriesByUserId.mockImplementation(async () => categories);
+    categoryRepository.getCategoryById.mockImplementation(
+      async (id) => categories.find((category) => category.id === id) || null
+    );
+    categoryRepository.findByName.mockImplementation(
+      async (_userId, name) =>
+        categories.find((category) => category.nameKey === normalizeCategoryKey(name)) || null
+    );
+    categoryRepository.updateCategory.mockImplementation(async (id, updates) => ({
+      ...categories.find((category) => category.id === id)!,
+      ...updates,
+    }));
+    receiptRepository.reassignCategory.mockResolvedValue(12);
+    budgetRepository.reassignCategory.mockResolvedValue(1);
+    parsingRuleRepository.reassignCategory.mockResolvedValue(2);
+    receiptRuleRepository.reassignCategory.mockResolvedValue(1);
+  });
+
+  it('should rewrite receipts, budgets and rules before renaming', async () => {
+    const { category, updated } = await service.updateCategory('meals', 'user123', {
+      name: 'Dining Out',
+    });
+
+    expect(receiptRepository.reassignCategory).toHaveBeenCalledWith(
+      'user123',
+      'Meals',
+      'Dining Out'
+    );
+    expect(receiptRuleRepository.reassignCategory).toHaveBeenCalledWith(
+      'user123',
+      'Meals',
+      'Dining Out'
+    );
+    expect(updated).toEqual({ receipts: 12, budgets: 1, parsingRules: 2, receiptRules: 1 });
+    expect(category.name).toBe('Dining Out');
+  });
+
+  it('should refuse to rename onto another category', async () => {
+    await expect(
+      service.updateCategory('meals', 'user123', { name: 'food' })
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(receiptRepository.reassignCategory).not.toHaveBeenCalled();
+  });
+
+  it('should only nest one level deep', async () => {
+    await expect(
+      service.createCategory('user123', { name: 'Espresso', parentId: 'coffee' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    await expect(
+      service.updateCategory('food', 'user123', { parentId: 'meals' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('should merge names and category documents into the target', async () => {
+    const { updated } = await service.mergeCategories('food', 'user123', ['meals', 'Snacks']);
+
+    // "meals" matches the Meals document, so both spellings move
+    expect(receiptRepository.reassignCategory.mock.calls).toEqual([
+      ['user123', 'meals', 'Food'],
+      ['user123', 'Meals', 'Food'],
+      ['user123', 'Snacks', 'Food'],
+    ]);
+    expect(updated.receipts).toBe(36);
+    expect(receiptRuleRepository.reassignCategory.mock.calls).toEqual([
+      ['user123', 'meals', 'Food'],
+      ['user123', 'Meals', 'Food'],
+      ['user123', 'Snacks', 'Food'],
+    ]);
+    expect(updated.receiptRules).toBe(3);
+    expect(categoryRepository.reparentChildren).toHaveBeenCalledWith('user123', 'meals', 'food');
+    expect(categoryRepository.deleteCategory).toHaveBeenCalledWith('meals');
+    expect(categoryRepository.deleteCategory).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not delete a category that has subcategories', async () => {
+    await expect(service.deleteCategory('food', 'user123')).rejects.toMatchObject({
+      statusCode: 409,
+    });
+  });
+});
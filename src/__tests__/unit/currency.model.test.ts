@@ -0,0 +1,73 @@
+/**
+ * Unit tests for the currency registry
+ */
+
+import {
+  CURRENCY_CODES,
+  isCurrency,
+  getMinorUnits,
+  roundToMinorUnits,
+  formatDecimal,
+  formatMoney,
+  detectCurrency,
+} from '../../models/currency.model';
+
+describe('currency registry', () => {
+  it('should include currencies beyond the common ones', () => {
+    expect(CURRENCY_CODES).toEqual(expect.arrayContaining(['USD', 'INR', 'THB', 'KWD', 'ZAR']));
+  });
+
+  it('should leave out precious metals and testing codes', () => {
+    expect(isCurrency('XAU')).toBe(false);
+    expect(isCurrency('XTS')).toBe(false);
+    expect(isCurrency('usd')).toBe(false);
+  });
+
+  it('should know minor units per currency', () => {
+    expect(getMinorUnits('USD')).toBe(2);
+    expect(getMinorUnits('JPY')).toBe(0);
+    expect(getMinorUnits('KWD')).toBe(3);
+  });
+});
+
+describe('roundToMinorUnits', () => {
+  it("should round to the currency's precision", () => {
+    expect(roundToMinorUnits(10.005, 'EUR')).toBe(10.01);
+    expect(roundToMinorUnits(980.5, 'JPY')).toBe(981);
+    expect(roundToMinorUnits(1.2345, 'BHD')).toBe(1.235);
+  });
+});
+
+describe('formatting', () => {
+  it('should format plain decimals for CSV', () => {
+    expect(formatDecimal(1960, 'JPY')).toBe('1960');
+    expect(formatDecimal(12.5, 'EUR')).toBe('12.50');
+    expect(formatDecimal(3.1, 'KWD')).toBe('3.100');
+  });
+
+  it('should format money with symbols or codes', () => {
+    expect(formatMoney(1234.5, 'USD')).toBe('$1,234.50');
+    expect(formatMoney(1960, 'JPY')).toBe('¥1,960');
+    expect(formatMoney(1960, 'JPY', 'code')).toBe('JPY 1,960');
+  });
+});
+
+describe('detectCurrency', () => {
+  it('should prefer ISO codes next to an amount', () => {
+    expect(detectCurrency('Total $ 12.00 (CAD 12.00)')).toEqual({ value: 'CAD', confidence: 0.8 });
+    expect(detectCurrency('Total 1500 INR')).toEqual({ value: 'INR', confidence: 0.8 });
+  });
+
+  it('should ignore code-like words that are not next to an amount', () => {
+    expect(detectCurrency('ALL ITEMS FINAL\nTotal 5.00')).toBeNull();
+  });
+
+  it('should match the longest symbol first', () => {
+    expect(detectCurrency('Total R$ 45,90')).toEqual({ value: 'BRL', confidence: 0.6 });
+    expect(detectCurrency('Total ₹ 450.00')).toEqual({ value: 'INR', confidence: 0.6 });
+  });
+
+  it('should give ambiguous symbols lower confidence', () => {
+    expect(detectCurrency('Total $5.00')).toEqual({ value: 'USD', confidence: 0.4 });
+  });
+});
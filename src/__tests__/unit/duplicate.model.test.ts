@@ -0,0 +1,98 @@
+/**
+ * Unit tests for duplicate receipt matching
+ */
+
+import {
+  findDuplicateOriginal,
+  getMergeUpdates,
+  isSimilarMerchant,
+} from '../../models/duplicate.model';
+import { Receipt, ReceiptStatus } from '../../models/receipt.model';
+
+const buildReceipt = (id: string, overrides: Partial<Receipt> = {}): Receipt => ({
+  id,
+  userId: 'user123',
+  merchant: 'Starbucks',
+  date: new Date('2024-03-01T12:00:00Z'),
+  total: 12.5,
+  currency: 'USD',
+  category: 'Food & Dining',
+  tags: [],
+  lineItems: [],
+  status: ReceiptStatus.COMPLETED,
+  createdAt: new Date('2024-03-01T12:00:00Z'),
+  updatedAt: new Date('2024-03-01T12:00:00Z'),
+  ...overrides,
+});
+
+describe('Duplicate model', () => {
+  describe('isSimilarMerchant', () => {
+    it('should match names that differ by case, punctuation, a suffix or a typo', () => {
+      expect(isSimilarMerchant('STARBUCKS', 'starbucks')).toBe(true);
+      expect(isSimilarMerchant('Starbucks', 'Starbucks Coffee #123')).toBe(true);
+      expect(isSimilarMerchant('Whole Foods', 'Whole Fods')).toBe(true);
+    });
+
+    it('should not match different or empty names', () => {
+      expect(isSimilarMerchant('Starbucks', 'Target')).toBe(false);
+      expect(isSimilarMerchant('Bp', 'Bj')).toBe(false);
+      expect(isSimilarMerchant('', 'Starbucks')).toBe(false);
+    });
+  });
+
+  describe('findDuplicateOriginal', () => {
+    const receipt = buildReceipt('new', {
+      merchant: 'STARBUCKS COFFEE',
+      date: new Date('2024-03-02T09:00:00Z'),
+      createdAt: new Date('2024-03-05T00:00:00Z'),
+    });
+
+    it('should pick the earliest matching receipt', () => {
+      const candidates = [
+        buildReceipt('second', { createdAt: new Date('2024-03-03T00:00:00Z') }),
+        buildReceipt('first'),
+        receipt,
+      ];
+
+      expect(findDuplicateOriginal(receipt, candidates)).toBe('first');
+    });
+
+    it('should ignore receipts in another currency or outside the date window', () => {
+      const candidates = [
+        buildReceipt('eur', { currency: 'EUR' }),
+        buildReceipt('old', { date: new Date('2024-02-20T12:00:00Z') }),
+      ];
+
+      expect(findDuplicateOriginal(receipt, candidates)).toBeNull();
+    });
+
+    it('should link to the original of a match that is itself a duplicate', () => {
+      const copy = buildReceipt('copy', {
+        duplicate: {
+          originalId: 'first',
+          reason: 'identical_file',
+          status: 'pending',
+          detectedAt: new Date('2024-03-01T12:00:00Z'),
+        },
+      });
+
+      expect(findDuplicateOriginal(receipt, [copy])).toBe('first');
+    });
+  });
+
+  describe('getMergeUpdates', () => {
+    it('should only take over values the original is missing', () => {
+      const original = buildReceipt('r1', { tags: ['coffee'], tax: 1 });
+      const duplicate = buildReceipt('r2', {
+        tags: ['coffee', 'work'],
+        tax: 2,
+        lineItems: [{ description: 'Latte', quantity: 1, unitPrice: 12.5, total: 12.5 }],
+      });
+
+      expect(getMergeUpdates(original, duplicate)).toEqual({
+        tags: ['coffee', 'work'],
+        lineItems: duplicate.lineItems,
+      });
+    });
+  });
+});
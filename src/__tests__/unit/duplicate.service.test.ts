@@ -0,0 +1,178 @@
+/**
+ * Unit tests for duplicate receipt flagging
+ */
+
+import { DuplicateService } from '../../services/duplicate.service';
+import { FileStorageService } from '../../services/fileStorage.service';
+import { ReceiptRepository } from '../../repositories/receipt.repository';
+import { FileHashRepository } from '../../repositories/fileHash.repository';
+import { Receipt, ReceiptStatus } from '../../models/receipt.model';
+
+jest.mock('../../repositories/receipt.repository');
+jest.mock('../../repositories/fileHash.repository');
+jest.mock('../../services/fileStorage.service');
+
+const filePath = 'receipts/user123/r2/1704067200000-receipt.jpg';
+
+const buildReceipt = (id: string, overrides: Partial<Receipt> = {}): Receipt => ({
+  id,
+  userId: 'user123',
+  merchant: 'Starbucks',
+  date: new Date('2024-03-01T12:00:00Z'),
+  total: 12.5,
+  currency: 'USD',
+  category: 'Food & Dining',
+  tags: [],
+  lineItems: [],
+  status: ReceiptStatus.COMPLETED,
+  createdAt: new Date('2024-03-01T12:00:00Z'),
+  updatedAt: new Date('2024-03-01T12:00:00Z'),
+  duplicate: null,
+  ...overrides,
+});
+
+describe('DuplicateService', () => {
+  let service: DuplicateService;
+  let receiptRepository: jest.Mocked<ReceiptRepository>;
+  let fileHashRepository: jest.Mocked<FileHashRepository>;
+  let fileStorageService: jest.Mocked<FileStorageService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new DuplicateService();
+    receiptRepository = jest.mocked(ReceiptRepository).mock
+      .instances[0] as jest.Mocked<ReceiptRepository>;
+    fileHashRepository = jest.mocked(FileHashRepository).mock
+      .instances[0] as jest.Mocked<FileHashRepository>;
+    fileStorageService = jest.mocked(FileStorageService).mock
+      .instances[0] as jest.Mocked<FileStorageService>;
+    receiptRepository.setDuplicate.mockImplementation(async (receiptId, _userId, duplicate) =>
+      buildReceipt(receiptId, { duplicate })
+    );
+  });
+
+  it('should flag a receipt matching an earlier one within a day', async () => {
+    const receipt = buildReceipt('r2', {
+      merchant: 'Starbucks Coffee',
+      createdAt: new Date('2024-03-02T00:00:00Z'),
+    });
+    receiptRepository.getReceiptsByTotalAndDate.mockResolvedValue([buildReceipt('r1'), receipt]);
+
+    const result = await service.checkNearDuplicate(receipt);
+
+    expect(receiptRepository.getReceiptsByTotalAndDate).toHaveBeenCalledWith(
+      'user123',
+      12.5,
+      new Date('2024-02-29T12:00:00Z'),
+      new Date('2024-03-02T12:00:00Z')
+    );
+    expect(result.duplicate).toMatchObject({
+      originalId: 'r1',
+      reason: 'similar',
+      status: 'pending',
+    });
+  });
+
+  it('should leave dismissed receipts and unparsed placeholders alone', async () => {
+    await service.checkNearDuplicate(
+      buildReceipt('r2', {
+        duplicate: {
+          originalId: 'r1',
+          reason: 'similar',
+          status: 'dismissed',
+          detectedAt: new Date(),
+        },
+      })
+    );
+    await service.checkNearDuplicate(buildReceipt('r3', { merchant: '' }));
+
+    expect(receiptRepository.getReceiptsByTotalAndDate).not.toHaveBeenCalled();
+  });
+
+  it('should not flag an identical file whose original receipt is gone', async () => {
+    receiptRepository.getReceiptById.mockResolvedValue(null);
+
+    const receipt = buildReceipt('r2');
+    const result = await service.flagIdenticalFile(receipt, 'r1');
+
+    expect(result).toBe(receipt);
+    expect(receiptRepository.setDuplicate).not.toHaveBeenCalled();
+  });
+
+  it('should claim the file hash for the first receipt with the file', async () => {
+    fileStorageService.getFileMetadata.mockResolvedValue({ metadata: { contentHash: 'hash-1' } });
+    fileHashRepository.claimHash.mockResolvedValue(null);
+
+    const receipt = buildReceipt('r2', { imageUrl: filePath });
+    const result = await service.checkIdenticalFile(receipt);
+
+    expect(fileStorageService.getFileMetadata).toHaveBeenCalledWith(filePath);
+    expect(fileHashRepository.claimHash).toHaveBeenCalledWith('user123', 'hash-1', 'r2', filePath);
+    expect(result).toBe(receipt);
+  });
+
+  it('should flag a receipt whose file an earlier receipt already has', async () => {
+    fileHashRepository.claimHash.mockResolvedValue({
+      userId: 'user123',
+      hash: 'hash-1',
+      receiptId: 'r1',
+      filePath: 'receipts/user123/r1/receipt.jpg',
+      createdAt: new Date(),
+    });
+    receiptRepository.getReceiptById.mockResolvedValue(buildReceipt('r1'));
+
+    const result = await service.checkIdenticalFile(
+      buildReceipt('r2', { imageUrl: filePath }),
+      'hash-1'
+    );
+
+    expect(fileStorageService.getFileMetadata).not.toHaveBeenCalled();
+    expect(result.duplicate).toMatchObject({ originalId: 'r1', reason: 'identical_file' });
+  });
+
+  it('should take over the file hash of a receipt that no longer exists', async () => {
+    fileHashRepository.claimHash.mockResolvedValueOnce({
+      userId: 'user123',
+      hash: 'hash-1',
+      receiptId: 'gone',
+      filePath: 'receipts/user123/gone/receipt.jpg',
+      createdAt: new Date(),
+    });
+    fileHashRepository.claimHash.mockResolvedValueOnce(null);
+    receiptRepository.getReceiptById.mockResolvedValue(null);
+
+    const receipt = buildReceipt('r2', { imageUrl: filePath });
+    const result = await service.checkIdenticalFile(receipt, 'hash-1');
+
+    expect(fileHashRepository.claimHash).toHaveBeenLastCalledWith(
+      'user123',
+      'hash-1',
+      'r2',
+      filePath,
+      'gone'
+    );
+    expect(result).toBe(receipt);
+  });
+
+  it("should not check files outside the user's uploads", async () => {
+    fileStorageService.getFilePathFromUrl.mockReturnValue(null);
+
+    await service.checkIdenticalFile(
+      buildReceipt('r2', { imageUrl: 'https://example.com/receipt.jpg' })
+    );
+    await service.checkIdenticalFile(
+      buildReceipt('r3', { imageUrl: 'receipts/other-user/r3/receipt.jpg' })
+    );
+
+    expect(fileStorageService.getFileMetadata).not.toHaveBeenCalled();
+    expect(fileHashRepository.claimHash).not.toHaveBeenCalled();
+  });
+
+  it('should not fail the caller when flagging fails', async () => {
+    receiptRepository.getReceiptById.mockResolvedValue(buildReceipt('r1'));
+    receiptRepository.setDuplicate.mockRejectedValue(new Error('Firestore down'));
+
+    const receipt = buildReceipt('r2');
+    await expect(service.flagIdenticalFile(receipt, 'r1')).resolves.toBe(receipt);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for exchange rate helpers and validation
+ */
+
+import { toRateDate, getCrossRate, summarizeByCurrency } from '../../models/exchangeRate.model';
+import { exchangeRateImportSchema } from '../../models/exchangeRate.validation';
+
+describe('toRateDate', () => {
+  it('should use the UTC calendar day', () => {
+    expect(toRateDate(new Date('2024-01-15T23:30:00.000Z'))).toBe('2024-01-15');
+  });
+});
+
+describe('getCrossRate', () => {
+  const snapshot = { base: 'USD' as const, rates: { EUR: 0.9, BRL: 4.5 } };
+
+  it('should convert from and to the base currency', () => {
+    expect(getCrossRate(snapshot, 'USD', 'EUR')).toBe(0.9);
+    expect(getCrossRate(snapshot, 'EUR', 'USD')).toBeCloseTo(1.1111, 4);
+  });
+
+  it('should cross two quoted currencies through the base', () => {
+    expect(getCrossRate(snapshot, 'EUR', 'BRL')).toBe(5);
+  });
+
+  it('should return null for currencies the snapshot does not quote', () => {
+    expect(getCrossRate(snapshot, 'JPY', 'USD')).toBeNull();
+  });
+});
+
+describe('summarizeByCurrency', () => {
+  it('should subtotal each currency and keep unconverted receipts out of the converted amount', () => {
+    expect(
+      summarizeByCurrency(
+        [
+          { amount: 10, currency: 'EUR', convertedAmount: 11.004 },
+          { amount: 20, currency: 'EUR', convertedAmount: null },
+          { amount: 15.5, currency: 'USD', convertedAmount: 15.5 },
+        ],
+        'USD'
+      )
+    ).toEqual([
+      { currency: 'USD', amount: 15.5, count: 1, convertedAmount: 15.5, unconvertedCount: 0 },
+      { currency: 'EUR', amount: 30, count: 2, convertedAmount: 11, unconvertedCount: 1 },
+    ]);
+  });
+
+  it("should round converted amounts to the home currency's minor units", () => {
+    expect(
+      summarizeByCurrency([{ amount: 9.99, currency: 'USD', convertedAmount: 1498.6 }], 'JPY')[0]
+        .convertedAmount
+    ).toBe(1499);
+  });
+});
+
+describe('exchangeRateImportSchema', () => {
+  const snapshot = { date: '2024-01-02', base: 'USD', rates: { EUR: 0.9115 } };
+
+  it('should accept daily snapshots', () => {
+    expect(exchangeRateImportSchema.parse({ snapshots: [snapshot] }).snapshots[0].rates).toEqual({
+      EUR: 0.9115,
+    });
+  });
+
+  it('should reject unknown currencies and non-positive rates', () => {
+    expect(
+      exchangeRateImportSchema.safeParse({ snapshots: [{ ...snapshot, rates: { XYZ: 1 } }] })
+        .success
+    ).toBe(false);
+    expect(
+      exchangeRateImportSchema.safeParse({ snapshots: [{ ...snapshot, rates: { EUR: 0 } }] })
+        .success
+    ).toBe(false);
+  });
+
+  it('should reject dates that are not calendar days', () => {
+    expect(
+      exchangeRateImportSchema.safeParse({ snapshots: [{ ...snapshot, date: '2024-13-01' }] })
+        .success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for exchange rate conversion
+ */
+
+import { ExchangeRateService } from '../../services/exchangeRate.service';
+import { ExchangeRateRepository } from '../../repositories/exchangeRate.repository';
+
+jest.mock('../../repositories/exchangeRate.repository');
+
+describe('ExchangeRateService', () => {
+  let service: ExchangeRateService;
+  let repository: jest.Mocked<ExchangeRateRepository>;
+
+  beforeEach(() => {
+    service = new ExchangeRateService();
+    repository = jest.mocked(ExchangeRateRepository).mock
+      .instances[0] as jest.Mocked<ExchangeRateRepository>;
+
+    // Rates stored for the first of January and February, newest first
+    const snapshots = [
+      { date: '2024-02-01', base: 'USD' as const, rates: { EUR: 0.8 } },
+      { date: '2024-01-01', base: 'USD' as const, rates: { EUR: 0.5 } },
+    ];
+    repository.getSnapshotOnOrBefore.mockImplementation(async (date) => {
+      const snapshot = snapshots.find((candidate) => candidate.date <= date);
+      return snapshot ? { ...snapshot, source: null, updatedAt: new Date() } : null;
+    });
+  });
+
+  it('should convert at the rate of each receipt date', async () => {
+    const converted = await service.convertAmounts(
+      [
+        { amount: 10, currency: 'EUR', date: new Date('2024-01-20') },
+        { amount: 10, currency: 'EUR', date: new Date('2024-02-20') },
+      ],
+      'USD'
+    );
+
+    expect(converted).toEqual([20, 12.5]);
+  });
+
+  it('should look up each day once and skip amounts already in the target currency', async () => {
+    await service.convertAmounts(
+      [
+        { amount: 10, currency: 'EUR', date: new Date('2024-01-20') },
+        { amount: 5, currency: 'EUR', date: new Date('2024-01-20') },
+        { amount: 7, currency: 'USD', date: new Date('2024-01-21') },
+      ],
+      'USD'
+    );
+
+    expect(repository.getSnapshotOnOrBefore).toHaveBeenCalledTimes(1);
+    expect(repository.getSnapshotOnOrBefore).toHaveBeenCalledWith('2024-01-20');
+  });
+
+  it('should return null when no rate is known for the date', async () => {
+    const converted = await service.convertAmounts(
+      [
+        { amount: 10, currency: 'EUR', date: new Date('2023-12-31') },
+        { amount: 10, currency: 'JPY', date: new Date('2024-01-20') },
+      ],
+      'USD'
+    );
+
+    expect(converted).toEqual([null, null]);
+  });
+
+  it('should import snapshots with a shared update timestamp', async () => {
+    repository.saveSnapshots.mockResolvedValue();
+
+    const imported = await service.importSnapshots({
+      snapshots: [
+        { date: '2024-01-01', base: 'USD', rates: { EUR: 0.5 } },
+        { date: '2024-01-02', base: 'USD', rates: { EUR: 0.51 }, source: 'ECB' },
+      ],
+    });
+
+    expect(imported).toBe(2);
+    expect(repository.saveSnapshots).toHaveBeenCalledWith([
+      expect.objectContaining({ date: '2024-01-01', source: null }),
+      expect.objectContaining({ date: '2024-01-02', source: 'ECB' }),
+    ]);
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Unit tests for the job queue service with the in-memory job store
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { JobQueueService } from '../../services/jobQueue.service';
+import { InMemoryJobStore } from '../../repositories/job.repository';
+import { JobStatus, calculateBackoffDelay } from '../../models/job.model';
+
+const queueOptions = {
+  concurrency: 2,
+  pollIntervalMs: 1000,
+  maxAttempts: 3,
+  backoffBaseMs: 1000,
+  backoffMaxMs: 10000,
+  leaseMs: 60000,
+};
+
+describe('calculateBackoffDelay helper', () => {
+  it('should double the delay for each attempt', () => {
+    expect(calculateBackoffDelay(1, 1000, 60000)).toBe(1000);
+    expect(calculateBackoffDelay(2, 1000, 60000)).toBe(2000);
+    expect(calculateBackoffDelay(3, 1000, 60000)).toBe(4000);
+  });
+
+  it('should cap the delay at the maximum', () => {
+    expect(calculateBackoffDelay(10, 1000, 60000)).toBe(60000);
+  });
+});
+
+describe('JobQueueService', () => {
+  let store: InMemoryJobStore;
+  let queue: JobQueueService;
+  let idCounter: number;
+
+  beforeEach(() => {
+    idCounter = 0;
+    jest.mocked(uuidv4).mockImplementation((() => `job-${++idCounter}`) as typeof uuidv4);
+    store = new InMemoryJobStore();
+    queue = new JobQueueService(store, queueOptions);
+  });
+
+  /**
+   * Make every queued job due immediately, skipping backoff delays
+   */
+  const makeJobsDue = async (...jobIds: string[]) => {
+    for (const jobId of jobIds) {
+      await store.update(jobId, { runAt: new Date(0) });
+    }
+  };
+
+  it('should enqueue a job in queued status', async () => {
+    const job = await queue.enqueue('test.job', { value: 1 }, { userId: 'user123' });
+
+    expect(job.status).toBe(JobStatus.QUEUED);
+    expect(job.attempts).toBe(0);
+    expect(job.maxAttempts).toBe(3);
+    expect(job.userId).toBe('user123');
+    expect(await queue.getJob(job.id)).toMatchObject({ id: job.id, status: JobStatus.QUEUED });
+  });
+
+  it('should run a job and store its result', async () => {
+    queue.registerHandler<{ value: number }, number>('test.job', {
+      handle: async (job) => job.payload.value * 2,
+    });
+
+    const job = await queue.enqueue('test.job', { value: 21 });
+    await queue.poll();
+    await queue.drain();
+
+    const completed = await queue.getJob(job.id);
+    expect(completed?.status).toBe(JobStatus.COMPLETED);
+    expect(completed?.attempts).toBe(1);
+    expect(completed?.result).toBe(42);
+  });
+
+  it('should not run delayed jobs before they are due', async () => {
+    const handle = jest.fn().mockResolvedValue(null);
+    queue.registerHandler('test.job', { handle });
+
+    await queue.enqueue('test.job', {}, { delayMs: 60000 });
+
+    expect(await queue.poll()).toBe(0);
+    expect(handle).not.toHaveBeenCalled();
+  });
+
+  it('should respect the concurrency limit', async () => {
+    let release: () => void = () => undefined;
+    const blocker = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    queue.registerHandler('test.job', { handle: () => blocker });
+
+    await queue.enqueue('test.job', {});
+    await queue.enqueue('test.job', {});
+    await queue.enqueue('test.job', {});
+
+    expect(await queue.poll()).toBe(2);
+    expect(await queue.poll()).toBe(0);
+
+    release();
+    await queue.drain();
+
+    expect(await queue.poll()).toBe(1);
+    await queue.drain();
+  });
+
+  it('should schedule a retry with backoff after a failure', async () => {
+    queue.registerHandler('test.job', {
+      handle: jest.fn().mockRejectedValue(new Error('Temporary failure')),
+    });
+
+    const job = await queue.enqueue('test.job', {});
+    const before = Date.now();
+    await queue.poll();
+    await queue.drain();
+
+    const retried = await queue.getJob(job.id);
+    expect(retried?.status).toBe(JobStatus.QUEUED);
+    expect(retried?.attempts).toBe(1);
+    expect(retried?.lastError).toBe('Temporary failure');
+    expect(retried?.runAt.getTime()).toBeGreaterThanOrEqual(before + 1000);
+  });
+
+  it('should move a job to the dead-letter collection after the last attempt', async () => {
+    const onDeadLetter = jest.fn().mockResolvedValue(undefined);
+    queue.registerHandler('test.job', {
+      handle: jest.fn().mockRejectedValue(new Error('Permanent failure')),
+      onDeadLetter,
+    });
+
+    const job = await queue.enqueue('test.job', { value: 1 });
+
+    for (let attempt = 0; attempt < queueOptions.maxAttempts; attempt++) {
+      await makeJobsDue(job.id);
+      await queue.poll();
+      await queue.drain();
+    }
+
+    const dead = await queue.getJob(job.id);
+    expect(dead?.status).toBe(JobStatus.DEAD);
+    expect(dead?.attempts).toBe(3);
+
+    const deadLetters = await queue.listDeadLetters();
+    expect(deadLetters).toHaveLength(1);
+    expect(deadLetters[0]).toMatchObject({
+      id: job.id,
+      type: 'test.job',
+      payload: { value: 1 },
+      error: 'Permanent failure',
+    });
+    expect(onDeadLetter).toHaveBeenCalledTimes(1);
+  });
+
+  it('should dead-letter jobs without a registered handler', async () => {
+    const job = await queue.enqueue('unknown.job', {});
+    await queue.poll();
+    await queue.drain();
+
+    expect((await queue.getJob(job.id))?.status).toBe(JobStatus.DEAD);
+    expect(await queue.getDeadLetter(job.id)).toMatchObject({
+      error: 'No handler registered for job type: unknown.job',
+    });
+  });
+
+  it('should replay a dead-letter job with a fresh attempt budget', async () => {
+    const handle = jest.fn().mockRejectedValueOnce(new Error('Boom')).mockResolvedValue('ok');
+    queue.registerHandler('test.job', { handle });
+
+    const job = await queue.enqueue('test.job', {}, { maxAttempts: 1 });
+    await queue.poll();
+    await queue.drain();
+    expect((await queue.getJob(job.id))?.status).toBe(JobStatus.DEAD);
+
+    const replayed = await queue.replayDeadLetter(job.id);
+    expect(replayed.status).toBe(JobStatus.QUEUED);
+    expect(replayed.attempts).toBe(0);
+    expect(await queue.getDeadLetter(job.id)).toBeNull();
+
+    await queue.poll();
+    await queue.drain();
+
+    const completed = await queue.getJob(job.id);
+    expect(completed?.status).toBe(JobStatus.COMPLETED);
+    expect(completed?.result).toBe('ok');
+  });
+
+  it('should reclaim a running job once its lease expires', async () => {
+    const handle = jest.fn().mockResolvedValue('ok');
+    queue.registerHandler('test.job', { handle });
+
+    const job = await queue.enqueue('test.job', {});
+    // Another instance claims the job and stops before finishing it
+    const [claimed] = await store.claimDue(1, new Date(), queueOptions.leaseMs);
+    expect(claimed.leaseExpiresAt?.getTime()).toBe(
+      claimed.startedAt!.getTime() + queueOptions.leaseMs
+    );
+
+    expect(await queue.poll()).toBe(0);
+
+    await store.update(job.id, { leaseExpiresAt: new Date(0) });
+    expect(await queue.poll()).toBe(1);
+    await queue.drain();
+
+    const completed = await queue.getJob(job.id);
+    expect(completed?.status).toBe(JobStatus.COMPLETED);
+    expect(completed?.attempts).toBe(2);
+    expect(completed?.leaseExpiresAt).toBeNull();
+    expect(handle).toHaveBeenCalledTimes(1);
+  });
+
+  it('should dead-letter a job whose lease expired on the last attempt', async () => {
+    const handle = jest.fn().mockResolvedValue('ok');
+    queue.registerHandler('test.job', { handle });
+
+    const job = await queue.enqueue('test.job', {}, { maxAttempts: 1 });
+    await store.claimDue(1, new Date(), queueOptions.leaseMs);
+    await store.update(job.id, { leaseExpiresAt: new Date(0) });
+
+    await queue.poll();
+    await queue.drain();
+
+    expect(handle).not.toHaveBeenCalled();
+    expect((await queue.getJob(job.id))?.status).toBe(JobStatus.DEAD);
+    expect(await queue.getDeadLetter(job.id)).toMatchObject({
+      error: 'Job lease expired before the last attempt finished',
+    });
+  });
+
+  it('should drop the outcome of a worker whose job was reclaimed', async () => {
+    let release: (value: string) => void = () => undefined;
+    queue.registerHandler('test.job', {
+      handle: () => new Promise<string>((resolve) => (release = resolve)),
+    });
+
+    const job = await queue.enqueue('test.job', {});
+    await queue.poll();
+
+    // The lease runs out and another instance takes the job over
+    await store.update(job.id, { leaseExpiresAt: new Date(0) });
+    await store.claimDue(1, new Date(), queueOptions.leaseMs);
+
+    release('stale');
+    await queue.drain();
+
+    const reclaimed = await queue.getJob(job.id);
+    expect(reclaimed).toMatchObject({ status: JobStatus.RUNNING, attempts: 2, result: null });
+  });
+
+  it('should renew the lease while a job is running', async () => {
+    jest.useFakeTimers({ now: new Date('2024-06-01T00:00:00Z') });
+    try {
+      let release: () => void = () => undefined;
+      queue.registerHandler('test.job', {
+        handle: () => new Promise<void>((resolve) => (release = resolve)),
+      });
+
+      const job = await queue.enqueue('test.job', {});
+      await queue.poll();
+      const claimedUntil = (await queue.getJob(job.id))?.leaseExpiresAt?.getTime() ?? 0;
+
+      await jest.advanceTimersByTimeAsync(queueOptions.leaseMs / 2);
+
+      const renewedUntil = (await queue.getJob(job.id))?.leaseExpiresAt?.getTime() ?? 0;
+      expect(renewedUntil).toBeGreaterThan(claimedUntil);
+
+      release();
+      await queue.drain();
+      expect((await queue.getJob(job.id))?.status).toBe(JobStatus.COMPLETED);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should reject replaying an unknown dead-letter job', async () => {
+    await expect(queue.replayDeadLetter('missing')).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for OpenAI response validation, repair and warnings
+ */
+
+import OpenAI from 'openai';
+import config from '../../config';
+import { OpenAIService } from '../../services/openai.service';
+
+jest.mock('openai');
+
+const validResponse = {
+  merchant: 'Whole Foods Market',
+  date: '2024-01-15',
+  total: 8.25,
+  tax: 0.68,
+  currency: 'USD',
+  category: 'Food & Dining',
+  items: [{ description: 'Greek Yogurt', quantity: 1, unitPrice: 5.99, total: 5.99 }],
+  confidence: { merchant: 0.95, date: 0.9, total: 0.98, tax: 0.8, currency: 0.99, items: 0.8 },
+};
+
+const completion = (content: string) => ({ choices: [{ message: { content } }] });
+
+describe('OpenAIService', () => {
+  let create: jest.Mock;
+  let service: OpenAIService;
+
+  beforeEach(() => {
+    config.openai.apiKey = 'test-key';
+    create = jest.fn();
+    jest
+      .mocked(OpenAI)
+      .mockImplementation(() => ({ chat: { completions: { create } } }) as unknown as OpenAI);
+    service = new OpenAIService();
+  });
+
+  afterEach(() => {
+    config.openai.apiKey = '';
+  });
+
+  it('should request JSON output and map a valid response', async () => {
+    create.mockResolvedValue(completion(JSON.stringify(validResponse)));
+
+    const parsed = await service.parseReceipt('https://example.com/receipt.jpg');
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create.mock.calls[0][0].response_format).toEqual({ type: 'json_object' });
+    expect(parsed.merchant.value).toBe('Whole Foods Market');
+    expect(parsed.total).toMatchObject({ value: 8.25, confidence: 0.98 });
+    expect(parsed.warnings).toEqual([]);
+  });
+
+  it('should send validation errors back to the model for one repair pass', async () => {
+    create
+      .mockResolvedValueOnce(completion(JSON.stringify({ ...validResponse, total: '8.25' })))
+      .mockResolvedValueOnce(completion(JSON.stringify(validResponse)));
+
+    const parsed = await service.parseReceipt('https://example.com/receipt.jpg');
+
+    expect(create).toHaveBeenCalledTimes(2);
+    const repairMessages = create.mock.calls[1][0].messages;
+    expect(repairMessages[repairMessages.length - 1].content).toContain(
+      'total: Total must be a number'
+    );
+    expect(parsed.total.value).toBe(8.25);
+  });
+
+  it('should fail when the repaired response is still invalid', async () => {
+    create.mockResolvedValue(completion('not json'));
+
+    await expect(service.parseReceipt('https://example.com/receipt.jpg')).rejects.toThrow(
+      'Failed to parse OpenAI response: Response is not valid JSON'
+    );
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+
+  it('should record guessed values as warnings', async () => {
+    create.mockResolvedValue(
+      completion(
+        JSON.stringify({
+          ...validResponse,
+          currency: 'US$',
+          items: [{ total: 4 }],
+          confidence: undefined,
+        })
+      )
+    );
+
+    const parsed = await service.parseReceipt('https://example.com/receipt.jpg');
+
+    expect(parsed.currency).toMatchObject({ value: 'USD', confidence: 0.5 });
+    expect(parsed.lineItems[0]).toMatchObject({
+      description: 'Unknown item',
+      quantity: 1,
+      unitPrice: 4,
+    });
+    expect(parsed.warnings?.map((warning) => warning.field)).toEqual([
+      'confidence',
+      'currency',
+      'lineItems[0].description',
+      'lineItems[0].quantity',
+      'lineItems[0].unitPrice',
+    ]);
+  });
+
+  it('should accept missing header fields on later pages without warnings', async () => {
+    create.mockResolvedValue(
+      completion(JSON.stringify({ ...validResponse, merchant: null, date: null, total: null }))
+    );
+
+    const parsed = await service.parseText('Page two', { page: { number: 2, count: 2 } });
+
+    expect(parsed.merchant.confidence).toBe(0);
+    expect(parsed.total).toMatchObject({ value: 0, confidence: 0 });
+    expect(parsed.warnings).toEqual([]);
+  });
+});
@@ -9,9 +9,15 @@ import {
   ConfidentField,
   getConfidenceLevel,
   createConfidentField,
+  toReceiptUpdate,
+  toFieldConfidence,
+  applyFieldReview,
+  mergeParsedPages,
+  reconcileParsedReceipt,
   ParseReceiptRequest,
   ParseReceiptResponse,
 } from '../../models/parsedReceipt.model';
+import { FieldReviewStatus } from '../../models/receipt.model';
 
 describe('ParsedReceipt Models', () => {
   describe('ConfidenceLevel enum', () => {
@@ -260,4 +266,266 @@ describe('ParsedReceipt Models', () => {
       expect(response.source).toBe('google-vision');
     });
   });
+
+  describe('toReceiptUpdate helper', () => {
+    it('should map parsed values onto receipt fields', () => {
+      const date = new Date('2024-01-15');
+      const update = toReceiptUpdate({
+        merchant: createConfidentField('Test Store', 0.9),
+        date: createConfidentField(date, 0.9),
+        total: createConfidentField(21.6, 0.95),
+        tax: createConfidentField(1.6, 0.8),
+        currency: createConfidentField('EUR', 0.9),
+        category: createConfidentField('Food & Dining', 0.7),
+        lineItems: [
+          { description: 'Coffee', quantity: 2, unitPrice: 10, total: 20, confidence: 0.6 },
+        ],
+        overallConfidence: 0.85,
+      });
+
+      expect(update).toEqual({
+        merchant: 'Test Store',
+        date,
+        total: 21.6,
+        tax: 1.6,
+        currency: 'EUR',
+        category: 'Food & Dining',
+        lineItems: [{ description: 'Coffee', quantity: 2, unitPrice: 10, total: 20 }],
+      });
+    });
+
+    it('should omit optional fields that were not parsed', () => {
+      const update = toReceiptUpdate({
+        merchant: createConfidentField('Test Store', 0.9),
+        date: createConfidentField(new Date(), 0.9),
+        total: createConfidentField(10, 0.9),
+        currency: createConfidentField('USD', 0.9),
+        lineItems: [],
+        overallConfidence: 0.9,
+      });
+
+      expect(update).not.toHaveProperty('tax');
+      expect(update).not.toHaveProperty('category');
+      expect(update.lineItems).toEqual([]);
+    });
+  });
+
+  describe('toFieldConfidence helper', () => {
+    it('should flag only LOW confidence fields as pending review', () => {
+      const fieldConfidence = toFieldConfidence({
+        merchant: createConfidentField('Test Store', 0.9),
+        date: createConfidentField(new Date(), 0.3),
+        total: createConfidentField(10, 0.6),
+        currency: createConfidentField('USD', 0.9),
+        lineItems: [],
+        overallConfidence: 0.7,
+      });
+
+      expect(fieldConfidence.merchant).toEqual({
+        confidence: 0.9,
+        confidenceLevel: ConfidenceLevel.HIGH,
+        reviewStatus: null,
+        reviewedAt: null,
+      });
+      expect(fieldConfidence.date?.reviewStatus).toBe(FieldReviewStatus.PENDING);
+      expect(fieldConfidence.total?.reviewStatus).toBeNull();
+      expect(fieldConfidence).not.toHaveProperty('tax');
+      expect(fieldConfidence).not.toHaveProperty('lineItems');
+    });
+
+    it('should use the lowest line item confidence', () => {
+      const fieldConfidence = toFieldConfidence({
+        merchant: createConfidentField('Test Store', 0.9),
+        date: createConfidentField(new Date(), 0.9),
+        total: createConfidentField(10, 0.9),
+        currency: createConfidentField('USD', 0.9),
+        lineItems: [
+          { description: 'A', quantity: 1, unitPrice: 5, total: 5, confidence: 0.9 },
+          { description: 'B', quantity: 1, unitPrice: 5, total: 5, confidence: 0.4 },
+        ],
+        overallConfidence: 0.8,
+      });
+
+      expect(fieldConfidence.lineItems?.confidence).toBe(0.4);
+      expect(fieldConfidence.lineItems?.reviewStatus).toBe(FieldReviewStatus.PENDING);
+    });
+  });
+
+  describe('applyFieldReview helper', () => {
+    const pending = {
+      confidence: 0.3,
+      confidenceLevel: ConfidenceLevel.LOW,
+      reviewStatus: FieldReviewStatus.PENDING,
+      reviewedAt: null,
+    };
+
+    it('should mark accepted fields and keep their confidence', () => {
+      const reviewedAt = new Date('2024-01-20T10:00:00Z');
+      const updated = applyFieldReview(
+        { merchant: pending },
+        { accept: ['merchant'], corrections: {} },
+        reviewedAt
+      );
+
+      expect(updated.merchant).toEqual({
+        ...pending,
+        reviewStatus: FieldReviewStatus.ACCEPTED,
+        reviewedAt,
+      });
+    });
+
+    it('should mark corrected fields as fully confident', () => {
+      const updated = applyFieldReview(
+        { total: pending, date: pending },
+        { accept: [], corrections: { total: 42 } }
+      );
+
+      expect(updated.total).toMatchObject({
+        confidence: 1,
+        confidenceLevel: ConfidenceLevel.HIGH,
+        reviewStatus: FieldReviewStatus.CORRECTED,
+      });
+      expect(updated.date?.reviewStatus).toBe(FieldReviewStatus.PENDING);
+    });
+  });
+
+  describe('mergeParsedPages', () => {
+    const page = (overrides: Partial<ParsedReceipt>): ParsedReceipt => ({
+      merchant: createConfidentField('', 0),
+      date: createConfidentField(new Date('2024-03-01'), 0),
+      total: createConfidentField(0, 0),
+      currency: createConfidentField('EUR', 0.9),
+      lineItems: [],
+      overallConfidence: 0.5,
+      processingTime: 100,
+      ...overrides,
+    });
+    const item = (description: string, total: number): ParsedLineItem => ({
+      description,
+      quantity: 1,
+      unitPrice: total,
+      total,
+      confidence: 0.8,
+    });
+
+    const firstPage = page({
+      merchant: createConfidentField('ACME Supplies', 0.95),
+      date: createConfidentField(new Date('2024-02-28'), 0.9),
+      total: createConfidentField(30, 0.6), // Carried-forward subtotal
+      lineItems: [item('Paper', 10), item('Toner', 20)],
+    });
+    const lastPage = page({
+      total: createConfidentField(55, 0.9),
+      tax: createConfidentField(5, 0.8),
+      lineItems: [item('Stapler', 20)],
+    });
+
+    it('should keep line items from every page in order', () => {
+      const merged = mergeParsedPages([firstPage, lastPage]);
+
+      expect(merged.lineItems.map((lineItem) => lineItem.description)).toEqual([
+        'Paper',
+        'Toner',
+        'Stapler',
+      ]);
+      expect(merged.pageCount).toBe(2);
+      expect(merged.processingTime).toBe(200);
+    });
+
+    it('should take header fields from the most confident page', () => {
+      const merged = mergeParsedPages([firstPage, lastPage]);
+
+      expect(merged.merchant.value).toBe('ACME Supplies');
+      expect(merged.date.value).toEqual(new Date('2024-02-28'));
+      expect(merged.tax?.value).toBe(5);
+    });
+
+    it('should use the page total that matches the line items plus tax', () => {
+      expect(mergeParsedPages([firstPage, lastPage]).total.value).toBe(55);
+    });
+
+    it('should prefer a consistent total over a later inconsistent one', () => {
+      const merged = mergeParsedPages([
+        page({
+          total: createConfidentField(55, 0.9),
+          tax: createConfidentField(5, 0.8),
+          lineItems: [item('Desk', 50)],
+        }),
+        page({ total: createConfidentField(12.5, 0.9) }),
+      ]);
+
+      expect(merged.total.value).toBe(55);
+    });
+
+    it('should sum line items when no page has a total', () => {
+      const merged = mergeParsedPages([{ ...firstPage, total: createConfidentField(0, 0) }]);
+
+      expect(merged.total.value).toBe(30);
+      expect(merged.total.confidenceLevel).toBe(ConfidenceLevel.MEDIUM);
+    });
+
+    it('should reject an empty page list', () => {
+      expect(() => mergeParsedPages([])).toThrow('No pages to merge');
+    });
+  });
+
+  describe('reconcileParsedReceipt', () => {
+    const parsed: ParsedReceipt = {
+      merchant: createConfidentField('Whole Foods Market', 0.9),
+      date: createConfidentField(new Date('2024-01-15'), 0.9),
+      total: createConfidentField(8.25, 0.9),
+      tax: createConfidentField(0.68, 0.9),
+      currency: createConfidentField('USD', 0.9),
+      lineItems: [
+        { description: 'Bananas', quantity: 2, unitPrice: 0.79, total: 1.58, confidence: 0.8 },
+        { description: 'Yogurt', quantity: 1, unitPrice: 5.99, total: 5.99, confidence: 0.8 },
+      ],
+      overallConfidence: 0.88,
+    };
+
+    it('should leave consistent receipts unchanged', () => {
+      expect(reconcileParsedReceipt(parsed)).toEqual({ ...parsed, discrepancies: [] });
+    });
+
+    it('should lower total and line item confidence when they do not add up', () => {
+      const reconciled = reconcileParsedReceipt({
+        ...parsed,
+        total: createConfidentField(18.25, 0.9),
+      });
+
+      expect(reconciled.discrepancies?.map((discrepancy) => discrepancy.field)).toEqual(['total']);
+      expect(reconciled.total).toMatchObject({
+        confidence: 0.45,
+        confidenceLevel: ConfidenceLevel.LOW,
+      });
+      expect(reconciled.lineItems.map((item) => item.confidence)).toEqual([0.4, 0.4]);
+      expect(reconciled.tax?.confidence).toBe(0.9);
+      expect(reconciled.overallConfidence).toBeLessThan(parsed.overallConfidence);
+    });
+
+    it('should lower only the inconsistent line item', () => {
+      const reconciled = reconcileParsedReceipt({
+        ...parsed,
+        total: createConfidentField(13.24, 0.9),
+        lineItems: [parsed.lineItems[0], { ...parsed.lineItems[1], quantity: 2, total: 10.99 }],
+      });
+
+      expect(reconciled.discrepancies?.map((discrepancy) => discrepancy.field)).toEqual([
+        'lineItems[1].total',
+      ]);
+      expect(reconciled.lineItems.map((item) => item.confidence)).toEqual([0.8, 0.4]);
+      expect(reconciled.total.confidence).toBe(0.9);
+    });
+
+    it('should lower tax and total when tax exceeds the total', () => {
+      const reconciled = reconcileParsedReceipt({
+        ...parsed,
+        tax: createConfidentField(9, 0.9),
+        lineItems: [],
+      });
+
+      expect(reconciled.tax?.confidence).toBe(0.45);
+      expect(reconciled.total.confidence).toBe(0.45);
+    });
+  });
 });
@@ -2,7 +2,11 @@
  * Unit tests for parsed receipt validation schemas
  */
 
-import { parseReceiptRequestSchema } from '../../models/parsedReceipt.validation';
+import {
+  parseReceiptRequestSchema,
+  aiReceiptOutputSchema,
+  aiReceiptPageOutputSchema,
+} from '../../models/parsedReceipt.validation';
 
 describe('ParsedReceipt Validation Schemas', () => {
   describe('parseReceiptRequestSchema', () => {
@@ -58,4 +62,42 @@ describe('ParsedReceipt Validation Schemas', () => {
       expect(() => parseReceiptRequestSchema.parse(invalidRequest)).toThrow();
     });
   });
+
+  describe('aiReceiptOutputSchema', () => {
+    const output = {
+      merchant: 'Whole Foods Market',
+      date: '2024-01-15',
+      total: 8.25,
+      currency: 'USD',
+      items: [{ description: 'Greek Yogurt', total: 5.99 }],
+    };
+
+    it('should accept a complete model response', () => {
+      expect(aiReceiptOutputSchema.safeParse(output).success).toBe(true);
+    });
+
+    it('should reject amounts returned as strings', () => {
+      const result = aiReceiptOutputSchema.safeParse({ ...output, total: '8.25' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]).toMatchObject({
+        path: ['total'],
+        message: 'Total must be a number',
+      });
+    });
+
+    it('should reject invalid dates and confidence scores', () => {
+      expect(aiReceiptOutputSchema.safeParse({ ...output, date: 'yesterday' }).success).toBe(false);
+      expect(
+        aiReceiptOutputSchema.safeParse({ ...output, confidence: { total: 1.5 } }).success
+      ).toBe(false);
+    });
+
+    it('should require header fields only for complete receipts', () => {
+      const page = { ...output, merchant: null, date: null, total: null };
+
+      expect(aiReceiptOutputSchema.safeParse(page).success).toBe(false);
+      expect(aiReceiptPageOutputSchema.safeParse(page).success).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for parsing rule helpers
+ */
+
+import {
+  ParsingRule,
+  normalizeMerchantKey,
+  diffParsedValues,
+  toPromptHint,
+} from '../../models/parsingRule.model';
+
+describe('normalizeMerchantKey', () => {
+  it('should lowercase and collapse punctuation and whitespace', () => {
+    expect(normalizeMerchantKey('  WFM  #10234 ')).toBe('wfm 10234');
+    expect(normalizeMerchantKey("Trader Joe's")).toBe('trader joe s');
+  });
+
+  it('should keep non-latin letters', () => {
+    expect(normalizeMerchantKey('Café Müller')).toBe('café müller');
+  });
+});
+
+describe('diffParsedValues', () => {
+  const parsed = { merchant: 'WFM #10234', category: 'Other', currency: 'USD' as const };
+
+  it('should return only the fields the user changed', () => {
+    expect(
+      diffParsedValues(parsed, {
+        merchant: 'Whole Foods Market',
+        category: 'Other',
+        currency: 'USD',
+      })
+    ).toEqual({ merchant: 'Whole Foods Market' });
+  });
+
+  it('should ignore fields missing from the update', () => {
+    expect(diffParsedValues(parsed, { category: 'Groceries' })).toEqual({
+      category: 'Groceries',
+    });
+  });
+
+  it('should ignore whitespace-only merchant changes', () => {
+    expect(diffParsedValues(parsed, { merchant: ' WFM #10234 ' })).toEqual({});
+  });
+});
+
+describe('toPromptHint', () => {
+  const rule: ParsingRule = {
+    id: 'rule-1',
+    userId: 'user123',
+    merchantKey: 'wfm 10234',
+    parsedMerchant: 'WFM #10234',
+    merchant: 'Whole Foods Market',
+    category: 'Groceries',
+    currency: null,
+    corrections: 2,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-02'),
+  };
+
+  it('should describe every learned value', () => {
+    expect(toPromptHint(rule)).toBe(
+      'Receipts where the merchant reads "WFM #10234" are from merchant "Whole Foods Market", use category "Groceries".'
+    );
+  });
+
+  it('should include the learned currency', () => {
+    expect(toPromptHint({ ...rule, merchant: null, category: null, currency: 'EUR' })).toBe(
+      'Receipts where the merchant reads "WFM #10234" use currency EUR.'
+    );
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for PDF detection and validation
+ */
+
+import { Readable } from 'stream';
+import { PDFParse } from 'pdf-parse';
+import { PdfDocumentService } from '../../services/pdfDocument.service';
+import { FILE_UPLOAD_CONFIG } from '../../services/fileValidation.service';
+import { getStorage } from '../../config/firebase';
+
+jest.mock('../../config', () => {
+  const actual = jest.requireActual('../../config').default;
+  return {
+    __esModule: true,
+    default: { ...actual, firebase: { ...actual.firebase, storageBucket: 'receipts-bucket' } },
+  };
+});
+jest.mock('../../config/firebase', () => ({ getStorage: jest.fn() }));
+
+/**
+ * Helper function to serve one file from a mocked bucket
+ */
+const mockStoredFile = (data: Buffer, reportedSize = data.length) => {
+  const file = {
+    getMetadata: jest.fn(async () => [{ size: String(reportedSize) }]),
+    createReadStream: jest.fn(() => Readable.from([data.subarray(0, 4), data.subarray(4)])),
+  };
+  const bucket = { file: jest.fn(() => file) };
+  jest.mocked(getStorage).mockReturnValue({ bucket: () => bucket } as never);
+  return { bucket, file };
+};
+
+describe('PdfDocumentService', () => {
+  const service = new PdfDocumentService(5);
+
+  describe('isPdf', () => {
+    it('should detect PDF storage paths', () => {
+      expect(service.isPdf('receipts/user123/receipt-1/1704067200000-invoice.PDF')).toBe(true);
+      expect(service.isPdf('receipts/user123/receipt-1/1704067200000-receipt.jpg')).toBe(false);
+    });
+
+    it('should ignore the query string of signed URLs', () => {
+      expect(
+        service.isPdf(
+          'https://storage.googleapis.com/bucket/invoice%20march.pdf?X-Goog-Signature=abc'
+        )
+      ).toBe(true);
+      expect(service.isPdf('https://example.com/receipt.jpg?name=invoice.pdf')).toBe(false);
+    });
+  });
+
+  describe('fetchDocument', () => {
+    const pdf = Buffer.from('%PDF-1.4 receipt');
+
+    it("should download the user's own file by storage path or bucket URL", async () => {
+      const { bucket } = mockStoredFile(pdf);
+
+      await expect(
+        service.fetchDocument('receipts/user123/r1/invoice.pdf', 'user123')
+      ).resolves.toEqual(pdf);
+      await expect(
+        service.fetchDocument(
+          'https://storage.googleapis.com/receipts-bucket/receipts/user123/r1/invoice%20march.pdf?X-Goog-Signature=abc',
+          'user123'
+        )
+      ).resolves.toEqual(pdf);
+      expect(bucket.file).toHaveBeenLastCalledWith('receipts/user123/r1/invoice march.pdf');
+    });
+
+    it('should never fetch URLs outside the bucket or files of other users', async () => {
+      const { bucket } = mockStoredFile(pdf);
+      const fetchSpy = jest.spyOn(global, 'fetch');
+
+      for (const reference of [
+        'http://169.254.169.254/computeMetadata/v1/invoice.pdf',
+        'https://storage.googleapis.com/other-bucket/receipts/user123/invoice.pdf',
+        'https://storage.googleapis.com/receipts-bucket/receipts/user456/invoice.pdf',
+        'receipts/user123/../user456/invoice.pdf',
+      ]) {
+        await expect(service.fetchDocument(reference, 'user123')).rejects.toThrow(
+          'PDF receipts must be uploaded files'
+        );
+      }
+      expect(bucket.file).not.toHaveBeenCalled();
+      expect(fetchSpy).not.toHaveBeenCalled();
+      fetchSpy.mockRestore();
+    });
+
+    it('should stop downloading once a file passes the size limit', async () => {
+      mockStoredFile(pdf, FILE_UPLOAD_CONFIG.maxFileSize + 1);
+      await expect(
+        service.fetchDocument('receipts/user123/r1/invoice.pdf', 'user123')
+      ).rejects.toMatchObject({ statusCode: 413 });
+
+      // Metadata that understates the size is caught while streaming
+      mockStoredFile(Buffer.alloc(FILE_UPLOAD_CONFIG.maxFileSize + 1), 10);
+      await expect(
+        service.fetchDocument('receipts/user123/r1/invoice.pdf', 'user123')
+      ).rejects.toMatchObject({ statusCode: 413 });
+    });
+  });
+
+  describe('loadPages', () => {
+    it('should reject files that are not PDFs', async () => {
+      await expect(service.loadPages(Buffer.from('\x89PNG\r\n'))).rejects.toThrow(
+        'File is not a valid PDF'
+      );
+    });
+
+    it('should reject PDFs over the page limit before extracting any text', async () => {
+      jest.spyOn(PDFParse.prototype, 'getInfo').mockResolvedValue({ total: 6 } as never);
+      const getText = jest.spyOn(PDFParse.prototype, 'getText');
+
+      await expect(service.loadPages(Buffer.from('%PDF-1.4\n'))).rejects.toThrow(
+        'PDF has 6 pages; at most 5 are supported'
+      );
+      expect(getText).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Unit tests for the shared rate limit store
+ */
+
+import { Options } from 'express-rate-limit';
+import { SharedRateLimitStore } from '../../middleware/rateLimiter';
+import { securityStore } from '../../middleware/abuseDetection';
+import { AppError } from '../../middleware/errorHandler';
+
+jest.mock('../../config', () => ({
+  __esModule: true,
+  default: {
+    ...jest.requireActual('../../config').default,
+    securityStore: { driver: 'memory' },
+  },
+}));
+jest.mock('../../services/audit.service', () => ({
+  ...jest.requireActual('../../services/audit.service'),
+  auditLogger: { log: jest.fn(), logFromRequest: jest.fn() },
+}));
+
+describe('SharedRateLimitStore', () => {
+  let store: SharedRateLimitStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-06-01T00:00:00Z') });
+    store = new SharedRateLimitStore('test:');
+    store.init({ windowMs: 60000, limit: 2 } as Options);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('should count hits in the shared store', async () => {
+    await securityStore.incrementHits('test:203.0.113.1', 60000);
+
+    expect((await store.increment('203.0.113.1')).totalHits).toBe(2);
+  });
+
+  it('should keep limiting with local counts when the shared store fails', async () => {
+    jest
+      .spyOn(securityStore, 'incrementHits')
+      .mockRejectedValue(new AppError('Failed to increment rate limit hits', 500));
+
+    await store.increment('203.0.113.2');
+    await store.increment('203.0.113.2');
+
+    expect((await store.increment('203.0.113.2')).totalHits).toBe(3);
+  });
+
+  it('should not write to the shared store once a key is over the limit locally', async () => {
+    const incrementHits = jest.spyOn(securityStore, 'incrementHits');
+
+    await store.increment('203.0.113.3');
+    await store.increment('203.0.113.3');
+    const hits = await store.increment('203.0.113.3');
+
+    expect(hits.totalHits).toBe(3);
+    expect(incrementHits).toHaveBeenCalledTimes(2);
+  });
+
+  it('should still update the local count when the shared store fails to decrement or reset', async () => {
+    const error = new AppError('Failed to update rate limit hits', 500);
+    jest.spyOn(securityStore, 'decrementHits').mockRejectedValue(error);
+    jest.spyOn(securityStore, 'resetHits').mockRejectedValue(error);
+    jest.spyOn(securityStore, 'incrementHits').mockRejectedValue(error);
+
+    await store.increment('203.0.113.4');
+    await store.increment('203.0.113.4');
+    await expect(store.decrement('203.0.113.4')).resolves.toBeUndefined();
+    expect((await store.increment('203.0.113.4')).totalHits).toBe(2);
+
+    await expect(store.resetKey('203.0.113.4')).resolves.toBeUndefined();
+    expect((await store.increment('203.0.113.4')).totalHits).toBe(1);
+  });
+});
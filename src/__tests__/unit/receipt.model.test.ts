@@ -10,7 +10,14 @@ import {
   CreateReceiptDto,
   UpdateReceiptDto,
   Currency,
+  isValidStatusTransition,
+  getPendingReviewFields,
+  findArithmeticDiscrepancies,
+  FieldReviewStatus,
+  AttachmentRole,
+  attachmentsFromImageUrl,
 } from '../../models/receipt.model';
+import { ConfidenceLevel } from '../../models/parsedReceipt.model';
 
 describe('Receipt Models', () => {
   describe('ReceiptStatus enum', () => {
@@ -31,6 +38,137 @@ describe('Receipt Models', () => {
     });
   });
 
+  describe('isValidStatusTransition helper', () => {
+    it('should allow the parsing lifecycle transitions', () => {
+      expect(isValidStatusTransition(ReceiptStatus.PENDING, ReceiptStatus.PROCESSING)).toBe(true);
+      expect(isValidStatusTransition(ReceiptStatus.PROCESSING, ReceiptStatus.COMPLETED)).toBe(true);
+      expect(isValidStatusTransition(ReceiptStatus.PROCESSING, ReceiptStatus.FAILED)).toBe(true);
+    });
+
+    it('should allow re-parsing completed and failed receipts', () => {
+      expect(isValidStatusTransition(ReceiptStatus.FAILED, ReceiptStatus.PROCESSING)).toBe(true);
+      expect(isValidStatusTransition(ReceiptStatus.COMPLETED, ReceiptStatus.PROCESSING)).toBe(true);
+    });
+
+    it('should reject skipping the processing state', () => {
+      expect(isValidStatusTransition(ReceiptStatus.PENDING, ReceiptStatus.COMPLETED)).toBe(false);
+      expect(isValidStatusTransition(ReceiptStatus.FAILED, ReceiptStatus.COMPLETED)).toBe(false);
+      expect(isValidStatusTransition(ReceiptStatus.COMPLETED, ReceiptStatus.PENDING)).toBe(false);
+    });
+  });
+
+  describe('getPendingReviewFields helper', () => {
+    it('should list only fields pending review', () => {
+      const field = (reviewStatus: FieldReviewStatus | null) => ({
+        confidence: 0.4,
+        confidenceLevel: ConfidenceLevel.LOW,
+        reviewStatus,
+        reviewedAt: null,
+      });
+
+      expect(
+        getPendingReviewFields({
+          merchant: field(FieldReviewStatus.PENDING),
+          date: field(FieldReviewStatus.ACCEPTED),
+          total: field(null),
+          tax: field(FieldReviewStatus.PENDING),
+        })
+      ).toEqual(['merchant', 'tax']);
+    });
+
+    it('should return an empty list without confidence data', () => {
+      expect(getPendingReviewFields(null)).toEqual([]);
+      expect(getPendingReviewFields(undefined)).toEqual([]);
+    });
+  });
+
+  describe('findArithmeticDiscrepancies helper', () => {
+    const lineItems: LineItem[] = [
+      { description: 'Bananas', quantity: 2, unitPrice: 0.79, total: 1.58 },
+      { description: 'Yogurt', quantity: 1, unitPrice: 5.99, total: 5.99 },
+    ];
+
+    it('should accept totals with or without tax', () => {
+      expect(findArithmeticDiscrepancies({ total: 8.25, tax: 0.68, lineItems })).toEqual([]);
+      expect(findArithmeticDiscrepancies({ total: 7.57, tax: 0.68, lineItems })).toEqual([]);
+    });
+
+    it('should report a total that does not match the line items', () => {
+      expect(findArithmeticDiscrepancies({ total: 12.25, tax: 0.68, lineItems })).toEqual([
+        {
+          field: 'total',
+          expected: 8.25,
+          actual: 12.25,
+          message: 'Total 12.25 does not equal line items 7.57 plus tax 0.68',
+        },
+      ]);
+    });
+
+    it('should report line items whose quantity and unit price disagree', () => {
+      const discrepancies = findArithmeticDiscrepancies({
+        lineItems: [lineItems[0], { ...lineItems[1], quantity: 2 }],
+      });
+
+      expect(discrepancies).toHaveLength(1);
+      expect(discrepancies[0]).toMatchObject({
+        field: 'lineItems[1].total',
+        expected: 11.98,
+        actual: 5.99,
+      });
+    });
+
+    it('should report tax higher than the total', () => {
+      expect(findArithmeticDiscrepancies({ total: 5, tax: 6 })[0]).toMatchObject({
+        field: 'tax',
+        expected: 5,
+        actual: 6,
+      });
+    });
+
+    it("should allow one of the currency's minor units of rounding per item", () => {
+      const yenItems: LineItem[] = [
+        { description: 'Ramen', quantity: 1, unitPrice: 1000, total: 1000 },
+      ];
+
+      expect(
+        findArithmeticDiscrepancies({ total: 1101, tax: 100, currency: 'JPY', lineItems: yenItems })
+      ).toEqual([]);
+      expect(
+        findArithmeticDiscrepancies({ total: 1101, tax: 100, currency: 'USD', lineItems: yenItems })
+      ).toHaveLength(1);
+    });
+
+    it('should skip checks without the amounts they need', () => {
+      expect(findArithmeticDiscrepancies({ tax: 6 })).toEqual([]);
+      expect(findArithmeticDiscrepancies({ total: 100 })).toEqual([]);
+    });
+  });
+
+  describe('attachmentsFromImageUrl helper', () => {
+    it('should describe a stored image as the front attachment', () => {
+      expect(attachmentsFromImageUrl('receipts/user123/r1/1700000000-receipt.PDF')).toEqual([
+        {
+          id: 'primary',
+          path: 'receipts/user123/r1/1700000000-receipt.PDF',
+          mimeType: 'application/pdf',
+          size: null,
+          role: AttachmentRole.FRONT,
+        },
+      ]);
+    });
+
+    it('should fall back to a generic MIME type for unknown extensions', () => {
+      expect(attachmentsFromImageUrl('https://example.com/receipt?id=1')[0].mimeType).toBe(
+        'application/octet-stream'
+      );
+    });
+
+    it('should return no attachments without an image', () => {
+      expect(attachmentsFromImageUrl(undefined)).toEqual([]);
+      expect(attachmentsFromImageUrl(null)).toEqual([]);
+    });
+  });
+
   describe('ReceiptCategory enum', () => {
     it('should have correct category values', () => {
       expect(ReceiptCategory.FOOD_DINING).toBe('Food & Dining');
@@ -0,0 +1,531 @@
+/**
+ * Unit tests for the receipt trash (restore, purge, retention sweep), edit history, bulk
+ * operations, duplicate resolution and attachments
+ */
+
+import { ReceiptService } from '../../services/receipt.service';
+import { TrashRetentionService } from '../../services/trashRetention.service';
+import { ReceiptRepository } from '../../repositories/receipt.repository';
+import { ReceiptVersionRepository } from '../../repositories/receiptVersion.repository';
+import { FileStorageService } from '../../services/fileStorage.service';
+import { UploadService } from '../../services/upload.service';
+import { BudgetService } from '../../services/budget.service';
+import { AttachmentRole, Receipt, ReceiptStatus } from '../../models/receipt.model';
+import { AppError } from '../../middleware/errorHandler';
+
+jest.mock('../../repositories/receipt.repository');
+jest.mock('../../repositories/receiptVersion.repository');
+jest.mock('../../services/fileStorage.service');
+jest.mock('../../services/budget.service');
+jest.mock('../../services/receiptRule.service');
+jest.mock('../../services/parsingRule.service');
+jest.mock('../../services/auth.service');
+jest.mock('../../services/exchangeRate.service');
+jest.mock('../../services/search.service');
+jest.mock('../../services/duplicate.service');
+jest.mock('../../services/upload.service');
+
+const buildReceipt = (id: string, overrides: Partial<Receipt> = {}): Receipt => ({
+  id,
+  userId: 'user123',
+  merchant: 'Starbucks',
+  date: new Date('2024-03-01'),
+  total: 12,
+  currency: 'USD',
+  category: 'Food & Dining',
+  tags: [],
+  lineItems: [],
+  imageUrl: `receipts/user123/${id}/1700000000-receipt.jpg`,
+  status: ReceiptStatus.COMPLETED,
+  createdAt: new Date('2024-03-01'),
+  updatedAt: new Date('2024-03-01'),
+  deletedAt: new Date('2024-03-02'),
+  ...overrides,
+});
+
+describe('ReceiptService trash', () => {
+  let service: ReceiptService;
+  let receiptRepository: jest.Mocked<ReceiptRepository>;
+  let fileStorageService: jest.Mocked<FileStorageService>;
+  let budgetService: jest.Mocked<BudgetService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ReceiptService();
+    receiptRepository = jest.mocked(ReceiptRepository).mock
+      .instances[0] as jest.Mocked<ReceiptRepository>;
+    fileStorageService = jest.mocked(FileStorageService).mock
+      .instances[0] as jest.Mocked<FileStorageService>;
+    budgetService = jest.mocked(BudgetService).mock.instances[0] as jest.Mocked<BudgetService>;
+
+    fileStorageService.listFiles.mockImplementation(async (prefix) => [
+      `${prefix}1700000000-receipt.jpg`,
+    ]);
+    fileStorageService.generateSignedUrl.mockResolvedValue('https://signed.example.com');
+  });
+
+  it('should re-check budgets when a receipt is restored', async () => {
+    const restored = buildReceipt('r1', { deletedAt: null });
+    receiptRepository.restoreReceipt.mockResolvedValue(restored);
+
+    await service.restoreReceipt('r1', 'user123');
+
+    expect(budgetService.onReceiptsChanged).toHaveBeenCalledWith('user123', [restored]);
+  });
+
+  it('should delete the stored files before purging the receipt', async () => {
+    const receipt = buildReceipt('r1');
+    receiptRepository.getDeletedReceiptById.mockResolvedValue(receipt);
+
+    await service.purgeReceipt('r1', 'user123');
+
+    expect(fileStorageService.listFiles).toHaveBeenCalledWith('receipts/user123/r1/');
+    expect(fileStorageService.deleteFile).toHaveBeenCalledTimes(1);
+    expect(fileStorageService.deleteFile).toHaveBeenCalledWith(
+      'receipts/user123/r1/1700000000-receipt.jpg'
+    );
+    expect(receiptRepository.purgeReceipt).toHaveBeenCalledWith(receipt);
+  });
+
+  it("should not delete files outside the owner's folder", async () => {
+    receiptRepository.getDeletedReceiptById.mockResolvedValue(
+      buildReceipt('r1', { imageUrl: 'receipts/other-user/r9/photo.jpg' })
+    );
+
+    await service.purgeReceipt('r1', 'user123');
+
+    expect(fileStorageService.deleteFile).not.toHaveBeenCalledWith(
+      'receipts/other-user/r9/photo.jpg'
+    );
+  });
+
+  it('should keep the receipt when its files cannot be deleted', async () => {
+    receiptRepository.getDeletedReceiptById.mockResolvedValue(buildReceipt('r1'));
+    fileStorageService.deleteFile.mockRejectedValue(
+      new AppError('Failed to delete file from storage', 500)
+    );
+
+    await expect(service.purgeReceipt('r1', 'user123')).rejects.toThrow(
+      'Failed to delete file from storage'
+    );
+    expect(receiptRepository.purgeReceipt).not.toHaveBeenCalled();
+  });
+
+  it('should only purge receipts that are in the trash', async () => {
+    receiptRepository.getDeletedReceiptById.mockResolvedValue(null);
+
+    await expect(service.purgeReceipt('r1', 'user123')).rejects.toThrow(
+      'Receipt not found in trash'
+    );
+  });
+
+  it('should purge receipts deleted before the retention cutoff', async () => {
+    receiptRepository.getExpiredDeletedReceipts.mockResolvedValue([
+      buildReceipt('r1'),
+      buildReceipt('r2'),
+    ]);
+    fileStorageService.deleteFile
+      .mockRejectedValueOnce(new AppError('Failed to delete file from storage', 500))
+      .mockResolvedValue(undefined);
+
+    const sweeper = new TrashRetentionService(service, {
+      retentionDays: 30,
+      sweepIntervalMs: 60000,
+    });
+    const purged = await sweeper.sweep(new Date('2024-05-01T00:00:00Z'));
+
+    expect(receiptRepository.getExpiredDeletedReceipts).toHaveBeenCalledWith(
+      new Date('2024-04-01T00:00:00Z'),
+      100
+    );
+    expect(purged).toBe(1);
+    expect(receiptRepository.purgeReceipt).toHaveBeenCalledTimes(1);
+    expect(receiptRepository.purgeReceipt).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'r2' })
+    );
+  });
+});
+
+describe('ReceiptService history', () => {
+  let service: ReceiptService;
+  let receiptRepository: jest.Mocked<ReceiptRepository>;
+  let versionRepository: jest.Mocked<ReceiptVersionRepository>;
+  let budgetService: jest.Mocked<BudgetService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ReceiptService();
+    receiptRepository = jest.mocked(ReceiptRepository).mock
+      .instances[0] as jest.Mocked<ReceiptRepository>;
+    versionRepository = jest.mocked(ReceiptVersionRepository).mock
+      .instances[0] as jest.Mocked<ReceiptVersionRepository>;
+    budgetService = jest.mocked(BudgetService).mock.instances[0] as jest.Mocked<BudgetService>;
+  });
+
+  it('should list the history of a receipt in the trash', async () => {
+    receiptRepository.getReceiptById.mockResolvedValue(null);
+    receiptRepository.getDeletedReceiptById.mockResolvedValue(buildReceipt('r1'));
+    versionRepository.getVersions.mockResolvedValue([]);
+
+    await service.listHistory('r1', 'user123', 20, 5);
+
+    expect(versionRepository.getVersions).toHaveBeenCalledWith('r1', 20, 5);
+  });
+
+  it('should restore the snapshot of a version and record it as a revert', async () => {
+    const current = buildReceipt('r1', { deletedAt: null, total: 45, tax: 3, imageUrl: undefined });
+    receiptRepository.getReceiptById.mockResolvedValue(current);
+    receiptRepository.updateReceipt.mockResolvedValue({ ...current, total: 42.5 });
+    versionRepository.getVersion.mockResolvedValue({
+      id: 'r1:2',
+      receiptId: 'r1',
+      userId: 'user123',
+      version: 2,
+      source: 'user',
+      changedBy: 'user123',
+      changes: [{ field: 'total', from: 40, to: 42.5 }],
+      snapshot: {
+        merchant: 'Starbucks',
+        date: new Date('2024-03-01'),
+        total: 42.5,
+        tax: null,
+        currency: 'USD',
+        category: 'Food & Dining',
+        tags: [],
+        lineItems: [],
+        imageUrl: null,
+        attachments: null,
+        notes: null,
+      },
+      revertedFrom: null,
+      createdAt: new Date('2024-03-02'),
+    });
+
+    await service.revertReceipt('r1', 'user123', 2);
+
+    expect(receiptRepository.updateReceipt).toHaveBeenCalledWith(
+      'r1',
+      'user123',
+      expect.objectContaining({
+        total: 42.5,
+        tax: undefined,
+        currency: 'USD',
+        attachments: [],
+        notes: null,
+      }),
+      { source: 'revert', changedBy: 'user123', revertedFrom: 2 }
+    );
+    expect(budgetService.onReceiptsChanged).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject an unknown version', async () => {
+    receiptRepository.getReceiptById.mockResolvedValue(buildReceipt('r1', { deletedAt: null }));
+    versionRepository.getVersion.mockResolvedValue(null);
+
+    await expect(service.revertReceipt('r1', 'user123', 9)).rejects.toThrow(
+      'Receipt version not found'
+    );
+    expect(receiptRepository.updateReceipt).not.toHaveBeenCalled();
+  });
+});
+
+describe('ReceiptService bulk operations', () => {
+  let service: ReceiptService;
+  let receiptRepository: jest.Mocked<ReceiptRepository>;
+  let budgetService: jest.Mocked<BudgetService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ReceiptService();
+    receiptRepository = jest.mocked(ReceiptRepository).mock
+      .instances[0] as jest.Mocked<ReceiptRepository>;
+    budgetService = jest.mocked(BudgetService).mock.instances[0] as jest.Mocked<BudgetService>;
+  });
+
+  it('should apply the operation to every page of receipts matching the filter', async () => {
+    receiptRepository.getReceiptsByUserId
+      .mockResolvedValueOnce({
+        receipts: [buildReceipt('r1', { deletedAt: null })],
+        total: 2,
+        limit: 100,
+        hasMore: true,
+        nextCursor: 'r1',
+      })
+      .mockResolvedValueOnce({
+        receipts: [buildReceipt('r2', { deletedAt: null })],
+        total: 2,
+        limit: 100,
+        hasMore: false,
+      });
+    receiptRepository.bulkUpdateReceipts.mockResolvedValue({
+      results: [
+        { receiptId: 'r1', status: 'updated' },
+        { receiptId: 'r2', status: 'failed', error: 'Failed to update receipt' },
+      ],
+      changed: [
+        {
+          previous: buildReceipt('r1', { deletedAt: null }),
+          updated: buildReceipt('r1', { deletedAt: null, category: 'Travel' }),
+        },
+      ],
+    });
+
+    const result = await service.bulkUpdateReceipts('user123', {
+      filter: { merchant: 'Starbucks' },
+      operation: { type: 'categorize', category: 'Travel' },
+    });
+
+    expect(receiptRepository.getReceiptsByUserId).toHaveBeenLastCalledWith(
+      expect.objectContaining({ userId: 'user123', merchant: 'Starbucks', startAfter: 'r1' })
+    );
+    expect(receiptRepository.bulkUpdateReceipts).toHaveBeenCalledWith('user123', ['r1', 'r2'], {
+      type: 'categorize',
+      category: 'Travel',
+    });
+    expect(result).toEqual(
+      expect.objectContaining({ matched: 2, updated: 1, unchanged: 0, failed: 1 })
+    );
+    expect(budgetService.onReceiptsChanged).toHaveBeenCalledWith('user123', [
+      expect.objectContaining({ category: 'Food & Dining' }),
+      expect.objectContaining({ category: 'Travel' }),
+    ]);
+  });
+
+  it('should reject a filter matching too many receipts', async () => {
+    receiptRepository.getReceiptsByUserId.mockResolvedValue({
+      receipts: [],
+      total: 1001,
+      limit: 100,
+      hasMore: true,
+      nextCursor: 'r100',
+    });
+
+    await expect(
+      service.bulkUpdateReceipts('user123', { filter: {}, operation: { type: 'delete' } })
+    ).rejects.toThrow('bulk operations are limited to 1000');
+    expect(receiptRepository.bulkUpdateReceipts).not.toHaveBeenCalled();
+  });
+});
+
+describe('ReceiptService duplicates', () => {
+  let service: ReceiptService;
+  let receiptRepository: jest.Mocked<ReceiptRepository>;
+
+  const original = buildReceipt('r1', { deletedAt: null, tags: ['coffee'] });
+  const duplicate = buildReceipt('r2', {
+    deletedAt: null,
+    tags: ['work'],
+    tax: 1.2,
+    duplicate: {
+      originalId: 'r1',
+      reason: 'similar',
+      status: 'pending',
+      detectedAt: new Date('2024-03-01'),
+    },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ReceiptService();
+    receiptRepository = jest.mocked(ReceiptRepository).mock
+      .instances[0] as jest.Mocked<ReceiptRepository>;
+
+    receiptRepository.getReceiptById.mockImplementation(async (receiptId) =>
+      receiptId === 'r1' ? original : duplicate
+    );
+    receiptRepository.updateReceipt.mockImplementation(async (_receiptId, _userId, updates) => ({
+      ...original,
+      ...updates,
+    }));
+    receiptRepository.deleteReceipt.mockResolvedValue({ ...duplicate, deletedAt: new Date() });
+  });
+
+  it('should fold the duplicate into the original and move it to the trash', async () => {
+    const merged = await service.mergeDuplicate('r2', 'user123');
+
+    expect(receiptRepository.updateReceipt).toHaveBeenCalledWith(
+      'r1',
+      'user123',
+      { tags: ['coffee', 'work'], tax: 1.2 },
+      { source: 'merge', changedBy: 'user123' }
+    );
+    expect(receiptRepository.setDuplicate).toHaveBeenCalledWith(
+      'r2',
+      'user123',
+      expect.objectContaining({ originalId: 'r1', status: 'merged' })
+    );
+    expect(receiptRepository.deleteReceipt).toHaveBeenCalledWith('r2', 'user123');
+    expect(merged.tags).toEqual(['coffee', 'work']);
+  });
+
+  it('should only resolve receipts flagged as pending duplicates', async () => {
+    await expect(service.dismissDuplicate('r1', 'user123')).rejects.toThrow(
+      'Receipt is not flagged as a duplicate'
+    );
+    expect(receiptRepository.setDuplicate).not.toHaveBeenCalled();
+  });
+});
+
+describe('ReceiptService attachments', () => {
+  let service: ReceiptService;
+  let receiptRepository: jest.Mocked<ReceiptRepository>;
+  let uploadService: jest.Mocked<UploadService>;
+
+  const file = {
+    originalname: 'back.jpg',
+    size: 2048,
+    mimetype: 'image/jpeg',
+    buffer: Buffer.from('image'),
+  };
+  const front = {
+    id: 'a1',
+    path: 'receipts/user123/r1/1700000000-receipt.jpg',
+    mimeType: 'image/jpeg',
+    size: 1024,
+    role: AttachmentRole.FRONT,
+  };
+  const slip = {
+    ...front,
+    id: 'a2',
+    path: 'receipts/user123/r1/slip.jpg',
+    role: AttachmentRole.CARD_SLIP,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ReceiptService();
+    receiptRepository = jest.mocked(ReceiptRepository).mock
+      .instances[0] as jest.Mocked<ReceiptRepository>;
+    uploadService = jest.mocked(UploadService).mock.instances[0] as jest.Mocked<UploadService>;
+    const fileStorageService = jest.mocked(FileStorageService).mock
+      .instances[0] as jest.Mocked<FileStorageService>;
+
+    fileStorageService.generateSignedUrl.mockImplementation(
+      async (filePath) => `https://signed.example.com/${filePath}`
+    );
+    receiptRepository.getReceiptById.mockResolvedValue(
+      buildReceipt('r1', { deletedAt: null, attachments: [front, slip] })
+    );
+    receiptRepository.updateReceipt.mockImplementation(async (_receiptId, _userId, updates) =>
+      buildReceipt('r1', { deletedAt: null, ...updates })
+    );
+    uploadService.uploadReceiptFile.mockResolvedValue({
+      receiptId: 'r1',
+      fileName: 'back.jpg',
+      filePath: 'receipts/user123/r1/1700000001-back.jpg',
+      fileUrl: 'https://signed.example.com/back',
+      fileSize: 2048,
+      mimeType: 'image/jpeg',
+      uploadedAt: '2024-03-01T00:00:00.000Z',
+      contentHash: 'abc',
+      duplicateOf: null,
+    });
+  });
+
+  it('should store the file with the receipt and append it as a supporting attachment', async () => {
+    const receipt = await service.addAttachment('r1', 'user123', file);
+
+    expect(uploadService.uploadReceiptFile).toHaveBeenCalledWith('user123', file, 'r1');
+    const { attachments } = receiptRepository.updateReceipt.mock.calls[0][2];
+    expect(attachments).toHaveLength(3);
+    expect(attachments?.[2]).toEqual(
+      expect.objectContaining({
+        path: 'receipts/user123/r1/1700000001-back.jpg',
+        size: 2048,
+        role: AttachmentRole.SUPPORTING,
+      })
+    );
+    expect(receipt.attachments?.[2].url).toBe(
+      'https://signed.example.com/receipts/user123/r1/1700000001-back.jpg'
+    );
+  });
+
+  it('should sign attachment URLs in an updated receipt', async () => {
+    receiptRepository.updateReceipt.mockResolvedValue(
+      buildReceipt('r1', { deletedAt: null, notes: 'Team lunch', attachments: [front, slip] })
+    );
+
+    const receipt = await service.updateReceipt('r1', 'user123', { notes: 'Team lunch' });
+
+    expect(receipt.imageUrl).toBe('https://signed.example.com/' + front.path);
+    expect(receipt.attachments?.map((attachment) => attachment.url)).toEqual([
+      'https://signed.example.com/' + front.path,
+      'https://signed.example.com/' + slip.path,
+    ]);
+  });
+
+  it('should make the first attachment the front of the receipt', async () => {
+    receiptRepository.getReceiptById.mockResolvedValue(
+      buildReceipt('r1', { deletedAt: null, imageUrl: undefined, attachments: [] })
+    );
+
+    await service.addAttachment('r1', 'user123', file);
+
+    const { attachments } = receiptRepository.updateReceipt.mock.calls[0][2];
+    expect(attachments?.[0].role).toBe(AttachmentRole.FRONT);
+  });
+
+  it('should delete the uploaded file when the receipt cannot be updated', async () => {
+    receiptRepository.updateReceipt.mockRejectedValue(
+      new AppError('Failed to update receipt', 500)
+    );
+
+    await expect(service.addAttachment('r1', 'user123', file, AttachmentRole.BACK)).rejects.toThrow(
+      'Failed to update receipt'
+    );
+    expect(uploadService.deleteReceiptFile).toHaveBeenCalledWith(
+      'receipts/user123/r1/1700000001-back.jpg'
+    );
+  });
+
+  it('should reject attachments beyond the limit', async () => {
+    receiptRepository.getReceiptById.mockResolvedValue(
+      buildReceipt('r1', {
+        deletedAt: null,
+        attachments: Array.from({ length: 10 }, (_, i) => ({ ...front, id: `a${i}` })),
+      })
+    );
+
+    await expect(service.addAttachment('r1', 'user123', file)).rejects.toThrow(
+      'A receipt can have at most 10 attachments'
+    );
+    expect(uploadService.uploadReceiptFile).not.toHaveBeenCalled();
+  });
+
+  it('should reorder attachments when every attachment is listed once', async () => {
+    const receipt = await service.reorderAttachments('r1', 'user123', ['a2', 'a1']);
+
+    expect(receiptRepository.updateReceipt).toHaveBeenCalledWith('r1', 'user123', {
+      attachments: [slip, front],
+    });
+    expect(receipt.attachments?.map((attachment) => attachment.id)).toEqual(['a2', 'a1']);
+  });
+
+  it('should reject orders that miss or repeat attachments', async () => {
+    await expect(service.reorderAttachments('r1', 'user123', ['a2'])).rejects.toThrow(
+      'attachmentIds must list every attachment of the receipt once'
+    );
+    await expect(service.reorderAttachments('r1', 'user123', ['a2', 'a2'])).rejects.toThrow(
+      'attachmentIds must list every attachment of the receipt once'
+    );
+    await expect(service.reorderAttachments('r1', 'user123', ['a2', 'a1', 'a9'])).rejects.toThrow(
+      'attachmentIds must list every attachment of the receipt once'
+    );
+    expect(receiptRepository.updateReceipt).not.toHaveBeenCalled();
+  });
+
+  it('should remove an attachment but keep its file for reverts', async () => {
+    await service.removeAttachment('r1', 'user123', 'a2');
+
+    expect(receiptRepository.updateReceipt).toHaveBeenCalledWith('r1', 'user123', {
+      attachments: [front],
+    });
+    expect(uploadService.deleteReceiptFile).not.toHaveBeenCalled();
+  });
+
+  it('should report unknown attachments as not found', async () => {
+    await expect(service.removeAttachment('r1', 'user123', 'a9')).rejects.toThrow(
+      'Attachment not found'
+    );
+  });
+});
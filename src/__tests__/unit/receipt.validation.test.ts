@@ -7,6 +7,13 @@ import {
   updateReceiptSchema,
   receiptQuerySchema,
   lineItemSchema,
+  reviewReceiptSchema,
+  strictCreateReceiptSchema,
+  strictUpdateReceiptSchema,
+  strictModeQuerySchema,
+  bulkReceiptSchema,
+  addAttachmentSchema,
+  reorderAttachmentsSchema,
 } from '../../models/receipt.validation';
 import { ReceiptStatus } from '../../models/receipt.model';
 
@@ -194,6 +201,54 @@ describe('Receipt Validation Schemas', () => {
     });
   });
 
+  describe('strict mode schemas', () => {
+    const receipt = {
+      merchant: 'Whole Foods Market',
+      date: '2024-01-15',
+      total: 8.25,
+      tax: 0.68,
+      currency: 'USD',
+      category: 'Food & Dining',
+      lineItems: [
+        { description: 'Bananas', quantity: 2, unitPrice: 0.79, total: 1.58 },
+        { description: 'Yogurt', quantity: 1, unitPrice: 5.99, total: 5.99 },
+      ],
+    };
+
+    it('should accept receipts whose amounts add up', () => {
+      expect(strictCreateReceiptSchema.safeParse(receipt).success).toBe(true);
+    });
+
+    it('should reject receipts whose amounts do not add up', () => {
+      const result = strictCreateReceiptSchema.safeParse({ ...receipt, total: 20 });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]).toMatchObject({
+        path: ['total'],
+        message: 'Total 20 does not equal line items 7.57 plus tax 0.68',
+      });
+    });
+
+    it('should point at the inconsistent line item', () => {
+      const result = strictUpdateReceiptSchema.safeParse({
+        lineItems: [{ description: 'Yogurt', quantity: 3, unitPrice: 5.99, total: 5.99 }],
+      });
+
+      expect(result.error?.issues[0].path).toEqual(['lineItems', 0, 'total']);
+    });
+
+    it('should only check amounts present in an update', () => {
+      expect(strictUpdateReceiptSchema.safeParse({ total: 20 }).success).toBe(true);
+      expect(createReceiptSchema.safeParse({ ...receipt, total: 20 }).success).toBe(true);
+    });
+
+    it('should parse the strict query flag', () => {
+      expect(strictModeQuerySchema.parse({})).toEqual({ strict: false });
+      expect(strictModeQuerySchema.parse({ strict: 'true' })).toEqual({ strict: true });
+      expect(() => strictModeQuerySchema.parse({ strict: 'yes' })).toThrow();
+    });
+  });
+
   describe('receiptQuerySchema', () => {
     it('should validate query parameters with defaults', () => {
       const query = {};
@@ -240,4 +295,94 @@ describe('Receipt Validation Schemas', () => {
       expect(() => receiptQuerySchema.parse(query)).toThrow();
     });
   });
+
+  describe('reviewReceiptSchema', () => {
+    it('should accept field acceptances and corrections', () => {
+      const result = reviewReceiptSchema.safeParse({
+        accept: ['merchant'],
+        corrections: { total: 42.5, date: '2024-01-15' },
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.corrections.date).toBeInstanceOf(Date);
+      }
+    });
+
+    it('should default missing parts to empty', () => {
+      const result = reviewReceiptSchema.parse({ accept: ['total'] });
+      expect(result.corrections).toEqual({});
+    });
+
+    it('should reject an empty review', () => {
+      expect(reviewReceiptSchema.safeParse({}).success).toBe(false);
+    });
+
+    it('should reject unknown fields', () => {
+      expect(reviewReceiptSchema.safeParse({ accept: ['tags'] }).success).toBe(false);
+      expect(reviewReceiptSchema.safeParse({ corrections: { status: 'completed' } }).success).toBe(
+        false
+      );
+    });
+
+    it('should reject a field that is both accepted and corrected', () => {
+      const result = reviewReceiptSchema.safeParse({
+        accept: ['total'],
+        corrections: { total: 10 },
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('bulkReceiptSchema', () => {
+    it('should accept receipts selected by a listing filter', () => {
+      const result = bulkReceiptSchema.parse({
+        filter: { tags: 'travel,work', startDate: '2024-01-01' },
+        operation: { type: 'untag', tags: ['travel'] },
+      });
+
+      expect(result.filter?.tags).toEqual(['travel', 'work']);
+      expect(result.filter?.startDate).toBeInstanceOf(Date);
+    });
+
+    it('should require exactly one of ids and filter', () => {
+      const operation = { type: 'delete' };
+
+      expect(bulkReceiptSchema.safeParse({ operation }).success).toBe(false);
+      expect(bulkReceiptSchema.safeParse({ ids: ['r1'], filter: {}, operation }).success).toBe(
+        false
+      );
+    });
+
+    it('should require the fields of the operation', () => {
+      const result = bulkReceiptSchema.safeParse({ ids: ['r1'], operation: { type: 'tag' } });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('notes', () => {
+    it('should accept notes and let updates clear them', () => {
+      expect(updateReceiptSchema.parse({ notes: 'Client lunch' }).notes).toBe('Client lunch');
+      expect(updateReceiptSchema.parse({ notes: null }).notes).toBeNull();
+    });
+
+    it('should reject notes over 2000 characters', () => {
+      expect(updateReceiptSchema.safeParse({ notes: 'x'.repeat(2001) }).success).toBe(false);
+    });
+  });
+
+  describe('attachment schemas', () => {
+    it('should accept known attachment roles only', () => {
+      expect(addAttachmentSchema.parse({ role: 'card_slip' }).role).toBe('card_slip');
+      expect(addAttachmentSchema.parse({}).role).toBeUndefined();
+      expect(addAttachmentSchema.safeParse({ role: 'selfie' }).success).toBe(false);
+    });
+
+    it('should require a non-empty attachment order', () => {
+      expect(reorderAttachmentsSchema.safeParse({ attachmentIds: ['a2', 'a1'] }).success).toBe(
+        true
+      );
+      expect(reorderAttachmentsSchema.safeParse({ attachmentIds: [] }).success).toBe(false);
+    });
+  });
 });
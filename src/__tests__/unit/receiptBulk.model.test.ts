@@ -0,0 +1,59 @@
+/**
+ * Unit tests for bulk receipt operations
+ */
+
+import { getBulkUpdates } from '../../models/receiptBulk.model';
+import { Receipt, ReceiptStatus } from '../../models/receipt.model';
+
+describe('Receipt bulk model', () => {
+  const receipt: Receipt = {
+    id: 'r1',
+    userId: 'user123',
+    merchant: 'Uber',
+    date: new Date('2024-03-01'),
+    total: 18,
+    currency: 'USD',
+    category: 'Other',
+    tags: ['work'],
+    lineItems: [],
+    status: ReceiptStatus.COMPLETED,
+    createdAt: new Date('2024-03-01'),
+    updatedAt: new Date('2024-03-01'),
+  };
+
+  it('should change the category only when it differs', () => {
+    expect(getBulkUpdates(receipt, { type: 'categorize', category: 'Transportation' })).toEqual({
+      category: 'Transportation',
+    });
+    expect(getBulkUpdates(receipt, { type: 'categorize', category: 'Other' })).toBeNull();
+  });
+
+  it('should add missing tags once and keep existing ones', () => {
+    expect(getBulkUpdates(receipt, { type: 'tag', tags: ['work', 'travel', 'travel'] })).toEqual({
+      tags: ['work', 'travel'],
+    });
+    expect(getBulkUpdates(receipt, { type: 'tag', tags: ['work'] })).toBeNull();
+  });
+
+  it('should reject tags beyond the receipt tag limit', () => {
+    const tagged = { ...receipt, tags: Array.from({ length: 20 }, (_, i) => `tag${i}`) };
+
+    expect(() => getBulkUpdates(tagged, { type: 'tag', tags: ['extra'] })).toThrow(
+      'A receipt can have at most 20 tags'
+    );
+  });
+
+  it('should remove only tags the receipt has', () => {
+    expect(getBulkUpdates(receipt, { type: 'untag', tags: ['work', 'travel'] })).toEqual({
+      tags: [],
+    });
+    expect(getBulkUpdates(receipt, { type: 'untag', tags: ['travel'] })).toBeNull();
+  });
+
+  it('should change the status only when it differs', () => {
+    expect(getBulkUpdates(receipt, { type: 'status', status: ReceiptStatus.FAILED })).toEqual({
+      status: ReceiptStatus.FAILED,
+    });
+    expect(getBulkUpdates(receipt, { type: 'status', status: ReceiptStatus.COMPLETED })).toBeNull();
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Unit tests for receipt parser providers and fallback order
+ */
+
+import { ReceiptParsingService } from '../../services/receiptParsing.service';
+import { ParsingRuleService } from '../../services/parsingRule.service';
+import { PdfDocumentService } from '../../services/pdfDocument.service';
+import {
+  OcrReceiptParser,
+  LocalTextExtractor,
+  parseReceiptText,
+} from '../../services/ocrReceiptParser.service';
+import {
+  ConfidenceLevel,
+  ParsedReceipt,
+  ReceiptParser,
+  ReceiptParserSource,
+  createConfidentField,
+} from '../../models/parsedReceipt.model';
+
+const sampleReceiptText = `WHOLE FOODS MARKET
+123 Main St
+Tel: 555-0100
+01/15/2024 14:32
+2 x Organic Bananas 1.58
+Greek Yogurt 5.99
+SUBTOTAL 7.57
+TAX 0.68
+TOTAL $8.25
+VISA 8.25`;
+
+const buildParsedReceipt = (merchant: string): ParsedReceipt => ({
+  merchant: createConfidentField(merchant, 0.9),
+  date: createConfidentField(new Date('2024-01-15'), 0.9),
+  total: createConfidentField(10, 0.9),
+  currency: createConfidentField('USD', 0.9),
+  lineItems: [],
+  overallConfidence: 0.9,
+});
+
+const stubParser = (
+  name: ReceiptParserSource,
+  behaviour: { available?: boolean; error?: string } = {}
+): ReceiptParser => ({
+  name,
+  isAvailable: () => behaviour.available ?? true,
+  parseReceipt: jest.fn(async () => {
+    if (behaviour.error) {
+      throw new Error(behaviour.error);
+    }
+    return buildParsedReceipt(name);
+  }),
+  parseText: jest.fn(async () => {
+    if (behaviour.error) {
+      throw new Error(behaviour.error);
+    }
+    return buildParsedReceipt(name);
+  }),
+});
+
+describe('parseReceiptText helper', () => {
+  it('should extract merchant, date, total, tax and currency', () => {
+    const parsed = parseReceiptText(sampleReceiptText);
+
+    expect(parsed.merchant.value).toBe('WHOLE FOODS MARKET');
+    expect(parsed.date.value.toISOString()).toBe('2024-01-15T00:00:00.000Z');
+    expect(parsed.total.value).toBe(8.25);
+    expect(parsed.tax?.value).toBe(0.68);
+    expect(parsed.currency.value).toBe('USD');
+  });
+
+  it('should extract line items with quantities above the total', () => {
+    const parsed = parseReceiptText(sampleReceiptText);
+
+    expect(parsed.lineItems).toEqual([
+      {
+        description: 'Organic Bananas',
+        quantity: 2,
+        unitPrice: 0.79,
+        total: 1.58,
+        confidence: 0.4,
+      },
+      { description: 'Greek Yogurt', quantity: 1, unitPrice: 5.99, total: 5.99, confidence: 0.4 },
+    ]);
+  });
+
+  it('should handle comma decimals and day-first dates', () => {
+    const parsed = parseReceiptText(`Padaria Real
+25.03.2024
+Pão de queijo 12,50
+Total R$ 1.012,50`);
+
+    expect(parsed.date.value.toISOString()).toBe('2024-03-25T00:00:00.000Z');
+    expect(parsed.total.value).toBe(1012.5);
+    expect(parsed.currency.value).toBe('BRL');
+  });
+
+  it('should read whole amounts for zero-decimal currencies', () => {
+    const parsed = parseReceiptText(`Ichiran Shibuya
+2024/04/02
+2 x Ramen 1,960
+Total ¥1,960`);
+
+    expect(parsed.currency.value).toBe('JPY');
+    expect(parsed.total.value).toBe(1960);
+    expect(parsed.lineItems).toEqual([
+      { description: 'Ramen', quantity: 2, unitPrice: 980, total: 1960, confidence: 0.4 },
+    ]);
+    expect(parsed.warnings).toEqual([
+      { field: 'currency', message: 'Currency symbol is ambiguous; assumed JPY' },
+    ]);
+  });
+
+  it('should fall back to the largest amount with low confidence when no total line exists', () => {
+    const parsed = parseReceiptText(`Corner Shop
+Milk 2.10
+Bread 3.40`);
+
+    expect(parsed.total.value).toBe(3.4);
+    expect(parsed.total.confidenceLevel).toBe(ConfidenceLevel.LOW);
+  });
+
+  it('should warn about values it had to guess', () => {
+    const parsed = parseReceiptText('Corner Shop\nMilk 2.50\nBread 3.00');
+
+    expect(parsed.warnings?.map((warning) => warning.field)).toEqual(['currency', 'total', 'date']);
+  });
+
+  it('should reject text without any amount', () => {
+    expect(() => parseReceiptText('Thank you for shopping')).toThrow(
+      'Could not find a total amount in receipt text'
+    );
+  });
+});
+
+describe('OcrReceiptParser', () => {
+  it('should parse text from the local extractor and report its provider name', async () => {
+    const parser = new OcrReceiptParser(new LocalTextExtractor(() => sampleReceiptText));
+
+    const parsed = await parser.parseReceipt('https://example.com/receipt.jpg');
+
+    expect(parser.name).toBe('local-ocr');
+    expect(parsed.total.value).toBe(8.25);
+    expect(parsed.processingTime).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should fail when no text is detected', async () => {
+    const parser = new OcrReceiptParser(new LocalTextExtractor(() => '   '));
+
+    await expect(parser.parseReceipt('https://example.com/blank.jpg')).rejects.toThrow(
+      'No text detected in receipt image'
+    );
+  });
+});
+
+describe('ReceiptParsingService provider fallback', () => {
+  const request = { imageUrl: 'https://example.com/receipt.jpg', userId: 'user123' };
+  const hints = ['Receipts where the merchant reads "WFM" are from merchant "Whole Foods".'];
+  const parsingRuleService = {
+    getPromptHints: jest.fn(),
+  } as unknown as jest.Mocked<ParsingRuleService>;
+
+  beforeEach(() => {
+    parsingRuleService.getPromptHints.mockResolvedValue(hints);
+  });
+
+  it('should use the first provider when it succeeds', async () => {
+    const service = new ReceiptParsingService(
+      [stubParser('openai'), stubParser('local-ocr')],
+      parsingRuleService
+    );
+
+    const result = await service.parseReceipt(request);
+
+    expect(result).toMatchObject({ success: true, source: 'openai', fallbackUsed: false });
+  });
+
+  it('should fall back to the next provider when the first fails', async () => {
+    const fallback = stubParser('local-ocr');
+    const service = new ReceiptParsingService(
+      [stubParser('openai', { error: 'Rate limited' }), fallback],
+      parsingRuleService
+    );
+
+    const result = await service.parseReceipt(request);
+
+    expect(result).toMatchObject({ success: true, source: 'local-ocr', fallbackUsed: true });
+    expect(result.parsedData?.merchant.value).toBe('local-ocr');
+    expect(fallback.parseReceipt).toHaveBeenCalledWith(request.imageUrl, { hints });
+  });
+
+  it('should skip unavailable providers', async () => {
+    const unavailable = stubParser('openai', { available: false });
+    const service = new ReceiptParsingService(
+      [unavailable, stubParser('google-vision')],
+      parsingRuleService
+    );
+
+    const result = await service.parseReceipt(request);
+
+    expect(result).toMatchObject({ success: true, source: 'google-vision', fallbackUsed: true });
+    expect(unavailable.parseReceipt).not.toHaveBeenCalled();
+  });
+
+  it('should report every provider error when all fail', async () => {
+    const service = new ReceiptParsingService(
+      [stubParser('openai', { error: 'Timeout' }), stubParser('local-ocr', { error: 'No text' })],
+      parsingRuleService
+    );
+
+    const result = await service.parseReceipt(request);
+
+    expect(result).toEqual({
+      success: false,
+      error: 'openai: Timeout; local-ocr: No text',
+      source: 'failed',
+    });
+  });
+
+  it('should fail when no provider is available', async () => {
+    const service = new ReceiptParsingService(
+      [stubParser('openai', { available: false })],
+      parsingRuleService
+    );
+
+    const result = await service.parseReceipt(request);
+
+    expect(result.success).toBe(false);
+    expect(result.source).toBe('failed');
+  });
+
+  it("should pass the user's learned hints to the parser", async () => {
+    const parser = stubParser('openai');
+    const service = new ReceiptParsingService([parser], parsingRuleService);
+
+    await service.parseReceipt(request);
+
+    expect(parsingRuleService.getPromptHints).toHaveBeenCalledWith('user123');
+    expect(parser.parseReceipt).toHaveBeenCalledWith(request.imageUrl, { hints });
+  });
+});
+
+describe('ReceiptParsingService PDF documents', () => {
+  const request = { imageUrl: 'https://example.com/invoice.pdf', userId: 'user123' };
+  const parsingRuleService = {
+    getPromptHints: jest.fn(),
+  } as unknown as jest.Mocked<ParsingRuleService>;
+  let pdfDocumentService: jest.Mocked<PdfDocumentService>;
+
+  beforeEach(() => {
+    parsingRuleService.getPromptHints.mockResolvedValue([]);
+    pdfDocumentService = {
+      isPdf: jest.fn(() => true),
+      fetchDocument: jest.fn(async () => Buffer.from('%PDF-1.4')),
+      loadPages: jest.fn(async () => [
+        { pageNumber: 1, text: 'ACME SUPPLIES invoice page one', imageDataUrl: null },
+        { pageNumber: 2, text: null, imageDataUrl: 'data:image/png;base64,AAAA' },
+      ]),
+    } as unknown as jest.Mocked<PdfDocumentService>;
+  });
+
+  it('should parse text pages as text and scanned pages as images', async () => {
+    const parser = stubParser('openai');
+    const service = new ReceiptParsingService([parser], parsingRuleService, pdfDocumentService);
+
+    const result = await service.parseReceipt(request);
+
+    expect(result.success).toBe(true);
+    expect(result.parsedData?.pageCount).toBe(2);
+    expect(pdfDocumentService.fetchDocument).toHaveBeenCalledWith(request.imageUrl, 'user123');
+    expect(parser.parseText).toHaveBeenCalledWith('ACME SUPPLIES invoice page one', {
+      hints: [],
+      page: { number: 1, count: 2 },
+    });
+    expect(parser.parseReceipt).toHaveBeenCalledWith('data:image/png;base64,AAAA', {
+      hints: [],
+      page: { number: 2, count: 2 },
+    });
+  });
+
+  it('should skip pages that cannot be parsed when another page succeeds', async () => {
+    const parser = stubParser('openai');
+    jest.mocked(parser.parseText).mockRejectedValue(new Error('Missing required fields'));
+    const service = new ReceiptParsingService([parser], parsingRuleService, pdfDocumentService);
+
+    const result = await service.parseReceipt(request);
+
+    expect(result.success).toBe(true);
+    expect(result.parsedData?.pageCount).toBe(1);
+  });
+
+  it('should fall back to the next provider when no page parses', async () => {
+    const service = new ReceiptParsingService(
+      [stubParser('openai', { error: 'Timeout' }), stubParser('local-ocr')],
+      parsingRuleService,
+      pdfDocumentService
+    );
+
+    const result = await service.parseReceipt(request);
+
+    expect(result).toMatchObject({ success: true, source: 'local-ocr', fallbackUsed: true });
+  });
+
+  it('should fail when the PDF cannot be read', async () => {
+    pdfDocumentService.loadPages.mockRejectedValue(
+      new Error('PDF has 40 pages; at most 10 are supported')
+    );
+    const parser = stubParser('openai');
+    const service = new ReceiptParsingService([parser], parsingRuleService, pdfDocumentService);
+
+    const result = await service.parseReceipt(request);
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Failed to read PDF: PDF has 40 pages; at most 10 are supported',
+      source: 'failed',
+    });
+    expect(parser.parseText).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Unit tests for receipt rule evaluation and validation
+ */
+
+import {
+  ReceiptRule,
+  RuleTarget,
+  evaluateRules,
+  isSafePattern,
+  matchesCondition,
+  reassignRuleCategory,
+} from '../../models/receiptRule.model';
+import { createReceiptRuleSchema } from '../../models/receiptRule.validation';
+
+const buildRule = (overrides: Partial<ReceiptRule>): ReceiptRule => ({
+  id: 'rule-1',
+  userId: 'user123',
+  name: 'Rule',
+  priority: 100,
+  enabled: true,
+  conditions: [],
+  actions: {},
+  stopProcessing: false,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  ...overrides,
+});
+
+const target: RuleTarget = {
+  merchant: 'UBER *TRIP',
+  category: 'Other',
+  currency: 'USD',
+  total: 620,
+  tags: ['work'],
+};
+
+describe('matchesCondition', () => {
+  it('should match text case-insensitively', () => {
+    expect(
+      matchesCondition(target, { field: 'merchant', operator: 'matches', value: '^uber' })
+    ).toBe(true);
+    expect(
+      matchesCondition(target, { field: 'merchant', operator: 'contains', value: 'trip' })
+    ).toBe(true);
+    expect(matchesCondition(target, { field: 'currency', operator: 'equals', value: 'usd' })).toBe(
+      true
+    );
+  });
+
+  it('should compare numbers and treat a missing tax as no match', () => {
+    expect(matchesCondition(target, { field: 'total', operator: 'gt', value: 500 })).toBe(true);
+    expect(matchesCondition(target, { field: 'total', operator: 'lte', value: 500 })).toBe(false);
+    expect(matchesCondition(target, { field: 'tax', operator: 'gte', value: 0 })).toBe(false);
+  });
+
+  it('should check tags', () => {
+    expect(matchesCondition(target, { field: 'tags', operator: 'contains', value: 'Work' })).toBe(
+      true
+    );
+  });
+});
+
+describe('evaluateRules', () => {
+  const uber = buildRule({
+    id: 'uber',
+    name: 'Uber',
+    priority: 10,
+    conditions: [{ field: 'merchant', operator: 'matches', value: 'uber' }],
+    actions: { category: 'Transportation', addTags: ['commute'] },
+  });
+  const large = buildRule({
+    id: 'large',
+    name: 'Large',
+    priority: 20,
+    conditions: [{ field: 'total', operator: 'gt', value: 500 }],
+    actions: { category: 'Travel', addTags: ['needs-approval'] },
+  });
+
+  it('should apply rules in priority order with the first category winning', () => {
+    const evaluation = evaluateRules(target, [large, uber]);
+
+    expect(evaluation.category).toBe('Transportation');
+    expect(evaluation.tags).toEqual(['work', 'commute', 'needs-approval']);
+    expect(evaluation.changes).toEqual([
+      {
+        ruleId: 'uber',
+        ruleName: 'Uber',
+        category: { from: 'Other', to: 'Transportation' },
+        addedTags: ['commute'],
+      },
+      { ruleId: 'large', ruleName: 'Large', addedTags: ['needs-approval'] },
+    ]);
+  });
+
+  it('should let later rules see earlier changes', () => {
+    const commuteTag = buildRule({
+      id: 'transport',
+      priority: 30,
+      conditions: [{ field: 'category', operator: 'equals', value: 'Transportation' }],
+      actions: { addTags: ['reimbursable'] },
+    });
+
+    expect(evaluateRules(target, [uber, commuteTag]).tags).toContain('reimbursable');
+  });
+
+  it('should skip disabled rules and stop after stopProcessing', () => {
+    expect(evaluateRules(target, [{ ...uber, enabled: false }]).changes).toEqual([]);
+    expect(evaluateRules(target, [{ ...uber, stopProcessing: true }, large]).tags).toEqual([
+      'work',
+      'commute',
+    ]);
+  });
+
+  it('should not report rules that change nothing', () => {
+    const evaluation = evaluateRules({ ...target, category: 'Transportation', tags: ['commute'] }, [
+      uber,
+    ]);
+
+    expect(evaluation.changes).toEqual([]);
+  });
+});
+
+describe('reassignRuleCategory', () => {
+  it('should rewrite category actions and equals conditions', () => {
+    const rule = buildRule({
+      conditions: [
+        { field: 'category', operator: 'equals', value: 'meals' },
+        { field: 'category', operator: 'contains', value: 'meal' },
+        { field: 'merchant', operator: 'equals', value: 'Meals' },
+      ],
+      actions: { category: 'Meals', addTags: ['food'] },
+    });
+
+    expect(reassignRuleCategory(rule, 'Meals', 'Food')).toEqual({
+      conditions: [
+        { field: 'category', operator: 'equals', value: 'Food' },
+        { field: 'category', operator: 'contains', value: 'meal' },
+        { field: 'merchant', operator: 'equals', value: 'Meals' },
+      ],
+      actions: { category: 'Food', addTags: ['food'] },
+    });
+  });
+
+  it('should leave rules that do not use the category alone', () => {
+    const rule = buildRule({
+      conditions: [{ field: 'total', operator: 'gt', value: 10 }],
+      actions: { category: 'Travel' },
+    });
+
+    expect(reassignRuleCategory(rule, 'Meals', 'Food')).toBeNull();
+  });
+});
+
+describe('isSafePattern', () => {
+  it('should accept ordinary merchant patterns', () => {
+    for (const pattern of ['^uber', 'amzn|amazon', '^(?:sq|tst)\\s*\\*', 'caf[eé]\\b', '\\d{4}$']) {
+      expect(isSafePattern(pattern)).toBe(true);
+    }
+  });
+
+  it('should reject patterns that can backtrack catastrophically', () => {
+    for (const pattern of [
+      '(a+)+$',
+      '(a*)*b',
+      '(?:\\w+\\s?)+$',
+      '(a|aa)*$',
+      '((ab)*c)+',
+      '(a+){10}',
+      '(a)\\1',
+      '(?=a)a',
+      'a*a*a*a*b',
+    ]) {
+      expect(isSafePattern(pattern)).toBe(false);
+    }
+  });
+
+  it('should treat quantifiers inside character classes as literals', () => {
+    expect(isSafePattern('([+*])+')).toBe(true);
+  });
+
+  it('should not run unsafe patterns saved before they were rejected', () => {
+    const start = Date.now();
+
+    expect(
+      matchesCondition(
+        { ...target, merchant: `${'a'.repeat(40)}!` },
+        { field: 'merchant', operator: 'matches', value: '(a+)+$' }
+      )
+    ).toBe(false);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+});
+
+describe('receipt rule validation', () => {
+  it('should reject invalid regular expressions', () => {
+    expect(() =>
+      createReceiptRuleSchema.parse({
+        name: 'Broken',
+        conditions: [{ field: 'merchant', operator: 'matches', value: '(' }],
+        actions: { category: 'Other' },
+      })
+    ).toThrow('Condition value must be a valid regular expression');
+  });
+
+  it('should reject patterns with nested quantifiers', () => {
+    expect(() =>
+      createReceiptRuleSchema.parse({
+        name: 'Slow',
+        conditions: [{ field: 'merchant', operator: 'matches', value: '(a+)+$' }],
+        actions: { category: 'Other' },
+      })
+    ).toThrow('Condition value must not use backreferences');
+  });
+
+  it('should require an action', () => {
+    expect(() =>
+      createReceiptRuleSchema.parse({
+        name: 'Nothing',
+        conditions: [{ field: 'total', operator: 'gt', value: 1 }],
+        actions: {},
+      })
+    ).toThrow('A rule must set a category or add tags');
+  });
+
+  it('should default priority, enabled and stopProcessing', () => {
+    expect(
+      createReceiptRuleSchema.parse({
+        name: 'Large',
+        conditions: [{ field: 'total', operator: 'gt', value: 500 }],
+        actions: { addTags: ['needs-approval', 'needs-approval'] },
+      })
+    ).toMatchObject({
+      priority: 100,
+      enabled: true,
+      stopProcessing: false,
+      actions: { addTags: ['needs-approval'] },
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for applying receipt rules to existing receipts
+ */
+
+import { ReceiptRuleService } from '../../services/receiptRule.service';
+import { ReceiptRuleRepository } from '../../repositories/receiptRule.repository';
+import { ReceiptRepository } from '../../repositories/receipt.repository';
+import { BudgetService } from '../../services/budget.service';
+import { Receipt, ReceiptStatus } from '../../models/receipt.model';
+import { ReceiptRule } from '../../models/receiptRule.model';
+
+jest.mock('../../repositories/receiptRule.repository');
+jest.mock('../../repositories/receipt.repository');
+jest.mock('../../services/budget.service');
+
+const buildReceipt = (id: string, merchant: string): Receipt => ({
+  id,
+  userId: 'user123',
+  merchant,
+  date: new Date('2024-03-10'),
+  total: 25,
+  currency: 'USD',
+  category: 'Other',
+  tags: [],
+  lineItems: [],
+  status: ReceiptStatus.COMPLETED,
+  createdAt: new Date('2024-03-10'),
+  updatedAt: new Date('2024-03-10'),
+  deletedAt: null,
+});
+
+const uberRule: ReceiptRule = {
+  id: 'uber',
+  userId: 'user123',
+  name: 'Uber',
+  priority: 10,
+  enabled: true,
+  conditions: [{ field: 'merchant', operator: 'matches', value: 'uber' }],
+  actions: { category: 'Transportation' },
+  stopProcessing: false,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+};
+
+describe('ReceiptRuleService', () => {
+  let service: ReceiptRuleService;
+  let ruleRepository: jest.Mocked<ReceiptRuleRepository>;
+  let receiptRepository: jest.Mocked<ReceiptRepository>;
+  let budgetService: jest.Mocked<BudgetService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    budgetService = new BudgetService() as jest.Mocked<BudgetService>;
+    service = new ReceiptRuleService(budgetService);
+    ruleRepository = jest.mocked(ReceiptRuleRepository).mock
+      .instances[0] as jest.Mocked<ReceiptRuleRepository>;
+    receiptRepository = jest.mocked(ReceiptRepository).mock
+      .instances[0] as jest.Mocked<ReceiptRepository>;
+
+    ruleRepository.getRulesByUserId.mockResolvedValue([uberRule]);
+    receiptRepository.getReceiptsByUserId.mockResolvedValue({
+      receipts: [buildReceipt('r1', 'Uber Trip'), buildReceipt('r2', 'Cafe')],
+      total: 2,
+      limit: 100,
+      hasMore: false,
+    });
+    receiptRepository.updateReceipt.mockImplementation(async (receiptId, _userId, updates) => ({
+      ...buildReceipt(receiptId, 'Uber Trip'),
+      ...updates,
+    }));
+  });
+
+  it('should preview changes without saving on a dry run', async () => {
+    const result = await service.applyToExistingReceipts('user123', { dryRun: true });
+
+    expect(result).toMatchObject({ dryRun: true, scanned: 2, changed: 1, truncated: false });
+    expect(result.receipts[0].receiptId).toBe('r1');
+    expect(receiptRepository.updateReceipt).not.toHaveBeenCalled();
+    expect(ruleRepository.createApplication).not.toHaveBeenCalled();
+  });
+
+  it('should save changes, record history and re-check budgets', async () => {
+    await service.applyToExistingReceipts('user123', { dryRun: false });
+
+    expect(receiptRepository.updateReceipt).toHaveBeenCalledWith(
+      'r1',
+      'user123',
+      { category: 'Transportation', tags: [] },
+      { source: 'rule', changedBy: 'user123' }
+    );
+    expect(ruleRepository.createApplication).toHaveBeenCalledWith(
+      expect.objectContaining({ receiptId: 'r1', trigger: 'manual' })
+    );
+    expect(budgetService.onReceiptsChanged).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject unknown rule IDs', async () => {
+    await expect(
+      service.applyToExistingReceipts('user123', { dryRun: true, ruleIds: ['missing'] })
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should leave receipts unchanged when rules cannot be loaded', async () => {
+    ruleRepository.getRulesByUserId.mockRejectedValue(new Error('Firestore unavailable'));
+    const receipt = buildReceipt('r1', 'Uber Trip');
+
+    await expect(service.applyToReceipt(receipt, 'parse')).resolves.toBe(receipt);
+    expect(receiptRepository.updateReceipt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for the upload-and-parse scan flow
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ReceiptScanService } from '../../services/receiptScan.service';
+import { PARSE_RECEIPT_JOB } from '../../services/receiptParsing.service';
+import { JobQueueService } from '../../services/jobQueue.service';
+import { UploadService } from '../../services/upload.service';
+import { DuplicateService } from '../../services/duplicate.service';
+import { ReceiptRepository } from '../../repositories/receipt.repository';
+import { InMemoryJobStore } from '../../repositories/job.repository';
+import { ReceiptStatus } from '../../models/receipt.model';
+
+jest.mock('../../services/upload.service');
+jest.mock('../../repositories/receipt.repository');
+jest.mock('../../services/duplicate.service');
+
+const file = {
+  originalname: 'receipt.jpg',
+  size: 1024,
+  mimetype: 'image/jpeg',
+  buffer: Buffer.from('image'),
+};
+
+const upload = {
+  receiptId: 'receipt-123',
+  fileName: 'receipt.jpg',
+  filePath: 'receipts/user123/receipt-123/1704067200000-receipt.jpg',
+  fileUrl: 'https://storage.example.com/signed',
+  fileSize: 1024,
+  mimeType: 'image/jpeg',
+  uploadedAt: '2024-01-01T12:00:00.000Z',
+  contentHash: 'hash-1',
+  duplicateOf: null,
+};
+
+describe('ReceiptScanService', () => {
+  let queue: JobQueueService;
+  let service: ReceiptScanService;
+  let uploadService: jest.Mocked<UploadService>;
+  let receiptRepository: jest.Mocked<ReceiptRepository>;
+  let duplicateService: jest.Mocked<DuplicateService>;
+
+  beforeEach(() => {
+    jest.mocked(uuidv4).mockImplementation((() => 'job-1') as typeof uuidv4);
+    queue = new JobQueueService(new InMemoryJobStore(), {
+      concurrency: 1,
+      pollIntervalMs: 1000,
+      maxAttempts: 3,
+      backoffBaseMs: 1000,
+      backoffMaxMs: 10000,
+      leaseMs: 60000,
+    });
+    service = new ReceiptScanService(queue);
+    uploadService = jest.mocked(UploadService).mock.instances[0] as jest.Mocked<UploadService>;
+    receiptRepository = jest.mocked(ReceiptRepository).mock
+      .instances[0] as jest.Mocked<ReceiptRepository>;
+    duplicateService = jest.mocked(DuplicateService).mock
+      .instances[0] as jest.Mocked<DuplicateService>;
+
+    uploadService.uploadReceiptFile.mockResolvedValue(upload);
+    uploadService.deleteReceiptFile.mockResolvedValue();
+    duplicateService.checkIdenticalFile.mockImplementation(async (receipt) => receipt);
+    receiptRepository.createReceipt.mockImplementation(async (userId, data, receiptId) => ({
+      id: receiptId as string,
+      userId,
+      ...data,
+      tags: [],
+      lineItems: [],
+      status: data.status as ReceiptStatus,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }));
+  });
+
+  it('should create a pending receipt under the upload receipt ID', async () => {
+    const result = await service.scanReceipt('user123', file);
+
+    expect(receiptRepository.createReceipt).toHaveBeenCalledWith(
+      'user123',
+      expect.objectContaining({ imageUrl: upload.filePath, status: ReceiptStatus.PENDING }),
+      'receipt-123'
+    );
+    expect(result.receipt.id).toBe('receipt-123');
+    expect(result.upload).toEqual(upload);
+  });
+
+  it('should check the created receipt against earlier receipts with the same file', async () => {
+    duplicateService.checkIdenticalFile.mockImplementation(async (receipt) => ({
+      ...receipt,
+      duplicate: {
+        originalId: 'receipt-001',
+        reason: 'identical_file',
+        status: 'pending',
+        detectedAt: new Date(),
+      },
+    }));
+
+    const result = await service.scanReceipt('user123', file);
+
+    expect(duplicateService.checkIdenticalFile).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'receipt-123' }),
+      'hash-1'
+    );
+    expect(result.receipt.duplicate).toMatchObject({ originalId: 'receipt-001' });
+  });
+
+  it('should queue a parse job carrying the storage path', async () => {
+    const result = await service.scanReceipt('user123', file);
+
+    const job = await queue.getJob(result.job.id);
+    expect(job).toMatchObject({
+      type: PARSE_RECEIPT_JOB,
+      userId: 'user123',
+      payload: {
+        imageUrl: upload.fileUrl,
+        filePath: upload.filePath,
+        userId: 'user123',
+        receiptId: 'receipt-123',
+      },
+    });
+  });
+
+  it('should delete the uploaded file when the receipt cannot be created', async () => {
+    receiptRepository.createReceipt.mockRejectedValue(new Error('Firestore down'));
+
+    await expect(service.scanReceipt('user123', file)).rejects.toThrow('Firestore down');
+    expect(uploadService.deleteReceiptFile).toHaveBeenCalledWith(upload.filePath);
+  });
+
+  it('should mark the receipt as failed when parsing cannot be queued', async () => {
+    jest.spyOn(queue, 'enqueue').mockRejectedValue(new Error('Queue unavailable'));
+    receiptRepository.updateReceiptStatus.mockResolvedValue({} as never);
+
+    await expect(service.scanReceipt('user123', file)).rejects.toThrow('Queue unavailable');
+    expect(receiptRepository.updateReceiptStatus).toHaveBeenCalledWith(
+      'receipt-123',
+      'user123',
+      ReceiptStatus.FAILED,
+      'Failed to queue parsing'
+    );
+  });
+});
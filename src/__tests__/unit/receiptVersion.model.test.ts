@@ -0,0 +1,48 @@
+/**
+ * Unit tests for receipt version snapshots and diffs
+ */
+
+import { diffSnapshots, takeSnapshot } from '../../models/receiptVersion.model';
+
+describe('Receipt version model', () => {
+  const receipt = {
+    merchant: 'Starbucks',
+    date: new Date('2024-03-01'),
+    total: 12,
+    currency: 'USD' as const,
+    category: 'Food & Dining',
+    tags: ['coffee'],
+    lineItems: [{ description: 'Latte', quantity: 1, unitPrice: 12, total: 12 }],
+  };
+
+  it('should store absent optional fields as null', () => {
+    const snapshot = takeSnapshot(receipt);
+
+    expect(snapshot.tax).toBeNull();
+    expect(snapshot.imageUrl).toBeNull();
+  });
+
+  it('should list only the fields that changed, with old and new values', () => {
+    const before = takeSnapshot(receipt);
+    const after = takeSnapshot({
+      ...receipt,
+      date: new Date('2024-03-01'),
+      total: 14,
+      tags: ['coffee', 'work'],
+    });
+
+    expect(diffSnapshots(before, after)).toEqual([
+      { field: 'total', from: 12, to: 14 },
+      { field: 'tags', from: ['coffee'], to: ['coffee', 'work'] },
+    ]);
+  });
+
+  it('should compare dates by value', () => {
+    const before = takeSnapshot(receipt);
+    const after = takeSnapshot({ ...receipt, date: new Date('2024-03-02') });
+
+    expect(diffSnapshots(before, after)).toEqual([
+      { field: 'date', from: new Date('2024-03-01'), to: new Date('2024-03-02') },
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for search term extraction, query parsing and term matching
+ */
+
+import {
+  SearchIndexChanges,
+  addTermChanges,
+  editDistance,
+  expandWord,
+  extractSearchTerms,
+  matchesAmountFilters,
+  parseSearchQuery,
+  tokenize,
+} from '../../models/search.model';
+import { receiptQuerySchema } from '../../models/receipt.validation';
+
+describe('Search model', () => {
+  describe('tokenize', () => {
+    it('should lowercase, strip accents and split on punctuation', () => {
+      expect(tokenize("Café Déjà-Vu's #12")).toEqual(['cafe', 'deja', 'vu', '12']);
+    });
+
+    it('should drop single characters', () => {
+      expect(tokenize('a b cd')).toEqual(['cd']);
+    });
+  });
+
+  describe('extractSearchTerms', () => {
+    it('should index merchant, category, tags and line item descriptions once each', () => {
+      const terms = extractSearchTerms({
+        merchant: 'Whole Foods Market',
+        category: 'Food & Dining',
+        tags: ['groceries', 'organic'],
+        lineItems: [
+          { description: 'Organic bananas', quantity: 1, unitPrice: 2, total: 2 },
+          { description: 'Oat milk', quantity: 1, unitPrice: 4, total: 4 },
+        ],
+      });
+
+      expect(terms).toEqual([
+        'whole',
+        'foods',
+        'market',
+        'food',
+        'dining',
+        'groceries',
+        'organic',
+        'bananas',
+        'oat',
+        'milk',
+      ]);
+    });
+  });
+
+  describe('parseSearchQuery', () => {
+    it('should split words from amount filters', () => {
+      expect(parseSearchQuery('Coffee beans total:>5 total:<=20')).toEqual({
+        words: ['coffee', 'beans'],
+        amountFilters: [
+          { operator: 'gt', value: 5 },
+          { operator: 'lte', value: 20 },
+        ],
+      });
+    });
+
+    it('should parse ranges and bare amounts', () => {
+      expect(parseSearchQuery('total:10..50')?.amountFilters).toEqual([
+        { operator: 'gte', value: 10 },
+        { operator: 'lte', value: 50 },
+      ]);
+      expect(parseSearchQuery('TOTAL:9.99')?.amountFilters).toEqual([
+        { operator: 'eq', value: 9.99 },
+      ]);
+    });
+
+    it('should reject malformed amount filters', () => {
+      expect(parseSearchQuery('total:lots')).toBeNull();
+      expect(parseSearchQuery('total:>')).toBeNull();
+    });
+  });
+
+  describe('editDistance', () => {
+    it('should count insertions, deletions and substitutions', () => {
+      expect(editDistance('coffee', 'cofee', 2)).toBe(1);
+      expect(editDistance('kitten', 'sitting', 3)).toBe(3);
+    });
+
+    it('should stop once the distance exceeds the maximum', () => {
+      expect(editDistance('coffee', 'target', 1)).toBe(2);
+    });
+  });
+
+  describe('expandWord', () => {
+    const vocabulary = ['starbucks', 'star', 'stationery', 'coffee', 'toffee', 'tea'];
+
+    it('should return exact matches first, then prefix matches', () => {
+      expect(expandWord('star', vocabulary)).toEqual(['star', 'starbucks']);
+    });
+
+    it('should tolerate a typo in longer words', () => {
+      expect(expandWord('cofee', vocabulary)).toEqual(['coffee']);
+      expect(expandWord('starbcks', vocabulary)).toEqual(['starbucks']);
+    });
+
+    it('should require short words to match exactly or by prefix', () => {
+      expect(expandWord('tee', vocabulary)).toEqual([]);
+    });
+  });
+
+  describe('matchesAmountFilters', () => {
+    it('should require every filter to match', () => {
+      const filters = [
+        { operator: 'gte' as const, value: 10 },
+        { operator: 'lt' as const, value: 50 },
+      ];
+      expect(matchesAmountFilters(10, filters)).toBe(true);
+      expect(matchesAmountFilters(50, filters)).toBe(false);
+    });
+  });
+
+  describe('addTermChanges', () => {
+    it('should record only the terms that changed', () => {
+      const changes: SearchIndexChanges = new Map();
+      addTermChanges(changes, 'r1', ['coffee', 'other'], ['coffee', 'travel']);
+      addTermChanges(changes, 'r2', [], ['travel']);
+
+      expect(Object.fromEntries(changes)).toEqual({
+        travel: { added: ['r1', 'r2'], removed: [] },
+        other: { added: [], removed: ['r1'] },
+      });
+    });
+  });
+
+  describe('receiptQuerySchema search', () => {
+    it('should reject a malformed amount filter', () => {
+      const result = receiptQuerySchema.safeParse({ search: 'coffee total:abc' });
+      expect(result.success).toBe(false);
+    });
+  });
+});
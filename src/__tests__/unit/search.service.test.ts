@@ -0,0 +1,206 @@
+/**
+ * Unit tests for receipt search over the inverted index
+ */
+
+import { SearchService } from '../../services/search.service';
+import { SearchIndexRepository } from '../../repositories/searchIndex.repository';
+import { ReceiptRepository } from '../../repositories/receipt.repository';
+import { Receipt, ReceiptStatus } from '../../models/receipt.model';
+
+jest.mock('../../repositories/searchIndex.repository');
+jest.mock('../../repositories/receipt.repository');
+
+const buildReceipt = (id: string, total: number, date: string): Receipt => ({
+  id,
+  userId: 'user123',
+  merchant: 'Starbucks',
+  date: new Date(date),
+  total,
+  currency: 'USD',
+  category: 'Food & Dining',
+  tags: [],
+  lineItems: [],
+  status: ReceiptStatus.COMPLETED,
+  createdAt: new Date(date),
+  updatedAt: new Date(date),
+  deletedAt: null,
+});
+
+describe('SearchService', () => {
+  let service: SearchService;
+  let searchIndexRepository: jest.Mocked<SearchIndexRepository>;
+  let receiptRepository: jest.Mocked<ReceiptRepository>;
+
+  const receipts = [
+    buildReceipt('r1', 4.5, '2024-03-01'),
+    buildReceipt('r2', 12, '2024-03-02'),
+    buildReceipt('r3', 8, '2024-03-03'),
+    { ...buildReceipt('r4', 30, '2024-03-04'), deletedAt: new Date('2024-03-05') },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new SearchService();
+    searchIndexRepository = jest.mocked(SearchIndexRepository).mock
+      .instances[0] as jest.Mocked<SearchIndexRepository>;
+    receiptRepository = jest.mocked(ReceiptRepository).mock
+      .instances[0] as jest.Mocked<ReceiptRepository>;
+
+    const vocabulary = ['starbucks', 'coffee', 'latte'];
+    searchIndexRepository.getTerms.mockResolvedValue(vocabulary);
+    searchIndexRepository.getTermsByPrefix.mockImplementation(async (_userId, prefix) =>
+      vocabulary.filter((term) => term.startsWith(prefix))
+    );
+    searchIndexRepository.getPostings.mockResolvedValue(
+      new Map([
+        ['starbucks', ['r1', 'r2', 'r3', 'r4']],
+        ['coffee', ['r1', 'r3', 'r4']],
+        ['latte', ['r3']],
+      ])
+    );
+    receiptRepository.getReceiptsByIds.mockImplementation(async (_userId, ids) =>
+      receipts.filter((receipt) => ids.includes(receipt.id))
+    );
+  });
+
+  it('should require every word to match, by prefix or with a typo', async () => {
+    const result = await service.searchReceipts({ userId: 'user123', search: 'star cofee' });
+
+    expect(searchIndexRepository.getPostings).toHaveBeenCalledWith('user123', [
+      'starbucks',
+      'coffee',
+    ]);
+    expect(result.receipts.map((receipt) => receipt.id)).toEqual(['r3', 'r1']);
+    expect(result.total).toBe(2);
+  });
+
+  it('should only load the whole vocabulary when a word has no prefix match', async () => {
+    await service.searchReceipts({ userId: 'user123', search: 'star lat' });
+
+    expect(searchIndexRepository.getTermsByPrefix).toHaveBeenCalledWith('user123', 'star', 51);
+    expect(searchIndexRepository.getTerms).not.toHaveBeenCalled();
+  });
+
+  describe('with a large vocabulary', () => {
+    // More terms start with "co" than one word may expand to
+    let largeVocabulary: string[];
+
+    beforeEach(() => {
+      largeVocabulary = [
+        'co',
+        ...Array.from({ length: 60 }, (_, i) => `co${String(i).padStart(2, '0')}`),
+        'starbucks',
+      ].sort();
+      searchIndexRepository.getTermsByPrefix.mockImplementation(async (_userId, prefix, limit) =>
+        largeVocabulary.filter((term) => term.startsWith(prefix)).slice(0, limit)
+      );
+      searchIndexRepository.getPostings.mockResolvedValue(
+        new Map([
+          ['co', ['r2']],
+          ['starbucks', ['r1', 'r2', 'r3']],
+        ])
+      );
+    });
+
+    it('should match only the exact term for a word with too many prefix matches', async () => {
+      const result = await service.searchReceipts({ userId: 'user123', search: 'starbucks co' });
+
+      expect(searchIndexRepository.getPostings).toHaveBeenCalledWith('user123', [
+        'starbucks',
+        'co',
+      ]);
+      expect(result.receipts.map((receipt) => receipt.id)).toEqual(['r2']);
+    });
+
+    it('should reject such a word only when it is not a term itself', async () => {
+      largeVocabulary.shift();
+
+      await expect(
+        service.searchReceipts({ userId: 'user123', search: 'co' })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(searchIndexRepository.getPostings).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should apply amount filters and count every match across pages', async () => {
+    const firstPage = await service.searchReceipts({
+      userId: 'user123',
+      search: 'starbucks total:>4',
+      limit: 1,
+    });
+
+    expect(firstPage.total).toBe(3);
+    expect(firstPage.receipts.map((receipt) => receipt.id)).toEqual(['r3']);
+    expect(firstPage.hasMore).toBe(true);
+
+    const secondPage = await service.searchReceipts({
+      userId: 'user123',
+      search: 'starbucks total:>4',
+      limit: 1,
+      startAfter: firstPage.nextCursor,
+    });
+
+    expect(secondPage.receipts.map((receipt) => receipt.id)).toEqual(['r2']);
+  });
+
+  it('should use the amount query when there are no words', async () => {
+    receiptRepository.getReceiptsByAmount.mockResolvedValue([receipts[1]]);
+
+    const result = await service.searchReceipts({ userId: 'user123', search: 'total:10..20' });
+
+    expect(receiptRepository.getReceiptsByAmount).toHaveBeenCalledWith(
+      'user123',
+      [
+        { operator: 'gte', value: 10 },
+        { operator: 'lte', value: 20 },
+      ],
+      1001
+    );
+    expect(searchIndexRepository.getTerms).not.toHaveBeenCalled();
+    expect(result.total).toBe(1);
+  });
+
+  it('should reject a search matching more receipts than a page may read', async () => {
+    searchIndexRepository.getPostings.mockResolvedValue(
+      new Map([['starbucks', Array.from({ length: 1001 }, (_, i) => `r${i}`)]])
+    );
+
+    await expect(
+      service.searchReceipts({ userId: 'user123', search: 'starbucks' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(receiptRepository.getReceiptsByIds).not.toHaveBeenCalled();
+  });
+
+  it('should return nothing when a word matches no term', async () => {
+    const result = await service.searchReceipts({ userId: 'user123', search: 'coffee pizza' });
+
+    expect(searchIndexRepository.getPostings).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      receipts: [],
+      total: 0,
+      limit: 20,
+      hasMore: false,
+      nextCursor: undefined,
+    });
+  });
+
+  it('should rebuild postings from every receipt', async () => {
+    receiptRepository.getSearchTermsByReceipt.mockResolvedValue(
+      new Map([
+        ['r1', ['starbucks', 'coffee']],
+        ['r2', ['starbucks']],
+      ])
+    );
+
+    const result = await service.rebuildIndex('user123');
+
+    expect(searchIndexRepository.replaceIndex).toHaveBeenCalledWith(
+      'user123',
+      new Map([
+        ['starbucks', ['r1', 'r2']],
+        ['coffee', ['r1']],
+      ])
+    );
+    expect(result).toEqual({ receipts: 2, terms: 2 });
+  });
+});
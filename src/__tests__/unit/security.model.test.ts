@@ -0,0 +1,82 @@
+/**
+ * Unit tests for IP range helpers
+ */
+
+import {
+  IPRule,
+  findIPRule,
+  isIPInCIDR,
+  normalizeCIDR,
+  normalizeIP,
+} from '../../models/security.model';
+
+const buildIPRule = (overrides: Partial<IPRule> = {}): IPRule => ({
+  id: 'rule-1',
+  type: 'block',
+  cidr: '203.0.113.0/24',
+  reason: null,
+  createdBy: 'admin123',
+  createdAt: new Date('2024-01-01'),
+  expiresAt: null,
+  ...overrides,
+});
+
+describe('Security models', () => {
+  describe('normalizeIP helper', () => {
+    it('should unwrap IPv4-mapped IPv6 addresses', () => {
+      expect(normalizeIP('::ffff:203.0.113.7')).toBe('203.0.113.7');
+      expect(normalizeIP(' 2001:db8::1 ')).toBe('2001:db8::1');
+    });
+  });
+
+  describe('normalizeCIDR helper', () => {
+    it('should turn single addresses into full-length ranges', () => {
+      expect(normalizeCIDR('203.0.113.7')).toBe('203.0.113.7/32');
+      expect(normalizeCIDR('2001:DB8::1')).toBe('2001:db8::1/128');
+    });
+
+    it('should keep valid ranges', () => {
+      expect(normalizeCIDR('203.0.113.0/24')).toBe('203.0.113.0/24');
+      expect(normalizeCIDR('2001:db8::/32')).toBe('2001:db8::/32');
+    });
+
+    it('should reject invalid addresses and prefixes', () => {
+      expect(normalizeCIDR('not-an-ip')).toBeNull();
+      expect(normalizeCIDR('203.0.113.0/33')).toBeNull();
+      expect(normalizeCIDR('203.0.113.0/abc')).toBeNull();
+      expect(normalizeCIDR('203.0.113.0/24/8')).toBeNull();
+    });
+  });
+
+  describe('isIPInCIDR helper', () => {
+    it('should match addresses inside the range', () => {
+      expect(isIPInCIDR('203.0.113.77', '203.0.113.0/24')).toBe(true);
+      expect(isIPInCIDR('::ffff:203.0.113.77', '203.0.113.0/24')).toBe(true);
+      expect(isIPInCIDR('2001:db8:1::1', '2001:db8::/32')).toBe(true);
+    });
+
+    it('should not match addresses outside the range or of another family', () => {
+      expect(isIPInCIDR('203.0.114.1', '203.0.113.0/24')).toBe(false);
+      expect(isIPInCIDR('2001:db8::1', '203.0.113.0/24')).toBe(false);
+      expect(isIPInCIDR('unknown', '203.0.113.0/24')).toBe(false);
+    });
+  });
+
+  describe('findIPRule helper', () => {
+    const now = new Date('2024-06-01T00:00:00Z');
+
+    it('should find an active rule of the requested type', () => {
+      const rules = [buildIPRule({ id: 'allow-1', type: 'allow' }), buildIPRule()];
+
+      expect(findIPRule(rules, '203.0.113.7', 'block', now)?.id).toBe('rule-1');
+      expect(findIPRule(rules, '203.0.113.7', 'allow', now)?.id).toBe('allow-1');
+      expect(findIPRule(rules, '198.51.100.1', 'block', now)).toBeNull();
+    });
+
+    it('should ignore expired rules', () => {
+      const rules = [buildIPRule({ expiresAt: new Date('2024-05-31T00:00:00Z') })];
+
+      expect(findIPRule(rules, '203.0.113.7', 'block', now)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Unit tests for admin IP rules and security events
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { SecurityService } from '../../services/security.service';
+import {
+  checkIPBlocked,
+  recordFailedAttempt,
+  securityStore,
+} from '../../middleware/abuseDetection';
+import { auditLogger, AuditAction, SECURITY_EVENT_ACTIONS } from '../../services/audit.service';
+import { Request } from 'express';
+
+jest.mock('../../config', () => ({
+  __esModule: true,
+  default: {
+    ...jest.requireActual('../../config').default,
+    securityStore: { driver: 'memory' },
+  },
+}));
+jest.mock('../../services/audit.service', () => ({
+  ...jest.requireActual('../../services/audit.service'),
+  auditLogger: { log: jest.fn(), logFromRequest: jest.fn(), queryLogs: jest.fn() },
+}));
+
+const adminIP = '198.51.100.1';
+
+const buildRequest = (ip: string): Request => ({ headers: {}, ip }) as unknown as Request;
+
+describe('SecurityService', () => {
+  let service: SecurityService;
+  let idCounter = 0;
+
+  beforeEach(async () => {
+    jest.mocked(uuidv4).mockImplementation((() => `rule-${++idCounter}`) as typeof uuidv4);
+    service = new SecurityService();
+
+    // The store is shared across tests, so start each one without rules
+    for (const rule of await securityStore.listIPRules()) {
+      await securityStore.deleteIPRule(rule.id);
+    }
+  });
+
+  it('should block a normalized range and reject requests from it', async () => {
+    const rule = await service.addIPRule(
+      'block',
+      { cidr: ' 203.0.113.0/24 ' },
+      'admin123',
+      adminIP
+    );
+
+    expect(rule).toMatchObject({ type: 'block', cidr: '203.0.113.0/24', createdBy: 'admin123' });
+    expect(await service.listIPRules('block')).toEqual([rule]);
+    await expect(
+      checkIPBlocked(buildRequest('203.0.113.9'), {} as never, jest.fn())
+    ).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('should let allowlisted IPs through blocks', async () => {
+    await service.addIPRule('block', { cidr: '203.0.113.0/24' }, 'admin123', adminIP);
+    await service.addIPRule('allow', { cidr: '203.0.113.9' }, 'admin123', adminIP);
+    const req = buildRequest('203.0.113.9');
+    for (let i = 0; i < 10; i++) {
+      await recordFailedAttempt(req, 'invalid_token');
+    }
+    const next = jest.fn();
+
+    await checkIPBlocked(req, {} as never, next);
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('should ignore a spoofed X-Forwarded-For when matching rules', async () => {
+    await service.addIPRule('block', { cidr: '203.0.113.0/24' }, 'admin123', adminIP);
+    await service.addIPRule('allow', { cidr: '192.0.2.1' }, 'admin123', adminIP);
+    const next = jest.fn();
+
+    // Claiming an allowlisted address doesn't get a blocked client through
+    const spoofedAllowed = {
+      headers: { 'x-forwarded-for': '192.0.2.1, 203.0.113.9' },
+      ip: '203.0.113.9',
+    } as unknown as Request;
+    await expect(checkIPBlocked(spoofedAllowed, {} as never, next)).rejects.toMatchObject({
+      statusCode: 403,
+    });
+
+    // Neither does claiming an address outside the blocked range
+    const spoofedOutside = {
+      headers: { 'x-forwarded-for': '198.51.100.50, 203.0.113.9' },
+      ip: '203.0.113.9',
+    } as unknown as Request;
+    await expect(checkIPBlocked(spoofedOutside, {} as never, next)).rejects.toMatchObject({
+      statusCode: 403,
+    });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should not let an admin block their own IP', async () => {
+    await expect(
+      service.addIPRule('block', { cidr: '198.51.100.0/24' }, 'admin123', adminIP)
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('should reject blocks that would lock out most clients', async () => {
+    for (const cidr of ['0.0.0.0/0', '10.0.0.0/7', '::/0', '2001:db8::/31']) {
+      await expect(service.addIPRule('block', { cidr }, 'admin123', adminIP)).rejects.toMatchObject(
+        { statusCode: 400 }
+      );
+    }
+    expect(await service.listIPRules('block')).toEqual([]);
+  });
+
+  it('should let an allowlisted admin block a range containing their IP', async () => {
+    await service.addIPRule('allow', { cidr: adminIP }, 'admin123', adminIP);
+
+    const rule = await service.addIPRule('block', { cidr: '198.51.100.0/24' }, 'admin123', adminIP);
+
+    expect(rule.cidr).toBe('198.51.100.0/24');
+  });
+
+  it("should not remove the allowlist entry keeping the admin's IP unblocked", async () => {
+    const allow = await service.addIPRule('allow', { cidr: adminIP }, 'admin123', adminIP);
+    await service.addIPRule('block', { cidr: '198.51.100.0/24' }, 'admin123', adminIP);
+
+    await expect(service.removeIPRule('allow', allow.id, adminIP)).rejects.toMatchObject({
+      statusCode: 400,
+    });
+    expect(await service.listIPRules('allow')).toEqual([allow]);
+  });
+
+  it('should reject a range that is already blocked', async () => {
+    await service.addIPRule('block', { cidr: '203.0.113.7' }, 'admin123', adminIP);
+
+    await expect(
+      service.addIPRule('block', { cidr: '203.0.113.7/32' }, 'admin123', adminIP)
+    ).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('should hide expired rules', async () => {
+    await service.addIPRule(
+      'block',
+      { cidr: '203.0.113.7', expiresAt: new Date(Date.now() - 1000) },
+      'admin123',
+      adminIP
+    );
+
+    expect(await service.listIPRules('block')).toEqual([]);
+  });
+
+  it('should remove a rule only through its own list', async () => {
+    const rule = await service.addIPRule('allow', { cidr: '203.0.113.7' }, 'admin123', adminIP);
+
+    await expect(service.removeIPRule('block', rule.id, adminIP)).rejects.toMatchObject({
+      statusCode: 404,
+    });
+    await service.removeIPRule('allow', rule.id, adminIP);
+
+    expect(await service.listIPRules('allow')).toEqual([]);
+  });
+
+  it('should clear an automatic block', async () => {
+    const req = buildRequest('192.0.2.5');
+    for (let i = 0; i < 10; i++) {
+      await recordFailedAttempt(req, 'invalid_token');
+    }
+
+    await service.clearTrackedIP('192.0.2.5');
+
+    expect(await securityStore.getIPTracker('192.0.2.5')).toBeNull();
+    await expect(service.clearTrackedIP('192.0.2.5')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should default security events to every security action', async () => {
+    jest.mocked(auditLogger.queryLogs).mockResolvedValue([]);
+
+    await service.getSecurityEvents({ ip: '203.0.113.7' }, 50);
+    await service.getSecurityEvents({ actions: [AuditAction.SECURITY_IP_BLOCKED] }, 10, 'log-1');
+
+    expect(auditLogger.queryLogs).toHaveBeenNthCalledWith(
+      1,
+      { ip: '203.0.113.7', actions: SECURITY_EVENT_ACTIONS },
+      50,
+      undefined
+    );
+    expect(auditLogger.queryLogs).toHaveBeenNthCalledWith(
+      2,
+      { actions: [AuditAction.SECURITY_IP_BLOCKED] },
+      10,
+      'log-1'
+    );
+  });
+});
@@ -10,6 +10,8 @@ import { sanitizeRequest } from './middleware/sanitization';
 import { checkIPBlocked } from './middleware/abuseDetection';
 import { generalRateLimiter } from './middleware/rateLimiter';
 import routes from './routes';
+import { jobQueue } from './services/jobQueue.service';
+import { apiKeyUsage } from './services/apiKeyUsage.service';
 
 export const createApp = (): Application => {
   const app: Application = express();
@@ -158,18 +160,23 @@ export const startServer = (app: Application): void => {
   });
 
   // Graceful shutdown
-  const shutdown = () => {
+  const shutdown = async () => {
     logger.info('Shutting down server...');
-    server.close(() => {
-      logger.info('Server shut down successfully');
-      process.exit(0);
-    });
 
     // Force close after 10 seconds
     setTimeout(() => {
       logger.error('Forced shutdown after timeout');
       process.exit(1);
     }, 10000);
+
+    // Let running background jobs finish before exiting
+    await jobQueue.stop();
+    await apiKeyUsage.stop();
+
+    server.close(() => {
+      logger.info('Server shut down successfully');
+      process.exit(0);
+    });
   };
 
   process.on('SIGTERM', shutdown);
@@ -24,11 +24,40 @@ interface Config {
     maxTokens: number;
     temperature: number;
   };
+  googleVision: {
+    apiKey: string;
+  };
+  parsing: {
+    providers: string[]; // Receipt parser names in fallback order
+    pdfMaxPages: number; // Longer PDFs are rejected instead of parsed
+  };
+  exchangeRates: {
+    seedFile: string; // JSON file of daily rate snapshots imported at startup
+  };
+  budgets: {
+    alertWebhookUrl: string; // Budget alerts are POSTed here in addition to being logged
+  };
+  trash: {
+    retentionDays: number; // Deleted receipts are purged after this many days; 0 keeps them
+    sweepIntervalMs: number;
+  };
   stripe: {
     secretKey: string;
     webhookSecret: string;
     proPriceId: string;
   };
+  jobQueue: {
+    driver: 'firestore' | 'memory';
+    concurrency: number;
+    pollIntervalMs: number;
+    maxAttempts: number;
+    backoffBaseMs: number;
+    backoffMaxMs: number;
+    leaseMs: number;
+  };
+  securityStore: {
+    driver: 'firestore' | 'memory'; // Where rate limit counters and IP blocks are kept
+  };
   frontendUrl: string;
   corsOrigins: string;
   maxRequestSize: string;
@@ -51,11 +80,43 @@ const config: Config = {
     maxTokens: parseInt(process.env.OPENAI_MAX_TOKENS || '2000', 10),
     temperature: parseFloat(process.env.OPENAI_TEMPERATURE || '0.1'),
   },
+  googleVision: {
+    apiKey: process.env.GOOGLE_VISION_API_KEY || '',
+  },
+  parsing: {
+    providers: (process.env.RECEIPT_PARSER_PROVIDERS || 'openai,google-vision')
+      .split(',')
+      .map((provider) => provider.trim())
+      .filter(Boolean),
+    pdfMaxPages: parseInt(process.env.PDF_MAX_PAGES || '10', 10),
+  },
+  exchangeRates: {
+    seedFile: process.env.EXCHANGE_RATES_FILE || '',
+  },
+  budgets: {
+    alertWebhookUrl: process.env.BUDGET_ALERT_WEBHOOK_URL || '',
+  },
+  trash: {
+    retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+    sweepIntervalMs: parseInt(process.env.TRASH_SWEEP_INTERVAL_MS || '3600000', 10),
+  },
   stripe: {
     secretKey: process.env.STRIPE_SECRET_KEY || '',
     webhookSecret: process.env.STRIPE_WEBHOOK_SECRET || '',
     proPriceId: process.env.STRIPE_PRO_PRICE_ID || '',
   },
+  jobQueue: {
+    driver: process.env.JOB_QUEUE_DRIVER === 'memory' ? 'memory' : 'firestore',
+    concurrency: parseInt(process.env.JOB_QUEUE_CONCURRENCY || '2', 10),
+    pollIntervalMs: parseInt(process.env.JOB_QUEUE_POLL_INTERVAL_MS || '2000', 10),
+    maxAttempts: parseInt(process.env.JOB_QUEUE_MAX_ATTEMPTS || '5', 10),
+    backoffBaseMs: parseInt(process.env.JOB_QUEUE_BACKOFF_BASE_MS || '5000', 10),
+    backoffMaxMs: parseInt(process.env.JOB_QUEUE_BACKOFF_MAX_MS || '300000', 10),
+    leaseMs: parseInt(process.env.JOB_QUEUE_LEASE_MS || '600000', 10),
+  },
+  securityStore: {
+    driver: process.env.SECURITY_STORE_DRIVER === 'memory' ? 'memory' : 'firestore',
+  },
   frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3001',
   corsOrigins: process.env.CORS_ORIGINS || 'http://localhost:3001,http://localhost:3000',
   maxRequestSize: process.env.MAX_REQUEST_SIZE || '10mb',
@@ -1,5 +1,6 @@
 import swaggerJsdoc from 'swagger-jsdoc';
 import config from './index';
+import { CURRENCY_CODES } from '../models/currency.model';
 
 const swaggerDefinition = {
   openapi: '3.0.0',
@@ -38,7 +39,8 @@ const swaggerDefinition = {
         type: 'apiKey',
         in: 'header',
         name: 'X-API-Key',
-        description: 'API key for programmatic access (format: rsk_[live|test]_[key])',
+        description:
+          'API key for programmatic access (format: rsk_[live|test]_[key]). Create keys with POST /auth/api-keys; each endpoint needs the matching scope.',
       },
     },
     schemas: {
@@ -53,6 +55,136 @@ const swaggerDefinition = {
         enum: ['free', 'pro', 'premium', 'enterprise'],
         description: 'Subscription tier (premium and enterprise are reserved for future use)',
       },
+      ApiKeyScope: {
+        type: 'string',
+        enum: ['receipts:read', 'receipts:write', 'receipts:export', 'analytics:read'],
+        description:
+          'receipts:read lists and reads receipts; receipts:write changes them; receipts:export exports them; analytics:read covers analytics and stats',
+      },
+      ApiKey: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+          },
+          name: {
+            type: 'string',
+            example: 'Accounting sync',
+          },
+          keyPrefix: {
+            type: 'string',
+            description: 'Start of the key, to tell keys apart',
+            example: 'rsk_live_1a2b3c',
+          },
+          scopes: {
+            type: 'array',
+            items: {
+              $ref: '#/components/schemas/ApiKeyScope',
+            },
+          },
+          active: {
+            type: 'boolean',
+            description: 'False once revoked',
+          },
+          createdAt: {
+            type: 'string',
+            format: 'date-time',
+          },
+          updatedAt: {
+            type: 'string',
+            format: 'date-time',
+          },
+          lastUsedAt: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+          },
+          expiresAt: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+          },
+          revokedAt: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+          },
+          rotatedTo: {
+            type: 'string',
+            nullable: true,
+            description: 'ID of the key that replaced this one',
+          },
+          rateLimit: {
+            $ref: '#/components/schemas/ApiKeyRateLimit',
+          },
+        },
+      },
+      ApiKeyRateLimit: {
+        type: 'object',
+        description:
+          'Request quota of a key (default 60 per minute); at most 120 requests per minute on average',
+        properties: {
+          maxRequests: {
+            type: 'integer',
+            minimum: 1,
+            example: 1000,
+          },
+          windowMs: {
+            type: 'integer',
+            enum: [60000, 3600000, 86400000],
+            example: 3600000,
+          },
+        },
+      },
+      ApiKeyUsagePoint: {
+        type: 'object',
+        properties: {
+          periodStart: {
+            type: 'string',
+            format: 'date-time',
+          },
+          requests: {
+            type: 'integer',
+          },
+          rateLimited: {
+            type: 'integer',
+            description: 'Requests rejected for exceeding the quota (included in requests)',
+          },
+        },
+      },
+      ApiKeyUsage: {
+        type: 'object',
+        properties: {
+          apiKeyId: {
+            type: 'string',
+          },
+          rateLimit: {
+            $ref: '#/components/schemas/ApiKeyRateLimit',
+          },
+          last24Hours: {
+            type: 'object',
+            properties: {
+              requests: { type: 'integer' },
+              rateLimited: { type: 'integer' },
+              hourly: {
+                type: 'array',
+                items: { $ref: '#/components/schemas/ApiKeyUsagePoint' },
+              },
+            },
+          },
+          last30Days: {
+            type: 'object',
+            properties: {
+              requests: { type: 'integer' },
+              rateLimited: { type: 'integer' },
+              daily: {
+                type: 'array',
+                items: { $ref: '#/components/schemas/ApiKeyUsagePoint' },
+              },
+            },
+          },
+        },
+      },
       SubscriptionStatus: {
         type: 'string',
         enum: ['active', 'canceled', 'past_due', 'trialing', 'unpaid', 'incomplete'],
@@ -75,6 +207,9 @@ const swaggerDefinition = {
             description: 'User display name',
             nullable: true,
           },
+          homeCurrency: {
+            $ref: '#/components/schemas/Currency',
+          },
           role: {
             $ref: '#/components/schemas/UserRole',
           },
@@ -83,278 +218,1187 @@ const swaggerDefinition = {
           },
           stripeCustomerId: {
             type: 'string',
-            description: 'Stripe customer ID',
-            nullable: true,
+            description: 'Stripe customer ID',
+            nullable: true,
+          },
+          subscriptionId: {
+            type: 'string',
+            description: 'Stripe subscription ID',
+            nullable: true,
+          },
+          subscriptionStatus: {
+            $ref: '#/components/schemas/SubscriptionStatus',
+            nullable: true,
+          },
+          currentPeriodEnd: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Current billing period end date',
+            nullable: true,
+          },
+          lastSignInAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Most recent sign-in',
+            nullable: true,
+          },
+          receiptUsageThisMonth: {
+            type: 'number',
+            description: 'Number of receipts processed this month',
+          },
+          usagePeriodStart: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Start of current usage period',
+          },
+          createdAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Account creation timestamp',
+          },
+          updatedAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Last update timestamp',
+          },
+        },
+      },
+
+      // Receipt Models
+      Currency: {
+        type: 'string',
+        enum: CURRENCY_CODES,
+        description: 'ISO 4217 currency code',
+      },
+      ReceiptStatus: {
+        type: 'string',
+        enum: ['pending', 'processing', 'completed', 'failed'],
+        description: 'Receipt processing status',
+      },
+      ReceiptCategory: {
+        type: 'string',
+        enum: [
+          'Food & Dining',
+          'Transportation',
+          'Office Supplies',
+          'Travel',
+          'Healthcare',
+          'Other',
+        ],
+        description: 'Receipt category (predefined categories, custom categories also supported)',
+      },
+      LineItem: {
+        type: 'object',
+        required: ['description', 'quantity', 'unitPrice', 'total'],
+        properties: {
+          description: {
+            type: 'string',
+            description: 'Item description',
+            example: 'Organic Bananas',
+          },
+          quantity: {
+            type: 'number',
+            description: 'Item quantity',
+            example: 2,
+          },
+          unitPrice: {
+            type: 'number',
+            description: 'Price per unit',
+            example: 0.79,
+          },
+          total: {
+            type: 'number',
+            description: 'Total item price',
+            example: 1.58,
+          },
+          category: {
+            type: 'string',
+            description: 'Item category',
+            nullable: true,
+          },
+        },
+      },
+      Receipt: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            format: 'uuid',
+            description: 'Unique receipt identifier',
+          },
+          userId: {
+            type: 'string',
+            description: 'Owner user ID',
+          },
+          merchant: {
+            type: 'string',
+            description: 'Merchant/store name',
+            example: 'Whole Foods Market',
+          },
+          date: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Receipt transaction date',
+          },
+          total: {
+            type: 'number',
+            description: 'Total amount',
+            example: 127.45,
+          },
+          tax: {
+            type: 'number',
+            description: 'Tax amount',
+            nullable: true,
+            example: 11.25,
+          },
+          currency: {
+            $ref: '#/components/schemas/Currency',
+          },
+          category: {
+            type: 'string',
+            description: 'Receipt category (predefined or custom)',
+            example: 'Food & Dining',
+          },
+          tags: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            description: 'Custom tags for organization',
+            example: ['groceries', 'organic'],
+          },
+          lineItems: {
+            type: 'array',
+            items: {
+              $ref: '#/components/schemas/LineItem',
+            },
+            description: 'Individual items on receipt',
+          },
+          imageUrl: {
+            type: 'string',
+            format: 'uri',
+            description: 'URL to receipt image (the first attachment)',
+            nullable: true,
+          },
+          attachments: {
+            type: 'array',
+            items: {
+              $ref: '#/components/schemas/ReceiptAttachment',
+            },
+            description: 'Files of the receipt in display order',
+          },
+          notes: {
+            type: 'string',
+            nullable: true,
+            description: 'Free-text notes; included in search',
+            example: 'Client dinner with Acme',
+          },
+          status: {
+            $ref: '#/components/schemas/ReceiptStatus',
+          },
+          failureReason: {
+            type: 'string',
+            description: 'Reason parsing failed (set when status is failed)',
+            nullable: true,
+          },
+          fieldConfidence: {
+            type: 'object',
+            description:
+              'Parse confidence per field (merchant, date, total, tax, currency, category, lineItems)',
+            nullable: true,
+            additionalProperties: {
+              $ref: '#/components/schemas/FieldConfidence',
+            },
+          },
+          needsReview: {
+            type: 'boolean',
+            description: 'True while any parsed field is pending human review',
+            example: false,
+          },
+          duplicate: {
+            $ref: '#/components/schemas/DuplicateFlag',
+          },
+          createdAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Creation timestamp',
+          },
+          updatedAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Last update timestamp',
+          },
+          deletedAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Soft delete timestamp',
+            nullable: true,
+          },
+        },
+      },
+      ReceiptAttachment: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+          },
+          path: {
+            type: 'string',
+            description: 'Storage path of the file',
+          },
+          mimeType: {
+            type: 'string',
+            example: 'image/jpeg',
+          },
+          size: {
+            type: 'integer',
+            nullable: true,
+            description: 'File size in bytes; null for files uploaded before attachments existed',
+          },
+          role: {
+            type: 'string',
+            enum: ['front', 'back', 'card_slip', 'itemized', 'supporting'],
+          },
+          url: {
+            type: 'string',
+            format: 'uri',
+            nullable: true,
+            description: 'Signed URL valid for 1 hour',
+          },
+        },
+      },
+      DuplicateFlag: {
+        type: 'object',
+        description: 'Set when the receipt looks like a copy of an earlier receipt',
+        nullable: true,
+        properties: {
+          originalId: {
+            type: 'string',
+            description: 'ID of the original receipt',
+          },
+          reason: {
+            type: 'string',
+            enum: ['identical_file', 'similar'],
+            description:
+              'identical_file: the same file was uploaded before; similar: merchant, date and total match',
+          },
+          status: {
+            type: 'string',
+            enum: ['pending', 'dismissed', 'merged'],
+          },
+          detectedAt: {
+            type: 'string',
+            format: 'date-time',
+          },
+        },
+      },
+      FieldConfidence: {
+        type: 'object',
+        properties: {
+          confidence: {
+            type: 'number',
+            minimum: 0,
+            maximum: 1,
+            example: 0.42,
+          },
+          confidenceLevel: {
+            $ref: '#/components/schemas/ConfidenceLevel',
+          },
+          reviewStatus: {
+            type: 'string',
+            enum: ['pending', 'accepted', 'corrected'],
+            nullable: true,
+            description: 'Set for LOW confidence fields and fields changed through review',
+          },
+          reviewedAt: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+          },
+        },
+      },
+      ParsingRule: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+          },
+          merchantKey: {
+            type: 'string',
+            description: 'Normalized merchant name as the parser read it',
+            example: 'wfm 10234',
+          },
+          parsedMerchant: {
+            type: 'string',
+            example: 'WFM #10234',
+          },
+          merchant: {
+            type: 'string',
+            nullable: true,
+            description: 'Merchant name the user corrected to',
+            example: 'Whole Foods Market',
+          },
+          category: {
+            type: 'string',
+            nullable: true,
+            example: 'Groceries',
+          },
+          currency: {
+            type: 'string',
+            nullable: true,
+            example: 'USD',
+          },
+          corrections: {
+            type: 'integer',
+            description: 'Number of corrections recorded for this merchant',
+            example: 3,
+          },
+          createdAt: {
+            type: 'string',
+            format: 'date-time',
+          },
+          updatedAt: {
+            type: 'string',
+            format: 'date-time',
+          },
+        },
+      },
+      CreateReceiptDto: {
+        type: 'object',
+        required: ['merchant', 'date', 'total', 'currency', 'category'],
+        properties: {
+          merchant: {
+            type: 'string',
+            example: 'Whole Foods Market',
+          },
+          date: {
+            type: 'string',
+            format: 'date-time',
+            example: '2024-01-15T00:00:00.000Z',
+          },
+          total: {
+            type: 'number',
+            example: 127.45,
+          },
+          tax: {
+            type: 'number',
+            example: 11.25,
+          },
+          currency: {
+            $ref: '#/components/schemas/Currency',
+          },
+          category: {
+            type: 'string',
+            example: 'Food & Dining',
+          },
+          tags: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            example: ['groceries', 'organic'],
+          },
+          lineItems: {
+            type: 'array',
+            items: {
+              $ref: '#/components/schemas/LineItem',
+            },
+          },
+          imageUrl: {
+            type: 'string',
+            format: 'uri',
+          },
+          notes: {
+            type: 'string',
+            maxLength: 2000,
+          },
+          status: {
+            $ref: '#/components/schemas/ReceiptStatus',
+          },
+        },
+      },
+      UpdateReceiptDto: {
+        type: 'object',
+        properties: {
+          merchant: {
+            type: 'string',
+          },
+          date: {
+            type: 'string',
+            format: 'date-time',
+          },
+          total: {
+            type: 'number',
+          },
+          tax: {
+            type: 'number',
+          },
+          currency: {
+            $ref: '#/components/schemas/Currency',
+          },
+          category: {
+            type: 'string',
+          },
+          tags: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+          },
+          lineItems: {
+            type: 'array',
+            items: {
+              $ref: '#/components/schemas/LineItem',
+            },
+          },
+          imageUrl: {
+            type: 'string',
+            format: 'uri',
+          },
+          notes: {
+            type: 'string',
+            maxLength: 2000,
+            nullable: true,
+            description: 'null clears the notes',
+          },
+          status: {
+            $ref: '#/components/schemas/ReceiptStatus',
+          },
+        },
+      },
+
+      // Background Job Models
+      JobStatus: {
+        type: 'string',
+        enum: ['queued', 'running', 'completed', 'dead'],
+        description: 'Background job status (dead: all retry attempts exhausted)',
+      },
+      Job: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            format: 'uuid',
+            description: 'Job identifier',
+          },
+          type: {
+            type: 'string',
+            example: 'receipt.parse',
+          },
+          status: {
+            $ref: '#/components/schemas/JobStatus',
+          },
+          attempts: {
+            type: 'number',
+            example: 1,
+          },
+          maxAttempts: {
+            type: 'number',
+            example: 5,
+          },
+          runAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Earliest time the job will run',
+          },
+          lastError: {
+            type: 'string',
+            nullable: true,
+          },
+          createdAt: {
+            type: 'string',
+            format: 'date-time',
+          },
+          updatedAt: {
+            type: 'string',
+            format: 'date-time',
+          },
+          completedAt: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+          },
+        },
+      },
+      DeadLetterJob: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            format: 'uuid',
+            description: 'ID of the original job',
+          },
+          type: {
+            type: 'string',
+            example: 'receipt.parse',
+          },
+          payload: {
+            type: 'object',
+            description: 'Original job payload',
+          },
+          userId: {
+            type: 'string',
+            nullable: true,
+          },
+          attempts: {
+            type: 'number',
+            example: 5,
+          },
+          maxAttempts: {
+            type: 'number',
+            example: 5,
+          },
+          error: {
+            type: 'string',
+            description: 'Error from the final attempt',
+          },
+          createdAt: {
+            type: 'string',
+            format: 'date-time',
+          },
+          failedAt: {
+            type: 'string',
+            format: 'date-time',
+          },
+        },
+      },
+
+      // Security Models
+      TrackedIP: {
+        type: 'object',
+        properties: {
+          ip: {
+            type: 'string',
+            example: '203.0.113.7',
+          },
+          failedAttempts: {
+            type: 'number',
+            example: 12,
+          },
+          blocked: {
+            type: 'boolean',
+            description: 'Whether the IP is automatically blocked',
+          },
+          blockedUntil: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+          },
+        },
+      },
+      IPRuleInput: {
+        type: 'object',
+        required: ['cidr'],
+        properties: {
+          cidr: {
+            type: 'string',
+            description: 'IPv4 or IPv6 address or CIDR range',
+            example: '203.0.113.0/24',
+          },
+          reason: {
+            type: 'string',
+            maxLength: 500,
+            example: 'Credential stuffing',
+          },
+          expiresInHours: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 8760,
+            description: 'Omit for a rule that never expires',
+          },
+        },
+      },
+      IPRule: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            format: 'uuid',
+          },
+          type: {
+            type: 'string',
+            enum: ['block', 'allow'],
+          },
+          cidr: {
+            type: 'string',
+            description: 'Single addresses are stored as /32 (IPv4) or /128 (IPv6) ranges',
+            example: '203.0.113.0/24',
+          },
+          reason: {
+            type: 'string',
+            nullable: true,
+          },
+          createdBy: {
+            type: 'string',
+            description: 'ID of the admin who created the rule',
+          },
+          createdAt: {
+            type: 'string',
+            format: 'date-time',
+          },
+          expiresAt: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+          },
+        },
+      },
+      AuditLog: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+          },
+          timestamp: {
+            type: 'string',
+            format: 'date-time',
+          },
+          action: {
+            type: 'string',
+            example: 'security.ip.blocked',
+          },
+          userId: {
+            type: 'string',
+          },
+          userEmail: {
+            type: 'string',
+          },
+          apiKeyId: {
+            type: 'string',
+          },
+          ip: {
+            type: 'string',
+          },
+          userAgent: {
+            type: 'string',
+          },
+          requestId: {
+            type: 'string',
+          },
+          resource: {
+            type: 'object',
+            properties: {
+              type: { type: 'string' },
+              id: { type: 'string' },
+            },
+          },
+          metadata: {
+            type: 'object',
+          },
+          success: {
+            type: 'boolean',
+          },
+          errorMessage: {
+            type: 'string',
+          },
+        },
+      },
+
+      // Parsed Receipt Models
+      ExchangeRateSnapshot: {
+        type: 'object',
+        properties: {
+          date: {
+            type: 'string',
+            format: 'date',
+            example: '2024-01-15',
+          },
+          base: {
+            $ref: '#/components/schemas/Currency',
+          },
+          rates: {
+            type: 'object',
+            additionalProperties: {
+              type: 'number',
+            },
+            description: 'Units of each currency per one unit of the base currency',
+            example: { EUR: 0.9152, BRL: 4.9121 },
+          },
+          source: {
+            type: 'string',
+            nullable: true,
+            example: 'ECB reference rates',
+          },
+          updatedAt: {
+            type: 'string',
+            format: 'date-time',
+          },
+        },
+      },
+      CurrencySubtotal: {
+        type: 'object',
+        properties: {
+          currency: {
+            $ref: '#/components/schemas/Currency',
+          },
+          amount: {
+            type: 'number',
+            description: 'Total in this currency',
+            example: 412.3,
+          },
+          count: {
+            type: 'number',
+            example: 6,
+          },
+          convertedAmount: {
+            type: 'number',
+            description: 'Total in the home currency, excluding receipts without an exchange rate',
+            example: 449.87,
+          },
+          unconvertedCount: {
+            type: 'number',
+            description: 'Receipts without an exchange rate for their date',
+            example: 0,
+          },
+        },
+      },
+      RuleCondition: {
+        type: 'object',
+        required: ['field', 'operator', 'value'],
+        description:
+          'Text fields (merchant, category, currency) support equals, contains and matches (a case-insensitive regular expression without backreferences, lookarounds, repeated groups containing quantifiers or alternatives, or more than 3 repeats; it is tested against the first 256 characters). Number fields (total, tax) support equals, gt, gte, lt and lte. For tags, equals and contains check that the receipt has the tag.',
+        properties: {
+          field: {
+            type: 'string',
+            enum: ['merchant', 'category', 'currency', 'total', 'tax', 'tags'],
+          },
+          operator: {
+            type: 'string',
+            enum: ['equals', 'contains', 'matches', 'gt', 'gte', 'lt', 'lte'],
+          },
+          value: {
+            oneOf: [{ type: 'string' }, { type: 'number' }],
+            example: 'uber',
+          },
+        },
+      },
+      RuleActions: {
+        type: 'object',
+        description: 'At least one action is required',
+        properties: {
+          category: {
+            type: 'string',
+            example: 'Transportation',
+          },
+          addTags: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            example: ['commute'],
+          },
+        },
+      },
+      ReceiptRuleInput: {
+        type: 'object',
+        required: ['name', 'conditions', 'actions'],
+        properties: {
+          name: {
+            type: 'string',
+            example: 'Uber rides',
+          },
+          priority: {
+            type: 'integer',
+            minimum: 0,
+            maximum: 10000,
+            default: 100,
+            description: 'Lower runs first',
+          },
+          enabled: {
+            type: 'boolean',
+            default: true,
+          },
+          conditions: {
+            type: 'array',
+            minItems: 1,
+            maxItems: 10,
+            items: {
+              $ref: '#/components/schemas/RuleCondition',
+            },
+          },
+          actions: {
+            $ref: '#/components/schemas/RuleActions',
+          },
+          stopProcessing: {
+            type: 'boolean',
+            default: false,
+            description: 'Skip lower-priority rules after this one matches',
+          },
+        },
+      },
+      ReceiptRule: {
+        allOf: [
+          { $ref: '#/components/schemas/ReceiptRuleInput' },
+          {
+            type: 'object',
+            properties: {
+              id: {
+                type: 'string',
+              },
+              createdAt: {
+                type: 'string',
+                format: 'date-time',
+              },
+              updatedAt: {
+                type: 'string',
+                format: 'date-time',
+              },
+            },
+          },
+        ],
+      },
+      RuleChange: {
+        type: 'object',
+        properties: {
+          ruleId: {
+            type: 'string',
+          },
+          ruleName: {
+            type: 'string',
+            example: 'Uber rides',
+          },
+          category: {
+            type: 'object',
+            properties: {
+              from: {
+                type: 'string',
+                example: 'Other',
+              },
+              to: {
+                type: 'string',
+                example: 'Transportation',
+              },
+            },
+          },
+          addedTags: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            example: ['commute'],
+          },
+        },
+      },
+      RuleApplication: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+          },
+          receiptId: {
+            type: 'string',
+          },
+          trigger: {
+            type: 'string',
+            enum: ['create', 'parse', 'manual'],
+          },
+          changes: {
+            type: 'array',
+            items: {
+              $ref: '#/components/schemas/RuleChange',
+            },
+          },
+          appliedAt: {
+            type: 'string',
+            format: 'date-time',
+          },
+        },
+      },
+      BulkOperationResult: {
+        type: 'object',
+        description: 'Outcome of a bulk receipt operation',
+        properties: {
+          operation: {
+            type: 'string',
+            enum: ['categorize', 'tag', 'untag', 'status', 'delete'],
+          },
+          matched: {
+            type: 'integer',
+            example: 120,
+          },
+          updated: {
+            type: 'integer',
+            example: 115,
+          },
+          unchanged: {
+            type: 'integer',
+            example: 4,
+          },
+          failed: {
+            type: 'integer',
+            example: 1,
+          },
+          results: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                receiptId: {
+                  type: 'string',
+                },
+                status: {
+                  type: 'string',
+                  enum: ['updated', 'unchanged', 'failed'],
+                },
+                error: {
+                  type: 'string',
+                  example: 'Receipt not found',
+                },
+              },
+            },
+          },
+        },
+      },
+      ReceiptVersion: {
+        type: 'object',
+        description: 'One entry in a receipt edit history',
+        properties: {
+          id: {
+            type: 'string',
+          },
+          receiptId: {
+            type: 'string',
+          },
+          version: {
+            type: 'integer',
+            description: 'Numbered from 1 per receipt',
+            example: 3,
+          },
+          source: {
+            type: 'string',
+            enum: [
+              'create',
+              'user',
+              'review',
+              'parse',
+              'rule',
+              'category',
+              'bulk',
+              'merge',
+              'revert',
+            ],
+            description: 'What made the change',
+          },
+          changedBy: {
+            type: 'string',
+            nullable: true,
+            description: 'User who made the change; null for the parser and automatic rules',
+          },
+          changes: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                field: {
+                  type: 'string',
+                  example: 'total',
+                },
+                from: {
+                  description: 'Value before the change',
+                  example: 42.5,
+                },
+                to: {
+                  description: 'Value after the change',
+                  example: 45,
+                },
+              },
+            },
+          },
+          snapshot: {
+            type: 'object',
+            description:
+              'merchant, date, total, tax, currency, category, tags, lineItems, imageUrl, attachments and notes after the change',
+          },
+          revertedFrom: {
+            type: 'integer',
+            nullable: true,
+            description: 'Version restored, for reverts',
+          },
+          createdAt: {
+            type: 'string',
+            format: 'date-time',
+          },
+        },
+      },
+      Category: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
           },
-          subscriptionId: {
+          name: {
             type: 'string',
-            description: 'Stripe subscription ID',
-            nullable: true,
+            example: 'Coffee',
           },
-          subscriptionStatus: {
-            $ref: '#/components/schemas/SubscriptionStatus',
+          parentId: {
+            type: 'string',
             nullable: true,
+            description: 'Parent category; only one level of nesting is supported',
           },
-          currentPeriodEnd: {
+          color: {
             type: 'string',
-            format: 'date-time',
-            description: 'Current billing period end date',
             nullable: true,
+            example: '#795548',
           },
-          receiptUsageThisMonth: {
-            type: 'number',
-            description: 'Number of receipts processed this month',
-          },
-          usagePeriodStart: {
+          icon: {
             type: 'string',
-            format: 'date-time',
-            description: 'Start of current usage period',
+            nullable: true,
+            example: 'coffee',
           },
           createdAt: {
             type: 'string',
             format: 'date-time',
-            description: 'Account creation timestamp',
           },
           updatedAt: {
             type: 'string',
             format: 'date-time',
-            description: 'Last update timestamp',
           },
         },
       },
-
-      // Receipt Models
-      Currency: {
-        type: 'string',
-        enum: ['USD', 'EUR', 'BRL', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'CNY'],
-        description: 'ISO 4217 currency code',
-      },
-      ReceiptStatus: {
-        type: 'string',
-        enum: ['pending', 'processing', 'completed', 'failed'],
-        description: 'Receipt processing status',
-      },
-      ReceiptCategory: {
-        type: 'string',
-        enum: [
-          'Food & Dining',
-          'Transportation',
-          'Office Supplies',
-          'Travel',
-          'Healthcare',
-          'Other',
-        ],
-        description: 'Receipt category (predefined categories, custom categories also supported)',
-      },
-      LineItem: {
+      CategoryMigrationResult: {
         type: 'object',
-        required: ['description', 'quantity', 'unitPrice', 'total'],
+        description: 'Documents moved to the new category name',
         properties: {
-          description: {
-            type: 'string',
-            description: 'Item description',
-            example: 'Organic Bananas',
-          },
-          quantity: {
-            type: 'number',
-            description: 'Item quantity',
-            example: 2,
+          receipts: {
+            type: 'integer',
+            example: 42,
           },
-          unitPrice: {
-            type: 'number',
-            description: 'Price per unit',
-            example: 0.79,
+          budgets: {
+            type: 'integer',
+            example: 1,
           },
-          total: {
-            type: 'number',
-            description: 'Total item price',
-            example: 1.58,
+          parsingRules: {
+            type: 'integer',
+            example: 3,
           },
-          category: {
-            type: 'string',
-            description: 'Item category',
-            nullable: true,
+          receiptRules: {
+            type: 'integer',
+            example: 1,
           },
         },
       },
-      Receipt: {
+      BudgetPeriod: {
+        type: 'string',
+        enum: ['monthly', 'quarterly', 'yearly'],
+        description: 'Calendar period a budget resets on',
+      },
+      Budget: {
         type: 'object',
         properties: {
           id: {
             type: 'string',
-            format: 'uuid',
-            description: 'Unique receipt identifier',
-          },
-          userId: {
-            type: 'string',
-            description: 'Owner user ID',
-          },
-          merchant: {
-            type: 'string',
-            description: 'Merchant/store name',
-            example: 'Whole Foods Market',
           },
-          date: {
+          category: {
             type: 'string',
-            format: 'date-time',
-            description: 'Receipt transaction date',
+            description: 'Receipt category, built-in or custom',
+            example: 'Groceries',
           },
-          total: {
-            type: 'number',
-            description: 'Total amount',
-            example: 127.45,
+          period: {
+            $ref: '#/components/schemas/BudgetPeriod',
           },
-          tax: {
+          amount: {
             type: 'number',
-            description: 'Tax amount',
-            nullable: true,
-            example: 11.25,
+            description: 'Spending limit per period',
+            example: 400,
           },
           currency: {
             $ref: '#/components/schemas/Currency',
           },
-          category: {
-            type: 'string',
-            description: 'Receipt category (predefined or custom)',
-            example: 'Food & Dining',
-          },
-          tags: {
-            type: 'array',
-            items: {
-              type: 'string',
-            },
-            description: 'Custom tags for organization',
-            example: ['groceries', 'organic'],
-          },
-          lineItems: {
-            type: 'array',
-            items: {
-              $ref: '#/components/schemas/LineItem',
-            },
-            description: 'Individual items on receipt',
-          },
-          imageUrl: {
-            type: 'string',
-            format: 'uri',
-            description: 'URL to receipt image',
-            nullable: true,
-          },
-          status: {
-            $ref: '#/components/schemas/ReceiptStatus',
-          },
           createdAt: {
             type: 'string',
             format: 'date-time',
-            description: 'Creation timestamp',
           },
           updatedAt: {
             type: 'string',
             format: 'date-time',
-            description: 'Last update timestamp',
-          },
-          deletedAt: {
-            type: 'string',
-            format: 'date-time',
-            description: 'Soft delete timestamp',
-            nullable: true,
           },
         },
       },
-      CreateReceiptDto: {
+      BudgetStatus: {
         type: 'object',
-        required: ['merchant', 'date', 'total', 'currency', 'category'],
         properties: {
-          merchant: {
+          budget: {
+            $ref: '#/components/schemas/Budget',
+          },
+          periodKey: {
             type: 'string',
-            example: 'Whole Foods Market',
+            description: 'Period the status covers',
+            example: '2024-03',
           },
-          date: {
+          periodStart: {
             type: 'string',
             format: 'date-time',
-            example: '2024-01-15T00:00:00.000Z',
           },
-          total: {
-            type: 'number',
-            example: 127.45,
+          periodEnd: {
+            type: 'string',
+            format: 'date-time',
           },
-          tax: {
+          spent: {
             type: 'number',
-            example: 11.25,
-          },
-          currency: {
-            $ref: '#/components/schemas/Currency',
+            description: 'Spending in the category, converted to the budget currency',
+            example: 342.18,
           },
-          category: {
-            type: 'string',
-            example: 'Food & Dining',
+          remaining: {
+            type: 'number',
+            description: 'Negative when the budget is exceeded',
+            example: 57.82,
           },
-          tags: {
-            type: 'array',
-            items: {
-              type: 'string',
-            },
-            example: ['groceries', 'organic'],
+          percentUsed: {
+            type: 'number',
+            example: 85.5,
           },
-          lineItems: {
+          crossedThresholds: {
             type: 'array',
             items: {
-              $ref: '#/components/schemas/LineItem',
+              type: 'integer',
             },
-          },
-          imageUrl: {
-            type: 'string',
-            format: 'uri',
-          },
-          status: {
-            $ref: '#/components/schemas/ReceiptStatus',
+            example: [50, 80],
           },
         },
       },
-      UpdateReceiptDto: {
+      BudgetAlert: {
         type: 'object',
         properties: {
-          merchant: {
+          id: {
             type: 'string',
           },
-          date: {
+          budgetId: {
             type: 'string',
-            format: 'date-time',
           },
-          total: {
+          category: {
+            type: 'string',
+            example: 'Groceries',
+          },
+          period: {
+            $ref: '#/components/schemas/BudgetPeriod',
+          },
+          periodKey: {
+            type: 'string',
+            example: '2024-03',
+          },
+          threshold: {
+            type: 'integer',
+            description: 'Percentage of the budget crossed',
+            enum: [50, 80, 100],
+            example: 80,
+          },
+          spent: {
             type: 'number',
+            example: 342.18,
           },
-          tax: {
+          amount: {
             type: 'number',
+            example: 400,
           },
           currency: {
             $ref: '#/components/schemas/Currency',
           },
-          category: {
-            type: 'string',
-          },
-          tags: {
-            type: 'array',
-            items: {
-              type: 'string',
-            },
-          },
-          lineItems: {
-            type: 'array',
-            items: {
-              $ref: '#/components/schemas/LineItem',
-            },
-          },
-          imageUrl: {
+          createdAt: {
             type: 'string',
-            format: 'uri',
-          },
-          status: {
-            $ref: '#/components/schemas/ReceiptStatus',
+            format: 'date-time',
           },
         },
       },
-
-      // Parsed Receipt Models
       ConfidenceLevel: {
         type: 'string',
         enum: ['high', 'medium', 'low'],
@@ -453,6 +1497,49 @@ const swaggerDefinition = {
             description: 'Average confidence across all fields',
             example: 0.92,
           },
+          warnings: {
+            type: 'array',
+            description: 'Values the parser guessed or coerced instead of reading them',
+            items: {
+              type: 'object',
+              properties: {
+                field: {
+                  type: 'string',
+                  example: 'lineItems[0].quantity',
+                },
+                message: {
+                  type: 'string',
+                  example: 'Missing quantity defaulted to 1',
+                },
+              },
+            },
+          },
+          discrepancies: {
+            type: 'array',
+            description:
+              'Arithmetic inconsistencies between line items, tax and total; affected confidence scores are lowered',
+            items: {
+              type: 'object',
+              properties: {
+                field: {
+                  type: 'string',
+                  example: 'total',
+                },
+                expected: {
+                  type: 'number',
+                  example: 127.45,
+                },
+                actual: {
+                  type: 'number',
+                  example: 172.45,
+                },
+                message: {
+                  type: 'string',
+                  example: 'Total 172.45 does not equal line items 116.2 plus tax 11.25',
+                },
+              },
+            },
+          },
         },
       },
 
@@ -559,6 +1646,15 @@ const swaggerDefinition = {
             type: 'string',
             format: 'date-time',
           },
+          contentHash: {
+            type: 'string',
+            description: 'SHA-256 of the file content',
+          },
+          duplicateOf: {
+            type: 'string',
+            nullable: true,
+            description: 'ID of an earlier receipt with the same file',
+          },
         },
       },
 
@@ -595,8 +1691,12 @@ const swaggerDefinition = {
       AnalyticsSummary: {
         type: 'object',
         properties: {
+          currency: {
+            $ref: '#/components/schemas/Currency',
+          },
           totalAmount: {
             type: 'number',
+            description: 'Total in the home currency, converted at each receipt date',
             example: 5234.56,
           },
           totalReceipts: {
@@ -607,6 +1707,17 @@ const swaggerDefinition = {
             type: 'number',
             example: 124.63,
           },
+          unconvertedReceipts: {
+            type: 'number',
+            description: 'Receipts left out of amounts because no exchange rate is known',
+            example: 0,
+          },
+          byCurrency: {
+            type: 'array',
+            items: {
+              $ref: '#/components/schemas/CurrencySubtotal',
+            },
+          },
           period: {
             type: 'object',
             properties: {
@@ -631,6 +1742,7 @@ const swaggerDefinition = {
           },
           amount: {
             type: 'number',
+            description: 'Includes subcategories',
             example: 2100.0,
           },
           count: {
@@ -641,6 +1753,13 @@ const swaggerDefinition = {
             type: 'number',
             example: 40.1,
           },
+          subcategories: {
+            type: 'array',
+            description: 'Child categories rolled up into this one',
+            items: {
+              $ref: '#/components/schemas/CategoryAnalytics',
+            },
+          },
         },
       },
       MonthlyTrend: {
@@ -712,10 +1831,26 @@ const swaggerDefinition = {
       name: 'Analytics',
       description: 'Spending analytics and insights',
     },
+    {
+      name: 'Receipt Rules',
+      description: 'Rule-based categorization and tagging',
+    },
+    {
+      name: 'Categories',
+      description: 'User-defined categories, nesting, rename and merge',
+    },
+    {
+      name: 'Budgets',
+      description: 'Category budgets and threshold alerts',
+    },
     {
       name: 'Export',
       description: 'Data export in CSV and PDF formats',
     },
+    {
+      name: 'Admin',
+      description: 'Administrative operations (admin role required)',
+    },
   ],
 };
 
@@ -5,6 +5,7 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { AnalyticsService, TimePeriod } from '../services/analytics.service';
+import { CURRENCY_CODES } from '../models/currency.model';
 import { AppError } from '../middleware/errorHandler';
 import logger from '../config/logger';
 import { z } from 'zod';
@@ -31,6 +32,7 @@ export class AnalyticsController {
         period: z.enum(['this_month', 'last_month', 'ytd', 'custom']).default('this_month'),
         startDate: z.coerce.date().optional(),
         endDate: z.coerce.date().optional(),
+        currency: z.enum(CURRENCY_CODES).optional(),
       });
 
       const validatedQuery = analyticsQuerySchema.parse(req.query);
@@ -57,6 +59,7 @@ export class AnalyticsController {
         period: validatedQuery.period as TimePeriod,
         startDate: validatedQuery.startDate,
         endDate: validatedQuery.endDate,
+        currency: validatedQuery.currency,
       });
 
       logger.info('Analytics generated successfully', {
@@ -0,0 +1,244 @@
+/// <reference path="../types/express.d.ts" />
+/**
+ * API key controller - handles HTTP requests for managing a user's API keys
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ApiKeyService } from '../services/apiKey.service';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../config/logger';
+import {
+  createApiKeySchema,
+  updateApiKeySchema,
+  rotateApiKeySchema,
+} from '../models/apiKey.validation';
+import { z } from 'zod';
+import { auditLogger, AuditAction } from '../services/audit.service';
+
+export class ApiKeyController {
+  private apiKeyService: ApiKeyService;
+
+  constructor() {
+    this.apiKeyService = new ApiKeyService();
+  }
+
+  /**
+   * POST /api/v1/auth/api-keys
+   * Issue an API key; the key itself is only shown in this response
+   */
+  public createAPIKey = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { name, scopes, expiresInDays, rateLimit } = createApiKeySchema.parse(req.body);
+
+      const { apiKey, key } = await this.apiKeyService.createAPIKey(req.user.uid, {
+        name,
+        scopes,
+        rateLimit,
+        expiresAt: expiresInDays
+          ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+          : null,
+      });
+
+      logger.info('API key created', {
+        requestId: req.requestId,
+        userId: req.user.uid,
+        apiKeyId: apiKey.id,
+      });
+
+      // Audit log
+      await auditLogger.logFromRequest(
+        req,
+        AuditAction.AUTH_API_KEY_CREATE,
+        true,
+        { type: 'apiKey', id: apiKey.id },
+        { scopes: apiKey.scopes }
+      );
+
+      res.status(201).json({
+        status: 'success',
+        message: 'API key created. Store the key now; it will not be shown again.',
+        data: { apiKey, key },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/auth/api-keys
+   * List the user's API keys
+   */
+  public listAPIKeys = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const apiKeys = await this.apiKeyService.listAPIKeys(req.user.uid);
+
+      res.status(200).json({
+        status: 'success',
+        data: { apiKeys },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/v1/auth/api-keys/:apiKeyId
+   * Rename an API key or change its scopes or quota
+   */
+  public updateAPIKey = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { apiKeyId } = req.params;
+      const validatedData = updateApiKeySchema.parse(req.body);
+
+      const apiKey = await this.apiKeyService.updateAPIKey(apiKeyId, req.user.uid, validatedData);
+
+      // Audit log
+      await auditLogger.logFromRequest(
+        req,
+        AuditAction.AUTH_API_KEY_UPDATE,
+        true,
+        { type: 'apiKey', id: apiKeyId },
+        { scopes: apiKey.scopes }
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'API key updated successfully',
+        data: { apiKey },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/auth/api-keys/:apiKeyId/rotate
+   * Replace an API key; the old key keeps working for a grace period
+   */
+  public rotateAPIKey = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { apiKeyId } = req.params;
+      const { gracePeriodHours } = rotateApiKeySchema.parse(req.body ?? {});
+
+      const { apiKey, key } = await this.apiKeyService.rotateAPIKey(
+        apiKeyId,
+        req.user.uid,
+        gracePeriodHours
+      );
+
+      logger.info('API key rotated', {
+        requestId: req.requestId,
+        userId: req.user.uid,
+        apiKeyId,
+        rotatedTo: apiKey.id,
+      });
+
+      // Audit log
+      await auditLogger.logFromRequest(
+        req,
+        AuditAction.AUTH_API_KEY_ROTATE,
+        true,
+        { type: 'apiKey', id: apiKeyId },
+        { rotatedTo: apiKey.id, gracePeriodHours }
+      );
+
+      res.status(201).json({
+        status: 'success',
+        message: 'API key rotated. Store the new key now; it will not be shown again.',
+        data: { apiKey, key },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/auth/api-keys/:apiKeyId/usage
+   * Get an API key's request counts for the last 24 hours and 30 days
+   */
+  public getAPIKeyUsage = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { apiKeyId } = req.params;
+
+      const usage = await this.apiKeyService.getAPIKeyUsage(apiKeyId, req.user.uid);
+
+      res.status(200).json({
+        status: 'success',
+        data: { usage },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/v1/auth/api-keys/:apiKeyId
+   * Revoke an API key
+   */
+  public revokeAPIKey = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { apiKeyId } = req.params;
+
+      await this.apiKeyService.revokeAPIKey(apiKeyId, req.user.uid);
+
+      logger.info('API key revoked', {
+        requestId: req.requestId,
+        userId: req.user.uid,
+        apiKeyId,
+      });
+
+      // Audit log
+      await auditLogger.logFromRequest(req, AuditAction.AUTH_API_KEY_REVOKE, true, {
+        type: 'apiKey',
+        id: apiKeyId,
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: 'API key revoked successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,176 @@
+/// <reference path="../types/express.d.ts" />
+/**
+ * Audit log controller - handles HTTP requests for browsing and exporting audit logs
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../config/logger';
+import { z } from 'zod';
+import {
+  auditLogger,
+  AuditAction,
+  AuditLog,
+  MAX_AUDIT_ACTION_FILTERS,
+  USER_ACTIVITY_ACTIONS,
+} from '../services/audit.service';
+
+// Comma-separated list of actions, e.g. ?action=receipt.create,receipt.delete
+const actionListSchema = z
+  .string()
+  .transform((val) => [...new Set(val.split(',').map((action) => action.trim()))])
+  .pipe(
+    z
+      .array(z.enum(AuditAction))
+      .max(MAX_AUDIT_ACTION_FILTERS, `At most ${MAX_AUDIT_ACTION_FILTERS} actions can be given`)
+  );
+
+export class AuditLogController {
+  /**
+   * GET /api/v1/admin/audit-logs
+   * Browse audit logs, or download them as CSV or JSON when format is given
+   */
+  public listAuditLogs = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const querySchema = z
+        .object({
+          action: actionListSchema.optional(),
+          userId: z.string().optional(),
+          resourceType: z.string().optional(),
+          resourceId: z.string().optional(),
+          success: z
+            .enum(['true', 'false'])
+            .transform((val) => val === 'true')
+            .optional(),
+          requestId: z.string().optional(),
+          from: z.coerce.date().optional(),
+          to: z.coerce.date().optional(),
+          limit: z.coerce.number().int().positive().max(100).default(50),
+          startAfter: z.string().optional(),
+          format: z.enum(['csv', 'json']).optional(),
+        })
+        .refine((query) => !query.from || !query.to || query.from <= query.to, {
+          message: 'from must be before to',
+        });
+
+      const { action, limit, startAfter, format, ...rest } = querySchema.parse(req.query);
+      const filters = { ...rest, actions: action };
+
+      if (format) {
+        const result = await auditLogger.exportLogs(filters, format);
+
+        logger.info('Audit logs exported', {
+          requestId: req.requestId,
+          userId: req.user?.uid,
+          format,
+          recordCount: result.count,
+          truncated: result.truncated,
+        });
+
+        // Audit log
+        await auditLogger.logFromRequest(
+          req,
+          AuditAction.ADMIN_AUDIT_LOGS_EXPORT,
+          true,
+          undefined,
+          {
+            format,
+            recordCount: result.count,
+            truncated: result.truncated,
+            filters: Object.fromEntries(
+              Object.entries(filters).filter(([, value]) => value !== undefined)
+            ),
+          }
+        );
+
+        res
+          .status(200)
+          .type(format === 'csv' ? 'text/csv' : 'application/json')
+          .attachment(`audit-logs-${Date.now()}.${format}`)
+          .set('X-Export-Truncated', String(result.truncated))
+          .send(result.content);
+        return;
+      }
+
+      const logs = await auditLogger.queryLogs(filters, limit, startAfter);
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          logs,
+          pagination: this.getPagination(logs, limit),
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/auth/me/activity
+   * List the user's own sign-ins, exports and billing events
+   */
+  public getMyActivity = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const querySchema = z
+        .object({
+          action: actionListSchema
+            .refine(
+              (actions) => actions.every((action) => USER_ACTIVITY_ACTIONS.includes(action)),
+              {
+                message: `action must be one of ${USER_ACTIVITY_ACTIONS.join(', ')}`,
+              }
+            )
+            .optional(),
+          from: z.coerce.date().optional(),
+          to: z.coerce.date().optional(),
+          limit: z.coerce.number().int().positive().max(100).default(20),
+          startAfter: z.string().optional(),
+        })
+        .refine((query) => !query.from || !query.to || query.from <= query.to, {
+          message: 'from must be before to',
+        });
+
+      const { action, from, to, limit, startAfter } = querySchema.parse(req.query);
+
+      const activity = await auditLogger.queryLogs(
+        { userId: req.user.uid, actions: action ?? USER_ACTIVITY_ACTIONS, from, to },
+        limit,
+        startAfter
+      );
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          activity,
+          pagination: this.getPagination(activity, limit),
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * Helper method to build the pagination block for a page of logs
+   */
+  private getPagination(logs: AuditLog[], limit: number) {
+    return {
+      limit,
+      hasMore: logs.length === limit,
+      nextCursor: logs.length === limit ? logs[logs.length - 1].id : undefined,
+    };
+  }
+}
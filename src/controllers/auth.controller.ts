@@ -3,6 +3,7 @@ import { Request, Response, NextFunction } from 'express';
 import { AuthService } from '../services/auth.service';
 import { AppError } from '../middleware/errorHandler';
 import { UpdateUserProfileDto } from '../models/user.model';
+import { isCurrency } from '../models/currency.model';
 import logger from '../config/logger';
 import { auditLogger, AuditAction } from '../services/audit.service';
 
@@ -83,15 +84,20 @@ export class AuthController {
         throw new AppError('Authentication required', 401);
       }
 
-      const { displayName, subscriptionTier } = req.body;
+      const { displayName, subscriptionTier, homeCurrency } = req.body;
 
-      if (!displayName && !subscriptionTier) {
+      if (!displayName && !subscriptionTier && !homeCurrency) {
         throw new AppError('At least one field must be provided for update', 400);
       }
 
+      if (homeCurrency && !isCurrency(homeCurrency)) {
+        throw new AppError('homeCurrency must be an ISO 4217 currency code', 400);
+      }
+
       const updates: UpdateUserProfileDto = {};
       if (displayName) updates.displayName = displayName;
       if (subscriptionTier) updates.subscriptionTier = subscriptionTier;
+      if (homeCurrency) updates.homeCurrency = homeCurrency;
 
       const updatedProfile = await this.authService.updateUserProfile(req.user.uid, updates);
 
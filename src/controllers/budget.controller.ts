@@ -0,0 +1,193 @@
+/// <reference path="../types/express.d.ts" />
+/**
+ * Budget controller - handles HTTP requests for category budgets and their alerts
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { BudgetService } from '../services/budget.service';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../config/logger';
+import {
+  createBudgetSchema,
+  updateBudgetSchema,
+  budgetStatusQuerySchema,
+} from '../models/budget.validation';
+import { z } from 'zod';
+
+export class BudgetController {
+  private budgetService: BudgetService;
+
+  constructor() {
+    this.budgetService = new BudgetService();
+  }
+
+  /**
+   * POST /api/v1/budgets
+   * Create a budget for a category
+   */
+  public createBudget = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const validatedData = createBudgetSchema.parse(req.body);
+
+      const budget = await this.budgetService.createBudget(req.user.uid, validatedData);
+
+      logger.info('Budget created', {
+        requestId: req.requestId,
+        userId: req.user.uid,
+        budgetId: budget.id,
+      });
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Budget created successfully',
+        data: { budget },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/budgets
+   * List the user's budgets
+   */
+  public listBudgets = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const budgets = await this.budgetService.listBudgets(req.user.uid);
+
+      res.status(200).json({
+        status: 'success',
+        data: { budgets },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/budgets/status
+   * Get spending against each budget for the period containing a date
+   */
+  public getBudgetStatus = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { date } = budgetStatusQuerySchema.parse(req.query);
+
+      const budgets = await this.budgetService.getBudgetStatus(req.user.uid, date);
+
+      res.status(200).json({
+        status: 'success',
+        data: { budgets },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/budgets/alerts
+   * List the user's recent threshold alerts
+   */
+  public listBudgetAlerts = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const alerts = await this.budgetService.listAlerts(req.user.uid);
+
+      res.status(200).json({
+        status: 'success',
+        data: { alerts },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/v1/budgets/:budgetId
+   * Update a budget
+   */
+  public updateBudget = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const validatedData = updateBudgetSchema.parse(req.body);
+
+      const budget = await this.budgetService.updateBudget(
+        req.params.budgetId,
+        req.user.uid,
+        validatedData
+      );
+
+      logger.info('Budget updated', {
+        requestId: req.requestId,
+        userId: req.user.uid,
+        budgetId: budget.id,
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Budget updated successfully',
+        data: { budget },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/v1/budgets/:budgetId
+   * Delete a budget
+   */
+  public deleteBudget = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      await this.budgetService.deleteBudget(req.params.budgetId, req.user.uid);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Budget deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
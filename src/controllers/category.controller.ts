@@ -0,0 +1,195 @@
+/// <reference path="../types/express.d.ts" />
+/**
+ * Category controller - handles HTTP requests for user-defined categories
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { CategoryService } from '../services/category.service';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../config/logger';
+import {
+  createCategorySchema,
+  updateCategorySchema,
+  mergeCategoriesSchema,
+} from '../models/category.validation';
+import { z } from 'zod';
+
+export class CategoryController {
+  private categoryService: CategoryService;
+
+  constructor() {
+    this.categoryService = new CategoryService();
+  }
+
+  /**
+   * GET /api/v1/categories
+   * List the user's categories
+   */
+  public listCategories = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const categories = await this.categoryService.listCategories(req.user.uid);
+
+      res.status(200).json({
+        status: 'success',
+        data: { categories },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/categories
+   * Create a category
+   */
+  public createCategory = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const validatedData = createCategorySchema.parse(req.body);
+
+      const category = await this.categoryService.createCategory(req.user.uid, validatedData);
+
+      logger.info('Category created', {
+        requestId: req.requestId,
+        userId: req.user.uid,
+        categoryId: category.id,
+      });
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Category created successfully',
+        data: { category },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/v1/categories/:categoryId
+   * Update or rename a category
+   */
+  public updateCategory = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const validatedData = updateCategorySchema.parse(req.body);
+
+      const { category, updated } = await this.categoryService.updateCategory(
+        req.params.categoryId,
+        req.user.uid,
+        validatedData
+      );
+
+      logger.info('Category updated', {
+        requestId: req.requestId,
+        userId: req.user.uid,
+        categoryId: category.id,
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Category updated successfully',
+        data: { category, updated },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/categories/:categoryId/merge
+   * Merge other categories into this one
+   */
+  public mergeCategories = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { sources } = mergeCategoriesSchema.parse(req.body);
+
+      const { category, updated } = await this.categoryService.mergeCategories(
+        req.params.categoryId,
+        req.user.uid,
+        sources
+      );
+
+      logger.info('Categories merged', {
+        requestId: req.requestId,
+        userId: req.user.uid,
+        categoryId: category.id,
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Categories merged successfully',
+        data: { category, updated },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/v1/categories/:categoryId
+   * Delete a category
+   */
+  public deleteCategory = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      await this.categoryService.deleteCategory(req.params.categoryId, req.user.uid);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Category deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,110 @@
+/// <reference path="../types/express.d.ts" />
+/**
+ * Exchange rate controller - handles admin HTTP requests for the exchange rate store
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ExchangeRateService } from '../services/exchangeRate.service';
+import { exchangeRateImportSchema } from '../models/exchangeRate.validation';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../config/logger';
+import { z } from 'zod';
+import { auditLogger, AuditAction } from '../services/audit.service';
+
+export class ExchangeRateController {
+  private exchangeRateService: ExchangeRateService;
+
+  constructor() {
+    this.exchangeRateService = new ExchangeRateService();
+  }
+
+  /**
+   * GET /api/v1/admin/exchange-rates
+   * List stored daily rate snapshots
+   */
+  public listExchangeRates = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const querySchema = z.object({
+        limit: z.coerce.number().int().positive().max(100).default(30),
+        startAfter: z.string().optional(),
+      });
+
+      const validatedQuery = querySchema.parse(req.query);
+
+      const snapshots = await this.exchangeRateService.listSnapshots(
+        validatedQuery.limit,
+        validatedQuery.startAfter
+      );
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          snapshots,
+          pagination: {
+            limit: validatedQuery.limit,
+            hasMore: snapshots.length === validatedQuery.limit,
+            nextCursor:
+              snapshots.length === validatedQuery.limit
+                ? snapshots[snapshots.length - 1].date
+                : undefined,
+          },
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/admin/exchange-rates
+   * Import daily rate snapshots, replacing existing days
+   */
+  public importExchangeRates = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const validatedData = exchangeRateImportSchema.parse(req.body);
+
+      const imported = await this.exchangeRateService.importSnapshots(validatedData);
+
+      logger.info('Exchange rates imported by admin', {
+        requestId: req.requestId,
+        userId: req.user?.uid,
+        imported,
+      });
+
+      // Audit log
+      await auditLogger.logFromRequest(
+        req,
+        AuditAction.ADMIN_EXCHANGE_RATES_IMPORT,
+        true,
+        undefined,
+        { imported }
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Exchange rates imported successfully',
+        data: {
+          imported,
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,126 @@
+/// <reference path="../types/express.d.ts" />
+/**
+ * Job controller - handles admin HTTP requests for the background job queue
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { jobQueue } from '../services/jobQueue.service';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../config/logger';
+import { z } from 'zod';
+import { auditLogger, AuditAction } from '../services/audit.service';
+
+export class JobController {
+  /**
+   * GET /api/v1/admin/jobs/dead-letter
+   * List permanently failed jobs
+   */
+  public listDeadLetterJobs = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const querySchema = z.object({
+        limit: z.coerce.number().int().positive().max(100).default(50),
+        startAfter: z.string().optional(),
+      });
+
+      const validatedQuery = querySchema.parse(req.query);
+
+      const jobs = await jobQueue.listDeadLetters(validatedQuery.limit, validatedQuery.startAfter);
+
+      logger.debug('Dead-letter jobs listed', {
+        requestId: req.requestId,
+        userId: req.user?.uid,
+        count: jobs.length,
+      });
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          jobs,
+          pagination: {
+            limit: validatedQuery.limit,
+            hasMore: jobs.length === validatedQuery.limit,
+            nextCursor: jobs.length === validatedQuery.limit ? jobs[jobs.length - 1].id : undefined,
+          },
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/admin/jobs/dead-letter/:jobId
+   * Get a permanently failed job
+   */
+  public getDeadLetterJob = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const job = await jobQueue.getDeadLetter(req.params.jobId);
+
+      if (!job) {
+        throw new AppError('Dead-letter job not found', 404);
+      }
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          job,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/admin/jobs/dead-letter/:jobId/replay
+   * Re-queue a permanently failed job
+   */
+  public replayDeadLetterJob = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { jobId } = req.params;
+
+      const job = await jobQueue.replayDeadLetter(jobId);
+
+      logger.info('Dead-letter job replayed', {
+        requestId: req.requestId,
+        userId: req.user?.uid,
+        jobId,
+      });
+
+      // Audit log
+      await auditLogger.logFromRequest(
+        req,
+        AuditAction.ADMIN_JOB_REPLAY,
+        true,
+        { type: 'job', id: jobId },
+        { jobType: job.type }
+      );
+
+      res.status(202).json({
+        status: 'success',
+        message: 'Job re-queued successfully',
+        data: {
+          job,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -10,8 +10,22 @@ import logger from '../config/logger';
 import {
   createReceiptSchema,
   updateReceiptSchema,
+  strictCreateReceiptSchema,
+  strictUpdateReceiptSchema,
+  strictModeQuerySchema,
   receiptQuerySchema,
+  reviewReceiptSchema,
+  reviewQueueQuerySchema,
+  trashQuerySchema,
+  duplicateQuerySchema,
+  receiptHistoryQuerySchema,
+  receiptRevertParamsSchema,
+  bulkReceiptSchema,
+  addAttachmentSchema,
+  reorderAttachmentsSchema,
 } from '../models/receipt.validation';
+import { getPendingReviewFields } from '../models/receipt.model';
+import { CURRENCY_CODES } from '../models/currency.model';
 import { z } from 'zod';
 import { auditLogger, AuditAction } from '../services/audit.service';
 
@@ -32,8 +46,11 @@ export class ReceiptController {
         throw new AppError('Authentication required', 401);
       }
 
-      // Validate request body
-      const validatedData = createReceiptSchema.parse(req.body);
+      // Validate request body; strict mode also checks that the amounts add up
+      const { strict } = strictModeQuerySchema.parse(req.query);
+      const validatedData = (strict ? strictCreateReceiptSchema : createReceiptSchema).parse(
+        req.body
+      );
 
       const receipt = await this.receiptService.createReceipt(req.user.uid, validatedData);
 
@@ -164,8 +181,11 @@ export class ReceiptController {
         throw new AppError('Receipt ID is required', 400);
       }
 
-      // Validate request body
-      const validatedData = updateReceiptSchema.parse(req.body);
+      // Validate request body; strict mode also checks that the amounts add up
+      const { strict } = strictModeQuerySchema.parse(req.query);
+      const validatedData = (strict ? strictUpdateReceiptSchema : updateReceiptSchema).parse(
+        req.body
+      );
 
       const receipt = await this.receiptService.updateReceipt(id, req.user.uid, validatedData);
 
@@ -175,6 +195,15 @@ export class ReceiptController {
         receiptId: id,
       });
 
+      // Audit log
+      await auditLogger.logFromRequest(
+        req,
+        AuditAction.RECEIPT_UPDATE,
+        true,
+        { type: 'receipt', id },
+        { fields: Object.keys(validatedData) }
+      );
+
       res.status(200).json({
         status: 'success',
         message: 'Receipt updated successfully',
@@ -230,6 +259,583 @@ export class ReceiptController {
     }
   };
 
+  /**
+   * POST /api/v1/receipts/:id/attachments
+   * Upload a file and attach it to a receipt
+   */
+  public addAttachment = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      if (!req.file) {
+        throw new AppError('No file provided. Please upload a receipt file.', 400);
+      }
+
+      const { id } = req.params;
+      const { role } = addAttachmentSchema.parse(req.body ?? {});
+
+      const receipt = await this.receiptService.addAttachment(id, req.user.uid, req.file, role);
+
+      logger.info('Receipt attachment added', {
+        requestId: req.requestId,
+        userId: req.user.uid,
+        receiptId: id,
+        size: req.file.size,
+        mimetype: req.file.mimetype,
+      });
+
+      // Audit log
+      await auditLogger.logFromRequest(req, AuditAction.RECEIPT_UPDATE, true, {
+        type: 'receipt',
+        id,
+      });
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Attachment added successfully',
+        data: { receipt },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * PUT /api/v1/receipts/:id/attachments/order
+   * Put a receipt's attachments in a new order
+   */
+  public reorderAttachments = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { id } = req.params;
+      const { attachmentIds } = reorderAttachmentsSchema.parse(req.body);
+
+      const receipt = await this.receiptService.reorderAttachments(id, req.user.uid, attachmentIds);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Attachments reordered successfully',
+        data: { receipt },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/v1/receipts/:id/attachments/:attachmentId
+   * Remove an attachment from a receipt
+   */
+  public removeAttachment = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { id, attachmentId } = req.params;
+
+      const receipt = await this.receiptService.removeAttachment(id, req.user.uid, attachmentId);
+
+      // Audit log
+      await auditLogger.logFromRequest(
+        req,
+        AuditAction.RECEIPT_UPDATE,
+        true,
+        { type: 'receipt', id },
+        { removedAttachmentId: attachmentId }
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Attachment removed successfully',
+        data: { receipt },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/receipts/bulk
+   * Apply one operation to many receipts
+   */
+  public bulkUpdateReceipts = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const validatedData = bulkReceiptSchema.parse(req.body);
+
+      const result = await this.receiptService.bulkUpdateReceipts(req.user.uid, validatedData);
+
+      logger.info('Bulk receipt operation applied', {
+        requestId: req.requestId,
+        userId: req.user.uid,
+        operation: result.operation,
+        updated: result.updated,
+        failed: result.failed,
+      });
+
+      // Audit log
+      await auditLogger.logFromRequest(req, AuditAction.RECEIPT_BULK, true, undefined, {
+        operation: result.operation,
+        matched: result.matched,
+        updated: result.updated,
+        failed: result.failed,
+      });
+
+      res.status(200).json({
+        status: 'success',
+        data: { result },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/receipts/:id/history
+   * List a receipt's edit history, newest first
+   */
+  public getHistory = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { id } = req.params;
+      const { limit, startAfter } = receiptHistoryQuerySchema.parse(req.query);
+
+      const versions = await this.receiptService.listHistory(id, req.user.uid, limit, startAfter);
+
+      res.status(200).json({
+        status: 'success',
+        data: { versions },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/receipts/:id/revert/:version
+   * Restore a receipt to an earlier version
+   */
+  public revertReceipt = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { id, version } = receiptRevertParamsSchema.parse(req.params);
+
+      const receipt = await this.receiptService.revertReceipt(id, req.user.uid, version);
+
+      logger.info('Receipt reverted', {
+        requestId: req.requestId,
+        userId: req.user.uid,
+        receiptId: id,
+        version,
+      });
+
+      // Audit log
+      await auditLogger.logFromRequest(
+        req,
+        AuditAction.RECEIPT_REVERT,
+        true,
+        { type: 'receipt', id },
+        { version }
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Receipt reverted successfully',
+        data: { receipt },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/receipts/trash
+   * List deleted receipts, most recently deleted first
+   */
+  public listTrash = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { limit, startAfter } = trashQuerySchema.parse(req.query);
+
+      const results = await this.receiptService.listTrash(req.user.uid, limit, startAfter);
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          receipts: results.receipts,
+          pagination: {
+            total: results.total,
+            limit: results.limit,
+            hasMore: results.hasMore,
+            nextCursor: results.nextCursor,
+          },
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/receipts/:id/restore
+   * Restore a deleted receipt
+   */
+  public restoreReceipt = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { id } = req.params;
+
+      const receipt = await this.receiptService.restoreReceipt(id, req.user.uid);
+
+      logger.info('Receipt restored', {
+        requestId: req.requestId,
+        userId: req.user.uid,
+        receiptId: id,
+      });
+
+      // Audit log
+      await auditLogger.logFromRequest(req, AuditAction.RECEIPT_RESTORE, true, {
+        type: 'receipt',
+        id,
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Receipt restored successfully',
+        data: { receipt },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/v1/receipts/:id/permanent
+   * Permanently delete a receipt from the trash, with its stored files
+   */
+  public purgeReceipt = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { id } = req.params;
+
+      await this.receiptService.purgeReceipt(id, req.user.uid);
+
+      logger.info('Receipt permanently deleted', {
+        requestId: req.requestId,
+        userId: req.user.uid,
+        receiptId: id,
+      });
+
+      // Audit log
+      await auditLogger.logFromRequest(req, AuditAction.RECEIPT_PURGE, true, {
+        type: 'receipt',
+        id,
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Receipt permanently deleted',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/receipts/duplicates
+   * List receipts flagged as duplicates, newest first
+   */
+  public listDuplicates = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { limit, startAfter } = duplicateQuerySchema.parse(req.query);
+
+      const results = await this.receiptService.listDuplicates(req.user.uid, limit, startAfter);
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          receipts: results.receipts,
+          pagination: {
+            total: results.total,
+            limit: results.limit,
+            hasMore: results.hasMore,
+            nextCursor: results.nextCursor,
+          },
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/receipts/:id/duplicate/merge
+   * Merge a duplicate into its original and move the duplicate to the trash
+   */
+  public mergeDuplicate = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { id } = req.params;
+
+      const receipt = await this.receiptService.mergeDuplicate(id, req.user.uid);
+
+      logger.info('Duplicate receipt merged', {
+        requestId: req.requestId,
+        userId: req.user.uid,
+        receiptId: id,
+        originalId: receipt.id,
+      });
+
+      // Audit log
+      await auditLogger.logFromRequest(
+        req,
+        AuditAction.RECEIPT_DUPLICATE_MERGE,
+        true,
+        { type: 'receipt', id },
+        { originalId: receipt.id }
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Duplicate receipt merged successfully',
+        data: { receipt },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/receipts/:id/duplicate/dismiss
+   * Mark a flagged receipt as not a duplicate
+   */
+  public dismissDuplicate = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { id } = req.params;
+
+      const receipt = await this.receiptService.dismissDuplicate(id, req.user.uid);
+
+      // Audit log
+      await auditLogger.logFromRequest(req, AuditAction.RECEIPT_DUPLICATE_DISMISS, true, {
+        type: 'receipt',
+        id,
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Duplicate flag dismissed',
+        data: { receipt },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/receipts/review
+   * List receipts with low-confidence fields waiting for review
+   */
+  public listReviewQueue = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { limit, startAfter } = reviewQueueQuerySchema.parse(req.query);
+
+      const results = await this.receiptService.listReviewQueue(req.user.uid, limit, startAfter);
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          receipts: results.receipts.map((receipt) => ({
+            ...receipt,
+            pendingReviewFields: getPendingReviewFields(receipt.fieldConfidence),
+          })),
+          pagination: {
+            total: results.total,
+            limit: results.limit,
+            hasMore: results.hasMore,
+            nextCursor: results.nextCursor,
+          },
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/receipts/search/reindex
+   * Rebuild the user's receipt search index
+   */
+  public rebuildSearchIndex = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const result = await this.receiptService.rebuildSearchIndex(req.user.uid);
+
+      res.status(200).json({
+        status: 'success',
+        data: { result },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/v1/receipts/:id/review
+   * Accept or correct individual parsed fields
+   */
+  public reviewReceipt = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { id } = req.params;
+
+      if (!id) {
+        throw new AppError('Receipt ID is required', 400);
+      }
+
+      const validatedData = reviewReceiptSchema.parse(req.body);
+
+      const receipt = await this.receiptService.reviewReceipt(id, req.user.uid, validatedData);
+
+      logger.info('Receipt fields reviewed', {
+        requestId: req.requestId,
+        userId: req.user.uid,
+        receiptId: id,
+        accepted: validatedData.accept,
+        corrected: Object.keys(validatedData.corrections),
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Receipt review saved',
+        data: {
+          receipt: {
+            ...receipt,
+            pendingReviewFields: getPendingReviewFields(receipt.fieldConfidence),
+          },
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
   /**
    * GET /api/v1/receipts/stats
    * Get receipt statistics with optional grouping
@@ -244,21 +850,23 @@ export class ReceiptController {
         throw new AppError('Authentication required', 401);
       }
 
-      const { startDate, endDate, groupBy } = req.query;
+      const { startDate, endDate, groupBy, currency } = req.query;
 
       const statsSchema = z.object({
         startDate: z.coerce.date().optional(),
         endDate: z.coerce.date().optional(),
         groupBy: z.enum(['category', 'month']).optional(),
+        currency: z.enum(CURRENCY_CODES).optional(),
       });
 
-      const validatedQuery = statsSchema.parse({ startDate, endDate, groupBy });
+      const validatedQuery = statsSchema.parse({ startDate, endDate, groupBy, currency });
 
       const stats = await this.receiptService.getReceiptStats(
         req.user.uid,
         validatedQuery.startDate,
         validatedQuery.endDate,
-        validatedQuery.groupBy
+        validatedQuery.groupBy,
+        validatedQuery.currency
       );
 
       logger.debug('Receipt statistics retrieved', {
@@ -1,10 +1,19 @@
 /// <reference path="../types/express.d.ts" />
 import { Request, Response, NextFunction } from 'express';
-import { ReceiptParsingService } from '../services/receiptParsing.service';
+import { ReceiptParsingService, PARSE_RECEIPT_JOB } from '../services/receiptParsing.service';
+import { jobQueue } from '../services/jobQueue.service';
+import { ReceiptScanService } from '../services/receiptScan.service';
+import { BillingService } from '../services/billing.service';
+import { ParsingRuleService } from '../services/parsingRule.service';
 import { AppError } from '../middleware/errorHandler';
 import { parseReceiptRequestSchema } from '../models/parsedReceipt.validation';
 import logger from '../config/logger';
-import { ParseReceiptRequest } from '../models/parsedReceipt.model';
+import {
+  ParsedReceipt,
+  ParseReceiptRequest,
+  ParseReceiptResponse,
+} from '../models/parsedReceipt.model';
+import { JobStatus } from '../models/job.model';
 
 /**
  * Receipt parsing controller
@@ -12,14 +21,20 @@ import { ParseReceiptRequest } from '../models/parsedReceipt.model';
  */
 export class ReceiptParsingController {
   private parsingService: ReceiptParsingService;
+  private scanService: ReceiptScanService;
+  private billingService: BillingService;
+  private parsingRuleService: ParsingRuleService;
 
   constructor() {
-    this.parsingService = new ReceiptParsingService();
+    this.parsingRuleService = new ParsingRuleService();
+    this.parsingService = new ReceiptParsingService(undefined, this.parsingRuleService);
+    this.scanService = new ReceiptScanService();
+    this.billingService = new BillingService();
   }
 
   /**
    * POST /api/v1/receipts/parse
-   * Parse receipt from image URL using AI
+   * Queue AI parsing of a receipt image URL
    */
   parseReceipt = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
@@ -51,6 +66,11 @@ export class ReceiptParsingController {
         throw new AppError('Image URL is not accessible or invalid', 400);
       }
 
+      // Fail fast instead of retrying a job that can never update the receipt
+      if (receiptId) {
+        await this.parsingService.assertReceiptAccessible(receiptId, req.user.uid);
+      }
+
       // Create parse request
       const parseRequest: ParseReceiptRequest = {
         imageUrl,
@@ -58,59 +78,27 @@ export class ReceiptParsingController {
         receiptId,
       };
 
-      // Parse receipt
-      const result = await this.parsingService.parseReceipt(parseRequest);
-
-      if (result.success && result.parsedData) {
-        logger.info('Receipt parsed successfully', {
-          requestId: req.requestId,
-          userId: req.user.uid,
-          confidence: result.parsedData.overallConfidence,
-          source: result.source,
-        });
-
-        res.status(200).json({
-          status: 'success',
-          message: 'Receipt parsed successfully',
-          data: {
-            parsed: {
-              merchant: result.parsedData.merchant.value,
-              merchantConfidence: result.parsedData.merchant.confidence,
-              merchantConfidenceLevel: result.parsedData.merchant.confidenceLevel,
-              date: result.parsedData.date.value,
-              dateConfidence: result.parsedData.date.confidence,
-              dateConfidenceLevel: result.parsedData.date.confidenceLevel,
-              total: result.parsedData.total.value,
-              totalConfidence: result.parsedData.total.confidence,
-              totalConfidenceLevel: result.parsedData.total.confidenceLevel,
-              tax: result.parsedData.tax?.value,
-              taxConfidence: result.parsedData.tax?.confidence,
-              taxConfidenceLevel: result.parsedData.tax?.confidenceLevel,
-              currency: result.parsedData.currency.value,
-              currencyConfidence: result.parsedData.currency.confidence,
-              currencyConfidenceLevel: result.parsedData.currency.confidenceLevel,
-              category: result.parsedData.category?.value,
-              categoryConfidence: result.parsedData.category?.confidence,
-              categoryConfidenceLevel: result.parsedData.category?.confidenceLevel,
-              lineItems: result.parsedData.lineItems,
-              overallConfidence: result.parsedData.overallConfidence,
-            },
-            metadata: {
-              source: result.source,
-              processingTime: result.parsedData.processingTime,
-              fallbackUsed: result.fallbackUsed || false,
-            },
-          },
-        });
-      } else {
-        logger.error('Receipt parsing failed', {
-          requestId: req.requestId,
-          userId: req.user.uid,
-          error: result.error,
-        });
-
-        throw new AppError(result.error || 'Failed to parse receipt', 500);
-      }
+      // Queue parsing so the request doesn't block on the AI round trip
+      const job = await jobQueue.enqueue(PARSE_RECEIPT_JOB, parseRequest, {
+        userId: req.user.uid,
+      });
+
+      logger.info('Receipt parsing queued', {
+        requestId: req.requestId,
+        userId: req.user.uid,
+        jobId: job.id,
+        receiptId,
+      });
+
+      res.status(202).json({
+        status: 'success',
+        message: 'Receipt parsing queued',
+        data: {
+          jobId: job.id,
+          status: job.status,
+          receiptId,
+        },
+      });
     } catch (error) {
       logger.error('Parse receipt endpoint error', {
         requestId: req.requestId,
@@ -120,4 +108,175 @@ export class ReceiptParsingController {
       next(error);
     }
   };
+
+  /**
+   * POST /api/v1/receipts/scan
+   * Upload a receipt file, create the receipt and queue parsing in one call
+   */
+  scanReceipt = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      if (!req.file) {
+        throw new AppError('No file provided. Please upload a receipt file.', 400);
+      }
+
+      logger.info('Processing receipt scan', {
+        requestId: req.requestId,
+        userId: req.user.uid,
+        filename: req.file.originalname,
+        size: req.file.size,
+        mimetype: req.file.mimetype,
+      });
+
+      const { receipt, upload, job } = await this.scanService.scanReceipt(req.user.uid, req.file);
+
+      // Increment usage counter for free tier users
+      await this.billingService.incrementReceiptUsage(req.user.uid);
+
+      res.status(202).json({
+        status: 'success',
+        message: 'Receipt uploaded and parsing queued',
+        data: {
+          receiptId: receipt.id,
+          jobId: job.id,
+          status: job.status,
+          receipt,
+          upload,
+        },
+      });
+    } catch (error) {
+      logger.error('Scan receipt endpoint error', {
+        requestId: req.requestId,
+        userId: req.user?.uid,
+        error,
+      });
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/receipts/parse/jobs/:jobId
+   * Get the status and result of a queued parse job
+   */
+  getParseJob = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { jobId } = req.params;
+
+      const job = await jobQueue.getJob(jobId);
+
+      // Hide jobs owned by other users behind the same 404
+      if (!job || job.type !== PARSE_RECEIPT_JOB || job.userId !== req.user.uid) {
+        throw new AppError('Parse job not found', 404);
+      }
+
+      const result = job.result as ParseReceiptResponse | null;
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          job: {
+            id: job.id,
+            status: job.status,
+            attempts: job.attempts,
+            maxAttempts: job.maxAttempts,
+            lastError: job.lastError,
+            receiptId: (job.payload as Partial<ParseReceiptRequest>).receiptId,
+            createdAt: job.createdAt,
+            updatedAt: job.updatedAt,
+            completedAt: job.completedAt,
+          },
+          ...(job.status === JobStatus.COMPLETED &&
+            result?.parsedData && {
+              parsed: this.formatParsedData(result.parsedData),
+              metadata: {
+                source: result.source,
+                processingTime: result.parsedData.processingTime,
+                fallbackUsed: result.fallbackUsed || false,
+              },
+            }),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/receipts/parse/rules
+   * List parsing rules learned from the user's corrections
+   */
+  listParsingRules = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const rules = await this.parsingRuleService.listRules(req.user.uid);
+
+      res.status(200).json({
+        status: 'success',
+        data: { rules },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/v1/receipts/parse/rules/:ruleId
+   * Forget a learned parsing rule
+   */
+  deleteParsingRule = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      await this.parsingRuleService.deleteRule(req.params.ruleId, req.user.uid);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Parsing rule deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Flatten confident fields for the API response
+   */
+  private formatParsedData(parsedData: ParsedReceipt) {
+    return {
+      merchant: parsedData.merchant.value,
+      merchantConfidence: parsedData.merchant.confidence,
+      merchantConfidenceLevel: parsedData.merchant.confidenceLevel,
+      date: parsedData.date.value,
+      dateConfidence: parsedData.date.confidence,
+      dateConfidenceLevel: parsedData.date.confidenceLevel,
+      total: parsedData.total.value,
+      totalConfidence: parsedData.total.confidence,
+      totalConfidenceLevel: parsedData.total.confidenceLevel,
+      tax: parsedData.tax?.value,
+      taxConfidence: parsedData.tax?.confidence,
+      taxConfidenceLevel: parsedData.tax?.confidenceLevel,
+      currency: parsedData.currency.value,
+      currencyConfidence: parsedData.currency.confidence,
+      currencyConfidenceLevel: parsedData.currency.confidenceLevel,
+      category: parsedData.category?.value,
+      categoryConfidence: parsedData.category?.confidence,
+      categoryConfidenceLevel: parsedData.category?.confidenceLevel,
+      lineItems: parsedData.lineItems,
+      overallConfidence: parsedData.overallConfidence,
+      warnings: parsedData.warnings || [],
+      discrepancies: parsedData.discrepancies || [],
+    };
+  }
 }
@@ -0,0 +1,200 @@
+/// <reference path="../types/express.d.ts" />
+/**
+ * Receipt rule controller - handles HTTP requests for categorization and tagging rules
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ReceiptRuleService } from '../services/receiptRule.service';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../config/logger';
+import {
+  createReceiptRuleSchema,
+  updateReceiptRuleSchema,
+  applyReceiptRulesSchema,
+  ruleHistoryQuerySchema,
+} from '../models/receiptRule.validation';
+import { z } from 'zod';
+import { auditLogger, AuditAction } from '../services/audit.service';
+
+export class ReceiptRuleController {
+  private receiptRuleService: ReceiptRuleService;
+
+  constructor() {
+    this.receiptRuleService = new ReceiptRuleService();
+  }
+
+  /**
+   * GET /api/v1/receipt-rules
+   * List the user's rules in evaluation order
+   */
+  public listRules = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const rules = await this.receiptRuleService.listRules(req.user.uid);
+
+      res.status(200).json({
+        status: 'success',
+        data: { rules },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/receipt-rules
+   * Create a rule
+   */
+  public createRule = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const validatedData = createReceiptRuleSchema.parse(req.body);
+
+      const rule = await this.receiptRuleService.createRule(req.user.uid, validatedData);
+
+      logger.info('Receipt rule created', {
+        requestId: req.requestId,
+        userId: req.user.uid,
+        ruleId: rule.id,
+      });
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Receipt rule created successfully',
+        data: { rule },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/v1/receipt-rules/:ruleId
+   * Update a rule
+   */
+  public updateRule = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const validatedData = updateReceiptRuleSchema.parse(req.body);
+
+      const rule = await this.receiptRuleService.updateRule(
+        req.params.ruleId,
+        req.user.uid,
+        validatedData
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Receipt rule updated successfully',
+        data: { rule },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/v1/receipt-rules/:ruleId
+   * Delete a rule
+   */
+  public deleteRule = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      await this.receiptRuleService.deleteRule(req.params.ruleId, req.user.uid);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Receipt rule deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/receipt-rules/apply
+   * Preview or apply rules to existing receipts
+   */
+  public applyRules = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const options = applyReceiptRulesSchema.parse(req.body ?? {});
+
+      const result = await this.receiptRuleService.applyToExistingReceipts(req.user.uid, options);
+
+      if (!options.dryRun) {
+        // Audit log
+        await auditLogger.logFromRequest(req, AuditAction.RECEIPT_RULES_APPLY, true, undefined, {
+          ruleIds: options.ruleIds,
+          scanned: result.scanned,
+          changed: result.changed,
+        });
+      }
+
+      res.status(200).json({
+        status: 'success',
+        data: { result },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/receipt-rules/history
+   * List changes rules made to receipts
+   */
+  public listHistory = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { receiptId, limit } = ruleHistoryQuerySchema.parse(req.query);
+
+      const history = await this.receiptRuleService.listApplications(
+        req.user.uid,
+        limit,
+        receiptId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        data: { history },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,289 @@
+/// <reference path="../types/express.d.ts" />
+/**
+ * Security controller - handles admin HTTP requests for IP blocking and security events
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { SecurityService } from '../services/security.service';
+import { AppError } from '../middleware/errorHandler';
+import { getClientIP } from '../middleware/abuseDetection';
+import logger from '../config/logger';
+import { createIPRuleSchema } from '../models/security.validation';
+import { IPRuleType } from '../models/security.model';
+import { z } from 'zod';
+import { auditLogger, AuditAction, SECURITY_EVENT_ACTIONS } from '../services/audit.service';
+
+export class SecurityController {
+  private securityService: SecurityService;
+
+  constructor() {
+    this.securityService = new SecurityService();
+  }
+
+  /**
+   * GET /api/v1/admin/security/ips
+   * List IPs with recorded failures and whether they are blocked
+   */
+  public getTrackedIPs = async (
+    _req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const stats = await this.securityService.getTrackedIPs();
+
+      res.status(200).json({
+        status: 'success',
+        data: stats,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/v1/admin/security/ips/:ip
+   * Clear an IP's failures, lifting an automatic block
+   */
+  public clearTrackedIP = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { ip } = req.params;
+
+      await this.securityService.clearTrackedIP(ip);
+
+      logger.info('Tracked IP cleared', { requestId: req.requestId, userId: req.user?.uid, ip });
+
+      // Audit log
+      await auditLogger.logFromRequest(req, AuditAction.ADMIN_IP_UNBLOCK, true, {
+        type: 'ip',
+        id: ip,
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: 'IP address cleared successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/admin/security/blocks
+   * List IP addresses and ranges blocked by admins
+   */
+  public listBlocks = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+    await this.listIPRules('block', res, next);
+  };
+
+  /**
+   * POST /api/v1/admin/security/blocks
+   * Block an IP address or range
+   */
+  public blockIP = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    await this.addIPRule('block', req, res, next);
+  };
+
+  /**
+   * DELETE /api/v1/admin/security/blocks/:ruleId
+   * Remove an IP block
+   */
+  public unblockIP = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    await this.removeIPRule('block', req, res, next);
+  };
+
+  /**
+   * GET /api/v1/admin/security/allowlist
+   * List IP addresses and ranges that are never blocked
+   */
+  public listAllowlist = async (
+    _req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    await this.listIPRules('allow', res, next);
+  };
+
+  /**
+   * POST /api/v1/admin/security/allowlist
+   * Add an IP address or range to the allowlist
+   */
+  public addToAllowlist = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    await this.addIPRule('allow', req, res, next);
+  };
+
+  /**
+   * DELETE /api/v1/admin/security/allowlist/:ruleId
+   * Remove an allowlist entry
+   */
+  public removeFromAllowlist = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    await this.removeIPRule('allow', req, res, next);
+  };
+
+  /**
+   * GET /api/v1/admin/security/events
+   * Browse security audit events with filters and pagination
+   */
+  public listSecurityEvents = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const querySchema = z
+        .object({
+          action: z
+            .enum(AuditAction)
+            .refine((action) => SECURITY_EVENT_ACTIONS.includes(action), {
+              message: 'action must be a security event',
+            })
+            .optional(),
+          userId: z.string().optional(),
+          ip: z.string().optional(),
+          from: z.coerce.date().optional(),
+          to: z.coerce.date().optional(),
+          limit: z.coerce.number().int().positive().max(100).default(50),
+          startAfter: z.string().optional(),
+        })
+        .refine((query) => !query.from || !query.to || query.from <= query.to, {
+          message: 'from must be before to',
+        });
+
+      const { action, limit, startAfter, ...filters } = querySchema.parse(req.query);
+
+      const events = await this.securityService.getSecurityEvents(
+        { ...filters, actions: action ? [action] : undefined },
+        limit,
+        startAfter
+      );
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          events,
+          pagination: {
+            limit,
+            hasMore: events.length === limit,
+            nextCursor: events.length === limit ? events[events.length - 1].id : undefined,
+          },
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * Helper method to list the rules of a type
+   */
+  private async listIPRules(type: IPRuleType, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rules = await this.securityService.listIPRules(type);
+
+      res.status(200).json({
+        status: 'success',
+        data: { rules },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Helper method to add a block or allow rule
+   */
+  private async addIPRule(
+    type: IPRuleType,
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const { cidr, reason, expiresInHours } = createIPRuleSchema.parse(req.body);
+
+      const rule = await this.securityService.addIPRule(
+        type,
+        {
+          cidr,
+          reason,
+          expiresAt: expiresInHours ? new Date(Date.now() + expiresInHours * 60 * 60 * 1000) : null,
+        },
+        req.user.uid,
+        getClientIP(req)
+      );
+
+      // Audit log
+      await auditLogger.logFromRequest(
+        req,
+        type === 'block' ? AuditAction.ADMIN_IP_BLOCK : AuditAction.ADMIN_IP_ALLOWLIST_ADD,
+        true,
+        { type: 'ipRule', id: rule.id },
+        { cidr: rule.cidr, reason: rule.reason, expiresAt: rule.expiresAt }
+      );
+
+      res.status(201).json({
+        status: 'success',
+        message: type === 'block' ? 'IP blocked successfully' : 'IP added to the allowlist',
+        data: { rule },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.issues[0];
+        return next(new AppError(`Validation error: ${firstError.message}`, 400));
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Helper method to remove a block or allow rule
+   */
+  private async removeIPRule(
+    type: IPRuleType,
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { ruleId } = req.params;
+
+      const rule = await this.securityService.removeIPRule(type, ruleId, getClientIP(req));
+
+      // Audit log
+      await auditLogger.logFromRequest(
+        req,
+        type === 'block' ? AuditAction.ADMIN_IP_UNBLOCK : AuditAction.ADMIN_IP_ALLOWLIST_REMOVE,
+        true,
+        { type: 'ipRule', id: ruleId },
+        { cidr: rule.cidr }
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: type === 'block' ? 'IP unblocked successfully' : 'IP removed from the allowlist',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
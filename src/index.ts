@@ -1,6 +1,13 @@
 import { createApp, startServer } from './app';
+import config from './config';
 import { initializeFirebase } from './config/firebase';
 import logger from './config/logger';
+import { jobQueue } from './services/jobQueue.service';
+import { ReceiptParsingService } from './services/receiptParsing.service';
+import { ExchangeRateService } from './services/exchangeRate.service';
+import { ReceiptService } from './services/receipt.service';
+import { TrashRetentionService } from './services/trashRetention.service';
+import { apiKeyUsage } from './services/apiKeyUsage.service';
 
 try {
   // Initialize Firebase
@@ -8,6 +15,26 @@ try {
 
   const app = createApp();
   startServer(app);
+
+  // Start background job workers
+  new ReceiptParsingService().registerJobHandlers(jobQueue);
+  jobQueue.start();
+
+  // Write API key usage counters periodically
+  apiKeyUsage.start();
+
+  // Purge receipts that have been in the trash past the retention period
+  new TrashRetentionService(new ReceiptService()).start();
+
+  // Seed exchange rates; a bad seed file must not take the API down
+  if (config.exchangeRates.seedFile) {
+    new ExchangeRateService().seedFromFile(config.exchangeRates.seedFile).catch((error) =>
+      logger.error('Failed to seed exchange rates', {
+        file: config.exchangeRates.seedFile,
+        error,
+      })
+    );
+  }
 } catch (error) {
   logger.error('Failed to start server', { error });
   process.exit(1);
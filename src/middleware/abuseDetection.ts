@@ -3,39 +3,48 @@ import { Request, Response, NextFunction } from 'express';
 import { AppError } from './errorHandler';
 import logger from '../config/logger';
 import { auditLogger, AuditAction } from '../services/audit.service';
-
-/**
- * In-memory store for tracking IP abuse
- * In production, consider using Redis for distributed tracking
- */
-interface IPTracker {
-  failedAttempts: number;
-  firstFailureTime: number;
-  blockedUntil?: number;
-}
-
-const ipTracking = new Map<string, IPTracker>();
+import config from '../config';
+import {
+  IPRule,
+  IPTracker,
+  findIPRule,
+  isIPTrackerBlocked,
+  normalizeIP,
+} from '../models/security.model';
+import {
+  SecurityStore,
+  FirestoreSecurityStore,
+  InMemorySecurityStore,
+} from '../repositories/security.repository';
 
 // Configuration
 const MAX_FAILED_ATTEMPTS = 10;
 const FAILURE_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
 const INITIAL_BLOCK_DURATION_MS = 15 * 60 * 1000; // 15 minutes
 const MAX_BLOCK_DURATION_MS = 24 * 60 * 60 * 1000; // 24 hours
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const IP_RULES_CACHE_MS = 30 * 1000; // Rule changes reach other instances within 30 seconds
 
 /**
- * Get client IP address from request
+ * Create the security store selected by SECURITY_STORE_DRIVER
  */
-const getClientIP = (req: Request): string => {
-  // Check X-Forwarded-For header (when behind proxy/load balancer)
-  const forwardedFor = req.headers['x-forwarded-for'];
-  if (forwardedFor) {
-    // X-Forwarded-For can contain multiple IPs, get the first one
-    const ips = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor;
-    return ips.split(',')[0].trim();
-  }
+export const createSecurityStore = (): SecurityStore => {
+  return config.securityStore.driver === 'memory'
+    ? new InMemorySecurityStore()
+    : new FirestoreSecurityStore();
+};
+
+// Shared with the rate limiters so limits and blocks hold across instances
+export const securityStore = createSecurityStore();
 
-  // Fallback to req.ip
-  return req.ip || 'unknown';
+/**
+ * Get client IP address from request
+ * Uses req.ip, which Express takes from the hop our proxy appended to X-Forwarded-For
+ * ('trust proxy' in app.ts). The leftmost X-Forwarded-For entry is set by the client, so
+ * matching block and allow rules against it would let anyone claim an allowlisted address.
+ */
+export const getClientIP = (req: Request): string => {
+  return req.ip ? normalizeIP(req.ip) : 'unknown';
 };
 
 /**
@@ -49,58 +58,102 @@ const calculateBlockDuration = (failedAttempts: number): number => {
   return Math.min(duration, MAX_BLOCK_DURATION_MS);
 };
 
+// Admin block and allow rules, cached so that every request doesn't read them from the store
+let ipRulesCache: { rules: IPRule[]; loadedAt: number } | null = null;
+
 /**
- * Clean up old entries from IP tracking (runs periodically)
+ * Get the admin IP rules, reloading them from the store when the cache is stale
+ * Keeps using the cached rules if the store can't be reached
  */
-const cleanupOldEntries = () => {
+const getIPRules = async (): Promise<IPRule[]> => {
   const now = Date.now();
-  for (const [ip, tracker] of ipTracking.entries()) {
-    // Remove unblocked IPs that haven't had failures in the window
-    if (!tracker.blockedUntil && now - tracker.firstFailureTime > FAILURE_WINDOW_MS * 2) {
-      ipTracking.delete(ip);
-    }
-    // Remove IPs that have been unblocked for a while
-    if (tracker.blockedUntil && now > tracker.blockedUntil + FAILURE_WINDOW_MS) {
-      ipTracking.delete(ip);
-    }
+  if (ipRulesCache && now - ipRulesCache.loadedAt < IP_RULES_CACHE_MS) {
+    return ipRulesCache.rules;
+  }
+
+  try {
+    ipRulesCache = { rules: await securityStore.listIPRules(), loadedAt: now };
+  } catch (error) {
+    logger.error('Failed to load IP rules', { error });
+    ipRulesCache = { rules: ipRulesCache?.rules ?? [], loadedAt: now };
   }
+  return ipRulesCache.rules;
+};
+
+/**
+ * Reload the admin IP rules on the next request (after rules change on this instance)
+ */
+export const refreshIPRules = (): void => {
+  ipRulesCache = null;
 };
 
-// Clean up every hour
-setInterval(cleanupOldEntries, 60 * 60 * 1000);
+/**
+ * Calculate when a tracker can be removed
+ * Unblocked IPs are kept for two failure windows, blocked IPs for a window after the block ends
+ */
+const calculateTrackerExpiry = (tracker: Omit<IPTracker, 'expiresAt'>): number => {
+  return tracker.blockedUntil
+    ? tracker.blockedUntil + FAILURE_WINDOW_MS
+    : tracker.firstFailureTime + FAILURE_WINDOW_MS * 2;
+};
+
+/**
+ * Clean up old entries from IP tracking and expired rate limit counters (runs periodically)
+ */
+const cleanupOldEntries = async (): Promise<void> => {
+  try {
+    const deleted = await securityStore.deleteExpired(Date.now());
+    logger.debug('Expired security entries removed', { deleted });
+  } catch (error) {
+    logger.error('Failed to clean up security entries', { error });
+  }
+};
+
+// Clean up every hour; don't keep the process alive just for the cleanup
+setInterval(() => {
+  void cleanupOldEntries();
+}, CLEANUP_INTERVAL_MS).unref();
 
 /**
  * Record a failed attempt for an IP
+ * Never rejects: a store failure is logged and the attempt is dropped
  */
-export const recordFailedAttempt = (req: Request, reason: string): void => {
+export const recordFailedAttempt = async (req: Request, reason: string): Promise<void> => {
   const ip = getClientIP(req);
-  const now = Date.now();
+  let blockDuration: number | null = null;
 
-  let tracker = ipTracking.get(ip);
+  let tracker: IPTracker | null;
+  try {
+    tracker = await securityStore.updateIPTracker(ip, (current) => {
+      const now = Date.now();
+      blockDuration = null;
 
-  if (!tracker) {
-    tracker = {
-      failedAttempts: 1,
-      firstFailureTime: now,
-    };
-  } else {
-    // Reset counter if outside the failure window
-    if (now - tracker.firstFailureTime > FAILURE_WINDOW_MS) {
-      tracker.failedAttempts = 1;
-      tracker.firstFailureTime = now;
-      delete tracker.blockedUntil;
-    } else {
-      tracker.failedAttempts++;
-    }
-  }
+      let updated: Omit<IPTracker, 'expiresAt'>;
+      if (!current || now - current.firstFailureTime > FAILURE_WINDOW_MS) {
+        // Reset counter if outside the failure window
+        updated = { failedAttempts: 1, firstFailureTime: now };
+      } else {
+        updated = { ...current, failedAttempts: current.failedAttempts + 1 };
+      }
+
+      // Block IP if threshold exceeded
+      if (updated.failedAttempts >= MAX_FAILED_ATTEMPTS && !updated.blockedUntil) {
+        blockDuration = calculateBlockDuration(updated.failedAttempts);
+        updated.blockedUntil = now + blockDuration;
+      }
 
-  ipTracking.set(ip, tracker);
+      return { ...updated, expiresAt: calculateTrackerExpiry(updated) };
+    });
+  } catch (error) {
+    logger.error('Failed to record failed attempt', { ip, reason, error });
+    return;
+  }
 
-  // Block IP if threshold exceeded
-  if (tracker.failedAttempts >= MAX_FAILED_ATTEMPTS && !tracker.blockedUntil) {
-    const blockDuration = calculateBlockDuration(tracker.failedAttempts);
-    tracker.blockedUntil = now + blockDuration;
+  if (!tracker) {
+    return;
+  }
 
+  if (blockDuration !== null) {
     logger.warn('IP blocked due to repeated failures', {
       ip,
       failedAttempts: tracker.failedAttempts,
@@ -130,35 +183,63 @@ export const recordFailedAttempt = (req: Request, reason: string): void => {
 
 /**
  * Check if IP is currently blocked
+ * Fails open: if the store can't be reached the IP is treated as not blocked
  */
-export const isIPBlocked = (req: Request): boolean => {
+export const isIPBlocked = async (req: Request): Promise<boolean> => {
   const ip = getClientIP(req);
-  const tracker = ipTracking.get(ip);
 
-  if (!tracker || !tracker.blockedUntil) {
-    return false;
-  }
+  try {
+    const tracker = await securityStore.getIPTracker(ip);
+    if (!tracker || !tracker.blockedUntil) {
+      return false;
+    }
 
-  const now = Date.now();
+    if (isIPTrackerBlocked(tracker)) {
+      return true;
+    }
 
-  // Check if block has expired
-  if (now > tracker.blockedUntil) {
     // Unblock IP but keep tracker for future monitoring
-    delete tracker.blockedUntil;
-    ipTracking.set(ip, tracker);
+    await securityStore.updateIPTracker(ip, (current) => {
+      if (!current || isIPTrackerBlocked(current)) {
+        return current;
+      }
+      const unblocked = { ...current };
+      delete unblocked.blockedUntil;
+      return { ...unblocked, expiresAt: calculateTrackerExpiry(unblocked) };
+    });
+    return false;
+  } catch (error) {
+    logger.error('Failed to check IP block', { ip, error });
     return false;
   }
-
-  return true;
 };
 
 /**
  * Middleware to check if IP is blocked
  */
-export const checkIPBlocked = (req: Request, _res: Response, next: NextFunction) => {
-  if (isIPBlocked(req)) {
-    const ip = getClientIP(req);
+export const checkIPBlocked = async (req: Request, _res: Response, next: NextFunction) => {
+  const ip = getClientIP(req);
+  const rules = await getIPRules();
+
+  // Allowlisted IPs are never blocked
+  if (findIPRule(rules, ip, 'allow')) {
+    return next();
+  }
 
+  const blockRule = findIPRule(rules, ip, 'block');
+  if (blockRule) {
+    logger.warn('IP blocked by admin rule attempted access', {
+      ip,
+      ruleId: blockRule.id,
+      method: req.method,
+      url: req.url,
+      requestId: req.requestId,
+    });
+
+    throw new AppError('Access from your IP address has been blocked.', 403);
+  }
+
+  if (await isIPBlocked(req)) {
     logger.warn('Blocked IP attempted access', {
       ip,
       method: req.method,
@@ -177,38 +258,53 @@ export const checkIPBlocked = (req: Request, _res: Response, next: NextFunction)
 
 /**
  * Reset failed attempts for an IP (on successful authentication)
+ * Never rejects: a store failure is logged and ignored
  */
-export const resetFailedAttempts = (req: Request): void => {
+export const resetFailedAttempts = async (req: Request): Promise<void> => {
   const ip = getClientIP(req);
-  ipTracking.delete(ip);
 
-  logger.debug('Failed attempts reset', { ip });
+  try {
+    // Check first so that successful requests from clean IPs don't each cost a write
+    if (await securityStore.getIPTracker(ip)) {
+      await securityStore.deleteIPTracker(ip);
+      logger.debug('Failed attempts reset', { ip });
+    }
+  } catch (error) {
+    logger.error('Failed to reset failed attempts', { ip, error });
+  }
 };
 
 /**
  * Get IP tracking statistics (for monitoring/admin)
  */
-export const getIPTrackingStats = (): {
+export const getIPTrackingStats = async (): Promise<{
   totalTracked: number;
   blocked: number;
-  tracking: { ip: string; failedAttempts: number; blocked: boolean }[];
-} => {
+  tracking: { ip: string; failedAttempts: number; blocked: boolean; blockedUntil: Date | null }[];
+}> => {
   const now = Date.now();
+  const trackers = await securityStore.listIPTrackers();
   const stats = {
-    totalTracked: ipTracking.size,
+    totalTracked: trackers.length,
     blocked: 0,
-    tracking: [] as { ip: string; failedAttempts: number; blocked: boolean }[],
+    tracking: [] as {
+      ip: string;
+      failedAttempts: number;
+      blocked: boolean;
+      blockedUntil: Date | null;
+    }[],
   };
 
-  for (const [ip, tracker] of ipTracking.entries()) {
-    const blocked = !!tracker.blockedUntil && now < tracker.blockedUntil;
+  for (const tracker of trackers) {
+    const blocked = isIPTrackerBlocked(tracker, now);
     if (blocked) {
       stats.blocked++;
     }
     stats.tracking.push({
-      ip,
+      ip: tracker.ip,
       failedAttempts: tracker.failedAttempts,
       blocked,
+      blockedUntil: blocked && tracker.blockedUntil ? new Date(tracker.blockedUntil) : null,
     });
   }
 
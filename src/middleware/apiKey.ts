@@ -1,57 +1,25 @@
 /// <reference path="../types/express.d.ts" />
 import { Request, Response, NextFunction } from 'express';
-import { getFirestore } from '../config/firebase';
 import { AppError } from './errorHandler';
 import logger from '../config/logger';
-import crypto from 'crypto';
-
-export interface APIKey {
-  id?: string;
-  key: string;
-  hashedKey: string;
-  name: string;
-  userId: string;
-  createdAt: Date;
-  lastUsedAt?: Date;
-  expiresAt?: Date;
-  active: boolean;
-  scopes: string[]; // e.g., ['receipts:read', 'receipts:write']
-  rateLimit?: {
-    maxRequests: number;
-    windowMs: number;
-  };
-}
+import { DEFAULT_API_KEY_RATE_LIMIT, isValidAPIKeyFormat } from '../models/apiKey.model';
+import { ApiKeyService } from '../services/apiKey.service';
+import { apiKeyRateLimiter } from './rateLimiter';
 
-/**
- * Hash an API key for secure storage
- */
-export const hashAPIKey = (key: string): string => {
-  return crypto.createHash('sha256').update(key).digest('hex');
-};
+let apiKeyService: ApiKeyService | null = null;
 
-/**
- * Generate a new API key
- */
-export const generateAPIKey = (): string => {
-  // Generate a cryptographically secure random key
-  // Format: rsk_live_xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx (receiptscan key)
-  const randomBytes = crypto.randomBytes(24);
-  return `rsk_${process.env.NODE_ENV === 'production' ? 'live' : 'test'}_${randomBytes.toString('hex')}`;
-};
-
-/**
- * Validate API key format
- */
-const isValidAPIKeyFormat = (key: string): boolean => {
-  // Check format: rsk_[live|test]_[64 hex characters]
-  return /^rsk_(live|test)_[a-f0-9]{48}$/.test(key);
+const getApiKeyService = () => {
+  if (!apiKeyService) {
+    apiKeyService = new ApiKeyService();
+  }
+  return apiKeyService;
 };
 
 /**
  * API Key authentication middleware
  * Validates API key from X-API-Key header
  */
-export const apiKeyAuth = async (req: Request, _res: Response, next: NextFunction) => {
+export const apiKeyAuth = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const apiKey = req.headers['x-api-key'] as string;
 
@@ -64,19 +32,9 @@ export const apiKeyAuth = async (req: Request, _res: Response, next: NextFunctio
       throw new AppError('Invalid API key format', 401);
     }
 
-    // Hash the provided key
-    const hashedKey = hashAPIKey(apiKey);
+    const authenticated = await getApiKeyService().authenticate(apiKey);
 
-    // Query Firestore for the API key
-    const db = getFirestore();
-    const snapshot = await db
-      .collection('apiKeys')
-      .where('hashedKey', '==', hashedKey)
-      .where('active', '==', true)
-      .limit(1)
-      .get();
-
-    if (snapshot.empty) {
+    if (!authenticated) {
       logger.warn('Invalid API key attempt', {
         requestId: req.requestId,
         ip: req.ip,
@@ -84,54 +42,42 @@ export const apiKeyAuth = async (req: Request, _res: Response, next: NextFunctio
       throw new AppError('Invalid or inactive API key', 401);
     }
 
-    const apiKeyDoc = snapshot.docs[0];
-    const apiKeyData = apiKeyDoc.data() as APIKey;
-
-    // Check expiration
-    if (apiKeyData.expiresAt && new Date(apiKeyData.expiresAt) < new Date()) {
-      logger.warn('Expired API key used', {
-        requestId: req.requestId,
-        apiKeyId: apiKeyDoc.id,
-        userId: apiKeyData.userId,
-      });
-      throw new AppError('API key has expired', 401);
-    }
-
-    // Update last used timestamp (async, don't wait)
-    db.collection('apiKeys')
-      .doc(apiKeyDoc.id)
-      .update({ lastUsedAt: new Date() })
-      .catch((error) => {
-        logger.error('Failed to update API key last used timestamp', { error });
-      });
+    const { apiKey: apiKeyData, user } = authenticated;
 
-    // Attach API key info to request
+    // Attach API key info and the key owner's context to request
     req.apiKey = {
-      id: apiKeyDoc.id,
+      id: apiKeyData.id,
       userId: apiKeyData.userId,
       scopes: apiKeyData.scopes,
       name: apiKeyData.name,
+      rateLimit: apiKeyData.rateLimit ?? DEFAULT_API_KEY_RATE_LIMIT,
     };
+    req.user = user;
 
     logger.debug('API key authenticated', {
       requestId: req.requestId,
-      apiKeyId: apiKeyDoc.id,
+      apiKeyId: apiKeyData.id,
       userId: apiKeyData.userId,
       scopes: apiKeyData.scopes,
     });
-
-    next();
   } catch (error) {
-    next(error);
+    return next(error);
   }
+
+  // Every request made with a key counts against the key's own quota
+  return apiKeyRateLimiter(req, res, next);
 };
 
 /**
  * Middleware to check if API key has required scope
+ * Users signed in with a Firebase token have every scope
  */
 export const requireScope = (requiredScope: string) => {
   return (req: Request, _res: Response, next: NextFunction) => {
     if (!req.apiKey) {
+      if (req.user) {
+        return next();
+      }
       throw new AppError('API key authentication required', 401);
     }
 
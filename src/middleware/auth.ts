@@ -1,5 +1,6 @@
 /// <reference path="../types/express.d.ts" />
 import { Request, Response, NextFunction } from 'express';
+import type { DecodedIdToken } from 'firebase-admin/auth';
 import { getAuth } from '../config/firebase';
 import { AppError } from './errorHandler';
 import logger from '../config/logger';
@@ -16,6 +17,32 @@ const getAuthService = () => {
   return authService;
 };
 
+/**
+ * Helper function to write an auth.login audit entry for a sign-in the API hasn't seen yet
+ * Best-effort: a failure here shouldn't fail authentication
+ */
+const recordSignIn = async (
+  req: Request,
+  decodedToken: DecodedIdToken,
+  lastSignInAt?: Date
+): Promise<void> => {
+  try {
+    const signedInAt = new Date(decodedToken.auth_time * 1000);
+    if (lastSignInAt && lastSignInAt >= signedInAt) {
+      return;
+    }
+
+    if (await getAuthService().recordSignIn(decodedToken.uid, signedInAt)) {
+      await auditLogger.logFromRequest(req, AuditAction.AUTH_LOGIN, true, undefined, {
+        signInProvider: decodedToken.firebase.sign_in_provider,
+        signedInAt: signedInAt.toISOString(),
+      });
+    }
+  } catch (error) {
+    logger.error('Failed to record sign-in', { requestId: req.requestId, error });
+  }
+};
+
 export const authMiddleware = async (req: Request, _res: Response, next: NextFunction) => {
   try {
     const authHeader = req.headers.authorization;
@@ -65,7 +92,10 @@ export const authMiddleware = async (req: Request, _res: Response, next: NextFun
       };
 
       // Reset failed attempts on successful authentication
-      resetFailedAttempts(req);
+      await resetFailedAttempts(req);
+
+      // Record the sign-in the first time one of its tokens is used
+      await recordSignIn(req, decodedToken, userProfile.lastSignInAt);
 
       logger.debug('User authenticated', {
         requestId: req.requestId,
@@ -81,7 +111,7 @@ export const authMiddleware = async (req: Request, _res: Response, next: NextFun
       });
 
       // Record failed attempt
-      recordFailedAttempt(req, 'invalid_token');
+      await recordFailedAttempt(req, 'invalid_token');
 
       // Log to audit
       await auditLogger.logFromRequest(
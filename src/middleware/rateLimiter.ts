@@ -1,9 +1,86 @@
-import rateLimit from 'express-rate-limit';
-import { Request } from 'express';
+import rateLimit, { IncrementResponse, Options, Store } from 'express-rate-limit';
+import { NextFunction, Request, Response } from 'express';
 import { AppError } from './errorHandler';
 import logger from '../config/logger';
-import { recordFailedAttempt } from './abuseDetection';
+import { recordFailedAttempt, securityStore } from './abuseDetection';
 import { auditLogger, AuditAction } from '../services/audit.service';
+import { apiKeyUsage } from '../services/apiKeyUsage.service';
+import { API_KEY_RATE_LIMIT_WINDOWS, DEFAULT_API_KEY_RATE_LIMIT } from '../models/apiKey.model';
+import { InMemorySecurityStore } from '../repositories/security.repository';
+
+/**
+ * express-rate-limit store that keeps hit counts in the shared security store,
+ * so every instance counts requests against the same limit
+ * Each limiter needs its own instance with a unique prefix.
+ *
+ * Hits are also counted locally. A key that is already over a fixed limit on this instance is
+ * rejected without a store write, and if the shared store fails the local count is used instead,
+ * so the limiter never lets requests through unchecked.
+ */
+export class SharedRateLimitStore implements Store {
+  localKeys = false;
+  prefix: string;
+  private windowMs = 60 * 1000;
+  private limit: number | null = null;
+  private localHits = new InMemorySecurityStore();
+
+  constructor(prefix: string) {
+    this.prefix = prefix;
+  }
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+    // Per-request limits (API key quotas) can't be checked before the shared count
+    this.limit = typeof options.limit === 'number' ? options.limit : null;
+
+    setInterval(() => {
+      void this.localHits.deleteExpired(Date.now());
+    }, this.windowMs).unref();
+  }
+
+  async increment(key: string): Promise<IncrementResponse> {
+    const storeKey = `${this.prefix}${key}`;
+    const local = await this.localHits.incrementHits(storeKey, this.windowMs);
+    if (this.limit !== null && local.totalHits > this.limit) {
+      return local;
+    }
+
+    try {
+      const shared = await securityStore.incrementHits(storeKey, this.windowMs);
+      // The shared count is approximate, but never fewer than this instance has seen
+      return { ...shared, totalHits: Math.max(shared.totalHits, local.totalHits) };
+    } catch (error) {
+      logger.warn('Shared rate limit store failed, using local counts', { key: storeKey, error });
+      return local;
+    }
+  }
+
+  async decrement(key: string): Promise<void> {
+    const storeKey = `${this.prefix}${key}`;
+    await this.localHits.decrementHits(storeKey);
+    try {
+      await securityStore.decrementHits(storeKey, this.windowMs);
+    } catch (error) {
+      logger.warn('Shared rate limit store failed, only the local count was decremented', {
+        key: storeKey,
+        error,
+      });
+    }
+  }
+
+  async resetKey(key: string): Promise<void> {
+    const storeKey = `${this.prefix}${key}`;
+    await this.localHits.resetHits(storeKey);
+    try {
+      await securityStore.resetHits(storeKey, this.windowMs);
+    } catch (error) {
+      logger.warn('Shared rate limit store failed, only the local count was reset', {
+        key: storeKey,
+        error,
+      });
+    }
+  }
+}
 
 /**
  * General API rate limiter
@@ -14,6 +91,7 @@ export const generalRateLimiter = rateLimit({
   max: 100, // Limit each IP to 100 requests per minute
   standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
   legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+  store: new SharedRateLimitStore('general:'),
   // Use default key generator (handles IPv6 correctly)
   handler: (req, _res, _next) => {
     logger.warn('General rate limit exceeded', {
@@ -24,7 +102,7 @@ export const generalRateLimiter = rateLimit({
     });
 
     // Record failed attempt for abuse detection
-    recordFailedAttempt(req, 'rate_limit_exceeded');
+    void recordFailedAttempt(req, 'rate_limit_exceeded');
 
     // Log to audit
     auditLogger.logFromRequest(req, AuditAction.SECURITY_RATE_LIMIT_EXCEEDED, false, undefined, {
@@ -49,6 +127,7 @@ export const uploadRateLimiter = rateLimit({
   max: 10, // Limit each user to 10 requests per windowMs
   standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
   legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+  store: new SharedRateLimitStore('upload:'),
   keyGenerator: (req: Request) => {
     // Use user ID if authenticated, prefix to avoid collision with IP addresses
     // Otherwise use default IP handling by returning undefined
@@ -64,7 +143,7 @@ export const uploadRateLimiter = rateLimit({
     });
 
     // Record failed attempt
-    recordFailedAttempt(req, 'upload_rate_limit_exceeded');
+    void recordFailedAttempt(req, 'upload_rate_limit_exceeded');
 
     // Log to audit
     auditLogger.logFromRequest(req, AuditAction.SECURITY_RATE_LIMIT_EXCEEDED, false, undefined, {
@@ -90,6 +169,7 @@ export const exportRateLimiter = rateLimit({
   max: 5, // Limit each user to 5 requests per hour
   standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
   legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+  store: new SharedRateLimitStore('export:'),
   keyGenerator: (req: Request) => {
     // Use user ID if authenticated, prefix to avoid collision with IP addresses
     // Otherwise use default IP handling by returning undefined
@@ -105,7 +185,7 @@ export const exportRateLimiter = rateLimit({
     });
 
     // Record failed attempt
-    recordFailedAttempt(req, 'export_rate_limit_exceeded');
+    void recordFailedAttempt(req, 'export_rate_limit_exceeded');
 
     // Log to audit
     auditLogger.logFromRequest(req, AuditAction.SECURITY_RATE_LIMIT_EXCEEDED, false, undefined, {
@@ -132,6 +212,7 @@ export const billingRateLimiter = rateLimit({
   max: 10, // Limit each user to 10 requests per minute
   standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
   legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+  store: new SharedRateLimitStore('billing:'),
   keyGenerator: (req: Request) => {
     // Use user ID if authenticated, prefix to avoid collision with IP addresses
     // Otherwise use default IP handling by returning undefined
@@ -147,7 +228,7 @@ export const billingRateLimiter = rateLimit({
     });
 
     // Record failed attempt
-    recordFailedAttempt(req, 'billing_rate_limit_exceeded');
+    void recordFailedAttempt(req, 'billing_rate_limit_exceeded');
 
     // Log to audit
     auditLogger.logFromRequest(req, AuditAction.SECURITY_RATE_LIMIT_EXCEEDED, false, undefined, {
@@ -159,3 +240,74 @@ export const billingRateLimiter = rateLimit({
     throw new AppError('Too many billing requests. Please try again later.', 429);
   },
 });
+
+/**
+ * Rate limiter for API keys with a given quota window
+ * Each key is limited to its own maxRequests, counted separately from its owner's other requests
+ */
+const createApiKeyRateLimiter = (windowMs: number) =>
+  rateLimit({
+    windowMs,
+    max: (req: Request) =>
+      req.apiKey?.rateLimit.maxRequests ?? DEFAULT_API_KEY_RATE_LIMIT.maxRequests,
+    standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
+    legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+    store: new SharedRateLimitStore(`apiKey-${windowMs}:`),
+    keyGenerator: (req: Request) => `apiKey:${req.apiKey?.id}`,
+    handler: (req, _res, _next) => {
+      logger.warn('API key rate limit exceeded', {
+        apiKeyId: req.apiKey?.id,
+        userId: req.user?.uid,
+        ip: req.ip,
+        method: req.method,
+        url: req.url,
+        requestId: req.requestId,
+      });
+
+      if (req.apiKey) {
+        apiKeyUsage.record(req.apiKey.id, req.apiKey.userId, true);
+      }
+
+      // Log to audit
+      auditLogger.logFromRequest(req, AuditAction.SECURITY_RATE_LIMIT_EXCEEDED, false, undefined, {
+        limit: req.apiKey?.rateLimit.maxRequests,
+        windowMs,
+        type: 'api_key',
+      });
+
+      throw new AppError('API key rate limit exceeded. Please try again later.', 429);
+    },
+  });
+
+const defaultApiKeyRateLimiter = createApiKeyRateLimiter(DEFAULT_API_KEY_RATE_LIMIT.windowMs);
+const apiKeyRateLimiters = new Map(
+  API_KEY_RATE_LIMIT_WINDOWS.map((windowMs) => [
+    windowMs,
+    windowMs === DEFAULT_API_KEY_RATE_LIMIT.windowMs
+      ? defaultApiKeyRateLimiter
+      : createApiKeyRateLimiter(windowMs),
+  ])
+);
+
+/**
+ * Rate limiter for requests authenticated with an API key
+ * Applies the key's quota (APIKey.rateLimit) and counts the request in the key's usage
+ */
+export const apiKeyRateLimiter = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.apiKey) {
+    return next();
+  }
+
+  apiKeyUsage.record(req.apiKey.id, req.apiKey.userId);
+
+  // Stored quotas are normalized to a supported window when the key is read
+  const limiter = apiKeyRateLimiters.get(req.apiKey.rateLimit.windowMs);
+  if (!limiter) {
+    logger.error('No rate limiter for API key quota window', {
+      apiKeyId: req.apiKey.id,
+      windowMs: req.apiKey.rateLimit.windowMs,
+    });
+    return next(new AppError('Failed to apply API key rate limit', 500));
+  }
+  return limiter(req, res, next);
+};
@@ -1,6 +1,6 @@
 /// <reference types="multer" />
 import multer from 'multer';
-import { Request } from 'express';
+import { NextFunction, Request, Response } from 'express';
 import { FILE_UPLOAD_CONFIG } from '../services/fileValidation.service';
 import { AppError } from './errorHandler';
 
@@ -43,3 +43,24 @@ export const uploadMiddleware = multer({
  * Expects a field name 'receipt' in the multipart form
  */
 export const uploadSingleFile = uploadMiddleware.single('receipt');
+
+/**
+ * Multer error handler middleware
+ * Converts multer errors to AppError for consistent error handling
+ */
+export const handleMulterError = (
+  err: Error,
+  _req: Request,
+  _res: Response,
+  next: NextFunction
+) => {
+  if (err instanceof Error) {
+    if (err.message.includes('File too large')) {
+      return next(new AppError('File size exceeds the maximum limit of 10MB', 400));
+    }
+    if (err.message.includes('Unexpected field')) {
+      return next(new AppError('Invalid file field. Use "receipt" as the field name.', 400));
+    }
+  }
+  next(err);
+};
@@ -0,0 +1,215 @@
+/**
+ * API key data models - keys for programmatic access to a user's receipts
+ */
+
+import crypto from 'crypto';
+
+/**
+ * Scopes an API key can be granted
+ * receipts:read covers listing, search, stats, history and review; receipts:write covers changes
+ */
+export const API_KEY_SCOPES = [
+  'receipts:read',
+  'receipts:write',
+  'receipts:export',
+  'analytics:read',
+] as const;
+
+export type APIKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Keys a user can have active at once
+export const MAX_ACTIVE_API_KEYS = 10;
+
+// How long a rotated key keeps working by default, so clients can switch over
+export const DEFAULT_ROTATION_GRACE_HOURS = 24;
+export const MAX_ROTATION_GRACE_HOURS = 7 * 24;
+
+/**
+ * Request quota of a key: at most maxRequests per window
+ */
+export interface APIKeyRateLimit {
+  maxRequests: number;
+  windowMs: number;
+}
+
+// Window lengths a quota can use: a minute, an hour or a day
+export const API_KEY_RATE_LIMIT_WINDOWS = [60 * 1000, 60 * 60 * 1000, 24 * 60 * 60 * 1000];
+
+export const DEFAULT_API_KEY_RATE_LIMIT: APIKeyRateLimit = { maxRequests: 60, windowMs: 60 * 1000 };
+
+// Ceiling for any quota, as an average rate
+export const MAX_API_KEY_REQUESTS_PER_MINUTE = 120;
+
+/**
+ * Requests made with a key in one hour or one day
+ */
+export type APIKeyUsageGranularity = 'hour' | 'day';
+
+export interface APIKeyUsageBucket {
+  apiKeyId: string;
+  userId: string;
+  granularity: APIKeyUsageGranularity;
+  periodStart: Date;
+  requests: number;
+  rateLimited: number; // Requests rejected for exceeding the quota, included in requests
+}
+
+/**
+ * Usage of a key over the last 24 hours (hourly) and 30 days (daily)
+ */
+export interface APIKeyUsageSummary {
+  apiKeyId: string;
+  rateLimit: APIKeyRateLimit;
+  last24Hours: { requests: number; rateLimited: number; hourly: APIKeyUsagePoint[] };
+  last30Days: { requests: number; rateLimited: number; daily: APIKeyUsagePoint[] };
+}
+
+export interface APIKeyUsagePoint {
+  periodStart: Date;
+  requests: number;
+  rateLimited: number;
+}
+
+/**
+ * Stored API key; only the SHA-256 hash of the key is kept
+ */
+export interface APIKey {
+  id: string;
+  userId: string;
+  name: string;
+  keyPrefix: string; // Start of the key, to tell keys apart
+  scopes: string[]; // '*' grants every scope
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  rotatedTo: string | null; // ID of the key that replaced this one
+  rateLimit?: APIKeyRateLimit; // DEFAULT_API_KEY_RATE_LIMIT when not set
+}
+
+export interface CreateAPIKeyDto {
+  name: string;
+  scopes: string[];
+  expiresAt?: Date | null;
+  rateLimit?: APIKeyRateLimit;
+}
+
+export interface UpdateAPIKeyDto {
+  name?: string;
+  scopes?: string[];
+  rateLimit?: APIKeyRateLimit | null; // null restores the default quota
+}
+
+/**
+ * Newly issued key; the plaintext key is returned once and never stored
+ */
+export interface IssuedAPIKey {
+  apiKey: APIKey;
+  key: string;
+}
+
+/**
+ * Hash an API key for secure storage
+ */
+export const hashAPIKey = (key: string): string => {
+  return crypto.createHash('sha256').update(key).digest('hex');
+};
+
+/**
+ * Generate a new API key
+ */
+export const generateAPIKey = (): string => {
+  // Generate a cryptographically secure random key
+  // Format: rsk_live_xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx (receiptscan key)
+  const randomBytes = crypto.randomBytes(24);
+  return `rsk_${process.env.NODE_ENV === 'production' ? 'live' : 'test'}_${randomBytes.toString('hex')}`;
+};
+
+/**
+ * Validate API key format
+ */
+export const isValidAPIKeyFormat = (key: string): boolean => {
+  // Check format: rsk_[live|test]_[48 hex characters]
+  return /^rsk_(live|test)_[a-f0-9]{48}$/.test(key);
+};
+
+/**
+ * Helper function to get the part of a key that is safe to show, e.g. rsk_live_1a2b3c
+ */
+export function getAPIKeyPrefix(key: string): string {
+  return key.slice(0, 'rsk_live_'.length + 6);
+}
+
+/**
+ * Helper function to check whether a key can still authenticate
+ */
+export function isAPIKeyUsable(apiKey: APIKey, now: Date = new Date()): boolean {
+  return apiKey.active && (!apiKey.expiresAt || apiKey.expiresAt > now);
+}
+
+/**
+ * Helper function to work out when a rotated key stops working
+ * The grace period never extends a key past its own expiry.
+ */
+export function getRotationExpiry(
+  apiKey: APIKey,
+  graceHours: number,
+  now: Date = new Date()
+): Date {
+  const graceEnd = new Date(now.getTime() + graceHours * 60 * 60 * 1000);
+  return apiKey.expiresAt && apiKey.expiresAt < graceEnd ? apiKey.expiresAt : graceEnd;
+}
+
+/**
+ * Helper function to get the start of the UTC hour or day a time falls in
+ */
+export function getUsagePeriodStart(date: Date, granularity: APIKeyUsageGranularity): Date {
+  const start = new Date(date);
+  start.setUTCMinutes(0, 0, 0);
+  if (granularity === 'day') {
+    start.setUTCHours(0);
+  }
+  return start;
+}
+
+/**
+ * Helper function to total usage buckets
+ */
+export function sumUsage(points: APIKeyUsagePoint[]): { requests: number; rateLimited: number } {
+  return points.reduce(
+    (total, point) => ({
+      requests: total.requests + point.requests,
+      rateLimited: total.rateLimited + point.rateLimited,
+    }),
+    { requests: 0, rateLimited: 0 }
+  );
+}
+
+/**
+ * Helper function to check whether a quota uses a supported window
+ */
+export function isSupportedAPIKeyRateLimit(rateLimit: APIKeyRateLimit): boolean {
+  return API_KEY_RATE_LIMIT_WINDOWS.includes(rateLimit.windowMs);
+}
+
+/**
+ * Helper function to move a stored quota onto a supported window
+ * Takes the longest supported window that fits in the stored one (or the shortest window) and
+ * scales maxRequests to it, so the key keeps roughly the same average rate.
+ */
+export function normalizeAPIKeyRateLimit(rateLimit: APIKeyRateLimit): APIKeyRateLimit {
+  if (isSupportedAPIKeyRateLimit(rateLimit)) {
+    return rateLimit;
+  }
+
+  const windowMs =
+    [...API_KEY_RATE_LIMIT_WINDOWS].reverse().find((window) => window <= rateLimit.windowMs) ??
+    API_KEY_RATE_LIMIT_WINDOWS[0];
+  const maxRequests = Math.min(
+    Math.floor((rateLimit.maxRequests * windowMs) / rateLimit.windowMs),
+    (MAX_API_KEY_REQUESTS_PER_MINUTE * windowMs) / 60000
+  );
+  return { maxRequests: Math.max(maxRequests, 1), windowMs };
+}
@@ -0,0 +1,75 @@
+/**
+ * Zod validation schemas for API keys
+ */
+
+import { z } from 'zod';
+import {
+  API_KEY_RATE_LIMIT_WINDOWS,
+  API_KEY_SCOPES,
+  DEFAULT_ROTATION_GRACE_HOURS,
+  MAX_API_KEY_REQUESTS_PER_MINUTE,
+  MAX_ROTATION_GRACE_HOURS,
+} from './apiKey.model';
+
+const apiKeyNameSchema = z.string().trim().min(1, 'Name is required').max(100);
+
+const apiKeyScopesSchema = z
+  .array(z.enum(API_KEY_SCOPES))
+  .min(1, 'At least one scope is required')
+  .transform((scopes) => [...new Set(scopes)]);
+
+const apiKeyRateLimitSchema = z
+  .object({
+    maxRequests: z.number().int().min(1),
+    windowMs: z.number().refine((windowMs) => API_KEY_RATE_LIMIT_WINDOWS.includes(windowMs), {
+      message: `windowMs must be one of ${API_KEY_RATE_LIMIT_WINDOWS.join(', ')}`,
+    }),
+  })
+  .refine(
+    (rateLimit) =>
+      rateLimit.maxRequests <= (MAX_API_KEY_REQUESTS_PER_MINUTE * rateLimit.windowMs) / 60000,
+    { message: `Rate limit can't exceed ${MAX_API_KEY_REQUESTS_PER_MINUTE} requests per minute` }
+  );
+
+/**
+ * Create API key validation schema
+ */
+export const createApiKeySchema = z.object({
+  name: apiKeyNameSchema,
+  scopes: apiKeyScopesSchema,
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+  rateLimit: apiKeyRateLimitSchema.optional(),
+});
+
+/**
+ * Update API key validation schema
+ */
+export const updateApiKeySchema = z
+  .object({
+    name: apiKeyNameSchema.optional(),
+    scopes: apiKeyScopesSchema.optional(),
+    rateLimit: apiKeyRateLimitSchema.nullable().optional(), // null restores the default quota
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided for update',
+  });
+
+/**
+ * Rotate API key validation schema
+ * A grace period of 0 revokes the old key immediately
+ */
+export const rotateApiKeySchema = z.object({
+  gracePeriodHours: z
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_ROTATION_GRACE_HOURS)
+    .default(DEFAULT_ROTATION_GRACE_HOURS),
+});
+
+/**
+ * Type inference from schemas
+ */
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+export type UpdateApiKeyInput = z.infer<typeof updateApiKeySchema>;
+export type RotateApiKeyInput = z.infer<typeof rotateApiKeySchema>;
@@ -0,0 +1,146 @@
+/**
+ * Budget data models - spending limits per category with threshold alerts
+ */
+
+import type { Currency } from './currency.model';
+
+/**
+ * Budget period; budgets reset at the start of each calendar period
+ */
+export type BudgetPeriod = 'monthly' | 'quarterly' | 'yearly';
+
+/**
+ * Percentages of a budget that trigger an alert when spending crosses them
+ */
+export const BUDGET_ALERT_THRESHOLDS = [50, 80, 100];
+
+/**
+ * Thresholds already alerted for a budget period
+ */
+export interface BudgetAlertState {
+  periodKey: string;
+  thresholds: number[];
+}
+
+/**
+ * Spending limit for one category (predefined or custom)
+ */
+export interface Budget {
+  id: string;
+  userId: string;
+  category: string;
+  period: BudgetPeriod;
+  amount: number;
+  currency: Currency; // Spending in other currencies is converted at each receipt date
+  alertState: BudgetAlertState | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * DTO for creating a budget
+ */
+export interface CreateBudgetDto {
+  category: string;
+  period: BudgetPeriod;
+  amount: number;
+  currency?: Currency; // Defaults to the user's home currency
+}
+
+/**
+ * DTO for updating a budget
+ */
+export interface UpdateBudgetDto {
+  period?: BudgetPeriod;
+  amount?: number;
+  currency?: Currency;
+}
+
+/**
+ * Calendar range of a budget period
+ */
+export interface BudgetPeriodRange {
+  key: string; // e.g. '2024-03', '2024-Q1' or '2024'
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Budget with spending for its current period
+ */
+export interface BudgetStatus {
+  budget: Budget;
+  periodKey: string;
+  periodStart: Date;
+  periodEnd: Date;
+  spent: number;
+  remaining: number; // Negative when over budget
+  percentUsed: number;
+  crossedThresholds: number[];
+}
+
+/**
+ * Alert raised when spending crosses a budget threshold
+ */
+export interface BudgetAlert {
+  id: string;
+  userId: string;
+  budgetId: string;
+  category: string;
+  period: BudgetPeriod;
+  periodKey: string;
+  threshold: number;
+  spent: number;
+  amount: number;
+  currency: Currency;
+  createdAt: Date;
+}
+
+/**
+ * Delivery channel for budget alerts
+ */
+export interface BudgetAlertNotifier {
+  readonly name: string;
+  notify(alert: BudgetAlert): Promise<void>;
+}
+
+/**
+ * Helper function to get the calendar period of a budget containing a date
+ */
+export function getBudgetPeriodRange(period: BudgetPeriod, date: Date): BudgetPeriodRange {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+
+  switch (period) {
+    case 'monthly':
+      return {
+        key: `${year}-${String(month + 1).padStart(2, '0')}`,
+        start: new Date(year, month, 1, 0, 0, 0),
+        end: new Date(year, month + 1, 0, 23, 59, 59),
+      };
+
+    case 'quarterly': {
+      const quarter = Math.floor(month / 3);
+      return {
+        key: `${year}-Q${quarter + 1}`,
+        start: new Date(year, quarter * 3, 1, 0, 0, 0),
+        end: new Date(year, quarter * 3 + 3, 0, 23, 59, 59),
+      };
+    }
+
+    case 'yearly':
+      return {
+        key: String(year),
+        start: new Date(year, 0, 1, 0, 0, 0),
+        end: new Date(year, 11, 31, 23, 59, 59),
+      };
+  }
+}
+
+/**
+ * Helper function to list the alert thresholds a spending level has reached
+ */
+export function getCrossedThresholds(spent: number, amount: number): number[] {
+  const percentUsed = (spent / amount) * 100;
+  return BUDGET_ALERT_THRESHOLDS.filter((threshold) => percentUsed >= threshold);
+}
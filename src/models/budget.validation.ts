@@ -0,0 +1,48 @@
+/**
+ * Zod validation schemas for budgets
+ */
+
+import { z } from 'zod';
+import { ReceiptCategory } from './receipt.model';
+import { CURRENCY_CODES } from './currency.model';
+
+const budgetPeriodSchema = z.enum(['monthly', 'quarterly', 'yearly']);
+
+const budgetAmountSchema = z.number().positive('Budget amount must be positive').max(1e12);
+
+/**
+ * Create budget validation schema
+ */
+export const createBudgetSchema = z.object({
+  category: z.union([z.nativeEnum(ReceiptCategory), z.string().trim().min(1).max(100)]),
+  period: budgetPeriodSchema,
+  amount: budgetAmountSchema,
+  currency: z.enum(CURRENCY_CODES).optional(),
+});
+
+/**
+ * Update budget validation schema
+ * The category is part of a budget's identity; create a new budget to change it
+ */
+export const updateBudgetSchema = z
+  .object({
+    period: budgetPeriodSchema.optional(),
+    amount: budgetAmountSchema.optional(),
+    currency: z.enum(CURRENCY_CODES).optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided for update',
+  });
+
+/**
+ * Budget status query validation schema
+ */
+export const budgetStatusQuerySchema = z.object({
+  date: z.coerce.date().optional(),
+});
+
+/**
+ * Type inference from schemas
+ */
+export type CreateBudgetInput = z.infer<typeof createBudgetSchema>;
+export type UpdateBudgetInput = z.infer<typeof updateBudgetSchema>;
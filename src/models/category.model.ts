@@ -0,0 +1,74 @@
+/**
+ * Category data models - user-defined receipt categories and their hierarchy
+ */
+
+/**
+ * User-defined category
+ * Receipts reference categories by name; the document adds display metadata and nesting.
+ * Only two levels are supported: a category is either top-level or a child of one.
+ */
+export interface Category {
+  id: string;
+  userId: string;
+  name: string;
+  nameKey: string; // Normalized name, unique per user
+  parentId: string | null;
+  color: string | null; // Hex colour, e.g. '#4CAF50'
+  icon: string | null; // Icon name or emoji
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Create category DTO
+ */
+export interface CreateCategoryDto {
+  name: string;
+  parentId?: string | null;
+  color?: string | null;
+  icon?: string | null;
+}
+
+/**
+ * Update category DTO; a new name renames the category on existing receipts
+ */
+export interface UpdateCategoryDto {
+  name?: string;
+  parentId?: string | null;
+  color?: string | null;
+  icon?: string | null;
+}
+
+/**
+ * Documents rewritten by a rename or merge
+ */
+export interface CategoryMigrationResult {
+  receipts: number;
+  budgets: number;
+  parsingRules: number;
+  receiptRules: number;
+}
+
+/**
+ * Helper function to normalize a category name for uniqueness checks
+ */
+export function normalizeCategoryKey(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Helper function to map each child category name to its parent's name
+ */
+export function getParentNames(categories: Category[]): Map<string, string> {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const parentNames = new Map<string, string>();
+
+  categories.forEach((category) => {
+    const parent = category.parentId ? byId.get(category.parentId) : undefined;
+    if (parent) {
+      parentNames.set(category.name, parent.name);
+    }
+  });
+
+  return parentNames;
+}
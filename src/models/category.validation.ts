@@ -0,0 +1,53 @@
+/**
+ * Zod validation schemas for user-defined categories
+ */
+
+import { z } from 'zod';
+
+// Same limit as a receipt's custom category
+const categoryNameSchema = z.string().trim().min(1).max(100);
+
+const categoryColorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex colour like #4CAF50');
+
+const categoryIconSchema = z.string().trim().min(1).max(50);
+
+/**
+ * Create category validation schema
+ */
+export const createCategorySchema = z.object({
+  name: categoryNameSchema,
+  parentId: z.string().min(1).nullable().optional(),
+  color: categoryColorSchema.nullable().optional(),
+  icon: categoryIconSchema.nullable().optional(),
+});
+
+/**
+ * Update category validation schema
+ */
+export const updateCategorySchema = z
+  .object({
+    name: categoryNameSchema.optional(),
+    parentId: z.string().min(1).nullable().optional(),
+    color: categoryColorSchema.nullable().optional(),
+    icon: categoryIconSchema.nullable().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided for update',
+  });
+
+/**
+ * Merge categories validation schema
+ * Sources are category names as used on receipts, whether or not they have a category document
+ */
+export const mergeCategoriesSchema = z.object({
+  sources: z.array(categoryNameSchema).min(1).max(20),
+});
+
+/**
+ * Type inference from schemas
+ */
+export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
+export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
+export type MergeCategoriesInput = z.infer<typeof mergeCategoriesSchema>;
@@ -0,0 +1,307 @@
+/**
+ * Currency registry - ISO 4217 codes with minor-unit precision
+ */
+
+/**
+ * Registry entry for an ISO 4217 currency
+ */
+export interface CurrencyInfo {
+  name: string;
+  minorUnits: number; // Digits after the decimal separator (JPY has none, KWD has three)
+}
+
+/**
+ * Active ISO 4217 currencies, including fund codes
+ * Precious metals, bond units and testing codes (XAU, XBA, XTS, XXX, ...) are not currencies
+ * receipts are paid in, so they are left out
+ */
+export const CURRENCIES = {
+  AED: { name: 'United Arab Emirates Dirham', minorUnits: 2 },
+  AFN: { name: 'Afghan Afghani', minorUnits: 2 },
+  ALL: { name: 'Albanian Lek', minorUnits: 2 },
+  AMD: { name: 'Armenian Dram', minorUnits: 2 },
+  AOA: { name: 'Angolan Kwanza', minorUnits: 2 },
+  ARS: { name: 'Argentine Peso', minorUnits: 2 },
+  AUD: { name: 'Australian Dollar', minorUnits: 2 },
+  AWG: { name: 'Aruban Florin', minorUnits: 2 },
+  AZN: { name: 'Azerbaijani Manat', minorUnits: 2 },
+  BAM: { name: 'Bosnia-Herzegovina Convertible Mark', minorUnits: 2 },
+  BBD: { name: 'Barbadian Dollar', minorUnits: 2 },
+  BDT: { name: 'Bangladeshi Taka', minorUnits: 2 },
+  BGN: { name: 'Bulgarian Lev', minorUnits: 2 },
+  BHD: { name: 'Bahraini Dinar', minorUnits: 3 },
+  BIF: { name: 'Burundian Franc', minorUnits: 0 },
+  BMD: { name: 'Bermudan Dollar', minorUnits: 2 },
+  BND: { name: 'Brunei Dollar', minorUnits: 2 },
+  BOB: { name: 'Bolivian Boliviano', minorUnits: 2 },
+  BOV: { name: 'Bolivian Mvdol', minorUnits: 2 },
+  BRL: { name: 'Brazilian Real', minorUnits: 2 },
+  BSD: { name: 'Bahamian Dollar', minorUnits: 2 },
+  BTN: { name: 'Bhutanese Ngultrum', minorUnits: 2 },
+  BWP: { name: 'Botswanan Pula', minorUnits: 2 },
+  BYN: { name: 'Belarusian Ruble', minorUnits: 2 },
+  BZD: { name: 'Belize Dollar', minorUnits: 2 },
+  CAD: { name: 'Canadian Dollar', minorUnits: 2 },
+  CDF: { name: 'Congolese Franc', minorUnits: 2 },
+  CHE: { name: 'WIR Euro', minorUnits: 2 },
+  CHF: { name: 'Swiss Franc', minorUnits: 2 },
+  CHW: { name: 'WIR Franc', minorUnits: 2 },
+  CLF: { name: 'Chilean Unit of Account (UF)', minorUnits: 4 },
+  CLP: { name: 'Chilean Peso', minorUnits: 0 },
+  CNY: { name: 'Chinese Yuan', minorUnits: 2 },
+  COP: { name: 'Colombian Peso', minorUnits: 2 },
+  COU: { name: 'Colombian Real Value Unit', minorUnits: 2 },
+  CRC: { name: 'Costa Rican Colón', minorUnits: 2 },
+  CUP: { name: 'Cuban Peso', minorUnits: 2 },
+  CVE: { name: 'Cape Verdean Escudo', minorUnits: 2 },
+  CZK: { name: 'Czech Koruna', minorUnits: 2 },
+  DJF: { name: 'Djiboutian Franc', minorUnits: 0 },
+  DKK: { name: 'Danish Krone', minorUnits: 2 },
+  DOP: { name: 'Dominican Peso', minorUnits: 2 },
+  DZD: { name: 'Algerian Dinar', minorUnits: 2 },
+  EGP: { name: 'Egyptian Pound', minorUnits: 2 },
+  ERN: { name: 'Eritrean Nakfa', minorUnits: 2 },
+  ETB: { name: 'Ethiopian Birr', minorUnits: 2 },
+  EUR: { name: 'Euro', minorUnits: 2 },
+  FJD: { name: 'Fijian Dollar', minorUnits: 2 },
+  FKP: { name: 'Falkland Islands Pound', minorUnits: 2 },
+  GBP: { name: 'British Pound', minorUnits: 2 },
+  GEL: { name: 'Georgian Lari', minorUnits: 2 },
+  GHS: { name: 'Ghanaian Cedi', minorUnits: 2 },
+  GIP: { name: 'Gibraltar Pound', minorUnits: 2 },
+  GMD: { name: 'Gambian Dalasi', minorUnits: 2 },
+  GNF: { name: 'Guinean Franc', minorUnits: 0 },
+  GTQ: { name: 'Guatemalan Quetzal', minorUnits: 2 },
+  GYD: { name: 'Guyanaese Dollar', minorUnits: 2 },
+  HKD: { name: 'Hong Kong Dollar', minorUnits: 2 },
+  HNL: { name: 'Honduran Lempira', minorUnits: 2 },
+  HTG: { name: 'Haitian Gourde', minorUnits: 2 },
+  HUF: { name: 'Hungarian Forint', minorUnits: 2 },
+  IDR: { name: 'Indonesian Rupiah', minorUnits: 2 },
+  ILS: { name: 'Israeli New Shekel', minorUnits: 2 },
+  INR: { name: 'Indian Rupee', minorUnits: 2 },
+  IQD: { name: 'Iraqi Dinar', minorUnits: 3 },
+  IRR: { name: 'Iranian Rial', minorUnits: 2 },
+  ISK: { name: 'Icelandic Króna', minorUnits: 0 },
+  JMD: { name: 'Jamaican Dollar', minorUnits: 2 },
+  JOD: { name: 'Jordanian Dinar', minorUnits: 3 },
+  JPY: { name: 'Japanese Yen', minorUnits: 0 },
+  KES: { name: 'Kenyan Shilling', minorUnits: 2 },
+  KGS: { name: 'Kyrgystani Som', minorUnits: 2 },
+  KHR: { name: 'Cambodian Riel', minorUnits: 2 },
+  KMF: { name: 'Comorian Franc', minorUnits: 0 },
+  KPW: { name: 'North Korean Won', minorUnits: 2 },
+  KRW: { name: 'South Korean Won', minorUnits: 0 },
+  KWD: { name: 'Kuwaiti Dinar', minorUnits: 3 },
+  KYD: { name: 'Cayman Islands Dollar', minorUnits: 2 },
+  KZT: { name: 'Kazakhstani Tenge', minorUnits: 2 },
+  LAK: { name: 'Laotian Kip', minorUnits: 2 },
+  LBP: { name: 'Lebanese Pound', minorUnits: 2 },
+  LKR: { name: 'Sri Lankan Rupee', minorUnits: 2 },
+  LRD: { name: 'Liberian Dollar', minorUnits: 2 },
+  LSL: { name: 'Lesotho Loti', minorUnits: 2 },
+  LYD: { name: 'Libyan Dinar', minorUnits: 3 },
+  MAD: { name: 'Moroccan Dirham', minorUnits: 2 },
+  MDL: { name: 'Moldovan Leu', minorUnits: 2 },
+  MGA: { name: 'Malagasy Ariary', minorUnits: 2 },
+  MKD: { name: 'Macedonian Denar', minorUnits: 2 },
+  MMK: { name: 'Myanmar Kyat', minorUnits: 2 },
+  MNT: { name: 'Mongolian Tugrik', minorUnits: 2 },
+  MOP: { name: 'Macanese Pataca', minorUnits: 2 },
+  MRU: { name: 'Mauritanian Ouguiya', minorUnits: 2 },
+  MUR: { name: 'Mauritian Rupee', minorUnits: 2 },
+  MVR: { name: 'Maldivian Rufiyaa', minorUnits: 2 },
+  MWK: { name: 'Malawian Kwacha', minorUnits: 2 },
+  MXN: { name: 'Mexican Peso', minorUnits: 2 },
+  MXV: { name: 'Mexican Investment Unit', minorUnits: 2 },
+  MYR: { name: 'Malaysian Ringgit', minorUnits: 2 },
+  MZN: { name: 'Mozambican Metical', minorUnits: 2 },
+  NAD: { name: 'Namibian Dollar', minorUnits: 2 },
+  NGN: { name: 'Nigerian Naira', minorUnits: 2 },
+  NIO: { name: 'Nicaraguan Córdoba', minorUnits: 2 },
+  NOK: { name: 'Norwegian Krone', minorUnits: 2 },
+  NPR: { name: 'Nepalese Rupee', minorUnits: 2 },
+  NZD: { name: 'New Zealand Dollar', minorUnits: 2 },
+  OMR: { name: 'Omani Rial', minorUnits: 3 },
+  PAB: { name: 'Panamanian Balboa', minorUnits: 2 },
+  PEN: { name: 'Peruvian Sol', minorUnits: 2 },
+  PGK: { name: 'Papua New Guinean Kina', minorUnits: 2 },
+  PHP: { name: 'Philippine Peso', minorUnits: 2 },
+  PKR: { name: 'Pakistani Rupee', minorUnits: 2 },
+  PLN: { name: 'Polish Zloty', minorUnits: 2 },
+  PYG: { name: 'Paraguayan Guarani', minorUnits: 0 },
+  QAR: { name: 'Qatari Riyal', minorUnits: 2 },
+  RON: { name: 'Romanian Leu', minorUnits: 2 },
+  RSD: { name: 'Serbian Dinar', minorUnits: 2 },
+  RUB: { name: 'Russian Ruble', minorUnits: 2 },
+  RWF: { name: 'Rwandan Franc', minorUnits: 0 },
+  SAR: { name: 'Saudi Riyal', minorUnits: 2 },
+  SBD: { name: 'Solomon Islands Dollar', minorUnits: 2 },
+  SCR: { name: 'Seychellois Rupee', minorUnits: 2 },
+  SDG: { name: 'Sudanese Pound', minorUnits: 2 },
+  SEK: { name: 'Swedish Krona', minorUnits: 2 },
+  SGD: { name: 'Singapore Dollar', minorUnits: 2 },
+  SHP: { name: 'St. Helena Pound', minorUnits: 2 },
+  SLE: { name: 'Sierra Leonean Leone', minorUnits: 2 },
+  SOS: { name: 'Somali Shilling', minorUnits: 2 },
+  SRD: { name: 'Surinamese Dollar', minorUnits: 2 },
+  SSP: { name: 'South Sudanese Pound', minorUnits: 2 },
+  STN: { name: 'São Tomé & Príncipe Dobra', minorUnits: 2 },
+  SVC: { name: 'Salvadoran Colón', minorUnits: 2 },
+  SYP: { name: 'Syrian Pound', minorUnits: 2 },
+  SZL: { name: 'Swazi Lilangeni', minorUnits: 2 },
+  THB: { name: 'Thai Baht', minorUnits: 2 },
+  TJS: { name: 'Tajikistani Somoni', minorUnits: 2 },
+  TMT: { name: 'Turkmenistani Manat', minorUnits: 2 },
+  TND: { name: 'Tunisian Dinar', minorUnits: 3 },
+  TOP: { name: 'Tongan Paʻanga', minorUnits: 2 },
+  TRY: { name: 'Turkish Lira', minorUnits: 2 },
+  TTD: { name: 'Trinidad & Tobago Dollar', minorUnits: 2 },
+  TWD: { name: 'New Taiwan Dollar', minorUnits: 2 },
+  TZS: { name: 'Tanzanian Shilling', minorUnits: 2 },
+  UAH: { name: 'Ukrainian Hryvnia', minorUnits: 2 },
+  UGX: { name: 'Ugandan Shilling', minorUnits: 0 },
+  USD: { name: 'US Dollar', minorUnits: 2 },
+  USN: { name: 'US Dollar (Next day)', minorUnits: 2 },
+  UYI: { name: 'Uruguayan Peso (Indexed Units)', minorUnits: 0 },
+  UYU: { name: 'Uruguayan Peso', minorUnits: 2 },
+  UYW: { name: 'Uruguayan Nominal Wage Index Unit', minorUnits: 4 },
+  UZS: { name: 'Uzbekistani Som', minorUnits: 2 },
+  VED: { name: 'Bolívar Soberano', minorUnits: 2 },
+  VES: { name: 'Venezuelan Bolívar', minorUnits: 2 },
+  VND: { name: 'Vietnamese Dong', minorUnits: 0 },
+  VUV: { name: 'Vanuatu Vatu', minorUnits: 0 },
+  WST: { name: 'Samoan Tala', minorUnits: 2 },
+  XAF: { name: 'Central African CFA Franc', minorUnits: 0 },
+  XCD: { name: 'East Caribbean Dollar', minorUnits: 2 },
+  XCG: { name: 'Caribbean Guilder', minorUnits: 2 },
+  XOF: { name: 'West African CFA Franc', minorUnits: 0 },
+  XPF: { name: 'CFP Franc', minorUnits: 0 },
+  YER: { name: 'Yemeni Rial', minorUnits: 2 },
+  ZAR: { name: 'South African Rand', minorUnits: 2 },
+  ZMW: { name: 'Zambian Kwacha', minorUnits: 2 },
+  ZWG: { name: 'Zimbabwean Gold', minorUnits: 2 },
+} as const satisfies Record<string, CurrencyInfo>;
+
+/**
+ * ISO 4217 currency code
+ */
+export type Currency = keyof typeof CURRENCIES;
+
+/**
+ * All supported currency codes
+ */
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as [Currency, ...Currency[]];
+
+/**
+ * Currency symbols found on receipts, longest first so "R$" wins over "$"
+ * Ambiguous symbols map to the most common currency and are detected with less confidence
+ */
+const CURRENCY_SYMBOLS: Array<{ symbol: string; currency: Currency; ambiguous?: boolean }> = [
+  { symbol: 'US$', currency: 'USD' },
+  { symbol: 'CA$', currency: 'CAD' },
+  { symbol: 'AU$', currency: 'AUD' },
+  { symbol: 'NZ$', currency: 'NZD' },
+  { symbol: 'HK$', currency: 'HKD' },
+  { symbol: 'MX$', currency: 'MXN' },
+  { symbol: 'NT$', currency: 'TWD' },
+  { symbol: 'RMB', currency: 'CNY' },
+  { symbol: 'R$', currency: 'BRL' },
+  { symbol: 'C$', currency: 'CAD' },
+  { symbol: 'A$', currency: 'AUD' },
+  { symbol: 'S$', currency: 'SGD' },
+  { symbol: 'zł', currency: 'PLN' },
+  { symbol: 'Kč', currency: 'CZK' },
+  { symbol: 'kr', currency: 'SEK', ambiguous: true },
+  { symbol: '€', currency: 'EUR' },
+  { symbol: '£', currency: 'GBP' },
+  { symbol: '円', currency: 'JPY' },
+  { symbol: '元', currency: 'CNY' },
+  { symbol: '¥', currency: 'JPY', ambiguous: true },
+  { symbol: '₹', currency: 'INR' },
+  { symbol: '₩', currency: 'KRW' },
+  { symbol: '₪', currency: 'ILS' },
+  { symbol: '₺', currency: 'TRY' },
+  { symbol: '₽', currency: 'RUB' },
+  { symbol: '₫', currency: 'VND' },
+  { symbol: '₱', currency: 'PHP' },
+  { symbol: '฿', currency: 'THB' },
+  { symbol: '₴', currency: 'UAH' },
+  { symbol: '₦', currency: 'NGN' },
+  { symbol: '₡', currency: 'CRC' },
+  { symbol: '₲', currency: 'PYG' },
+  { symbol: '₸', currency: 'KZT' },
+  { symbol: '₵', currency: 'GHS' },
+  { symbol: '$', currency: 'USD', ambiguous: true },
+];
+
+// A three-letter code directly before or after an amount, e.g. "EUR 12,50" or "1500 JPY"
+const CODE_NEAR_AMOUNT_PATTERN = /\b([A-Z]{3})\s?\d|\d\s?([A-Z]{3})\b/g;
+
+/**
+ * Helper function to check whether a string is a supported currency code
+ */
+export function isCurrency(code: string): code is Currency {
+  return Object.prototype.hasOwnProperty.call(CURRENCIES, code);
+}
+
+/**
+ * Helper function to get the number of decimals used by a currency
+ */
+export function getMinorUnits(currency: Currency): number {
+  return CURRENCIES[currency].minorUnits;
+}
+
+/**
+ * Helper function to round an amount to the currency's minor units
+ */
+export function roundToMinorUnits(amount: number, currency: Currency): number {
+  const factor = 10 ** getMinorUnits(currency);
+  return Math.round(amount * factor) / factor;
+}
+
+/**
+ * Helper function to format an amount as a plain decimal, e.g. for CSV
+ */
+export function formatDecimal(amount: number, currency: Currency): string {
+  return amount.toFixed(getMinorUnits(currency));
+}
+
+/**
+ * Helper function to format an amount with its currency symbol or code, e.g. for reports
+ */
+export function formatMoney(
+  amount: number,
+  currency: Currency,
+  currencyDisplay: 'symbol' | 'code' = 'symbol',
+  locale = 'en-US'
+): string {
+  const minorUnits = getMinorUnits(currency);
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    currencyDisplay,
+    minimumFractionDigits: minorUnits,
+    maximumFractionDigits: minorUnits,
+  }).format(amount);
+}
+
+/**
+ * Helper function to detect the currency of receipt text
+ * Codes next to an amount win over symbols; ambiguous symbols get lower confidence
+ */
+export function detectCurrency(text: string): { value: Currency; confidence: number } | null {
+  for (const match of text.toUpperCase().matchAll(CODE_NEAR_AMOUNT_PATTERN)) {
+    const code = match[1] || match[2];
+    if (isCurrency(code)) {
+      return { value: code, confidence: 0.8 };
+    }
+  }
+
+  const symbol = CURRENCY_SYMBOLS.find((candidate) => text.includes(candidate.symbol));
+  if (symbol) {
+    return { value: symbol.currency, confidence: symbol.ambiguous ? 0.4 : 0.6 };
+  }
+
+  return null;
+}
@@ -0,0 +1,124 @@
+/**
+ * Duplicate receipt data models - identical uploads and near-duplicate receipts
+ */
+
+import type { Receipt, UpdateReceiptDto } from './receipt.model';
+import { normalizeMerchantKey } from './parsingRule.model';
+import { editDistance } from './search.model';
+
+// Receipts dated this many days apart can still be the same purchase (time zones, posting dates)
+export const DUPLICATE_DATE_WINDOW_DAYS = 1;
+
+// Keep within the receipt tag limit
+const MAX_TAGS = 20;
+
+/**
+ * How a duplicate was found
+ * identical_file: the same file bytes were uploaded before
+ * similar: merchant, date and total match an earlier receipt
+ */
+export type DuplicateReason = 'identical_file' | 'similar';
+
+/**
+ * pending: waiting for the user; dismissed: not a duplicate; merged: folded into the original
+ */
+export type DuplicateStatus = 'pending' | 'dismissed' | 'merged';
+
+/**
+ * Duplicate flag stored on the newer receipt, linking to the original
+ */
+export interface DuplicateFlag {
+  originalId: string;
+  reason: DuplicateReason;
+  status: DuplicateStatus;
+  detectedAt: Date;
+}
+
+/**
+ * First upload of a file's content, keyed by its SHA-256 hash
+ */
+export interface FileHash {
+  userId: string;
+  hash: string;
+  receiptId: string;
+  filePath: string;
+  createdAt: Date;
+}
+
+/**
+ * Helper function to check whether two merchant names are the same merchant
+ * Allows for parse noise: a missing suffix ("Starbucks" vs "Starbucks Coffee") or a typo or two.
+ */
+export function isSimilarMerchant(a: string, b: string): boolean {
+  const left = normalizeMerchantKey(a);
+  const right = normalizeMerchantKey(b);
+  if (!left || !right) {
+    return false;
+  }
+  if (left === right) {
+    return true;
+  }
+
+  const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left];
+  if (shorter.length >= 4 && longer.startsWith(`${shorter} `)) {
+    return true;
+  }
+
+  const maxTypos = shorter.length < 8 ? 1 : 2;
+  return shorter.length >= 4 && editDistance(left, right, maxTypos) <= maxTypos;
+}
+
+/**
+ * Helper function to check whether a receipt looks like a copy of another
+ */
+export function isNearDuplicate(receipt: Receipt, other: Receipt): boolean {
+  const dayMs = 24 * 60 * 60 * 1000;
+  return (
+    receipt.id !== other.id &&
+    receipt.currency === other.currency &&
+    Math.abs(receipt.total - other.total) < 0.005 &&
+    Math.abs(receipt.date.getTime() - other.date.getTime()) <= DUPLICATE_DATE_WINDOW_DAYS * dayMs &&
+    isSimilarMerchant(receipt.merchant, other.merchant)
+  );
+}
+
+/**
+ * Helper function to pick the original a receipt duplicates, if any
+ * The earliest match wins; a match that is itself a duplicate links to its own original.
+ */
+export function findDuplicateOriginal(receipt: Receipt, candidates: Receipt[]): string | null {
+  const matches = candidates
+    .filter((candidate) => candidate.createdAt <= receipt.createdAt)
+    .filter((candidate) => isNearDuplicate(receipt, candidate))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  const [original] = matches;
+  return original.duplicate?.status === 'pending' ? original.duplicate.originalId : original.id;
+}
+
+/**
+ * Helper function to work out what merging a duplicate adds to the original
+ * The original keeps its values; only tags, tax and line items it lacks are taken over.
+ */
+export function getMergeUpdates(original: Receipt, duplicate: Receipt): UpdateReceiptDto {
+  const updates: UpdateReceiptDto = {};
+
+  const addedTags = duplicate.tags.filter((tag) => !original.tags.includes(tag));
+  if (addedTags.length > 0) {
+    updates.tags = [...original.tags, ...addedTags].slice(0, MAX_TAGS);
+  }
+
+  if (original.tax === undefined && duplicate.tax !== undefined) {
+    updates.tax = duplicate.tax;
+  }
+
+  if (original.lineItems.length === 0 && duplicate.lineItems.length > 0) {
+    updates.lineItems = duplicate.lineItems;
+  }
+
+  return updates;
+}
@@ -0,0 +1,106 @@
+/**
+ * Exchange rate data models - daily rate snapshots used to convert receipt amounts
+ */
+
+import { Currency, roundToMinorUnits } from './currency.model';
+
+/**
+ * Home currency used when a user hasn't chosen one
+ */
+export const DEFAULT_HOME_CURRENCY: Currency = 'USD';
+
+/**
+ * Exchange rates for one day, as units of each currency per one unit of the base currency
+ */
+export interface ExchangeRateSnapshot {
+  date: string; // YYYY-MM-DD, also the document ID
+  base: Currency;
+  rates: Partial<Record<Currency, number>>;
+  source: string | null; // Where the rates came from, e.g. 'ECB reference rates'
+  updatedAt: Date;
+}
+
+/**
+ * Amount to convert at the rate of a given day
+ */
+export interface MoneyAtDate {
+  amount: number;
+  currency: Currency;
+  date: Date;
+}
+
+/**
+ * Spending in one receipt currency alongside its value in the home currency
+ */
+export interface CurrencySubtotal {
+  currency: Currency;
+  amount: number; // In the receipt currency
+  count: number;
+  convertedAmount: number; // In the home currency, excluding unconverted receipts
+  unconvertedCount: number; // Receipts without a rate for their date
+}
+
+/**
+ * Helper function to get the snapshot key for a date
+ */
+export function toRateDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Helper function to get the rate from one currency to another through the snapshot base
+ * Returns null when the snapshot doesn't quote either currency
+ */
+export function getCrossRate(
+  snapshot: Pick<ExchangeRateSnapshot, 'base' | 'rates'>,
+  from: Currency,
+  to: Currency
+): number | null {
+  const fromRate = from === snapshot.base ? 1 : snapshot.rates[from];
+  const toRate = to === snapshot.base ? 1 : snapshot.rates[to];
+
+  if (!fromRate || !toRate) {
+    return null;
+  }
+
+  return toRate / fromRate;
+}
+
+/**
+ * Helper function to group amounts by currency with their converted values
+ * Converted values are null for amounts that had no rate
+ */
+export function summarizeByCurrency(
+  amounts: Array<{ amount: number; currency: Currency; convertedAmount: number | null }>,
+  homeCurrency: Currency
+): CurrencySubtotal[] {
+  const subtotals = new Map<Currency, CurrencySubtotal>();
+
+  amounts.forEach(({ amount, currency, convertedAmount }) => {
+    const subtotal = subtotals.get(currency) || {
+      currency,
+      amount: 0,
+      count: 0,
+      convertedAmount: 0,
+      unconvertedCount: 0,
+    };
+
+    subtotal.amount += amount;
+    subtotal.count++;
+    if (convertedAmount === null) {
+      subtotal.unconvertedCount++;
+    } else {
+      subtotal.convertedAmount += convertedAmount;
+    }
+
+    subtotals.set(currency, subtotal);
+  });
+
+  return Array.from(subtotals.values())
+    .map((subtotal) => ({
+      ...subtotal,
+      amount: roundToMinorUnits(subtotal.amount, subtotal.currency),
+      convertedAmount: roundToMinorUnits(subtotal.convertedAmount, homeCurrency),
+    }))
+    .sort((a, b) => b.convertedAmount - a.convertedAmount);
+}
@@ -0,0 +1,33 @@
+/**
+ * Zod validation schemas for exchange rates
+ */
+
+import { z } from 'zod';
+import { CURRENCY_CODES } from './currency.model';
+
+const currencySchema = z.enum(CURRENCY_CODES);
+
+/**
+ * Daily exchange rate snapshot validation schema
+ */
+export const exchangeRateSnapshotSchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+    .refine((value) => !isNaN(new Date(value).getTime()), { message: 'Invalid date' }),
+  base: currencySchema,
+  rates: z.partialRecord(currencySchema, z.number().positive('Rates must be positive')),
+  source: z.string().max(100).optional(),
+});
+
+/**
+ * Exchange rate import validation schema (also the seed file format)
+ */
+export const exchangeRateImportSchema = z.object({
+  snapshots: z.array(exchangeRateSnapshotSchema).min(1).max(5000),
+});
+
+/**
+ * Type inference from schema
+ */
+export type ExchangeRateImportInput = z.infer<typeof exchangeRateImportSchema>;
@@ -0,0 +1,79 @@
+/**
+ * Background job data models and types
+ */
+
+/**
+ * Job lifecycle status
+ */
+export enum JobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  DEAD = 'dead', // Exhausted all attempts and moved to the dead-letter collection
+}
+
+/**
+ * Background job document
+ */
+export interface Job<TPayload = Record<string, unknown>, TResult = unknown> {
+  id: string;
+  type: string;
+  payload: TPayload;
+  userId?: string | null; // Owner, used to authorize status polling
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date; // Earliest time the job may be picked up
+  lastError?: string | null;
+  result?: TResult | null;
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date | null;
+  leaseExpiresAt?: Date | null; // A RUNNING job whose lease has passed may be claimed again
+  completedAt?: Date | null;
+}
+
+/**
+ * Job that permanently failed, kept for inspection and replay
+ */
+export interface DeadLetterJob<TPayload = Record<string, unknown>> {
+  id: string; // Same ID as the original job
+  type: string;
+  payload: TPayload;
+  userId?: string | null;
+  attempts: number;
+  maxAttempts: number;
+  error: string;
+  createdAt: Date;
+  failedAt: Date;
+}
+
+/**
+ * Options for enqueueing a job
+ */
+export interface EnqueueJobOptions {
+  userId?: string;
+  maxAttempts?: number;
+  delayMs?: number;
+}
+
+/**
+ * Handler registered for a job type
+ */
+export interface JobHandler<TPayload = Record<string, unknown>, TResult = unknown> {
+  handle: (job: Job<TPayload, TResult>) => Promise<TResult>;
+  onDeadLetter?: (job: Job<TPayload, TResult>, error: Error) => Promise<void>;
+}
+
+/**
+ * Helper function to calculate the exponential backoff delay before the next attempt
+ * attempt is the number of attempts already made (1 after the first failure)
+ */
+export function calculateBackoffDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number
+): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(baseDelayMs * Math.pow(2, exponent), maxDelayMs);
+}
@@ -2,7 +2,20 @@
  * Parsed receipt data models with confidence scores
  */
 
-import { Currency, LineItem } from './receipt.model';
+import {
+  Currency,
+  LineItem,
+  UpdateReceiptDto,
+  FieldConfidence,
+  FieldReviewStatus,
+  ReceiptFieldConfidence,
+  ReviewReceiptDto,
+  ReviewableField,
+  ParsedValues,
+  ReceiptDiscrepancy,
+  findArithmeticDiscrepancies,
+  roundAmount,
+} from './receipt.model';
 
 /**
  * Confidence level for extracted fields
@@ -29,6 +42,14 @@ export interface ParsedLineItem extends LineItem {
   confidence?: number;
 }
 
+/**
+ * Value the parser guessed or coerced instead of reading it from the receipt
+ */
+export interface ParseWarning {
+  field: string; // e.g. 'currency' or 'lineItems[2].quantity'
+  message: string;
+}
+
 /**
  * Parsed receipt with confidence scores for each field
  */
@@ -43,6 +64,33 @@ export interface ParsedReceipt {
   overallConfidence: number; // Average confidence across all fields
   rawResponse?: string; // Raw AI response for debugging
   processingTime?: number; // Time taken to parse in ms
+  pageCount?: number; // Pages merged into this result for PDF documents
+  warnings?: ParseWarning[];
+  discrepancies?: ReceiptDiscrepancy[]; // Arithmetic inconsistencies found by reconciliation
+}
+
+/**
+ * Provider that produced a parse result
+ */
+export type ReceiptParserSource = 'openai' | 'google-vision' | 'local-ocr';
+
+/**
+ * Per-request context passed to receipt parsers
+ */
+export interface ReceiptParseOptions {
+  hints?: string[]; // Learned corrections for this user, used as few-shot hints
+  page?: { number: number; count: number }; // Position within a multi-page document
+}
+
+/**
+ * Receipt parsing provider
+ * Implementations are tried in the configured order by ReceiptParsingService
+ */
+export interface ReceiptParser {
+  readonly name: ReceiptParserSource;
+  isAvailable(): boolean;
+  parseReceipt(imageUrl: string, options?: ReceiptParseOptions): Promise<ParsedReceipt>;
+  parseText(text: string, options?: ReceiptParseOptions): Promise<ParsedReceipt>;
 }
 
 /**
@@ -52,6 +100,7 @@ export interface ParseReceiptRequest {
   imageUrl: string;
   userId: string;
   receiptId?: string; // Optional receipt ID if updating existing
+  filePath?: string; // Storage path; when set, a fresh signed URL is generated before parsing
 }
 
 /**
@@ -61,8 +110,8 @@ export interface ParseReceiptResponse {
   success: boolean;
   parsedData?: ParsedReceipt;
   error?: string;
-  fallbackUsed?: boolean; // Whether fallback service was used
-  source: 'openai' | 'google-vision' | 'failed';
+  fallbackUsed?: boolean; // Whether a provider other than the first configured one produced the result
+  source: ReceiptParserSource | 'failed';
 }
 
 /**
@@ -84,3 +133,249 @@ export function createConfidentField<T>(value: T, confidence: number): Confident
     confidenceLevel: getConfidenceLevel(confidence),
   };
 }
+
+/**
+ * Helper function to map parsed data onto receipt fields
+ * Confidence metadata is dropped; optional fields are only set when present
+ */
+export function toReceiptUpdate(parsed: ParsedReceipt): UpdateReceiptDto {
+  const update: UpdateReceiptDto = {
+    merchant: parsed.merchant.value,
+    date: parsed.date.value,
+    total: parsed.total.value,
+    currency: parsed.currency.value,
+    lineItems: parsed.lineItems.map(({ description, quantity, unitPrice, total, category }) => ({
+      description,
+      quantity,
+      unitPrice,
+      total,
+      ...(category !== undefined && { category }),
+    })),
+  };
+
+  if (parsed.tax) {
+    update.tax = parsed.tax.value;
+  }
+
+  if (parsed.category) {
+    update.category = parsed.category.value;
+  }
+
+  return update;
+}
+
+/**
+ * Helper function to snapshot the parsed values that user corrections are compared against
+ */
+export function toParsedValues(parsed: ParsedReceipt): ParsedValues {
+  return {
+    merchant: parsed.merchant.value,
+    category: parsed.category?.value ?? null,
+    currency: parsed.currency.value,
+  };
+}
+
+/**
+ * Helper function to build the persisted per-field confidence for a parsed receipt
+ * LOW confidence fields are flagged for review; line items use their lowest item confidence
+ */
+export function toFieldConfidence(parsed: ParsedReceipt): ReceiptFieldConfidence {
+  const fields: Partial<Record<ReviewableField, number>> = {
+    merchant: parsed.merchant.confidence,
+    date: parsed.date.confidence,
+    total: parsed.total.confidence,
+    currency: parsed.currency.confidence,
+  };
+
+  if (parsed.tax) {
+    fields.tax = parsed.tax.confidence;
+  }
+
+  if (parsed.category) {
+    fields.category = parsed.category.confidence;
+  }
+
+  const itemConfidences = parsed.lineItems
+    .map((item) => item.confidence)
+    .filter((confidence): confidence is number => confidence !== undefined);
+  if (itemConfidences.length > 0) {
+    fields.lineItems = Math.min(...itemConfidences);
+  }
+
+  return Object.fromEntries(
+    Object.entries(fields).map(([field, confidence]) => {
+      const confidenceLevel = getConfidenceLevel(confidence);
+      const entry: FieldConfidence = {
+        confidence,
+        confidenceLevel,
+        reviewStatus: confidenceLevel === ConfidenceLevel.LOW ? FieldReviewStatus.PENDING : null,
+        reviewedAt: null,
+      };
+      return [field, entry];
+    })
+  );
+}
+
+/**
+ * Helper function to apply review decisions to persisted field confidence
+ * Corrected fields are treated as fully confident; accepted fields without parse data are ignored
+ */
+export function applyFieldReview(
+  fieldConfidence: ReceiptFieldConfidence,
+  review: ReviewReceiptDto,
+  reviewedAt: Date = new Date()
+): ReceiptFieldConfidence {
+  const updated: ReceiptFieldConfidence = { ...fieldConfidence };
+
+  review.accept.forEach((field) => {
+    const current = updated[field];
+    if (current) {
+      updated[field] = { ...current, reviewStatus: FieldReviewStatus.ACCEPTED, reviewedAt };
+    }
+  });
+
+  (Object.keys(review.corrections) as ReviewableField[]).forEach((field) => {
+    updated[field] = {
+      confidence: 1,
+      confidenceLevel: ConfidenceLevel.HIGH,
+      reviewStatus: FieldReviewStatus.CORRECTED,
+      reviewedAt,
+    };
+  });
+
+  return updated;
+}
+
+/**
+ * Helper function to pick the most confident field, preferring earlier pages on ties
+ */
+function mostConfident<T>(fields: ConfidentField<T>[]): ConfidentField<T> | undefined {
+  return fields.reduce<ConfidentField<T> | undefined>(
+    (best, field) => (!best || field.confidence > best.confidence ? field : best),
+    undefined
+  );
+}
+
+/**
+ * Helper function to merge per-page parse results of a multi-page document
+ * Line items from every page are kept in page order. The total is the last page total
+ * that agrees with the line items (with or without tax), else the last page total,
+ * else the line item sum.
+ */
+export function mergeParsedPages(pages: ParsedReceipt[]): ParsedReceipt {
+  if (pages.length === 0) {
+    throw new Error('No pages to merge');
+  }
+
+  const lastPage = pages[pages.length - 1];
+  const lineItems = pages.flatMap((page) => page.lineItems);
+  const tax = [...pages].reverse().find((page) => page.tax)?.tax;
+  const category = mostConfident(pages.flatMap((page) => (page.category ? [page.category] : [])));
+
+  const itemsTotal = roundAmount(lineItems.reduce((sum, item) => sum + item.total, 0));
+  const expectedTotals = [itemsTotal, roundAmount(itemsTotal + (tax?.value || 0))];
+  const pageTotals = pages.map((page) => page.total).filter((total) => total.value > 0);
+  const consistentTotals = pageTotals.filter((total) =>
+    expectedTotals.some((expected) => Math.abs(expected - total.value) < 0.01)
+  );
+
+  let total: ConfidentField<number>;
+  if (consistentTotals.length > 0) {
+    total = consistentTotals[consistentTotals.length - 1];
+  } else if (pageTotals.length > 0) {
+    total = pageTotals[pageTotals.length - 1];
+  } else if (lineItems.length > 0) {
+    total = createConfidentField(expectedTotals[1], 0.5);
+  } else {
+    total = lastPage.total;
+  }
+
+  const merged: ParsedReceipt = {
+    merchant: mostConfident(pages.map((page) => page.merchant)) as ConfidentField<string>,
+    date: mostConfident(pages.map((page) => page.date)) as ConfidentField<Date>,
+    total,
+    currency: mostConfident(pages.map((page) => page.currency)) as ConfidentField<Currency>,
+    lineItems,
+    overallConfidence: 0,
+    rawResponse: pages.map((page) => page.rawResponse || '').join('\n\n'),
+    processingTime: pages.reduce((sum, page) => sum + (page.processingTime || 0), 0),
+    pageCount: pages.length,
+    warnings: pages.flatMap((page) => page.warnings || []),
+  };
+
+  if (tax) {
+    merged.tax = tax;
+  }
+
+  if (category) {
+    merged.category = category;
+  }
+
+  merged.overallConfidence = calculateOverallConfidence(merged);
+
+  return merged;
+}
+
+/**
+ * Helper function to average field confidence; line items count with their lowest confidence
+ */
+export function calculateOverallConfidence(parsed: ParsedReceipt): number {
+  const confidenceScores = [
+    parsed.merchant.confidence,
+    parsed.date.confidence,
+    parsed.total.confidence,
+    parsed.currency.confidence,
+  ];
+  if (parsed.tax) confidenceScores.push(parsed.tax.confidence);
+  if (parsed.category) confidenceScores.push(parsed.category.confidence);
+  const itemConfidences = parsed.lineItems
+    .map((item) => item.confidence)
+    .filter((confidence): confidence is number => confidence !== undefined);
+  if (itemConfidences.length > 0) confidenceScores.push(Math.min(...itemConfidences));
+
+  return confidenceScores.reduce((sum, val) => sum + val, 0) / confidenceScores.length;
+}
+
+// Confidence multiplier for fields involved in an arithmetic discrepancy
+const DISCREPANCY_CONFIDENCE_FACTOR = 0.5;
+
+/**
+ * Helper function to reconcile line items, tax and total of a parsed receipt
+ * Fields involved in a discrepancy have their confidence lowered, which can flag them for review
+ */
+export function reconcileParsedReceipt(parsed: ParsedReceipt): ParsedReceipt {
+  const discrepancies = findArithmeticDiscrepancies({
+    total: parsed.total.value,
+    tax: parsed.tax?.value,
+    currency: parsed.currency.value,
+    lineItems: parsed.lineItems,
+  });
+
+  if (discrepancies.length === 0) {
+    return { ...parsed, discrepancies };
+  }
+
+  const lower = <T>(field: ConfidentField<T>): ConfidentField<T> =>
+    createConfidentField(field.value, field.confidence * DISCREPANCY_CONFIDENCE_FACTOR);
+  const fields = new Set(discrepancies.map((discrepancy) => discrepancy.field));
+  const reconciled: ParsedReceipt = { ...parsed, discrepancies };
+
+  if (fields.has('tax') || fields.has('total')) {
+    reconciled.total = lower(parsed.total);
+  }
+
+  if (fields.has('tax') && parsed.tax) {
+    reconciled.tax = lower(parsed.tax);
+  }
+
+  reconciled.lineItems = parsed.lineItems.map((item, index) =>
+    item.confidence !== undefined &&
+    (fields.has('total') || fields.has(`lineItems[${index}].total`))
+      ? { ...item, confidence: item.confidence * DISCREPANCY_CONFIDENCE_FACTOR }
+      : item
+  );
+
+  reconciled.overallConfidence = calculateOverallConfidence(reconciled);
+
+  return reconciled;
+}
@@ -16,3 +16,60 @@ export const parseReceiptRequestSchema = z.object({
  * Type inference from schema
  */
 export type ParseReceiptRequestInput = z.infer<typeof parseReceiptRequestSchema>;
+
+const confidenceScoreSchema = z.number().min(0).max(1).nullish();
+
+const isoDateSchema = z.string().refine((value) => !isNaN(new Date(value).getTime()), {
+  message: 'Date must be in ISO 8601 format (YYYY-MM-DD)',
+});
+
+/**
+ * Line item as returned by the AI model
+ */
+const aiLineItemSchema = z.object({
+  description: z.string().nullish(),
+  quantity: z.number().positive().nullish(),
+  unitPrice: z.number().nonnegative().nullish(),
+  total: z.number({ message: 'Item total must be a number' }),
+  category: z.string().nullish(),
+});
+
+/**
+ * AI model output for one page of a multi-page document
+ * Merchant, date, total and currency may be null when they are not on the page
+ */
+export const aiReceiptPageOutputSchema = z.object({
+  merchant: z.string().nullish(),
+  date: isoDateSchema.nullish(),
+  total: z.number({ message: 'Total must be a number' }).nonnegative().nullish(),
+  tax: z.number({ message: 'Tax must be a number' }).nonnegative().nullish(),
+  currency: z.string().nullish(),
+  category: z.string().nullish(),
+  items: z.array(aiLineItemSchema).nullish(),
+  confidence: z
+    .object({
+      merchant: confidenceScoreSchema,
+      date: confidenceScoreSchema,
+      total: confidenceScoreSchema,
+      tax: confidenceScoreSchema,
+      currency: confidenceScoreSchema,
+      category: confidenceScoreSchema,
+      items: confidenceScoreSchema,
+    })
+    .nullish(),
+});
+
+/**
+ * AI model output for a complete receipt
+ */
+export const aiReceiptOutputSchema = aiReceiptPageOutputSchema.extend({
+  merchant: z.string({ message: 'Merchant is required' }).min(1, 'Merchant is required'),
+  date: isoDateSchema,
+  total: z.number({ message: 'Total must be a number' }).nonnegative(),
+  currency: z.string({ message: 'Currency is required' }).min(1, 'Currency is required'),
+});
+
+/**
+ * Type inference from schema
+ */
+export type AIReceiptOutput = z.infer<typeof aiReceiptPageOutputSchema>;
@@ -0,0 +1,83 @@
+/**
+ * Parsing rule data models - corrections learned per user and merchant
+ */
+
+import { Currency, ParsedValues } from './receipt.model';
+
+/**
+ * Field values users can teach the parser for a merchant
+ */
+export interface LearnedValues {
+  merchant?: string; // Preferred merchant name
+  category?: string;
+  currency?: Currency;
+}
+
+/**
+ * Learned correction rule for one merchant as the parser reads it
+ */
+export interface ParsingRule {
+  id: string;
+  userId: string;
+  merchantKey: string; // Normalized parsed merchant name
+  parsedMerchant: string; // Merchant name as last parsed
+  merchant: string | null; // Preferred merchant name
+  category: string | null;
+  currency: Currency | null;
+  corrections: number; // Number of receipts corrected for this merchant
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Helper function to normalize a merchant name for matching
+ */
+export function normalizeMerchantKey(merchant: string): string {
+  return merchant
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Helper function to diff parsed values against the values a user submitted
+ * Only fields present in the update and learnable per merchant are compared
+ */
+export function diffParsedValues(parsed: ParsedValues, updates: LearnedValues): LearnedValues {
+  const diff: LearnedValues = {};
+
+  if (updates.merchant !== undefined && updates.merchant.trim() !== parsed.merchant.trim()) {
+    diff.merchant = updates.merchant.trim();
+  }
+
+  if (updates.category !== undefined && updates.category !== parsed.category) {
+    diff.category = updates.category;
+  }
+
+  if (updates.currency !== undefined && updates.currency !== parsed.currency) {
+    diff.currency = updates.currency;
+  }
+
+  return diff;
+}
+
+/**
+ * Helper function to describe a rule as a few-shot hint for the parsing prompt
+ */
+export function toPromptHint(rule: ParsingRule): string {
+  const parts: string[] = [];
+
+  if (rule.merchant) {
+    parts.push(`are from merchant "${rule.merchant}"`);
+  }
+
+  if (rule.category) {
+    parts.push(`use category "${rule.category}"`);
+  }
+
+  if (rule.currency) {
+    parts.push(`use currency ${rule.currency}`);
+  }
+
+  return `Receipts where the merchant reads "${rule.parsedMerchant}" ${parts.join(', ')}.`;
+}
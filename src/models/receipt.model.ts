@@ -2,6 +2,11 @@
  * Receipt data models and types
  */
 
+import type { ConfidenceLevel } from './parsedReceipt.model';
+import { Currency, getMinorUnits, roundToMinorUnits } from './currency.model';
+import type { CurrencySubtotal } from './exchangeRate.model';
+import type { DuplicateFlag } from './duplicate.model';
+
 /**
  * Receipt processing status
  */
@@ -12,6 +17,24 @@ export enum ReceiptStatus {
   FAILED = 'failed',
 }
 
+/**
+ * Allowed receipt status transitions
+ * FAILED and COMPLETED receipts may go back to PROCESSING when re-parsed
+ */
+export const RECEIPT_STATUS_TRANSITIONS: Record<ReceiptStatus, ReceiptStatus[]> = {
+  [ReceiptStatus.PENDING]: [ReceiptStatus.PROCESSING, ReceiptStatus.FAILED],
+  [ReceiptStatus.PROCESSING]: [ReceiptStatus.COMPLETED, ReceiptStatus.FAILED],
+  [ReceiptStatus.COMPLETED]: [ReceiptStatus.PROCESSING],
+  [ReceiptStatus.FAILED]: [ReceiptStatus.PROCESSING],
+};
+
+/**
+ * Helper function to check whether a status transition is allowed
+ */
+export function isValidStatusTransition(from: ReceiptStatus, to: ReceiptStatus): boolean {
+  return RECEIPT_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
 /**
  * Predefined receipt categories
  */
@@ -24,10 +47,7 @@ export enum ReceiptCategory {
   OTHER = 'Other',
 }
 
-/**
- * ISO 4217 currency codes
- */
-export type Currency = 'USD' | 'EUR' | 'BRL' | 'GBP' | 'JPY' | 'CAD' | 'AUD' | 'CHF' | 'CNY';
+export type { Currency } from './currency.model';
 
 /**
  * Line item within a receipt
@@ -40,6 +60,190 @@ export interface LineItem {
   category?: string;
 }
 
+/**
+ * What an attachment shows
+ */
+export enum AttachmentRole {
+  FRONT = 'front',
+  BACK = 'back',
+  CARD_SLIP = 'card_slip', // Card terminal slip
+  ITEMIZED = 'itemized', // Itemized bill
+  SUPPORTING = 'supporting', // Invoice, approval or other supporting document
+}
+
+// Attachments one receipt may hold
+export const MAX_ATTACHMENTS = 10;
+
+/**
+ * File attached to a receipt, stored under the receipt's storage folder
+ */
+export interface ReceiptAttachment {
+  id: string;
+  path: string; // Storage path
+  mimeType: string;
+  size: number | null; // Bytes; null for images stored before attachments existed
+  role: AttachmentRole;
+  url?: string; // Signed URL, set in API responses
+}
+
+/**
+ * Helper function to describe an image stored before attachments existed as an attachment
+ */
+export function attachmentsFromImageUrl(imageUrl?: string | null): ReceiptAttachment[] {
+  if (!imageUrl) {
+    return [];
+  }
+
+  const extension = imageUrl.split('?')[0].split('.').pop()?.toLowerCase();
+  const mimeTypes: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    pdf: 'application/pdf',
+  };
+
+  return [
+    {
+      id: 'primary',
+      path: imageUrl,
+      mimeType: (extension && mimeTypes[extension]) || 'application/octet-stream',
+      size: null,
+      role: AttachmentRole.FRONT,
+    },
+  ];
+}
+
+/**
+ * Receipt fields that carry parse confidence and can be reviewed
+ */
+export type ReviewableField =
+  | 'merchant'
+  | 'date'
+  | 'total'
+  | 'tax'
+  | 'currency'
+  | 'category'
+  | 'lineItems';
+
+/**
+ * Human review state of a parsed field
+ */
+export enum FieldReviewStatus {
+  PENDING = 'pending', // Low confidence, waiting for a reviewer
+  ACCEPTED = 'accepted', // Reviewer confirmed the parsed value
+  CORRECTED = 'corrected', // Reviewer replaced the parsed value
+}
+
+/**
+ * Parse confidence persisted per receipt field
+ */
+export interface FieldConfidence {
+  confidence: number; // 0-1
+  confidenceLevel: ConfidenceLevel;
+  reviewStatus: FieldReviewStatus | null; // null when the field never needed review
+  reviewedAt: Date | null;
+}
+
+export type ReceiptFieldConfidence = Partial<Record<ReviewableField, FieldConfidence>>;
+
+/**
+ * Values as originally parsed, kept so user corrections can be learned from
+ */
+export interface ParsedValues {
+  merchant: string;
+  category?: string | null;
+  currency: Currency;
+}
+
+/**
+ * Helper function to list fields still waiting for review
+ */
+export function getPendingReviewFields(
+  fieldConfidence?: ReceiptFieldConfidence | null
+): ReviewableField[] {
+  return (Object.keys(fieldConfidence || {}) as ReviewableField[]).filter(
+    (field) => fieldConfidence?.[field]?.reviewStatus === FieldReviewStatus.PENDING
+  );
+}
+
+/**
+ * Arithmetic inconsistency between line items, tax and total
+ */
+export interface ReceiptDiscrepancy {
+  field: string; // 'total', 'tax' or 'lineItems[<index>].total'
+  expected: number;
+  actual: number;
+  message: string;
+}
+
+/**
+ * Helper function to round an amount to cents, or to the currency's minor units when known
+ */
+export function roundAmount(amount: number, currency?: Currency): number {
+  return currency ? roundToMinorUnits(amount, currency) : Math.round(amount * 100) / 100;
+}
+
+/**
+ * Helper function to check line items, tax and total against each other
+ * Checks needing a value the receipt doesn't have are skipped, so partial updates can be checked.
+ * The total may include or exclude tax (tax-inclusive item prices are common outside the US).
+ */
+export function findArithmeticDiscrepancies(receipt: {
+  total?: number;
+  tax?: number;
+  currency?: Currency;
+  lineItems?: LineItem[];
+}): ReceiptDiscrepancy[] {
+  const discrepancies: ReceiptDiscrepancy[] = [];
+  const { total, tax, currency } = receipt;
+  const lineItems = receipt.lineItems || [];
+  // Rounding slack of one minor unit per rounded amount (0.01 for cents, 1 for JPY)
+  const amountTolerance = 10 ** -(currency ? getMinorUnits(currency) : 2);
+
+  if (total !== undefined && tax !== undefined && tax > total) {
+    discrepancies.push({
+      field: 'tax',
+      expected: total,
+      actual: tax,
+      message: `Tax ${tax} is higher than total ${total}`,
+    });
+  }
+
+  lineItems.forEach((item, index) => {
+    const expected = roundAmount(item.quantity * item.unitPrice, currency);
+    if (Math.abs(expected - item.total) > amountTolerance + Number.EPSILON) {
+      discrepancies.push({
+        field: `lineItems[${index}].total`,
+        expected,
+        actual: item.total,
+        message: `Line item total ${item.total} does not equal quantity ${item.quantity} × unit price ${item.unitPrice}`,
+      });
+    }
+  });
+
+  if (total !== undefined && lineItems.length > 0) {
+    const itemsTotal = roundAmount(
+      lineItems.reduce((sum, item) => sum + item.total, 0),
+      currency
+    );
+    const expected = roundAmount(itemsTotal + (tax || 0), currency);
+    const tolerance = amountTolerance * lineItems.length + Number.EPSILON;
+
+    if (Math.abs(expected - total) > tolerance && Math.abs(itemsTotal - total) > tolerance) {
+      discrepancies.push({
+        field: 'total',
+        expected,
+        actual: total,
+        message: `Total ${total} does not equal line items ${itemsTotal}${tax ? ` plus tax ${tax}` : ''}`,
+      });
+    }
+  }
+
+  return discrepancies;
+}
+
 /**
  * Complete receipt document
  */
@@ -54,8 +258,15 @@ export interface Receipt {
   category: ReceiptCategory | string; // Supports predefined + custom categories
   tags: string[];
   lineItems: LineItem[];
-  imageUrl?: string;
+  imageUrl?: string; // Path of the first attachment, kept for clients that predate attachments
+  attachments?: ReceiptAttachment[]; // In display order
+  notes?: string | null;
   status: ReceiptStatus;
+  failureReason?: string | null; // Set when parsing moves the receipt to FAILED
+  fieldConfidence?: ReceiptFieldConfidence | null; // Parse confidence, set when parsing completes
+  needsReview?: boolean; // True while any field is pending review
+  parsedValues?: ParsedValues | null; // Set when parsing completes
+  duplicate?: DuplicateFlag | null; // Set when the receipt looks like a copy of an earlier one
   createdAt: Date;
   updatedAt: Date;
   deletedAt?: Date | null; // Soft delete timestamp
@@ -74,6 +285,8 @@ export interface CreateReceiptDto {
   tags?: string[];
   lineItems?: LineItem[];
   imageUrl?: string;
+  attachments?: ReceiptAttachment[];
+  notes?: string;
   status?: ReceiptStatus;
 }
 
@@ -90,7 +303,20 @@ export interface UpdateReceiptDto {
   tags?: string[];
   lineItems?: LineItem[];
   imageUrl?: string;
+  attachments?: ReceiptAttachment[];
+  notes?: string | null;
   status?: ReceiptStatus;
+  fieldConfidence?: ReceiptFieldConfidence | null;
+  needsReview?: boolean;
+  parsedValues?: ParsedValues | null;
+}
+
+/**
+ * Review decisions for a receipt's parsed fields
+ */
+export interface ReviewReceiptDto {
+  accept: ReviewableField[]; // Keep the parsed values
+  corrections: Pick<UpdateReceiptDto, ReviewableField>; // Replace the parsed values
 }
 
 /**
@@ -104,7 +330,7 @@ export interface ReceiptQueryParams {
   merchant?: string;
   status?: ReceiptStatus;
   tags?: string[];
-  search?: string; // Search across merchant and tags
+  search?: string; // Full-text search across merchant, category, tags and line items
   limit?: number;
   startAfter?: string; // Cursor for pagination (document ID)
   sortBy?: 'date' | 'total' | 'merchant' | 'createdAt' | 'updatedAt';
@@ -123,11 +349,14 @@ export interface PaginatedReceipts {
 }
 
 /**
- * Receipt statistics for aggregation
+ * Receipt statistics for aggregation, with amounts converted to one currency
  */
 export interface ReceiptStats {
+  currency: Currency;
   totalAmount: number;
   count: number;
+  unconvertedCount: number; // Receipts left out of amounts for lack of an exchange rate
+  byCurrency: CurrencySubtotal[];
   byCategory?: Record<string, { amount: number; count: number }>;
   byPeriod?: Record<string, { amount: number; count: number }>;
 }
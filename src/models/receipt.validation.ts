@@ -3,12 +3,21 @@
  */
 
 import { z } from 'zod';
-import { ReceiptStatus, ReceiptCategory } from './receipt.model';
+import {
+  AttachmentRole,
+  MAX_ATTACHMENTS,
+  ReceiptStatus,
+  ReceiptCategory,
+  findArithmeticDiscrepancies,
+} from './receipt.model';
+import { CURRENCY_CODES } from './currency.model';
+import { parseSearchQuery } from './search.model';
+import { MAX_BULK_RECEIPTS } from './receiptBulk.model';
 
 /**
- * Currency validation schema
+ * Currency validation schema (any ISO 4217 code)
  */
-const currencySchema = z.enum(['USD', 'EUR', 'BRL', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'CNY']);
+const currencySchema = z.enum(CURRENCY_CODES);
 
 /**
  * Receipt status validation schema
@@ -44,6 +53,7 @@ export const createReceiptSchema = z.object({
   tags: z.array(z.string().min(1).max(50)).max(20).default([]),
   lineItems: z.array(lineItemSchema).max(100).default([]),
   imageUrl: z.string().url().optional(),
+  notes: z.string().max(2000).optional(),
   status: receiptStatusSchema.default(ReceiptStatus.PENDING),
 });
 
@@ -60,9 +70,145 @@ export const updateReceiptSchema = z.object({
   tags: z.array(z.string().min(1).max(50)).max(20).optional(),
   lineItems: z.array(lineItemSchema).max(100).optional(),
   imageUrl: z.string().url().optional(),
+  notes: z.string().max(2000).nullable().optional(), // null clears the notes
   status: receiptStatusSchema.optional(),
 });
 
+/**
+ * Report arithmetic discrepancies as validation issues
+ */
+const refineArithmetic = (
+  data: z.infer<typeof updateReceiptSchema>,
+  ctx: z.RefinementCtx
+): void => {
+  findArithmeticDiscrepancies(data).forEach((discrepancy) => {
+    ctx.addIssue({
+      code: 'custom',
+      path: discrepancy.field
+        .split(/[.[\]]/)
+        .filter(Boolean)
+        .map((part) => (/^\d+$/.test(part) ? Number(part) : part)),
+      message: discrepancy.message,
+    });
+  });
+};
+
+/**
+ * Strict create receipt validation schema
+ * Also requires line items, tax and total to add up
+ */
+export const strictCreateReceiptSchema = createReceiptSchema.superRefine(refineArithmetic);
+
+/**
+ * Strict update receipt validation schema
+ * Only the amounts present in the update are checked against each other
+ */
+export const strictUpdateReceiptSchema = updateReceiptSchema.superRefine(refineArithmetic);
+
+/**
+ * Strict mode query parameter validation schema
+ */
+export const strictModeQuerySchema = z.object({
+  strict: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+});
+
+/**
+ * Reviewable field validation schema
+ */
+const reviewableFieldSchema = z.enum([
+  'merchant',
+  'date',
+  'total',
+  'tax',
+  'currency',
+  'category',
+  'lineItems',
+]);
+
+/**
+ * Field review validation schema
+ * A field can be accepted or corrected, but not both
+ */
+export const reviewReceiptSchema = z
+  .object({
+    accept: z.array(reviewableFieldSchema).max(7).default([]),
+    corrections: updateReceiptSchema
+      .pick({
+        merchant: true,
+        date: true,
+        total: true,
+        tax: true,
+        currency: true,
+        category: true,
+        lineItems: true,
+      })
+      .strict()
+      .default({}),
+  })
+  .refine((data) => data.accept.length > 0 || Object.keys(data.corrections).length > 0, {
+    message: 'At least one field must be accepted or corrected',
+  })
+  .refine((data) => data.accept.every((field) => !(field in data.corrections)), {
+    message: 'A field cannot be both accepted and corrected',
+  });
+
+/**
+ * Review queue query parameters validation schema
+ */
+export const reviewQueueQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  startAfter: z.string().optional(),
+});
+
+/**
+ * Trash listing query validation schema
+ */
+export const trashQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  startAfter: z.string().optional(),
+});
+
+/**
+ * Attachment upload form fields validation schema
+ */
+export const addAttachmentSchema = z.object({
+  role: z.nativeEnum(AttachmentRole).optional(),
+});
+
+/**
+ * Attachment order validation schema
+ */
+export const reorderAttachmentsSchema = z.object({
+  attachmentIds: z.array(z.string().min(1)).min(1).max(MAX_ATTACHMENTS),
+});
+
+/**
+ * Duplicate listing query validation schema
+ */
+export const duplicateQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  startAfter: z.string().optional(),
+});
+
+/**
+ * Receipt history query validation schema
+ */
+export const receiptHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  startAfter: z.coerce.number().int().positive().optional(), // Version number from previous page
+});
+
+/**
+ * Receipt revert path parameters validation schema
+ */
+export const receiptRevertParamsSchema = z.object({
+  id: z.string().min(1),
+  version: z.coerce.number().int().positive(),
+});
+
 /**
  * Query parameters validation schema
  */
@@ -76,16 +222,56 @@ export const receiptQuerySchema = z.object({
     .string()
     .optional()
     .transform((val) => (val ? val.split(',').map((t) => t.trim()) : undefined)),
-  search: z.string().optional(),
+  search: z
+    .string()
+    .max(200)
+    .refine((query) => parseSearchQuery(query) !== null, {
+      message: 'Invalid amount filter; use e.g. total:>50 or total:10..50',
+    })
+    .optional(),
   limit: z.coerce.number().int().positive().max(100).default(20),
   startAfter: z.string().optional(),
   sortBy: z.enum(['date', 'total', 'merchant', 'createdAt', 'updatedAt']).default('date'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
 });
 
+/**
+ * Bulk tag list validation schema
+ */
+const bulkTagsSchema = z.array(z.string().min(1).max(50)).min(1).max(20);
+
+/**
+ * Bulk operation validation schema
+ */
+const bulkOperationSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('categorize'), category: receiptCategorySchema }),
+  z.object({ type: z.literal('tag'), tags: bulkTagsSchema }),
+  z.object({ type: z.literal('untag'), tags: bulkTagsSchema }),
+  z.object({ type: z.literal('status'), status: receiptStatusSchema }),
+  z.object({ type: z.literal('delete') }),
+]);
+
+/**
+ * Bulk receipt operation validation schema
+ * Receipts are selected by ID or by the filters of a receipt listing, not both
+ */
+export const bulkReceiptSchema = z
+  .object({
+    ids: z.array(z.string().min(1)).min(1).max(MAX_BULK_RECEIPTS).optional(),
+    filter: receiptQuerySchema
+      .omit({ limit: true, startAfter: true, sortBy: true, sortOrder: true })
+      .optional(),
+    operation: bulkOperationSchema,
+  })
+  .refine((data) => (data.ids === undefined) !== (data.filter === undefined), {
+    message: 'Provide either ids or filter',
+  });
+
 /**
  * Type inference from Zod schemas
  */
 export type CreateReceiptInput = z.infer<typeof createReceiptSchema>;
 export type UpdateReceiptInput = z.infer<typeof updateReceiptSchema>;
 export type ReceiptQueryInput = z.infer<typeof receiptQuerySchema>;
+export type ReviewReceiptInput = z.infer<typeof reviewReceiptSchema>;
+export type BulkReceiptInput = z.infer<typeof bulkReceiptSchema>;
@@ -0,0 +1,95 @@
+/**
+ * Receipt bulk operation data models - one change applied to many receipts at once
+ */
+
+import { Receipt, ReceiptQueryParams, ReceiptStatus, UpdateReceiptDto } from './receipt.model';
+
+// Receipts one request may change
+export const MAX_BULK_RECEIPTS = 1000;
+
+// Keep within the receipt tag limit
+const MAX_TAGS = 20;
+
+/**
+ * Change applied to every selected receipt; `delete` moves receipts to the trash
+ */
+export type BulkOperation =
+  | { type: 'categorize'; category: string }
+  | { type: 'tag'; tags: string[] }
+  | { type: 'untag'; tags: string[] }
+  | { type: 'status'; status: ReceiptStatus }
+  | { type: 'delete' };
+
+/**
+ * Receipts to change: explicit IDs or the filters of a receipt listing
+ */
+export type BulkReceiptFilter = Omit<
+  ReceiptQueryParams,
+  'userId' | 'limit' | 'startAfter' | 'sortBy' | 'sortOrder'
+>;
+
+export interface BulkReceiptRequest {
+  ids?: string[];
+  filter?: BulkReceiptFilter;
+  operation: BulkOperation;
+}
+
+/**
+ * Outcome for one receipt
+ */
+export interface BulkItemResult {
+  receiptId: string;
+  status: 'updated' | 'unchanged' | 'failed';
+  error?: string;
+}
+
+/**
+ * Outcome of a bulk operation; failures don't stop the other receipts
+ */
+export interface BulkOperationResult {
+  operation: BulkOperation['type'];
+  matched: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  results: BulkItemResult[];
+}
+
+/**
+ * Receipts written by a bulk operation, before and after the change
+ */
+export interface BulkWriteResult {
+  results: BulkItemResult[];
+  changed: Array<{ previous: Receipt; updated: Receipt }>;
+}
+
+/**
+ * Helper function to work out the field updates a bulk operation makes to a receipt
+ * Returns null when the receipt already matches. Throws when the result would be invalid.
+ */
+export function getBulkUpdates(
+  receipt: Receipt,
+  operation: Exclude<BulkOperation, { type: 'delete' }>
+): UpdateReceiptDto | null {
+  switch (operation.type) {
+    case 'categorize':
+      return receipt.category === operation.category ? null : { category: operation.category };
+    case 'status':
+      return receipt.status === operation.status ? null : { status: operation.status };
+    case 'tag': {
+      const added = operation.tags.filter((tag) => !receipt.tags.includes(tag));
+      if (added.length === 0) {
+        return null;
+      }
+      const tags = [...receipt.tags, ...new Set(added)];
+      if (tags.length > MAX_TAGS) {
+        throw new Error(`A receipt can have at most ${MAX_TAGS} tags`);
+      }
+      return { tags };
+    }
+    case 'untag': {
+      const tags = receipt.tags.filter((tag) => !operation.tags.includes(tag));
+      return tags.length === receipt.tags.length ? null : { tags };
+    }
+  }
+}
@@ -0,0 +1,360 @@
+/**
+ * Receipt rule data models - deterministic per-user categorization and tagging rules
+ */
+
+import { Receipt } from './receipt.model';
+
+// Keep within the receipt tag limit
+const MAX_TAGS = 20;
+
+// `matches` patterns only look at this much of a field and may repeat at most this many
+// times, bounding the work per receipt
+export const MAX_PATTERN_INPUT_LENGTH = 256;
+export const MAX_PATTERN_REPEATS = 3;
+
+export const RULE_TEXT_FIELDS = ['merchant', 'category', 'currency'] as const;
+export const RULE_NUMBER_FIELDS = ['total', 'tax'] as const;
+
+export type RuleTextField = (typeof RULE_TEXT_FIELDS)[number];
+export type RuleNumberField = (typeof RULE_NUMBER_FIELDS)[number];
+
+/**
+ * One test against a receipt field
+ * Text fields compare case-insensitively; `matches` takes a regular expression source.
+ * For tags, `equals` and `contains` both check that the receipt has the tag.
+ */
+export type RuleCondition =
+  | { field: RuleTextField; operator: 'equals' | 'contains' | 'matches'; value: string }
+  | { field: RuleNumberField; operator: 'equals' | 'gt' | 'gte' | 'lt' | 'lte'; value: number }
+  | { field: 'tags'; operator: 'equals' | 'contains'; value: string };
+
+/**
+ * What a matching rule does to the receipt
+ */
+export interface RuleActions {
+  category?: string;
+  addTags?: string[];
+}
+
+/**
+ * User-defined rule; every condition must match
+ */
+export interface ReceiptRule {
+  id: string;
+  userId: string;
+  name: string;
+  priority: number; // Lower runs first
+  enabled: boolean;
+  conditions: RuleCondition[];
+  actions: RuleActions;
+  stopProcessing: boolean; // Skip lower-priority rules after this one matches
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Create rule DTO
+ */
+export interface CreateReceiptRuleDto {
+  name: string;
+  priority?: number;
+  enabled?: boolean;
+  conditions: RuleCondition[];
+  actions: RuleActions;
+  stopProcessing?: boolean;
+}
+
+/**
+ * Update rule DTO
+ */
+export type UpdateReceiptRuleDto = Partial<CreateReceiptRuleDto>;
+
+/**
+ * When rules were applied
+ */
+export type RuleTrigger = 'create' | 'parse' | 'manual';
+
+/**
+ * What one rule changed on a receipt
+ */
+export interface RuleChange {
+  ruleId: string;
+  ruleName: string;
+  category?: { from: string; to: string };
+  addedTags?: string[];
+}
+
+/**
+ * Receipt fields rules read and write
+ */
+export type RuleTarget = Pick<Receipt, 'merchant' | 'category' | 'currency' | 'total' | 'tags'> & {
+  tax?: number;
+};
+
+/**
+ * Result of running rules against a receipt
+ */
+export interface RuleEvaluation {
+  category: string;
+  tags: string[];
+  changes: RuleChange[];
+}
+
+/**
+ * Audit record of the rules that changed a receipt
+ */
+export interface RuleApplication {
+  id: string;
+  userId: string;
+  receiptId: string;
+  trigger: RuleTrigger;
+  changes: RuleChange[];
+  appliedAt: Date;
+}
+
+/**
+ * Options for applying rules to existing receipts
+ */
+export interface ApplyRulesOptions {
+  dryRun: boolean;
+  ruleIds?: string[];
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * Per-receipt preview or outcome of applying rules to existing receipts
+ */
+export interface ApplyRulesResult {
+  dryRun: boolean;
+  scanned: number;
+  changed: number;
+  receipts: Array<{ receiptId: string; merchant: string; changes: RuleChange[] }>;
+  truncated: boolean; // More receipts changed than are listed
+}
+
+/**
+ * Helper function to sort rules into evaluation order
+ */
+export function sortRules(rules: ReceiptRule[]): ReceiptRule[] {
+  return [...rules].sort(
+    (a, b) => a.priority - b.priority || a.createdAt.getTime() - b.createdAt.getTime()
+  );
+}
+
+/**
+ * Helper function to test one condition
+ */
+export function matchesCondition(target: RuleTarget, condition: RuleCondition): boolean {
+  switch (condition.field) {
+    case 'tags': {
+      const tag = condition.value.toLowerCase();
+      return target.tags.some((candidate) => candidate.toLowerCase() === tag);
+    }
+
+    case 'total':
+    case 'tax': {
+      const actual = target[condition.field];
+      if (actual === undefined || actual === null) {
+        return false;
+      }
+      return compareNumber(actual, condition.operator, condition.value);
+    }
+
+    default:
+      return compareText(
+        String(target[condition.field] ?? ''),
+        condition.operator,
+        condition.value
+      );
+  }
+}
+
+/**
+ * Helper function to apply a text operator, ignoring case
+ */
+function compareText(
+  actual: string,
+  operator: 'equals' | 'contains' | 'matches',
+  value: string
+): boolean {
+  switch (operator) {
+    case 'equals':
+      return actual.toLowerCase() === value.toLowerCase();
+    case 'contains':
+      return actual.toLowerCase().includes(value.toLowerCase());
+    case 'matches':
+      // Rules saved before patterns were checked may be unsafe; they never match
+      return (
+        isSafePattern(value) &&
+        new RegExp(value, 'i').test(actual.slice(0, MAX_PATTERN_INPUT_LENGTH))
+      );
+  }
+}
+
+/**
+ * Helper function to point a rule's category action and `category equals` conditions at a
+ * renamed or merged category
+ * Returns the rewritten conditions and actions, or null if the rule doesn't use the name.
+ * `contains` and `matches` conditions are left alone since they may match other names too.
+ */
+export function reassignRuleCategory(
+  rule: Pick<ReceiptRule, 'conditions' | 'actions'>,
+  from: string,
+  to: string
+): Pick<ReceiptRule, 'conditions' | 'actions'> | null {
+  let changed = false;
+
+  const conditions = rule.conditions.map((condition): RuleCondition => {
+    if (
+      condition.field === 'category' &&
+      condition.operator === 'equals' &&
+      condition.value.toLowerCase() === from.toLowerCase()
+    ) {
+      changed = true;
+      return { ...condition, value: to };
+    }
+    return condition;
+  });
+
+  const actions = { ...rule.actions };
+  if (actions.category === from) {
+    changed = true;
+    actions.category = to;
+  }
+
+  return changed ? { conditions, actions } : null;
+}
+
+/**
+ * Helper function to check that a `matches` pattern can't backtrack catastrophically
+ * Patterns run on the event loop for every receipt, so a pattern like `(a+)+$` would stall the
+ * process. Rejects backreferences, lookarounds, repeated groups that contain a quantifier or an
+ * alternation, and more than MAX_PATTERN_REPEATS repeats (`*`, `+`, `{n}`, `{n,m}`).
+ */
+export function isSafePattern(pattern: string): boolean {
+  // One entry per open group: whether it contains a quantifier or an alternation
+  const groups: { quantified: boolean; alternation: boolean }[] = [
+    { quantified: false, alternation: false },
+  ];
+  const isRepeat = (index: number): boolean => {
+    const char = pattern[index];
+    return (
+      char === '*' || char === '+' || (char === '{' && /^\{\d+(,\d*)?\}/.test(pattern.slice(index)))
+    );
+  };
+  let repeats = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      const next = pattern[i + 1];
+      if (next === 'k' || (next >= '1' && next <= '9')) {
+        return false; // Backreference
+      }
+      i++;
+    } else if (char === '[') {
+      // Skip the character class; quantifiers and groups inside it are literals
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') {
+          i++;
+        }
+      }
+    } else if (char === '(') {
+      if (/^\(\?<?[=!]/.test(pattern.slice(i))) {
+        return false; // Lookahead or lookbehind
+      }
+      groups.push({ quantified: false, alternation: false });
+    } else if (char === ')') {
+      const group = groups.pop();
+      if (!group || groups.length === 0) {
+        return false;
+      }
+      if (isRepeat(i + 1) && (group.quantified || group.alternation)) {
+        return false; // Nested quantifier, e.g. (a+)+ or (a|ab)*
+      }
+      const parent = groups[groups.length - 1];
+      parent.quantified ||= group.quantified;
+      parent.alternation ||= group.alternation;
+    } else if (char === '|') {
+      groups[groups.length - 1].alternation = true;
+    }
+
+    // The atom that just ended is repeated
+    if (isRepeat(i + 1)) {
+      repeats++;
+      groups[groups.length - 1].quantified = true;
+    }
+  }
+
+  return groups.length === 1 && repeats <= MAX_PATTERN_REPEATS;
+}
+
+/**
+ * Helper function to apply a numeric operator
+ */
+function compareNumber(
+  actual: number,
+  operator: 'equals' | 'gt' | 'gte' | 'lt' | 'lte',
+  value: number
+): boolean {
+  switch (operator) {
+    case 'equals':
+      return actual === value;
+    case 'gt':
+      return actual > value;
+    case 'gte':
+      return actual >= value;
+    case 'lt':
+      return actual < value;
+    case 'lte':
+      return actual <= value;
+  }
+}
+
+/**
+ * Helper function to run rules against a receipt in priority order
+ * Later rules see earlier rules' changes. The first matching rule that sets a category wins;
+ * tags accumulate up to the receipt tag limit.
+ */
+export function evaluateRules(target: RuleTarget, rules: ReceiptRule[]): RuleEvaluation {
+  const current: RuleTarget = { ...target, tags: [...target.tags] };
+  const changes: RuleChange[] = [];
+  let categorySet = false;
+
+  for (const rule of sortRules(rules)) {
+    if (!rule.enabled || !rule.conditions.every((c) => matchesCondition(current, c))) {
+      continue;
+    }
+
+    const change: RuleChange = { ruleId: rule.id, ruleName: rule.name };
+
+    if (rule.actions.category && !categorySet) {
+      categorySet = true;
+      if (rule.actions.category !== current.category) {
+        change.category = { from: current.category, to: rule.actions.category };
+        current.category = rule.actions.category;
+      }
+    }
+
+    const existing = new Set(current.tags.map((tag) => tag.toLowerCase()));
+    const addedTags = (rule.actions.addTags || [])
+      .filter((tag) => !existing.has(tag.toLowerCase()))
+      .slice(0, Math.max(0, MAX_TAGS - current.tags.length));
+    if (addedTags.length > 0) {
+      change.addedTags = addedTags;
+      current.tags.push(...addedTags);
+    }
+
+    if (change.category || change.addedTags) {
+      changes.push(change);
+    }
+
+    if (rule.stopProcessing) {
+      break;
+    }
+  }
+
+  return { category: current.category, tags: current.tags, changes };
+}
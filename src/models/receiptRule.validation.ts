@@ -0,0 +1,123 @@
+/**
+ * Zod validation schemas for receipt rules
+ */
+
+import { z } from 'zod';
+import { RULE_NUMBER_FIELDS, RULE_TEXT_FIELDS, isSafePattern } from './receiptRule.model';
+
+// Patterns run on every receipt, so keep them short
+const MAX_PATTERN_LENGTH = 200;
+
+const isValidPattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const textConditionSchema = z
+  .object({
+    field: z.enum(RULE_TEXT_FIELDS),
+    operator: z.enum(['equals', 'contains', 'matches']),
+    value: z.string().min(1).max(MAX_PATTERN_LENGTH),
+  })
+  .refine((condition) => condition.operator !== 'matches' || isValidPattern(condition.value), {
+    message: 'Condition value must be a valid regular expression',
+    path: ['value'],
+  })
+  .refine((condition) => condition.operator !== 'matches' || isSafePattern(condition.value), {
+    message:
+      'Condition value must not use backreferences, lookarounds or repeated groups containing quantifiers or alternatives',
+    path: ['value'],
+  });
+
+const numberConditionSchema = z.object({
+  field: z.enum(RULE_NUMBER_FIELDS),
+  operator: z.enum(['equals', 'gt', 'gte', 'lt', 'lte']),
+  value: z.number(),
+});
+
+const tagConditionSchema = z.object({
+  field: z.literal('tags'),
+  operator: z.enum(['equals', 'contains']),
+  value: z.string().min(1).max(50),
+});
+
+const ruleConditionSchema = z.union([
+  textConditionSchema,
+  numberConditionSchema,
+  tagConditionSchema,
+]);
+
+const ruleActionsSchema = z
+  .object({
+    category: z.string().trim().min(1).max(100).optional(),
+    addTags: z
+      .array(z.string().min(1).max(50))
+      .max(20)
+      .transform((tags) => Array.from(new Set(tags)))
+      .optional(),
+  })
+  .refine((actions) => actions.category || (actions.addTags && actions.addTags.length > 0), {
+    message: 'A rule must set a category or add tags',
+  });
+
+/**
+ * Create rule validation schema
+ */
+export const createReceiptRuleSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  priority: z.number().int().min(0).max(10000).default(100),
+  enabled: z.boolean().default(true),
+  conditions: z.array(ruleConditionSchema).min(1).max(10),
+  actions: ruleActionsSchema,
+  stopProcessing: z.boolean().default(false),
+});
+
+/**
+ * Update rule validation schema
+ */
+export const updateReceiptRuleSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    priority: z.number().int().min(0).max(10000).optional(),
+    enabled: z.boolean().optional(),
+    conditions: z.array(ruleConditionSchema).min(1).max(10).optional(),
+    actions: ruleActionsSchema.optional(),
+    stopProcessing: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided for update',
+  });
+
+/**
+ * Apply rules to existing receipts validation schema
+ * Defaults to a dry run so a preview is never mistaken for a change
+ */
+export const applyReceiptRulesSchema = z
+  .object({
+    dryRun: z.boolean().default(true),
+    ruleIds: z.array(z.string().min(1)).min(1).max(100).optional(),
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().optional(),
+  })
+  .refine((data) => !data.startDate || !data.endDate || data.startDate <= data.endDate, {
+    message: 'startDate must be before endDate',
+  });
+
+/**
+ * Rule history query validation schema
+ */
+export const ruleHistoryQuerySchema = z.object({
+  receiptId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+/**
+ * Type inference from schemas
+ */
+export type CreateReceiptRuleInput = z.infer<typeof createReceiptRuleSchema>;
+export type UpdateReceiptRuleInput = z.infer<typeof updateReceiptRuleSchema>;
+export type ApplyReceiptRulesInput = z.infer<typeof applyReceiptRulesSchema>;
@@ -0,0 +1,132 @@
+/**
+ * Receipt version data models - edit history and point-in-time snapshots of receipts
+ */
+
+import type { Currency, LineItem, Receipt, ReceiptAttachment } from './receipt.model';
+
+/**
+ * Receipt fields tracked in the edit history
+ * Processing state (status, parse confidence) is left out; it isn't an edit.
+ */
+export const VERSIONED_FIELDS = [
+  'merchant',
+  'date',
+  'total',
+  'tax',
+  'currency',
+  'category',
+  'tags',
+  'lineItems',
+  'imageUrl',
+  'attachments',
+  'notes',
+] as const;
+
+export type VersionedField = (typeof VERSIONED_FIELDS)[number];
+
+/**
+ * State of the tracked fields; absent optional fields are stored as null
+ */
+export interface ReceiptSnapshot {
+  merchant: string;
+  date: Date;
+  total: number;
+  tax: number | null;
+  currency: Currency | null;
+  category: string;
+  tags: string[];
+  lineItems: LineItem[];
+  imageUrl: string | null;
+  attachments: ReceiptAttachment[] | null; // null in versions recorded before attachments existed
+  notes: string | null;
+}
+
+/**
+ * What made a change
+ */
+export type ReceiptVersionSource =
+  | 'create'
+  | 'user'
+  | 'review'
+  | 'parse'
+  | 'rule'
+  | 'category'
+  | 'bulk'
+  | 'merge'
+  | 'revert';
+
+/**
+ * Who and what made a change; changedBy is null for changes made by the system
+ */
+export interface ReceiptChangeContext {
+  source: ReceiptVersionSource;
+  changedBy: string | null;
+  revertedFrom?: number;
+}
+
+/**
+ * Old and new value of one field
+ */
+export interface ReceiptFieldChange {
+  field: VersionedField;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * One entry in a receipt's edit history
+ * Versions are numbered from 1 per receipt; the snapshot is the state after the change.
+ */
+export interface ReceiptVersion {
+  id: string;
+  receiptId: string;
+  userId: string; // Receipt owner
+  version: number;
+  source: ReceiptVersionSource;
+  changedBy: string | null;
+  changes: ReceiptFieldChange[];
+  snapshot: ReceiptSnapshot;
+  revertedFrom: number | null; // Version restored by a revert
+  createdAt: Date;
+}
+
+/**
+ * Helper function to take a snapshot of the tracked fields
+ */
+export function takeSnapshot(receipt: Partial<Receipt>): ReceiptSnapshot {
+  return {
+    merchant: receipt.merchant ?? '',
+    date: receipt.date ?? new Date(0),
+    total: receipt.total ?? 0,
+    tax: receipt.tax ?? null,
+    currency: receipt.currency ?? null,
+    category: receipt.category ?? '',
+    tags: receipt.tags ?? [],
+    lineItems: receipt.lineItems ?? [],
+    imageUrl: receipt.imageUrl ?? null,
+    attachments: receipt.attachments ?? [],
+    notes: receipt.notes ?? null,
+  };
+}
+
+/**
+ * Helper function to compare two field values, including dates and arrays
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Helper function to list the tracked fields that differ between two snapshots
+ */
+export function diffSnapshots(
+  before: ReceiptSnapshot,
+  after: ReceiptSnapshot
+): ReceiptFieldChange[] {
+  return VERSIONED_FIELDS.filter((field) => !sameValue(before[field], after[field])).map(
+    (field) => ({ field, from: before[field], to: after[field] })
+  );
+}
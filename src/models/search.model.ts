@@ -0,0 +1,311 @@
+/**
+ * Search data models - receipt search terms, query parsing and matching
+ */
+
+import type { Receipt, ReceiptQueryParams } from './receipt.model';
+
+// Single characters match almost everything, so they aren't indexed
+const MIN_TERM_LENGTH = 2;
+// Bounds the index writes for one receipt
+const MAX_TERMS_PER_RECEIPT = 200;
+// Bounds the postings read for one query word
+export const MAX_EXPANSIONS_PER_WORD = 50;
+// Bounds the receipts read for one page of search results
+export const MAX_SEARCH_CANDIDATES = 1000;
+
+/**
+ * Receipt fields covered by the search index
+ */
+export type SearchableReceipt = Pick<
+  Receipt,
+  'merchant' | 'category' | 'tags' | 'lineItems' | 'notes'
+>;
+
+/**
+ * Amount comparison from a `total:` query token
+ */
+export interface AmountFilter {
+  operator: 'eq' | 'gt' | 'gte' | 'lt' | 'lte';
+  value: number;
+}
+
+/**
+ * Search query split into words and amount filters
+ */
+export interface ParsedSearchQuery {
+  words: string[];
+  amountFilters: AmountFilter[];
+}
+
+/**
+ * Receipt IDs to add to and remove from one term's postings
+ */
+export interface TermChange {
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * Pending postings changes, keyed by term
+ */
+export type SearchIndexChanges = Map<string, TermChange>;
+
+/**
+ * Outcome of rebuilding a user's search index
+ */
+export interface SearchIndexRebuildResult {
+  receipts: number;
+  terms: number;
+}
+
+/**
+ * Helper function to split text into normalized search terms
+ * Lowercases, strips accents and splits on anything that isn't a letter or digit.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length >= MIN_TERM_LENGTH);
+}
+
+/**
+ * Helper function to list the distinct terms a receipt is indexed under
+ */
+export function extractSearchTerms(receipt: SearchableReceipt): string[] {
+  const texts = [
+    receipt.merchant || '',
+    receipt.category || '',
+    ...(receipt.tags || []),
+    ...(receipt.lineItems || []).map((item) => item.description || ''),
+    receipt.notes || '',
+  ];
+
+  const terms = new Set(texts.flatMap((text) => tokenize(text)));
+  return Array.from(terms).slice(0, MAX_TERMS_PER_RECEIPT);
+}
+
+/**
+ * Helper function to parse one `total:` filter value
+ * Accepts `>50`, `>=50`, `<50`, `<=50`, `=50`, `50` and ranges like `10..50`.
+ */
+function parseAmountFilter(value: string): AmountFilter[] | null {
+  const range = /^(\d+(?:\.\d+)?)\.\.(\d+(?:\.\d+)?)$/.exec(value);
+  if (range) {
+    return [
+      { operator: 'gte', value: Number(range[1]) },
+      { operator: 'lte', value: Number(range[2]) },
+    ];
+  }
+
+  const comparison = /^(>=|<=|>|<|=)?(\d+(?:\.\d+)?)$/.exec(value);
+  if (!comparison) {
+    return null;
+  }
+
+  const operators: Record<string, AmountFilter['operator']> = {
+    '>=': 'gte',
+    '<=': 'lte',
+    '>': 'gt',
+    '<': 'lt',
+    '=': 'eq',
+  };
+  return [{ operator: operators[comparison[1] || '='], value: Number(comparison[2]) }];
+}
+
+/**
+ * Helper function to parse a search query
+ * Returns null when a `total:` filter is malformed.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery | null {
+  const words = new Set<string>();
+  const amountFilters: AmountFilter[] = [];
+
+  for (const token of query.trim().split(/\s+/)) {
+    if (/^total:/i.test(token)) {
+      const filters = parseAmountFilter(token.slice('total:'.length));
+      if (!filters) {
+        return null;
+      }
+      amountFilters.push(...filters);
+      continue;
+    }
+
+    tokenize(token).forEach((word) => words.add(word));
+  }
+
+  return { words: Array.from(words), amountFilters };
+}
+
+/**
+ * Helper function to compute the edit distance between two terms
+ * Stops early and returns max + 1 once the distance is known to exceed max.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Helper function to get the typo tolerance for a query word
+ * Short words must match exactly or by prefix; longer words allow one or two typos.
+ */
+function maxTypos(word: string): number {
+  if (word.length < 4) {
+    return 0;
+  }
+  return word.length < 8 ? 1 : 2;
+}
+
+/**
+ * Helper function to find the indexed terms a query word matches
+ * Exact matches come first, then prefix matches, then fuzzy matches.
+ */
+export function expandWord(word: string, vocabulary: string[]): string[] {
+  const typos = maxTypos(word);
+  const exact: string[] = [];
+  const prefix: string[] = [];
+  const fuzzy: string[] = [];
+
+  for (const term of vocabulary) {
+    if (term === word) {
+      exact.push(term);
+    } else if (term.startsWith(word)) {
+      prefix.push(term);
+    } else if (typos > 0 && editDistance(word, term, typos) <= typos) {
+      fuzzy.push(term);
+    }
+  }
+
+  return [...exact, ...prefix, ...fuzzy];
+}
+
+/**
+ * Helper function to check a receipt total against amount filters
+ */
+export function matchesAmountFilters(total: number, filters: AmountFilter[]): boolean {
+  return filters.every((filter) => {
+    switch (filter.operator) {
+      case 'eq':
+        return total === filter.value;
+      case 'gt':
+        return total > filter.value;
+      case 'gte':
+        return total >= filter.value;
+      case 'lt':
+        return total < filter.value;
+      case 'lte':
+        return total <= filter.value;
+    }
+  });
+}
+
+/**
+ * Helper function to check a search candidate against the other list filters
+ */
+export function matchesReceiptQuery(receipt: Receipt, params: ReceiptQueryParams): boolean {
+  if (receipt.deletedAt) {
+    return false;
+  }
+  if (params.startDate && receipt.date < params.startDate) {
+    return false;
+  }
+  if (params.endDate && receipt.date > params.endDate) {
+    return false;
+  }
+  if (params.category && receipt.category !== params.category) {
+    return false;
+  }
+  if (params.merchant && receipt.merchant !== params.merchant) {
+    return false;
+  }
+  if (params.status && receipt.status !== params.status) {
+    return false;
+  }
+  if (params.tags && params.tags.length > 0) {
+    const tags = params.tags;
+    return receipt.tags.some((tag) => tags.includes(tag));
+  }
+  return true;
+}
+
+/**
+ * Helper function to sort search results the same way receipt lists are sorted
+ */
+export function sortReceipts(
+  receipts: Receipt[],
+  sortBy: NonNullable<ReceiptQueryParams['sortBy']>,
+  sortOrder: NonNullable<ReceiptQueryParams['sortOrder']>
+): Receipt[] {
+  const direction = sortOrder === 'asc' ? 1 : -1;
+
+  return [...receipts].sort((a, b) => {
+    const left = a[sortBy];
+    const right = b[sortBy];
+    let comparison: number;
+
+    if (typeof left === 'string' && typeof right === 'string') {
+      comparison = left.localeCompare(right);
+    } else {
+      comparison = Number(left) - Number(right);
+    }
+
+    return comparison * direction || a.id.localeCompare(b.id);
+  });
+}
+
+/**
+ * Helper function to record the postings changes for one receipt
+ */
+export function addTermChanges(
+  changes: SearchIndexChanges,
+  receiptId: string,
+  before: string[],
+  after: string[]
+): void {
+  const previous = new Set(before);
+  const next = new Set(after);
+
+  const entry = (term: string): TermChange => {
+    let change = changes.get(term);
+    if (!change) {
+      change = { added: [], removed: [] };
+      changes.set(term, change);
+    }
+    return change;
+  };
+
+  next.forEach((term) => {
+    if (!previous.has(term)) {
+      entry(term).added.push(receiptId);
+    }
+  });
+  previous.forEach((term) => {
+    if (!next.has(term)) {
+      entry(term).removed.push(receiptId);
+    }
+  });
+}
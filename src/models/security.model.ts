@@ -0,0 +1,143 @@
+/**
+ * Security models - rate limit counters, IP abuse tracking and admin IP rules shared across instances
+ */
+
+import { BlockList, isIP } from 'net';
+
+/**
+ * Failed attempts recorded for an IP address
+ * Times are epoch milliseconds
+ */
+export interface IPTracker {
+  failedAttempts: number;
+  firstFailureTime: number;
+  blockedUntil?: number;
+  expiresAt: number; // The tracker is removed after this time
+}
+
+export interface TrackedIP extends IPTracker {
+  ip: string;
+}
+
+/**
+ * Hit count for a rate limit key in its current window
+ */
+export interface RateLimitHits {
+  totalHits: number;
+  resetTime: Date;
+}
+
+/**
+ * Helper function to check whether an IP is blocked at a given time
+ */
+export function isIPTrackerBlocked(tracker: IPTracker, now: number = Date.now()): boolean {
+  return !!tracker.blockedUntil && now <= tracker.blockedUntil;
+}
+
+/**
+ * IP rules set by admins
+ * block: requests from the range are rejected
+ * allow: requests from the range skip the IP block check, including automatic blocks
+ */
+export const IP_RULE_TYPES = ['block', 'allow'] as const;
+export type IPRuleType = (typeof IP_RULE_TYPES)[number];
+
+// Blocks can't cover more than a /8 (IPv4) or /32 (IPv6); wider ones lock out most clients
+export const MIN_IP_BLOCK_PREFIX = { 4: 8, 6: 32 } as const;
+
+export interface IPRule {
+  id: string;
+  type: IPRuleType;
+  cidr: string; // Single IPs are stored as /32 or /128 ranges
+  reason: string | null;
+  createdBy: string; // Admin user ID
+  createdAt: Date;
+  expiresAt: Date | null; // null never expires
+}
+
+export interface CreateIPRuleDto {
+  cidr: string;
+  reason?: string;
+  expiresAt?: Date | null;
+}
+
+/**
+ * Helper function to strip the IPv6 prefix Node adds to IPv4 addresses on dual-stack sockets
+ */
+export function normalizeIP(ip: string): string {
+  const trimmed = ip.trim();
+  return trimmed.toLowerCase().startsWith('::ffff:') && isIP(trimmed.slice(7)) === 4
+    ? trimmed.slice(7)
+    : trimmed;
+}
+
+/**
+ * Helper function to normalize an IP address or CIDR range to `address/prefix`
+ * Returns null if the value isn't a valid address or range
+ */
+export function normalizeCIDR(value: string): string | null {
+  const [address, prefix, ...rest] = value.trim().split('/');
+  const normalized = normalizeIP(address);
+  const family = isIP(normalized);
+  if (!family || rest.length > 0) {
+    return null;
+  }
+
+  const maxPrefix = family === 4 ? 32 : 128;
+  if (prefix === undefined) {
+    return `${normalized.toLowerCase()}/${maxPrefix}`;
+  }
+  if (!/^\d{1,3}$/.test(prefix) || Number(prefix) > maxPrefix) {
+    return null;
+  }
+  return `${normalized.toLowerCase()}/${Number(prefix)}`;
+}
+
+/**
+ * Helper function to check whether a normalized CIDR range is too wide to block
+ */
+export function isCIDRTooWideToBlock(cidr: string): boolean {
+  const [network, prefix] = cidr.split('/');
+  const family = isIP(network);
+  return family === 4 || family === 6 ? Number(prefix) < MIN_IP_BLOCK_PREFIX[family] : false;
+}
+
+/**
+ * Helper function to check whether an IP address is inside a CIDR range
+ */
+export function isIPInCIDR(ip: string, cidr: string): boolean {
+  const address = normalizeIP(ip);
+  const family = isIP(address);
+  const [network, prefix] = cidr.split('/');
+  if (!family || family !== isIP(network)) {
+    return false;
+  }
+
+  const type = family === 4 ? 'ipv4' : 'ipv6';
+  const range = new BlockList();
+  range.addSubnet(network, Number(prefix), type);
+  return range.check(address, type);
+}
+
+/**
+ * Helper function to check whether an IP rule is in effect
+ */
+export function isIPRuleActive(rule: IPRule, now: Date = new Date()): boolean {
+  return !rule.expiresAt || rule.expiresAt > now;
+}
+
+/**
+ * Helper function to find the active rule of a type that covers an IP address
+ */
+export function findIPRule(
+  rules: IPRule[],
+  ip: string,
+  type: IPRuleType,
+  now: Date = new Date()
+): IPRule | null {
+  return (
+    rules.find(
+      (rule) => rule.type === type && isIPRuleActive(rule, now) && isIPInCIDR(ip, rule.cidr)
+    ) ?? null
+  );
+}
@@ -0,0 +1,28 @@
+/**
+ * Zod validation schemas for admin IP rules
+ */
+
+import { z } from 'zod';
+import { normalizeCIDR } from './security.model';
+
+// Rules can be set for up to a year; omit the expiry for a permanent rule
+export const MAX_IP_RULE_HOURS = 365 * 24;
+
+/**
+ * Create IP rule validation schema (blocks and allowlist entries)
+ */
+export const createIPRuleSchema = z.object({
+  cidr: z
+    .string()
+    .trim()
+    .refine((value) => normalizeCIDR(value) !== null, {
+      message: 'cidr must be an IP address or CIDR range',
+    }),
+  reason: z.string().trim().max(500).optional(),
+  expiresInHours: z.number().int().min(1).max(MAX_IP_RULE_HOURS).optional(),
+});
+
+/**
+ * Type inference from schemas
+ */
+export type CreateIPRuleInput = z.infer<typeof createIPRuleSchema>;
@@ -1,3 +1,5 @@
+import type { Currency } from './currency.model';
+
 export enum UserRole {
   USER = 'user',
   ADMIN = 'admin',
@@ -24,12 +26,14 @@ export interface UserProfile {
   userId: string;
   email: string;
   displayName?: string;
+  homeCurrency?: Currency; // Currency analytics and exports convert to, defaults to USD
   role: UserRole;
   subscriptionTier: SubscriptionTier;
   stripeCustomerId?: string;
   subscriptionId?: string;
   subscriptionStatus?: SubscriptionStatus;
   currentPeriodEnd?: Date;
+  lastSignInAt?: Date; // Most recent Firebase sign-in seen by the API
   receiptUsageThisMonth: number;
   usagePeriodStart: Date;
   createdAt: Date;
@@ -38,6 +42,7 @@ export interface UserProfile {
 
 export interface UpdateUserProfileDto {
   displayName?: string;
+  homeCurrency?: Currency;
   subscriptionTier?: SubscriptionTier;
 }
 
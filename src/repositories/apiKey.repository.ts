@@ -0,0 +1,289 @@
+/**
+ * API key repository layer - handles Firestore operations for API keys
+ */
+
+import { getFirestore } from '../config/firebase';
+import {
+  APIKey,
+  APIKeyRateLimit,
+  CreateAPIKeyDto,
+  UpdateAPIKeyDto,
+  normalizeAPIKeyRateLimit,
+} from '../models/apiKey.model';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { v4 as uuidv4 } from 'uuid';
+import type { DocumentData } from 'firebase-admin/firestore';
+
+export class ApiKeyRepository {
+  private apiKeysCollection = 'apiKeys';
+
+  private getDb() {
+    return getFirestore();
+  }
+
+  /**
+   * Helper method to convert Firestore timestamp to Date
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private convertFirestoreDate(date: any): Date {
+    return date?.toDate ? date.toDate() : new Date(date);
+  }
+
+  /**
+   * Create an API key from the hash of its plaintext key
+   */
+  public async createAPIKey(
+    userId: string,
+    data: CreateAPIKeyDto,
+    hashedKey: string,
+    keyPrefix: string
+  ): Promise<APIKey> {
+    try {
+      const apiKeyId = uuidv4();
+      const apiKey = this.buildAPIKey(userId, data, keyPrefix);
+
+      await this.getDb()
+        .collection(this.apiKeysCollection)
+        .doc(apiKeyId)
+        .set({ ...apiKey, hashedKey });
+
+      logger.info('API key created successfully', { apiKeyId, userId });
+
+      return { id: apiKeyId, ...apiKey };
+    } catch (error) {
+      logger.error('Error creating API key', { userId, error });
+      throw new AppError('Failed to create API key', 500);
+    }
+  }
+
+  /**
+   * Replace a key with a new one in a single write
+   * The old key keeps working until oldKeyExpiresAt, or stops at once when that is null.
+   */
+  public async rotateAPIKey(
+    oldKey: APIKey,
+    hashedKey: string,
+    keyPrefix: string,
+    oldKeyExpiresAt: Date | null
+  ): Promise<APIKey> {
+    try {
+      const db = this.getDb();
+      const now = new Date();
+      const apiKeyId = uuidv4();
+      const apiKey = this.buildAPIKey(
+        oldKey.userId,
+        { name: oldKey.name, scopes: oldKey.scopes, rateLimit: oldKey.rateLimit },
+        keyPrefix,
+        oldKey
+      );
+
+      const batch = db.batch();
+      batch.set(db.collection(this.apiKeysCollection).doc(apiKeyId), { ...apiKey, hashedKey });
+      batch.update(
+        db.collection(this.apiKeysCollection).doc(oldKey.id),
+        oldKeyExpiresAt
+          ? { rotatedTo: apiKeyId, expiresAt: oldKeyExpiresAt, updatedAt: now }
+          : { rotatedTo: apiKeyId, active: false, revokedAt: now, updatedAt: now }
+      );
+      await batch.commit();
+
+      logger.info('API key rotated successfully', {
+        apiKeyId: oldKey.id,
+        rotatedTo: apiKeyId,
+        userId: oldKey.userId,
+      });
+
+      return { id: apiKeyId, ...apiKey };
+    } catch (error) {
+      logger.error('Error rotating API key', { apiKeyId: oldKey.id, error });
+      throw new AppError('Failed to rotate API key', 500);
+    }
+  }
+
+  /**
+   * Get an API key by ID
+   */
+  public async getAPIKeyById(apiKeyId: string, userId: string): Promise<APIKey | null> {
+    try {
+      const apiKeyDoc = await this.getDb().collection(this.apiKeysCollection).doc(apiKeyId).get();
+      const data = apiKeyDoc.data();
+
+      if (!apiKeyDoc.exists || !data) {
+        return null;
+      }
+
+      // Verify ownership
+      if (data.userId !== userId) {
+        throw new AppError('Unauthorized access to API key', 403);
+      }
+
+      return this.mapDocumentToAPIKey(apiKeyDoc.id, data);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error fetching API key', { apiKeyId, userId, error });
+      throw new AppError('Failed to fetch API key', 500);
+    }
+  }
+
+  /**
+   * Get a user's API keys, newest first
+   */
+  public async getAPIKeysByUserId(userId: string): Promise<APIKey[]> {
+    try {
+      const snapshot = await this.getDb()
+        .collection(this.apiKeysCollection)
+        .where('userId', '==', userId)
+        .orderBy('createdAt', 'desc')
+        .get();
+
+      return snapshot.docs.map((doc) => this.mapDocumentToAPIKey(doc.id, doc.data()));
+    } catch (error) {
+      logger.error('Error fetching API keys', { userId, error });
+      throw new AppError('Failed to fetch API keys', 500);
+    }
+  }
+
+  /**
+   * Find the active key with the given hash
+   */
+  public async findActiveAPIKeyByHash(hashedKey: string): Promise<APIKey | null> {
+    try {
+      const snapshot = await this.getDb()
+        .collection(this.apiKeysCollection)
+        .where('hashedKey', '==', hashedKey)
+        .where('active', '==', true)
+        .limit(1)
+        .get();
+
+      return snapshot.empty
+        ? null
+        : this.mapDocumentToAPIKey(snapshot.docs[0].id, snapshot.docs[0].data());
+    } catch (error) {
+      logger.error('Error finding API key', { error });
+      throw new AppError('Failed to fetch API key', 500);
+    }
+  }
+
+  /**
+   * Update an API key's name, scopes or quota
+   */
+  public async updateAPIKey(
+    apiKeyId: string,
+    userId: string,
+    updates: UpdateAPIKeyDto
+  ): Promise<APIKey> {
+    try {
+      const apiKeyRef = this.getDb().collection(this.apiKeysCollection).doc(apiKeyId);
+      await apiKeyRef.update({ ...updates, updatedAt: new Date() });
+
+      const updated = await this.getAPIKeyById(apiKeyId, userId);
+      if (!updated) {
+        throw new AppError('API key not found', 404);
+      }
+      return updated;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error updating API key', { apiKeyId, userId, error });
+      throw new AppError('Failed to update API key', 500);
+    }
+  }
+
+  /**
+   * Revoke an API key; the record is kept so its use stays traceable
+   */
+  public async revokeAPIKey(apiKeyId: string): Promise<void> {
+    try {
+      const now = new Date();
+      await this.getDb()
+        .collection(this.apiKeysCollection)
+        .doc(apiKeyId)
+        .update({ active: false, revokedAt: now, updatedAt: now });
+    } catch (error) {
+      logger.error('Error revoking API key', { apiKeyId, error });
+      throw new AppError('Failed to revoke API key', 500);
+    }
+  }
+
+  /**
+   * Record that a key was used
+   */
+  public async touchAPIKey(apiKeyId: string): Promise<void> {
+    try {
+      await this.getDb()
+        .collection(this.apiKeysCollection)
+        .doc(apiKeyId)
+        .update({ lastUsedAt: new Date() });
+    } catch (error) {
+      logger.error('Error updating API key last used timestamp', { apiKeyId, error });
+      throw new AppError('Failed to update API key', 500);
+    }
+  }
+
+  /**
+   * Helper method to build a new API key, carrying over the settings of the key it replaces
+   */
+  private buildAPIKey(
+    userId: string,
+    data: CreateAPIKeyDto,
+    keyPrefix: string,
+    replaces?: APIKey
+  ): Omit<APIKey, 'id'> {
+    const now = new Date();
+    return {
+      userId,
+      name: data.name,
+      keyPrefix,
+      scopes: data.scopes,
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+      lastUsedAt: null,
+      expiresAt: replaces ? replaces.expiresAt : (data.expiresAt ?? null),
+      revokedAt: null,
+      rotatedTo: null,
+      ...(data.rateLimit && { rateLimit: data.rateLimit }),
+    };
+  }
+
+  /**
+   * Helper method to map Firestore document to APIKey interface
+   * The key hash stays in the database.
+   */
+  private mapDocumentToAPIKey(id: string, data: DocumentData): APIKey {
+    return {
+      id,
+      userId: data.userId,
+      name: data.name,
+      keyPrefix: data.keyPrefix ?? '',
+      scopes: data.scopes ?? [],
+      active: data.active === true,
+      createdAt: this.convertFirestoreDate(data.createdAt),
+      updatedAt: this.convertFirestoreDate(data.updatedAt ?? data.createdAt),
+      lastUsedAt: data.lastUsedAt ? this.convertFirestoreDate(data.lastUsedAt) : null,
+      expiresAt: data.expiresAt ? this.convertFirestoreDate(data.expiresAt) : null,
+      revokedAt: data.revokedAt ? this.convertFirestoreDate(data.revokedAt) : null,
+      rotatedTo: data.rotatedTo ?? null,
+      ...(data.rateLimit && { rateLimit: this.normalizeRateLimit(id, data.rateLimit) }),
+    };
+  }
+
+  /**
+   * Helper method to move a quota stored with an unsupported window onto a supported one
+   */
+  private normalizeRateLimit(id: string, rateLimit: APIKeyRateLimit): APIKeyRateLimit {
+    const normalized = normalizeAPIKeyRateLimit(rateLimit);
+    if (normalized !== rateLimit) {
+      logger.warn('API key quota has an unsupported window; using the nearest supported one', {
+        apiKeyId: id,
+        rateLimit,
+        normalized,
+      });
+    }
+    return normalized;
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * API key usage repository layer - handles Firestore operations for per-key request counters
+ */
+
+import { getFirestore } from '../config/firebase';
+import { APIKeyUsageBucket, APIKeyUsageGranularity } from '../models/apiKey.model';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { FieldValue } from 'firebase-admin/firestore';
+import type { DocumentData } from 'firebase-admin/firestore';
+
+// Firestore allows at most 500 writes per batch
+const MAX_BATCH_SIZE = 500;
+
+export class ApiKeyUsageRepository {
+  private usageCollection = 'apiKeyUsage';
+
+  private getDb() {
+    return getFirestore();
+  }
+
+  /**
+   * Helper method to convert Firestore timestamp to Date
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private convertFirestoreDate(date: any): Date {
+    return date?.toDate ? date.toDate() : new Date(date);
+  }
+
+  /**
+   * Add request counts to usage buckets, creating buckets as needed
+   */
+  public async incrementUsage(buckets: APIKeyUsageBucket[]): Promise<void> {
+    try {
+      const db = this.getDb();
+
+      for (let i = 0; i < buckets.length; i += MAX_BATCH_SIZE) {
+        const batch = db.batch();
+        for (const bucket of buckets.slice(i, i + MAX_BATCH_SIZE)) {
+          const bucketId = `${bucket.apiKeyId}:${bucket.granularity}:${bucket.periodStart.toISOString()}`;
+          batch.set(
+            db.collection(this.usageCollection).doc(bucketId),
+            {
+              apiKeyId: bucket.apiKeyId,
+              userId: bucket.userId,
+              granularity: bucket.granularity,
+              periodStart: bucket.periodStart,
+              requests: FieldValue.increment(bucket.requests),
+              rateLimited: FieldValue.increment(bucket.rateLimited),
+            },
+            { merge: true }
+          );
+        }
+        await batch.commit();
+      }
+    } catch (error) {
+      logger.error('Error recording API key usage', { buckets: buckets.length, error });
+      throw new AppError('Failed to record API key usage', 500);
+    }
+  }
+
+  /**
+   * Get a key's usage buckets since a time, oldest first
+   */
+  public async getUsage(
+    apiKeyId: string,
+    granularity: APIKeyUsageGranularity,
+    since: Date
+  ): Promise<APIKeyUsageBucket[]> {
+    try {
+      const snapshot = await this.getDb()
+        .collection(this.usageCollection)
+        .where('apiKeyId', '==', apiKeyId)
+        .where('granularity', '==', granularity)
+        .where('periodStart', '>=', since)
+        .orderBy('periodStart', 'asc')
+        .get();
+
+      return snapshot.docs.map((doc) => this.mapDocumentToUsageBucket(doc.data()));
+    } catch (error) {
+      logger.error('Error fetching API key usage', { apiKeyId, granularity, error });
+      throw new AppError('Failed to fetch API key usage', 500);
+    }
+  }
+
+  /**
+   * Helper method to map Firestore document to APIKeyUsageBucket interface
+   */
+  private mapDocumentToUsageBucket(data: DocumentData): APIKeyUsageBucket {
+    return {
+      apiKeyId: data.apiKeyId,
+      userId: data.userId,
+      granularity: data.granularity,
+      periodStart: this.convertFirestoreDate(data.periodStart),
+      requests: data.requests ?? 0,
+      rateLimited: data.rateLimited ?? 0,
+    };
+  }
+}
@@ -0,0 +1,321 @@
+/**
+ * Budget repository layer - handles Firestore operations for budgets and their alerts
+ */
+
+import { getFirestore } from '../config/firebase';
+import {
+  Budget,
+  BudgetAlert,
+  BudgetPeriod,
+  CreateBudgetDto,
+  UpdateBudgetDto,
+} from '../models/budget.model';
+import { Currency } from '../models/currency.model';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { v4 as uuidv4 } from 'uuid';
+import type { DocumentData } from 'firebase-admin/firestore';
+
+export class BudgetRepository {
+  private budgetsCollection = 'budgets';
+  private alertsCollection = 'budgetAlerts';
+
+  private getDb() {
+    return getFirestore();
+  }
+
+  /**
+   * Helper method to convert Firestore timestamp to Date
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private convertFirestoreDate(date: any): Date {
+    return date?.toDate ? date.toDate() : new Date(date);
+  }
+
+  /**
+   * Create a budget
+   */
+  public async createBudget(
+    userId: string,
+    data: CreateBudgetDto & { currency: Currency }
+  ): Promise<Budget> {
+    try {
+      const now = new Date();
+      const budgetId = uuidv4();
+
+      const budget: Omit<Budget, 'id'> = {
+        userId,
+        category: data.category,
+        period: data.period,
+        amount: data.amount,
+        currency: data.currency,
+        alertState: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.getDb().collection(this.budgetsCollection).doc(budgetId).set(budget);
+
+      logger.info('Budget created successfully', { budgetId, userId });
+
+      return { id: budgetId, ...budget };
+    } catch (error) {
+      logger.error('Error creating budget', { userId, error });
+      throw new AppError('Failed to create budget', 500);
+    }
+  }
+
+  /**
+   * Get a budget by ID
+   */
+  public async getBudgetById(budgetId: string, userId: string): Promise<Budget | null> {
+    try {
+      const budgetDoc = await this.getDb().collection(this.budgetsCollection).doc(budgetId).get();
+      const data = budgetDoc.data();
+
+      if (!budgetDoc.exists || !data) {
+        return null;
+      }
+
+      // Verify ownership
+      if (data.userId !== userId) {
+        throw new AppError('Unauthorized access to budget', 403);
+      }
+
+      return this.mapDocumentToBudget(budgetDoc.id, data);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error fetching budget', { budgetId, userId, error });
+      throw new AppError('Failed to fetch budget', 500);
+    }
+  }
+
+  /**
+   * Get a user's budgets
+   */
+  public async getBudgetsByUserId(userId: string): Promise<Budget[]> {
+    try {
+      const snapshot = await this.getDb()
+        .collection(this.budgetsCollection)
+        .where('userId', '==', userId)
+        .get();
+
+      return snapshot.docs.map((doc) => this.mapDocumentToBudget(doc.id, doc.data()));
+    } catch (error) {
+      logger.error('Error fetching budgets', { userId, error });
+      throw new AppError('Failed to fetch budgets', 500);
+    }
+  }
+
+  /**
+   * Find the user's budget for a category and period
+   */
+  public async findBudget(
+    userId: string,
+    category: string,
+    period: BudgetPeriod
+  ): Promise<Budget | null> {
+    try {
+      const snapshot = await this.getDb()
+        .collection(this.budgetsCollection)
+        .where('userId', '==', userId)
+        .where('category', '==', category)
+        .where('period', '==', period)
+        .limit(1)
+        .get();
+
+      return snapshot.empty
+        ? null
+        : this.mapDocumentToBudget(snapshot.docs[0].id, snapshot.docs[0].data());
+    } catch (error) {
+      logger.error('Error finding budget', { userId, category, period, error });
+      throw new AppError('Failed to fetch budgets', 500);
+    }
+  }
+
+  /**
+   * Update a budget; alert state is reset so thresholds are checked against the new limit
+   */
+  public async updateBudget(budgetId: string, updates: UpdateBudgetDto): Promise<Budget> {
+    try {
+      const budgetRef = this.getDb().collection(this.budgetsCollection).doc(budgetId);
+
+      await budgetRef.update({
+        ...updates,
+        alertState: null,
+        updatedAt: new Date(),
+      });
+
+      const updatedDoc = await budgetRef.get();
+      const data = updatedDoc.data();
+      if (!data) {
+        throw new AppError('Failed to retrieve updated budget', 500);
+      }
+
+      logger.info('Budget updated successfully', { budgetId });
+
+      return this.mapDocumentToBudget(updatedDoc.id, data);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error updating budget', { budgetId, error });
+      throw new AppError('Failed to update budget', 500);
+    }
+  }
+
+  /**
+   * Delete a budget
+   */
+  public async deleteBudget(budgetId: string): Promise<void> {
+    try {
+      await this.getDb().collection(this.budgetsCollection).doc(budgetId).delete();
+    } catch (error) {
+      logger.error('Error deleting budget', { budgetId, error });
+      throw new AppError('Failed to delete budget', 500);
+    }
+  }
+
+  /**
+   * Move a user's budgets from one category to another
+   * Where the target category already has a budget for the period, that budget is kept
+   * and the moved one is deleted. Returns the number of budgets moved or deleted.
+   */
+  public async reassignCategory(userId: string, from: string, to: string): Promise<number> {
+    try {
+      const db = this.getDb();
+      const snapshot = await db
+        .collection(this.budgetsCollection)
+        .where('userId', '==', userId)
+        .where('category', '==', from)
+        .get();
+
+      if (snapshot.empty) {
+        return 0;
+      }
+
+      const batch = db.batch();
+      const now = new Date();
+      for (const doc of snapshot.docs) {
+        const existing = await this.findBudget(userId, to, doc.data().period);
+        if (existing) {
+          batch.delete(doc.ref);
+        } else {
+          batch.update(doc.ref, { category: to, alertState: null, updatedAt: now });
+        }
+      }
+      await batch.commit();
+
+      return snapshot.size;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error moving budgets to category', { userId, from, to, error });
+      throw new AppError('Failed to update budget categories', 500);
+    }
+  }
+
+  /**
+   * Record the thresholds currently crossed and return the ones not alerted before
+   * Runs in a transaction so concurrent receipt changes alert each threshold once
+   */
+  public async updateAlertState(
+    budgetId: string,
+    periodKey: string,
+    crossedThresholds: number[]
+  ): Promise<number[]> {
+    const budgetRef = this.getDb().collection(this.budgetsCollection).doc(budgetId);
+
+    try {
+      return await this.getDb().runTransaction(async (transaction) => {
+        const budgetDoc = await transaction.get(budgetRef);
+        if (!budgetDoc.exists) {
+          return [];
+        }
+        const alertState = budgetDoc.data()?.alertState;
+
+        // Thresholds alerted in an earlier period don't count for this one
+        const alerted: number[] =
+          alertState?.periodKey === periodKey ? alertState.thresholds || [] : [];
+
+        // Spending that drops back below a threshold re-arms its alert
+        transaction.update(budgetRef, {
+          alertState: { periodKey, thresholds: crossedThresholds },
+        });
+
+        return crossedThresholds.filter((threshold) => !alerted.includes(threshold));
+      });
+    } catch (error) {
+      logger.error('Error updating budget alert state', { budgetId, periodKey, error });
+      throw new AppError('Failed to update budget alert state', 500);
+    }
+  }
+
+  /**
+   * Store an alert event
+   */
+  public async createAlert(alert: Omit<BudgetAlert, 'id'>): Promise<BudgetAlert> {
+    try {
+      const alertId = uuidv4();
+      await this.getDb().collection(this.alertsCollection).doc(alertId).set(alert);
+      return { id: alertId, ...alert };
+    } catch (error) {
+      logger.error('Error creating budget alert', { budgetId: alert.budgetId, error });
+      throw new AppError('Failed to create budget alert', 500);
+    }
+  }
+
+  /**
+   * Get a user's alerts, most recent first
+   */
+  public async getAlertsByUserId(userId: string, limit: number): Promise<BudgetAlert[]> {
+    try {
+      const snapshot = await this.getDb()
+        .collection(this.alertsCollection)
+        .where('userId', '==', userId)
+        .orderBy('createdAt', 'desc')
+        .limit(limit)
+        .get();
+
+      return snapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          userId: data.userId,
+          budgetId: data.budgetId,
+          category: data.category,
+          period: data.period,
+          periodKey: data.periodKey,
+          threshold: data.threshold,
+          spent: data.spent,
+          amount: data.amount,
+          currency: data.currency,
+          createdAt: this.convertFirestoreDate(data.createdAt),
+        };
+      });
+    } catch (error) {
+      logger.error('Error fetching budget alerts', { userId, error });
+      throw new AppError('Failed to fetch budget alerts', 500);
+    }
+  }
+
+  /**
+   * Helper method to map Firestore document to Budget interface
+   */
+  private mapDocumentToBudget(id: string, data: DocumentData): Budget {
+    return {
+      id,
+      userId: data.userId,
+      category: data.category,
+      period: data.period,
+      amount: data.amount,
+      currency: data.currency,
+      alertState: data.alertState ?? null,
+      createdAt: this.convertFirestoreDate(data.createdAt),
+      updatedAt: this.convertFirestoreDate(data.updatedAt),
+    };
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Category repository layer - handles Firestore operations for user-defined categories
+ */
+
+import { getFirestore } from '../config/firebase';
+import { Category, normalizeCategoryKey } from '../models/category.model';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { v4 as uuidv4 } from 'uuid';
+import type { DocumentData } from 'firebase-admin/firestore';
+
+export class CategoryRepository {
+  private categoriesCollection = 'categories';
+
+  private getDb() {
+    return getFirestore();
+  }
+
+  /**
+   * Helper method to convert Firestore timestamp to Date
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private convertFirestoreDate(date: any): Date {
+    return date?.toDate ? date.toDate() : new Date(date);
+  }
+
+  /**
+   * Create a category
+   */
+  public async createCategory(
+    userId: string,
+    data: Pick<Category, 'name' | 'parentId' | 'color' | 'icon'>
+  ): Promise<Category> {
+    try {
+      const now = new Date();
+      const categoryId = uuidv4();
+
+      const category: Omit<Category, 'id'> = {
+        userId,
+        name: data.name,
+        nameKey: normalizeCategoryKey(data.name),
+        parentId: data.parentId,
+        color: data.color,
+        icon: data.icon,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.getDb().collection(this.categoriesCollection).doc(categoryId).set(category);
+
+      logger.info('Category created successfully', { categoryId, userId });
+
+      return { id: categoryId, ...category };
+    } catch (error) {
+      logger.error('Error creating category', { userId, error });
+      throw new AppError('Failed to create category', 500);
+    }
+  }
+
+  /**
+   * Get a category by ID
+   */
+  public async getCategoryById(categoryId: string, userId: string): Promise<Category | null> {
+    try {
+      const categoryDoc = await this.getDb()
+        .collection(this.categoriesCollection)
+        .doc(categoryId)
+        .get();
+      const data = categoryDoc.data();
+
+      if (!categoryDoc.exists || !data) {
+        return null;
+      }
+
+      // Verify ownership
+      if (data.userId !== userId) {
+        throw new AppError('Unauthorized access to category', 403);
+      }
+
+      return this.mapDocumentToCategory(categoryDoc.id, data);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error fetching category', { categoryId, userId, error });
+      throw new AppError('Failed to fetch category', 500);
+    }
+  }
+
+  /**
+   * Get a user's categories sorted by name
+   */
+  public async getCategoriesByUserId(userId: string): Promise<Category[]> {
+    try {
+      const snapshot = await this.getDb()
+        .collection(this.categoriesCollection)
+        .where('userId', '==', userId)
+        .get();
+
+      return snapshot.docs
+        .map((doc) => this.mapDocumentToCategory(doc.id, doc.data()))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      logger.error('Error fetching categories', { userId, error });
+      throw new AppError('Failed to fetch categories', 500);
+    }
+  }
+
+  /**
+   * Find the user's category with a name, ignoring case and extra whitespace
+   */
+  public async findByName(userId: string, name: string): Promise<Category | null> {
+    try {
+      const snapshot = await this.getDb()
+        .collection(this.categoriesCollection)
+        .where('userId', '==', userId)
+        .where('nameKey', '==', normalizeCategoryKey(name))
+        .limit(1)
+        .get();
+
+      return snapshot.empty
+        ? null
+        : this.mapDocumentToCategory(snapshot.docs[0].id, snapshot.docs[0].data());
+    } catch (error) {
+      logger.error('Error finding category', { userId, error });
+      throw new AppError('Failed to fetch categories', 500);
+    }
+  }
+
+  /**
+   * Update a category
+   */
+  public async updateCategory(
+    categoryId: string,
+    updates: Partial<Pick<Category, 'name' | 'parentId' | 'color' | 'icon'>>
+  ): Promise<Category> {
+    try {
+      const categoryRef = this.getDb().collection(this.categoriesCollection).doc(categoryId);
+
+      await categoryRef.update({
+        ...updates,
+        ...(updates.name !== undefined && { nameKey: normalizeCategoryKey(updates.name) }),
+        updatedAt: new Date(),
+      });
+
+      const updatedDoc = await categoryRef.get();
+      const data = updatedDoc.data();
+      if (!data) {
+        throw new AppError('Failed to retrieve updated category', 500);
+      }
+
+      logger.info('Category updated successfully', { categoryId });
+
+      return this.mapDocumentToCategory(updatedDoc.id, data);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error updating category', { categoryId, error });
+      throw new AppError('Failed to update category', 500);
+    }
+  }
+
+  /**
+   * Move every child of a category under another parent
+   */
+  public async reparentChildren(
+    userId: string,
+    fromParentId: string,
+    toParentId: string | null
+  ): Promise<void> {
+    try {
+      const db = this.getDb();
+      const snapshot = await db
+        .collection(this.categoriesCollection)
+        .where('userId', '==', userId)
+        .where('parentId', '==', fromParentId)
+        .get();
+
+      if (snapshot.empty) {
+        return;
+      }
+
+      // A user's categories fit comfortably in one batch
+      const batch = db.batch();
+      const now = new Date();
+      snapshot.docs.forEach((doc) => {
+        batch.update(doc.ref, { parentId: toParentId, updatedAt: now });
+      });
+      await batch.commit();
+    } catch (error) {
+      logger.error('Error moving child categories', { userId, fromParentId, error });
+      throw new AppError('Failed to update categories', 500);
+    }
+  }
+
+  /**
+   * Delete a category
+   */
+  public async deleteCategory(categoryId: string): Promise<void> {
+    try {
+      await this.getDb().collection(this.categoriesCollection).doc(categoryId).delete();
+    } catch (error) {
+      logger.error('Error deleting category', { categoryId, error });
+      throw new AppError('Failed to delete category', 500);
+    }
+  }
+
+  /**
+   * Helper method to map Firestore document to Category interface
+   */
+  private mapDocumentToCategory(id: string, data: DocumentData): Category {
+    return {
+      id,
+      userId: data.userId,
+      name: data.name,
+      nameKey: data.nameKey,
+      parentId: data.parentId ?? null,
+      color: data.color ?? null,
+      icon: data.icon ?? null,
+      createdAt: this.convertFirestoreDate(data.createdAt),
+      updatedAt: this.convertFirestoreDate(data.updatedAt),
+    };
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Exchange rate repository layer - handles Firestore operations for daily rate snapshots
+ */
+
+import { getFirestore } from '../config/firebase';
+import { ExchangeRateSnapshot } from '../models/exchangeRate.model';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import type { DocumentData } from 'firebase-admin/firestore';
+
+// Firestore allows at most 500 writes per batch
+const MAX_BATCH_SIZE = 500;
+
+export class ExchangeRateRepository {
+  private ratesCollection = 'exchangeRates';
+
+  private getDb() {
+    return getFirestore();
+  }
+
+  /**
+   * Helper method to convert Firestore timestamp to Date
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private convertFirestoreDate(date: any): Date {
+    return date?.toDate ? date.toDate() : new Date(date);
+  }
+
+  /**
+   * Create or replace snapshots, one document per day
+   */
+  public async saveSnapshots(snapshots: ExchangeRateSnapshot[]): Promise<void> {
+    try {
+      const db = this.getDb();
+
+      for (let start = 0; start < snapshots.length; start += MAX_BATCH_SIZE) {
+        const batch = db.batch();
+        snapshots.slice(start, start + MAX_BATCH_SIZE).forEach((snapshot) => {
+          batch.set(db.collection(this.ratesCollection).doc(snapshot.date), snapshot);
+        });
+        await batch.commit();
+      }
+    } catch (error) {
+      logger.error('Error saving exchange rates', { count: snapshots.length, error });
+      throw new AppError('Failed to save exchange rates', 500);
+    }
+  }
+
+  /**
+   * Get the most recent snapshot on or before a date (YYYY-MM-DD)
+   */
+  public async getSnapshotOnOrBefore(date: string): Promise<ExchangeRateSnapshot | null> {
+    try {
+      const snapshot = await this.getDb()
+        .collection(this.ratesCollection)
+        .where('date', '<=', date)
+        .orderBy('date', 'desc')
+        .limit(1)
+        .get();
+
+      if (snapshot.empty) {
+        return null;
+      }
+
+      return this.mapDocumentToSnapshot(snapshot.docs[0].data());
+    } catch (error) {
+      logger.error('Error fetching exchange rates', { date, error });
+      throw new AppError('Failed to fetch exchange rates', 500);
+    }
+  }
+
+  /**
+   * List snapshots, most recent first
+   */
+  public async listSnapshots(limit: number, startAfter?: string): Promise<ExchangeRateSnapshot[]> {
+    try {
+      let query = this.getDb().collection(this.ratesCollection).orderBy('date', 'desc');
+
+      if (startAfter) {
+        query = query.startAfter(startAfter);
+      }
+
+      const snapshot = await query.limit(limit).get();
+      return snapshot.docs.map((doc) => this.mapDocumentToSnapshot(doc.data()));
+    } catch (error) {
+      logger.error('Error listing exchange rates', { error });
+      throw new AppError('Failed to list exchange rates', 500);
+    }
+  }
+
+  /**
+   * Helper method to map Firestore document to ExchangeRateSnapshot interface
+   */
+  private mapDocumentToSnapshot(data: DocumentData): ExchangeRateSnapshot {
+    return {
+      date: data.date,
+      base: data.base,
+      rates: data.rates || {},
+      source: data.source ?? null,
+      updatedAt: this.convertFirestoreDate(data.updatedAt),
+    };
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * File hash repository layer - handles Firestore operations for uploaded file content hashes
+ */
+
+import { getFirestore } from '../config/firebase';
+import { FileHash } from '../models/duplicate.model';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import type { DocumentData } from 'firebase-admin/firestore';
+
+export class FileHashRepository {
+  private hashesCollection = 'fileHashes';
+
+  private getDb() {
+    return getFirestore();
+  }
+
+  /**
+   * Helper method to convert Firestore timestamp to Date
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private convertFirestoreDate(date: any): Date {
+    return date?.toDate ? date.toDate() : new Date(date);
+  }
+
+  /**
+   * Get the receipt that first had a file's content
+   */
+  public async getHash(userId: string, hash: string): Promise<FileHash | null> {
+    try {
+      const hashDoc = await this.getDb()
+        .collection(this.hashesCollection)
+        .doc(`${userId}:${hash}`)
+        .get();
+      const data = hashDoc.data();
+      if (!hashDoc.exists || !data) {
+        return null;
+      }
+      return this.mapDocumentToFileHash(data);
+    } catch (error) {
+      logger.error('Error fetching file hash', { userId, error });
+      throw new AppError('Failed to fetch file hash', 500);
+    }
+  }
+
+  /**
+   * Record a receipt as the first with a file's content
+   * Returns the earlier record when another receipt already has the same content, unless that
+   * record belongs to replaceReceiptId (a receipt that no longer exists), which is taken over
+   */
+  public async claimHash(
+    userId: string,
+    hash: string,
+    receiptId: string,
+    filePath: string,
+    replaceReceiptId?: string
+  ): Promise<FileHash | null> {
+    try {
+      const db = this.getDb();
+      const hashRef = db.collection(this.hashesCollection).doc(`${userId}:${hash}`);
+
+      return await db.runTransaction(async (transaction) => {
+        const hashDoc = await transaction.get(hashRef);
+        const data = hashDoc.data();
+
+        if (hashDoc.exists && data && data.receiptId !== replaceReceiptId) {
+          return this.mapDocumentToFileHash(data);
+        }
+
+        const fileHash: FileHash = { userId, hash, receiptId, filePath, createdAt: new Date() };
+        transaction.set(hashRef, fileHash);
+        return null;
+      });
+    } catch (error) {
+      logger.error('Error recording file hash', { userId, receiptId, error });
+      throw new AppError('Failed to record file hash', 500);
+    }
+  }
+
+  /**
+   * Delete the hashes recorded for a receipt's uploads
+   * Later uploads of the same content then count as new
+   */
+  public async deleteHashesByReceiptId(receiptId: string): Promise<void> {
+    try {
+      const db = this.getDb();
+      const snapshot = await db
+        .collection(this.hashesCollection)
+        .where('receiptId', '==', receiptId)
+        .get();
+
+      if (snapshot.empty) {
+        return;
+      }
+
+      const batch = db.batch();
+      snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+      await batch.commit();
+    } catch (error) {
+      logger.error('Error deleting file hashes', { receiptId, error });
+      throw new AppError('Failed to delete file hashes', 500);
+    }
+  }
+
+  /**
+   * Helper method to map Firestore document to FileHash interface
+   */
+  private mapDocumentToFileHash(data: DocumentData): FileHash {
+    return {
+      userId: data.userId,
+      hash: data.hash,
+      receiptId: data.receiptId,
+      filePath: data.filePath,
+      createdAt: this.convertFirestoreDate(data.createdAt),
+    };
+  }
+}
@@ -0,0 +1,456 @@
+/**
+ * Job repository layer - pluggable storage for the background job queue
+ */
+
+import { getFirestore } from '../config/firebase';
+import { Job, JobStatus, DeadLetterJob } from '../models/job.model';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import type { DocumentData } from 'firebase-admin/firestore';
+
+export type JobUpdate = Partial<Omit<Job, 'id' | 'type' | 'createdAt'>>;
+
+/**
+ * Storage contract used by JobQueueService
+ * claimDue must atomically mark jobs as RUNNING so that a job is only picked up once,
+ * and must also pick up RUNNING jobs whose lease expired (their instance stopped mid-run).
+ * A claim is identified by the attempts value it set: writes passing claimedAttempts (and
+ * moveToDeadLetter) only apply while the job is still RUNNING under that claim, and report
+ * false (null) when another instance has reclaimed it since.
+ */
+export interface JobStore {
+  create(job: Job): Promise<void>;
+  get(jobId: string): Promise<Job | null>;
+  claimDue(limit: number, now: Date, leaseMs: number): Promise<Job[]>;
+  update(jobId: string, updates: JobUpdate, claimedAttempts?: number): Promise<boolean>;
+  moveToDeadLetter(job: Job, error: string): Promise<DeadLetterJob | null>;
+  listDeadLetters(limit: number, startAfter?: string): Promise<DeadLetterJob[]>;
+  getDeadLetter(jobId: string): Promise<DeadLetterJob | null>;
+  deleteDeadLetter(jobId: string): Promise<void>;
+}
+
+/**
+ * Firestore-backed job store (default for deployed environments)
+ */
+export class FirestoreJobStore implements JobStore {
+  private jobsCollection = 'jobs';
+  private deadLetterCollection = 'deadLetterJobs';
+
+  private getDb() {
+    return getFirestore();
+  }
+
+  /**
+   * Helper method to convert Firestore timestamp to Date
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private convertFirestoreDate(date: any): Date {
+    return date?.toDate ? date.toDate() : new Date(date);
+  }
+
+  /**
+   * Helper method to convert nested Firestore timestamps (e.g. inside job results) to Dates
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private convertNestedDates(value: any): any {
+    if (value?.toDate) {
+      return value.toDate();
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.convertNestedDates(item));
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [key, this.convertNestedDates(entry)])
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Helper method to drop undefined values, which Firestore rejects
+   */
+  private removeUndefined<T>(value: T): T {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.removeUndefined(item)) as T;
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value)
+          .filter(([, entry]) => entry !== undefined)
+          .map(([key, entry]) => [key, this.removeUndefined(entry)])
+      ) as T;
+    }
+    return value;
+  }
+
+  public async create(job: Job): Promise<void> {
+    try {
+      const { id, ...data } = job;
+      await this.getDb().collection(this.jobsCollection).doc(id).set(this.removeUndefined(data));
+    } catch (error) {
+      logger.error('Error creating job', { jobId: job.id, type: job.type, error });
+      throw new AppError('Failed to enqueue job', 500);
+    }
+  }
+
+  public async get(jobId: string): Promise<Job | null> {
+    try {
+      const jobDoc = await this.getDb().collection(this.jobsCollection).doc(jobId).get();
+      const data = jobDoc.data();
+      if (!jobDoc.exists || !data) {
+        return null;
+      }
+      return this.mapDocumentToJob(jobDoc.id, data);
+    } catch (error) {
+      logger.error('Error fetching job', { jobId, error });
+      throw new AppError('Failed to fetch job', 500);
+    }
+  }
+
+  public async claimDue(limit: number, now: Date, leaseMs: number): Promise<Job[]> {
+    const db = this.getDb();
+    const jobs = db.collection(this.jobsCollection);
+    const [expiredSnapshot, dueSnapshot] = await Promise.all([
+      jobs
+        .where('status', '==', JobStatus.RUNNING)
+        .where('leaseExpiresAt', '<=', now)
+        .orderBy('leaseExpiresAt', 'asc')
+        .limit(limit)
+        .get(),
+      jobs
+        .where('status', '==', JobStatus.QUEUED)
+        .where('runAt', '<=', now)
+        .orderBy('runAt', 'asc')
+        .limit(limit)
+        .get(),
+    ]);
+
+    const claimed: Job[] = [];
+
+    for (const doc of [...expiredSnapshot.docs, ...dueSnapshot.docs]) {
+      if (claimed.length >= limit) {
+        break;
+      }
+
+      // Re-check inside a transaction so concurrent instances never claim the same job
+      const job = await db.runTransaction(async (transaction) => {
+        const fresh = await transaction.get(doc.ref);
+        const data = fresh.data();
+        if (!fresh.exists || !data || !this.isClaimable(data, now)) {
+          return null;
+        }
+
+        const updates = {
+          status: JobStatus.RUNNING,
+          attempts: (data.attempts || 0) + 1,
+          startedAt: now,
+          leaseExpiresAt: new Date(now.getTime() + leaseMs),
+          updatedAt: now,
+        };
+        transaction.update(doc.ref, updates);
+
+        return this.mapDocumentToJob(doc.id, { ...data, ...updates });
+      });
+
+      if (job) {
+        claimed.push(job);
+      }
+    }
+
+    return claimed;
+  }
+
+  public async update(
+    jobId: string,
+    updates: JobUpdate,
+    claimedAttempts?: number
+  ): Promise<boolean> {
+    try {
+      const db = this.getDb();
+      const jobRef = db.collection(this.jobsCollection).doc(jobId);
+
+      if (claimedAttempts === undefined) {
+        await jobRef.update(this.removeUndefined(updates));
+        return true;
+      }
+
+      return await db.runTransaction(async (transaction) => {
+        const jobDoc = await transaction.get(jobRef);
+        if (!this.holdsClaim(jobDoc.data(), claimedAttempts)) {
+          return false;
+        }
+        transaction.update(jobRef, this.removeUndefined(updates));
+        return true;
+      });
+    } catch (error) {
+      logger.error('Error updating job', { jobId, error });
+      throw new AppError('Failed to update job', 500);
+    }
+  }
+
+  public async moveToDeadLetter(job: Job, error: string): Promise<DeadLetterJob | null> {
+    try {
+      const now = new Date();
+      const deadLetter: DeadLetterJob = {
+        id: job.id,
+        type: job.type,
+        payload: job.payload,
+        userId: job.userId ?? null,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        error,
+        createdAt: job.createdAt,
+        failedAt: now,
+      };
+
+      const db = this.getDb();
+      const { id, ...deadLetterData } = deadLetter;
+      const jobRef = db.collection(this.jobsCollection).doc(id);
+
+      return await db.runTransaction(async (transaction) => {
+        const jobDoc = await transaction.get(jobRef);
+        if (!this.holdsClaim(jobDoc.data(), job.attempts)) {
+          return null;
+        }
+
+        transaction.set(
+          db.collection(this.deadLetterCollection).doc(id),
+          this.removeUndefined(deadLetterData)
+        );
+        transaction.update(jobRef, {
+          status: JobStatus.DEAD,
+          lastError: error,
+          leaseExpiresAt: null,
+          updatedAt: now,
+          completedAt: now,
+        });
+        return deadLetter;
+      });
+    } catch (err) {
+      logger.error('Error moving job to dead-letter collection', { jobId: job.id, error: err });
+      throw new AppError('Failed to dead-letter job', 500);
+    }
+  }
+
+  public async listDeadLetters(limit: number, startAfter?: string): Promise<DeadLetterJob[]> {
+    try {
+      let query = this.getDb()
+        .collection(this.deadLetterCollection)
+        .orderBy('failedAt', 'desc')
+        .limit(limit);
+
+      if (startAfter) {
+        const startAfterDoc = await this.getDb()
+          .collection(this.deadLetterCollection)
+          .doc(startAfter)
+          .get();
+        if (startAfterDoc.exists) {
+          query = query.startAfter(startAfterDoc);
+        }
+      }
+
+      const snapshot = await query.get();
+      return snapshot.docs.map((doc) => this.mapDocumentToDeadLetter(doc.id, doc.data()));
+    } catch (error) {
+      logger.error('Error listing dead-letter jobs', { error });
+      throw new AppError('Failed to list dead-letter jobs', 500);
+    }
+  }
+
+  public async getDeadLetter(jobId: string): Promise<DeadLetterJob | null> {
+    try {
+      const doc = await this.getDb().collection(this.deadLetterCollection).doc(jobId).get();
+      const data = doc.data();
+      if (!doc.exists || !data) {
+        return null;
+      }
+      return this.mapDocumentToDeadLetter(doc.id, data);
+    } catch (error) {
+      logger.error('Error fetching dead-letter job', { jobId, error });
+      throw new AppError('Failed to fetch dead-letter job', 500);
+    }
+  }
+
+  public async deleteDeadLetter(jobId: string): Promise<void> {
+    try {
+      await this.getDb().collection(this.deadLetterCollection).doc(jobId).delete();
+    } catch (error) {
+      logger.error('Error deleting dead-letter job', { jobId, error });
+      throw new AppError('Failed to delete dead-letter job', 500);
+    }
+  }
+
+  /**
+   * Helper method to check whether a job is still running under the claim that set claimedAttempts
+   */
+  private holdsClaim(data: DocumentData | undefined, claimedAttempts: number): boolean {
+    return data?.status === JobStatus.RUNNING && data.attempts === claimedAttempts;
+  }
+
+  /**
+   * Helper method to check whether a job is queued, or running on an expired lease
+   */
+  private isClaimable(data: DocumentData, now: Date): boolean {
+    if (data.status === JobStatus.QUEUED) {
+      return true;
+    }
+    return (
+      data.status === JobStatus.RUNNING &&
+      !!data.leaseExpiresAt &&
+      this.convertFirestoreDate(data.leaseExpiresAt) <= now
+    );
+  }
+
+  /**
+   * Helper method to map Firestore document to Job interface
+   */
+  private mapDocumentToJob(id: string, data: DocumentData): Job {
+    return {
+      id,
+      type: data.type,
+      payload: this.convertNestedDates(data.payload || {}),
+      userId: data.userId ?? null,
+      status: data.status,
+      attempts: data.attempts || 0,
+      maxAttempts: data.maxAttempts,
+      runAt: this.convertFirestoreDate(data.runAt),
+      lastError: data.lastError ?? null,
+      result: this.convertNestedDates(data.result ?? null),
+      createdAt: this.convertFirestoreDate(data.createdAt),
+      updatedAt: this.convertFirestoreDate(data.updatedAt),
+      startedAt: data.startedAt ? this.convertFirestoreDate(data.startedAt) : null,
+      leaseExpiresAt: data.leaseExpiresAt ? this.convertFirestoreDate(data.leaseExpiresAt) : null,
+      completedAt: data.completedAt ? this.convertFirestoreDate(data.completedAt) : null,
+    };
+  }
+
+  /**
+   * Helper method to map Firestore document to DeadLetterJob interface
+   */
+  private mapDocumentToDeadLetter(id: string, data: DocumentData): DeadLetterJob {
+    return {
+      id,
+      type: data.type,
+      payload: data.payload || {},
+      userId: data.userId ?? null,
+      attempts: data.attempts || 0,
+      maxAttempts: data.maxAttempts,
+      error: data.error,
+      createdAt: this.convertFirestoreDate(data.createdAt),
+      failedAt: this.convertFirestoreDate(data.failedAt),
+    };
+  }
+}
+
+/**
+ * In-memory job store for local development and tests
+ * State is process-local and lost on restart
+ */
+export class InMemoryJobStore implements JobStore {
+  private jobs = new Map<string, Job>();
+  private deadLetters = new Map<string, DeadLetterJob>();
+
+  public async create(job: Job): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  public async get(jobId: string): Promise<Job | null> {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : null;
+  }
+
+  public async claimDue(limit: number, now: Date, leaseMs: number): Promise<Job[]> {
+    const expired = Array.from(this.jobs.values())
+      .filter(
+        (job) =>
+          job.status === JobStatus.RUNNING && !!job.leaseExpiresAt && job.leaseExpiresAt <= now
+      )
+      .sort((a, b) => (a.leaseExpiresAt?.getTime() ?? 0) - (b.leaseExpiresAt?.getTime() ?? 0));
+    const due = Array.from(this.jobs.values())
+      .filter((job) => job.status === JobStatus.QUEUED && job.runAt <= now)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+
+    return [...expired, ...due].slice(0, limit).map((job) => {
+      const claimed: Job = {
+        ...job,
+        status: JobStatus.RUNNING,
+        attempts: job.attempts + 1,
+        startedAt: now,
+        leaseExpiresAt: new Date(now.getTime() + leaseMs),
+        updatedAt: now,
+      };
+      this.jobs.set(job.id, claimed);
+      return { ...claimed };
+    });
+  }
+
+  public async update(
+    jobId: string,
+    updates: JobUpdate,
+    claimedAttempts?: number
+  ): Promise<boolean> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new AppError('Job not found', 404);
+    }
+    if (
+      claimedAttempts !== undefined &&
+      (job.status !== JobStatus.RUNNING || job.attempts !== claimedAttempts)
+    ) {
+      return false;
+    }
+    this.jobs.set(jobId, { ...job, ...updates });
+    return true;
+  }
+
+  public async moveToDeadLetter(job: Job, error: string): Promise<DeadLetterJob | null> {
+    const now = new Date();
+    const deadLetter: DeadLetterJob = {
+      id: job.id,
+      type: job.type,
+      payload: job.payload,
+      userId: job.userId ?? null,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      error,
+      createdAt: job.createdAt,
+      failedAt: now,
+    };
+
+    const moved = await this.update(
+      job.id,
+      {
+        status: JobStatus.DEAD,
+        lastError: error,
+        leaseExpiresAt: null,
+        updatedAt: now,
+        completedAt: now,
+      },
+      job.attempts
+    );
+    if (!moved) {
+      return null;
+    }
+
+    this.deadLetters.set(job.id, deadLetter);
+    return { ...deadLetter };
+  }
+
+  public async listDeadLetters(limit: number, startAfter?: string): Promise<DeadLetterJob[]> {
+    const sorted = Array.from(this.deadLetters.values()).sort(
+      (a, b) => b.failedAt.getTime() - a.failedAt.getTime()
+    );
+    const startIndex = startAfter ? sorted.findIndex((job) => job.id === startAfter) + 1 : 0;
+    return sorted.slice(startIndex, startIndex + limit).map((job) => ({ ...job }));
+  }
+
+  public async getDeadLetter(jobId: string): Promise<DeadLetterJob | null> {
+    const deadLetter = this.deadLetters.get(jobId);
+    return deadLetter ? { ...deadLetter } : null;
+  }
+
+  public async deleteDeadLetter(jobId: string): Promise<void> {
+    this.deadLetters.delete(jobId);
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Parsing rule repository layer - handles Firestore operations for learned corrections
+ */
+
+import crypto from 'crypto';
+import { getFirestore } from '../config/firebase';
+import { ParsingRule, LearnedValues, normalizeMerchantKey } from '../models/parsingRule.model';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import type { DocumentData } from 'firebase-admin/firestore';
+
+export class ParsingRuleRepository {
+  private rulesCollection = 'parsingRules';
+
+  private getDb() {
+    return getFirestore();
+  }
+
+  /**
+   * Helper method to convert Firestore timestamp to Date
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private convertFirestoreDate(date: any): Date {
+    return date?.toDate ? date.toDate() : new Date(date);
+  }
+
+  /**
+   * Deterministic rule ID so concurrent corrections for a merchant land on one document
+   */
+  private getRuleId(userId: string, merchantKey: string): string {
+    return crypto
+      .createHash('sha256')
+      .update(`${userId}:${merchantKey}`)
+      .digest('hex')
+      .slice(0, 32);
+  }
+
+  /**
+   * Merge a correction into the user's rule for the parsed merchant
+   */
+  public async recordCorrection(
+    userId: string,
+    parsedMerchant: string,
+    learned: LearnedValues
+  ): Promise<ParsingRule> {
+    const merchantKey = normalizeMerchantKey(parsedMerchant);
+    const ruleRef = this.getDb()
+      .collection(this.rulesCollection)
+      .doc(this.getRuleId(userId, merchantKey));
+
+    try {
+      return await this.getDb().runTransaction(async (transaction) => {
+        const existing = await transaction.get(ruleRef);
+        const now = new Date();
+        const data = existing.data();
+
+        const rule: Omit<ParsingRule, 'id'> = {
+          userId,
+          merchantKey,
+          parsedMerchant,
+          merchant: learned.merchant ?? data?.merchant ?? null,
+          category: learned.category ?? data?.category ?? null,
+          currency: learned.currency ?? data?.currency ?? null,
+          corrections: (data?.corrections || 0) + 1,
+          createdAt: data ? this.convertFirestoreDate(data.createdAt) : now,
+          updatedAt: now,
+        };
+
+        transaction.set(ruleRef, rule);
+
+        return { id: ruleRef.id, ...rule };
+      });
+    } catch (error) {
+      logger.error('Error recording parsing correction', { userId, merchantKey, error });
+      throw new AppError('Failed to record parsing correction', 500);
+    }
+  }
+
+  /**
+   * Get a user's rules, most recently corrected first
+   */
+  public async getRulesByUserId(userId: string, limit = 50): Promise<ParsingRule[]> {
+    try {
+      const snapshot = await this.getDb()
+        .collection(this.rulesCollection)
+        .where('userId', '==', userId)
+        .orderBy('updatedAt', 'desc')
+        .limit(limit)
+        .get();
+
+      return snapshot.docs.map((doc) => this.mapDocumentToRule(doc.id, doc.data()));
+    } catch (error) {
+      logger.error('Error fetching parsing rules', { userId, error });
+      throw new AppError('Failed to fetch parsing rules', 500);
+    }
+  }
+
+  /**
+   * Get a rule by ID
+   */
+  public async getRuleById(ruleId: string, userId: string): Promise<ParsingRule | null> {
+    try {
+      const ruleDoc = await this.getDb().collection(this.rulesCollection).doc(ruleId).get();
+      const data = ruleDoc.data();
+
+      if (!ruleDoc.exists || !data) {
+        return null;
+      }
+
+      // Verify ownership
+      if (data.userId !== userId) {
+        throw new AppError('Unauthorized access to parsing rule', 403);
+      }
+
+      return this.mapDocumentToRule(ruleDoc.id, data);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error fetching parsing rule', { ruleId, userId, error });
+      throw new AppError('Failed to fetch parsing rule', 500);
+    }
+  }
+
+  /**
+   * Point a user's rules that learned one category at another
+   * Returns the number of rules rewritten
+   */
+  public async reassignCategory(userId: string, from: string, to: string): Promise<number> {
+    try {
+      const db = this.getDb();
+      const snapshot = await db
+        .collection(this.rulesCollection)
+        .where('userId', '==', userId)
+        .where('category', '==', from)
+        .get();
+
+      if (snapshot.empty) {
+        return 0;
+      }
+
+      const batch = db.batch();
+      snapshot.docs.forEach((doc) => {
+        batch.update(doc.ref, { category: to });
+      });
+      await batch.commit();
+
+      return snapshot.size;
+    } catch (error) {
+      logger.error('Error moving parsing rules to category', { userId, from, to, error });
+      throw new AppError('Failed to update parsing rule categories', 500);
+    }
+  }
+
+  /**
+   * Delete a rule
+   */
+  public async deleteRule(ruleId: string): Promise<void> {
+    try {
+      await this.getDb().collection(this.rulesCollection).doc(ruleId).delete();
+    } catch (error) {
+      logger.error('Error deleting parsing rule', { ruleId, error });
+      throw new AppError('Failed to delete parsing rule', 500);
+    }
+  }
+
+  /**
+   * Helper method to map Firestore document to ParsingRule interface
+   */
+  private mapDocumentToRule(id: string, data: DocumentData): ParsingRule {
+    return {
+      id,
+      userId: data.userId,
+      merchantKey: data.merchantKey,
+      parsedMerchant: data.parsedMerchant,
+      merchant: data.merchant ?? null,
+      category: data.category ?? null,
+      currency: data.currency ?? null,
+      corrections: data.corrections || 0,
+      createdAt: this.convertFirestoreDate(data.createdAt),
+      updatedAt: this.convertFirestoreDate(data.updatedAt),
+    };
+  }
+}
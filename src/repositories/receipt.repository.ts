@@ -10,20 +10,72 @@ import {
   ReceiptQueryParams,
   PaginatedReceipts,
   ReceiptStatus,
+  ReceiptFieldConfidence,
+  attachmentsFromImageUrl,
+  isValidStatusTransition,
 } from '../models/receipt.model';
+import {
+  AmountFilter,
+  SearchIndexChanges,
+  addTermChanges,
+  extractSearchTerms,
+} from '../models/search.model';
+import {
+  ReceiptChangeContext,
+  ReceiptVersion,
+  diffSnapshots,
+  takeSnapshot,
+} from '../models/receiptVersion.model';
+import {
+  BulkItemResult,
+  BulkOperation,
+  BulkWriteResult,
+  getBulkUpdates,
+} from '../models/receiptBulk.model';
+import { DuplicateFlag } from '../models/duplicate.model';
+import { SearchIndexRepository } from './searchIndex.repository';
+import { FileHashRepository } from './fileHash.repository';
+import { ReceiptVersionRepository } from './receiptVersion.repository';
+import { ReceiptRuleRepository } from './receiptRule.repository';
 import logger from '../config/logger';
 import { AppError } from '../middleware/errorHandler';
 import { v4 as uuidv4 } from 'uuid';
+import { FieldValue } from 'firebase-admin/firestore';
 import type { DocumentData } from 'firebase-admin/firestore';
 
+// Firestore allows at most 500 writes per batch
+const MAX_BATCH_SIZE = 500;
+// Document references per getAll call
+const MAX_GET_ALL = 100;
+
 export class ReceiptRepository {
   private receiptsCollection = 'receipts';
   private readonly MAX_TAGS_FILTER = 10;
+  private searchIndexRepository = new SearchIndexRepository();
+  private receiptVersionRepository = new ReceiptVersionRepository();
+  private fileHashRepository = new FileHashRepository();
+  private receiptRuleRepository = new ReceiptRuleRepository();
 
   private getDb() {
     return getFirestore();
   }
 
+  /**
+   * Helper method to keep the search index in step with receipt writes
+   * Best-effort: the receipt is already saved and the index can be rebuilt
+   */
+  private async updateSearchIndex(userId: string, changes: SearchIndexChanges): Promise<void> {
+    if (changes.size === 0) {
+      return;
+    }
+
+    try {
+      await this.searchIndexRepository.applyChanges(userId, changes);
+    } catch (error) {
+      logger.error('Failed to update receipt search index', { userId, error });
+    }
+  }
+
   /**
    * Helper method to convert Firestore timestamp to Date
    */
@@ -34,11 +86,16 @@ export class ReceiptRepository {
 
   /**
    * Create a new receipt
+   * receiptId can be supplied to reuse an ID already used in the storage path
    */
-  public async createReceipt(userId: string, receiptData: CreateReceiptDto): Promise<Receipt> {
+  public async createReceipt(
+    userId: string,
+    receiptData: CreateReceiptDto,
+    receiptId: string = uuidv4()
+  ): Promise<Receipt> {
     try {
-      const receiptId = uuidv4();
       const now = new Date();
+      const attachments = receiptData.attachments ?? attachmentsFromImageUrl(receiptData.imageUrl);
 
       const receipt: Omit<Receipt, 'id'> = {
         userId,
@@ -50,15 +107,39 @@ export class ReceiptRepository {
         category: receiptData.category,
         tags: receiptData.tags || [],
         lineItems: receiptData.lineItems || [],
-        imageUrl: receiptData.imageUrl,
+        imageUrl: attachments[0]?.path ?? receiptData.imageUrl,
+        attachments,
+        notes: receiptData.notes ?? null,
         status: receiptData.status || ReceiptStatus.PENDING,
+        fieldConfidence: null,
+        needsReview: false,
+        parsedValues: null,
+        duplicate: null,
         createdAt: now,
         updatedAt: now,
         deletedAt: null,
       };
 
-      const receiptRef = this.getDb().collection(this.receiptsCollection).doc(receiptId);
-      await receiptRef.set(receipt);
+      // The receipt and its first version are written together
+      const db = this.getDb();
+      const batch = db.batch();
+      batch.set(db.collection(this.receiptsCollection).doc(receiptId), { ...receipt, version: 1 });
+      batch.create(
+        this.receiptVersionRepository.versionRef(receiptId, 1),
+        this.buildVersion(
+          receiptId,
+          userId,
+          1,
+          { source: 'create', changedBy: userId },
+          receipt,
+          []
+        )
+      );
+      await batch.commit();
+
+      const changes: SearchIndexChanges = new Map();
+      addTermChanges(changes, receiptId, [], extractSearchTerms(receipt));
+      await this.updateSearchIndex(userId, changes);
 
       logger.info('Receipt created successfully', { receiptId, userId });
 
@@ -192,24 +273,13 @@ export class ReceiptRepository {
         receipts.push(this.mapDocumentToReceipt(doc.id, data));
       });
 
-      // Apply search filter if provided (client-side filtering)
-      let filteredReceipts = receipts;
-      if (params.search) {
-        const searchLower = params.search.toLowerCase();
-        filteredReceipts = receipts.filter(
-          (receipt) =>
-            receipt.merchant.toLowerCase().includes(searchLower) ||
-            receipt.tags.some((tag) => tag.toLowerCase().includes(searchLower))
-        );
-      }
-
       // Determine if there are more results
       const hasMore = receipts.length === limit;
       const nextCursor =
         hasMore && receipts.length > 0 ? receipts[receipts.length - 1].id : undefined;
 
       return {
-        receipts: filteredReceipts,
+        receipts,
         total,
         limit,
         hasMore,
@@ -268,11 +338,94 @@ export class ReceiptRepository {
 
   /**
    * Update receipt
+   * Fields set to undefined are removed. A change to a tracked field records a new version.
    */
   public async updateReceipt(
     receiptId: string,
     userId: string,
-    updates: UpdateReceiptDto
+    updates: UpdateReceiptDto,
+    context: ReceiptChangeContext = { source: 'user', changedBy: userId }
+  ): Promise<Receipt> {
+    try {
+      const db = this.getDb();
+      const receiptRef = db.collection(this.receiptsCollection).doc(receiptId);
+
+      // The version number is read and claimed in the same transaction as the update
+      const { previous, updated } = await db.runTransaction(async (transaction) => {
+        const receiptDoc = await transaction.get(receiptRef);
+
+        if (!receiptDoc.exists) {
+          throw new AppError('Receipt not found', 404);
+        }
+
+        const data = receiptDoc.data();
+        if (!data) {
+          throw new AppError('Receipt data is invalid', 500);
+        }
+
+        // Verify ownership
+        if (data.userId !== userId) {
+          throw new AppError('Unauthorized access to receipt', 403);
+        }
+
+        // imageUrl mirrors the first attachment for clients that predate attachments
+        const changed = updates.attachments
+          ? { ...updates, imageUrl: updates.attachments[0]?.path }
+          : updates;
+
+        const now = new Date();
+        const updateData: Record<string, unknown> = { updatedAt: now };
+        Object.entries(changed).forEach(([field, value]) => {
+          updateData[field] = value === undefined ? FieldValue.delete() : value;
+        });
+
+        const previous = this.mapDocumentToReceipt(receiptId, data);
+        const updated = this.mapDocumentToReceipt(receiptId, {
+          ...data,
+          ...changed,
+          updatedAt: now,
+        });
+
+        const changes = diffSnapshots(takeSnapshot(previous), takeSnapshot(updated));
+        if (changes.length > 0) {
+          const version = (data.version ?? 0) + 1;
+          updateData.version = version;
+          transaction.create(
+            this.receiptVersionRepository.versionRef(receiptId, version),
+            this.buildVersion(receiptId, userId, version, context, updated, changes)
+          );
+        }
+
+        transaction.update(receiptRef, updateData);
+
+        return { previous, updated };
+      });
+
+      logger.info('Receipt updated successfully', { receiptId, userId, source: context.source });
+
+      const changes: SearchIndexChanges = new Map();
+      addTermChanges(changes, receiptId, extractSearchTerms(previous), extractSearchTerms(updated));
+      await this.updateSearchIndex(userId, changes);
+
+      return updated;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error updating receipt', { receiptId, userId, error });
+      throw new AppError('Failed to update receipt', 500);
+    }
+  }
+
+  /**
+   * Update receipt processing status
+   * Validates the transition and records the failure reason when moving to FAILED
+   */
+  public async updateReceiptStatus(
+    receiptId: string,
+    userId: string,
+    status: ReceiptStatus,
+    failureReason?: string
   ): Promise<Receipt> {
     try {
       const receiptRef = this.getDb().collection(this.receiptsCollection).doc(receiptId);
@@ -292,36 +445,51 @@ export class ReceiptRepository {
         throw new AppError('Unauthorized access to receipt', 403);
       }
 
-      const updateData: Record<string, unknown> = {
-        ...updates,
-        updatedAt: new Date(),
-      };
+      if (data.deletedAt) {
+        throw new AppError('Receipt not found', 404);
+      }
 
-      await receiptRef.update(updateData);
+      const currentStatus = data.status as ReceiptStatus;
+      if (!isValidStatusTransition(currentStatus, status)) {
+        throw new AppError(`Invalid receipt status transition: ${currentStatus} -> ${status}`, 409);
+      }
 
-      logger.info('Receipt updated successfully', { receiptId, userId });
+      const updatedAt = new Date();
+      const nextFailureReason =
+        status === ReceiptStatus.FAILED ? failureReason || 'Unknown error' : null;
 
-      // Fetch and return updated receipt
-      const updatedDoc = await receiptRef.get();
-      const updatedData = updatedDoc.data();
-      if (!updatedData) {
-        throw new AppError('Failed to retrieve updated receipt', 500);
-      }
+      await receiptRef.update({
+        status,
+        failureReason: nextFailureReason,
+        updatedAt,
+      });
 
-      return this.mapDocumentToReceipt(receiptId, updatedData);
+      logger.info('Receipt status updated', {
+        receiptId,
+        userId,
+        from: currentStatus,
+        to: status,
+      });
+
+      return this.mapDocumentToReceipt(receiptId, {
+        ...data,
+        status,
+        failureReason: nextFailureReason,
+        updatedAt,
+      });
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
       }
-      logger.error('Error updating receipt', { receiptId, userId, error });
-      throw new AppError('Failed to update receipt', 500);
+      logger.error('Error updating receipt status', { receiptId, userId, status, error });
+      throw new AppError('Failed to update receipt status', 500);
     }
   }
 
   /**
    * Delete receipt (soft delete with deletedAt timestamp)
    */
-  public async deleteReceipt(receiptId: string, userId: string): Promise<void> {
+  public async deleteReceipt(receiptId: string, userId: string): Promise<Receipt> {
     try {
       const receiptRef = this.getDb().collection(this.receiptsCollection).doc(receiptId);
       const receiptDoc = await receiptRef.get();
@@ -346,12 +514,15 @@ export class ReceiptRepository {
       }
 
       // Soft delete - set deletedAt timestamp
+      const now = new Date();
       await receiptRef.update({
-        deletedAt: new Date(),
-        updatedAt: new Date(),
+        deletedAt: now,
+        updatedAt: now,
       });
 
       logger.info('Receipt soft deleted successfully', { receiptId, userId });
+
+      return this.mapDocumentToReceipt(receiptId, { ...data, deletedAt: now, updatedAt: now });
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -361,6 +532,446 @@ export class ReceiptRepository {
     }
   }
 
+  /**
+   * Get a user's soft-deleted receipts, most recently deleted first
+   */
+  public async getDeletedReceipts(
+    userId: string,
+    limit = 20,
+    startAfter?: string
+  ): Promise<PaginatedReceipts> {
+    try {
+      let query = this.getDb()
+        .collection(this.receiptsCollection)
+        .where('userId', '==', userId)
+        .where('deletedAt', '!=', null);
+
+      const countSnapshot = await query.count().get();
+      const total = countSnapshot.data().count;
+
+      query = query.orderBy('deletedAt', 'desc');
+
+      if (startAfter) {
+        const startAfterDoc = await this.getDb()
+          .collection(this.receiptsCollection)
+          .doc(startAfter)
+          .get();
+        if (startAfterDoc.exists) {
+          query = query.startAfter(startAfterDoc);
+        }
+      }
+
+      const snapshot = await query.limit(limit).get();
+      const receipts = snapshot.docs.map((doc) => this.mapDocumentToReceipt(doc.id, doc.data()));
+      const hasMore = receipts.length === limit;
+
+      return {
+        receipts,
+        total,
+        limit,
+        hasMore,
+        nextCursor: hasMore ? receipts[receipts.length - 1].id : undefined,
+      };
+    } catch (error) {
+      logger.error('Error fetching deleted receipts', { userId, error });
+      throw new AppError('Failed to fetch trash', 500);
+    }
+  }
+
+  /**
+   * Get a soft-deleted receipt by ID
+   */
+  public async getDeletedReceiptById(receiptId: string, userId: string): Promise<Receipt | null> {
+    try {
+      const receiptDoc = await this.getDb()
+        .collection(this.receiptsCollection)
+        .doc(receiptId)
+        .get();
+      const data = receiptDoc.data();
+
+      if (!receiptDoc.exists || !data || !data.deletedAt) {
+        return null;
+      }
+
+      // Verify ownership
+      if (data.userId !== userId) {
+        throw new AppError('Unauthorized access to receipt', 403);
+      }
+
+      return this.mapDocumentToReceipt(receiptDoc.id, data);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error fetching deleted receipt', { receiptId, userId, error });
+      throw new AppError('Failed to fetch receipt', 500);
+    }
+  }
+
+  /**
+   * Restore a soft-deleted receipt
+   */
+  public async restoreReceipt(receiptId: string, userId: string): Promise<Receipt> {
+    try {
+      const receiptRef = this.getDb().collection(this.receiptsCollection).doc(receiptId);
+      const receiptDoc = await receiptRef.get();
+
+      if (!receiptDoc.exists) {
+        throw new AppError('Receipt not found', 404);
+      }
+
+      const data = receiptDoc.data();
+      if (!data) {
+        throw new AppError('Receipt data is invalid', 500);
+      }
+
+      // Verify ownership
+      if (data.userId !== userId) {
+        throw new AppError('Unauthorized access to receipt', 403);
+      }
+
+      if (!data.deletedAt) {
+        throw new AppError('Receipt is not in the trash', 400);
+      }
+
+      const now = new Date();
+      await receiptRef.update({
+        deletedAt: null,
+        updatedAt: now,
+      });
+
+      logger.info('Receipt restored successfully', { receiptId, userId });
+
+      return this.mapDocumentToReceipt(receiptId, { ...data, deletedAt: null, updatedAt: now });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error restoring receipt', { receiptId, userId, error });
+      throw new AppError('Failed to restore receipt', 500);
+    }
+  }
+
+  /**
+   * Permanently delete a receipt document with its version and rule history and remove it from
+   * the search index
+   */
+  public async purgeReceipt(receipt: Receipt): Promise<void> {
+    try {
+      await this.receiptVersionRepository.deleteVersions(receipt.id);
+      await this.receiptRuleRepository.deleteApplications(receipt.id);
+      await this.fileHashRepository.deleteHashesByReceiptId(receipt.id);
+      await this.getDb().collection(this.receiptsCollection).doc(receipt.id).delete();
+
+      const changes: SearchIndexChanges = new Map();
+      addTermChanges(changes, receipt.id, extractSearchTerms(receipt), []);
+      await this.updateSearchIndex(receipt.userId, changes);
+
+      logger.info('Receipt purged successfully', { receiptId: receipt.id, userId: receipt.userId });
+    } catch (error) {
+      logger.error('Error purging receipt', { receiptId: receipt.id, error });
+      throw new AppError('Failed to permanently delete receipt', 500);
+    }
+  }
+
+  /**
+   * Get receipts of any user that were soft-deleted before the cutoff
+   */
+  public async getExpiredDeletedReceipts(cutoff: Date, limit: number): Promise<Receipt[]> {
+    try {
+      const snapshot = await this.getDb()
+        .collection(this.receiptsCollection)
+        .where('deletedAt', '<=', cutoff)
+        .orderBy('deletedAt', 'asc')
+        .limit(limit)
+        .get();
+
+      return snapshot.docs.map((doc) => this.mapDocumentToReceipt(doc.id, doc.data()));
+    } catch (error) {
+      logger.error('Error fetching expired deleted receipts', { cutoff, error });
+      throw new AppError('Failed to fetch expired trash', 500);
+    }
+  }
+
+  /**
+   * Move every receipt of a user from one category to another, deleted receipts included
+   * Returns the number of receipts rewritten
+   */
+  public async reassignCategory(userId: string, from: string, to: string): Promise<number> {
+    try {
+      const db = this.getDb();
+      // Each receipt takes two writes: the receipt and its new version
+      const pageSize = MAX_BATCH_SIZE / 2;
+      let updated = 0;
+
+      // Rewritten receipts drop out of the query, so each page starts from the top
+      for (;;) {
+        const snapshot = await db
+          .collection(this.receiptsCollection)
+          .where('userId', '==', userId)
+          .where('category', '==', from)
+          .limit(pageSize)
+          .get();
+
+        if (snapshot.empty) {
+          break;
+        }
+
+        const batch = db.batch();
+        const now = new Date();
+        const changes: SearchIndexChanges = new Map();
+        snapshot.docs.forEach((doc) => {
+          const data = doc.data();
+          const receipt = this.mapDocumentToReceipt(doc.id, data);
+          const moved = { ...receipt, category: to, updatedAt: now };
+          const version = (data.version ?? 0) + 1;
+
+          batch.update(doc.ref, { category: to, updatedAt: now, version });
+          // create fails the batch if a concurrent update claimed the same version
+          batch.create(
+            this.receiptVersionRepository.versionRef(doc.id, version),
+            this.buildVersion(
+              doc.id,
+              userId,
+              version,
+              { source: 'category', changedBy: userId },
+              moved,
+              [{ field: 'category', from, to }]
+            )
+          );
+
+          addTermChanges(changes, doc.id, extractSearchTerms(receipt), extractSearchTerms(moved));
+        });
+        await batch.commit();
+        await this.updateSearchIndex(userId, changes);
+
+        updated += snapshot.size;
+        if (snapshot.size < pageSize) {
+          break;
+        }
+      }
+
+      logger.info('Receipts moved to category', { userId, from, to, updated });
+
+      return updated;
+    } catch (error) {
+      logger.error('Error moving receipts to category', { userId, from, to, error });
+      throw new AppError('Failed to update receipt categories', 500);
+    }
+  }
+
+  /**
+   * Apply one operation to many receipts in batched writes
+   * Each page of receipts is written in one batch; a failed batch fails only its own receipts.
+   */
+  public async bulkUpdateReceipts(
+    userId: string,
+    receiptIds: string[],
+    operation: BulkOperation
+  ): Promise<BulkWriteResult> {
+    const db = this.getDb();
+    const results: BulkItemResult[] = [];
+    const changed: BulkWriteResult['changed'] = [];
+    const context: ReceiptChangeContext = { source: 'bulk', changedBy: userId };
+    const ids = Array.from(new Set(receiptIds));
+
+    // Each receipt takes at most two writes: the receipt and its new version
+    for (let i = 0; i < ids.length; i += MAX_GET_ALL) {
+      const refs = ids
+        .slice(i, i + MAX_GET_ALL)
+        .map((receiptId) => db.collection(this.receiptsCollection).doc(receiptId));
+
+      let docs;
+      try {
+        docs = await db.getAll(...refs);
+      } catch (error) {
+        logger.error('Error fetching receipts for bulk operation', { userId, error });
+        refs.forEach((ref) =>
+          results.push({ receiptId: ref.id, status: 'failed', error: 'Failed to fetch receipt' })
+        );
+        continue;
+      }
+
+      const batch = db.batch();
+      const now = new Date();
+      const pending: Array<{ previous: Receipt; updated: Receipt }> = [];
+      const changes: SearchIndexChanges = new Map();
+
+      docs.forEach((doc) => {
+        const data = doc.data();
+        // Other users' receipts are reported as missing so their IDs can't be probed
+        if (!data || data.userId !== userId || data.deletedAt) {
+          results.push({ receiptId: doc.id, status: 'failed', error: 'Receipt not found' });
+          return;
+        }
+
+        const previous = this.mapDocumentToReceipt(doc.id, data);
+
+        if (operation.type === 'delete') {
+          batch.update(doc.ref, { deletedAt: now, updatedAt: now });
+          pending.push({ previous, updated: { ...previous, deletedAt: now, updatedAt: now } });
+          return;
+        }
+
+        let updates: UpdateReceiptDto | null;
+        try {
+          updates = getBulkUpdates(previous, operation);
+        } catch (error) {
+          results.push({
+            receiptId: doc.id,
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Invalid change',
+          });
+          return;
+        }
+
+        if (!updates) {
+          results.push({ receiptId: doc.id, status: 'unchanged' });
+          return;
+        }
+
+        const updated = { ...previous, ...updates, updatedAt: now };
+        const updateData: Record<string, unknown> = { ...updates, updatedAt: now };
+        const versionChanges = diffSnapshots(takeSnapshot(previous), takeSnapshot(updated));
+        if (versionChanges.length > 0) {
+          const version = (data.version ?? 0) + 1;
+          updateData.version = version;
+          // create fails the batch if a concurrent update claimed the same version
+          batch.create(
+            this.receiptVersionRepository.versionRef(doc.id, version),
+            this.buildVersion(doc.id, userId, version, context, updated, versionChanges)
+          );
+        }
+
+        batch.update(doc.ref, updateData);
+        addTermChanges(changes, doc.id, extractSearchTerms(previous), extractSearchTerms(updated));
+        pending.push({ previous, updated });
+      });
+
+      if (pending.length === 0) {
+        continue;
+      }
+
+      try {
+        await batch.commit();
+      } catch (error) {
+        logger.error('Error writing bulk receipt batch', { userId, operation, error });
+        pending.forEach(({ previous }) =>
+          results.push({
+            receiptId: previous.id,
+            status: 'failed',
+            error: 'Failed to update receipt',
+          })
+        );
+        continue;
+      }
+
+      await this.updateSearchIndex(userId, changes);
+      pending.forEach((change) => {
+        results.push({ receiptId: change.previous.id, status: 'updated' });
+        changed.push(change);
+      });
+    }
+
+    logger.info('Bulk receipt operation applied', {
+      userId,
+      operation: operation.type,
+      requested: ids.length,
+      updated: changed.length,
+    });
+
+    return { results, changed };
+  }
+
+  /**
+   * Get receipts by ID, skipping missing receipts and receipts of other users
+   */
+  public async getReceiptsByIds(userId: string, receiptIds: string[]): Promise<Receipt[]> {
+    try {
+      const db = this.getDb();
+      const receipts: Receipt[] = [];
+
+      for (let i = 0; i < receiptIds.length; i += MAX_GET_ALL) {
+        const refs = receiptIds
+          .slice(i, i + MAX_GET_ALL)
+          .map((receiptId) => db.collection(this.receiptsCollection).doc(receiptId));
+        const docs = await db.getAll(...refs);
+
+        docs.forEach((doc) => {
+          const data = doc.data();
+          if (data && data.userId === userId) {
+            receipts.push(this.mapDocumentToReceipt(doc.id, data));
+          }
+        });
+      }
+
+      return receipts;
+    } catch (error) {
+      logger.error('Error fetching receipts by ID', { userId, error });
+      throw new AppError('Failed to fetch receipts', 500);
+    }
+  }
+
+  /**
+   * Get a user's receipts whose total matches every amount filter, at most limit of them
+   */
+  public async getReceiptsByAmount(
+    userId: string,
+    filters: AmountFilter[],
+    limit: number
+  ): Promise<Receipt[]> {
+    try {
+      const operators = { eq: '==', gt: '>', gte: '>=', lt: '<', lte: '<=' } as const;
+
+      let query = this.getDb()
+        .collection(this.receiptsCollection)
+        .where('userId', '==', userId)
+        .where('deletedAt', '==', null);
+
+      filters.forEach((filter) => {
+        query = query.where('total', operators[filter.operator], filter.value);
+      });
+
+      const snapshot = await query.limit(limit).get();
+      return snapshot.docs.map((doc) => this.mapDocumentToReceipt(doc.id, doc.data()));
+    } catch (error) {
+      logger.error('Error fetching receipts by amount', { userId, error });
+      throw new AppError('Failed to fetch receipts', 500);
+    }
+  }
+
+  /**
+   * Get the search terms of every receipt of a user, deleted receipts included
+   */
+  public async getSearchTermsByReceipt(userId: string): Promise<Map<string, string[]>> {
+    try {
+      const snapshot = await this.getDb()
+        .collection(this.receiptsCollection)
+        .where('userId', '==', userId)
+        .select('merchant', 'category', 'tags', 'lineItems', 'notes')
+        .get();
+
+      return new Map(
+        snapshot.docs.map((doc) => {
+          const data = doc.data();
+          return [
+            doc.id,
+            extractSearchTerms({
+              merchant: data.merchant,
+              category: data.category,
+              tags: data.tags || [],
+              lineItems: data.lineItems || [],
+              notes: data.notes ?? null,
+            }),
+          ];
+        })
+      );
+    } catch (error) {
+      logger.error('Error fetching receipt search terms', { userId, error });
+      throw new AppError('Failed to fetch receipts', 500);
+    }
+  }
+
   /**
    * Get receipts by tags
    */
@@ -400,92 +1011,247 @@ export class ReceiptRepository {
   }
 
   /**
-   * Get receipt statistics
+   * Get receipts with fields pending human review, oldest first
    */
-  public async getReceiptStats(
+  public async getReceiptsNeedingReview(
     userId: string,
-    startDate?: Date,
-    endDate?: Date,
-    groupBy?: 'category' | 'month'
-  ): Promise<{
-    totalAmount: number;
-    count: number;
-    byCategory?: Record<string, { amount: number; count: number }>;
-    byPeriod?: Record<string, { amount: number; count: number }>;
-  }> {
+    limit = 20,
+    startAfter?: string
+  ): Promise<PaginatedReceipts> {
     try {
       let query = this.getDb()
         .collection(this.receiptsCollection)
         .where('userId', '==', userId)
-        .where('deletedAt', '==', null);
+        .where('deletedAt', '==', null)
+        .where('needsReview', '==', true);
 
-      if (startDate) {
-        query = query.where('date', '>=', startDate);
+      const countSnapshot = await query.count().get();
+      const total = countSnapshot.data().count;
+
+      query = query.orderBy('createdAt', 'asc');
+
+      if (startAfter) {
+        const startAfterDoc = await this.getDb()
+          .collection(this.receiptsCollection)
+          .doc(startAfter)
+          .get();
+        if (startAfterDoc.exists) {
+          query = query.startAfter(startAfterDoc);
+        }
       }
 
-      if (endDate) {
-        query = query.where('date', '<=', endDate);
+      const snapshot = await query.limit(limit).get();
+      const receipts = snapshot.docs.map((doc) => this.mapDocumentToReceipt(doc.id, doc.data()));
+      const hasMore = receipts.length === limit;
+
+      return {
+        receipts,
+        total,
+        limit,
+        hasMore,
+        nextCursor: hasMore ? receipts[receipts.length - 1].id : undefined,
+      };
+    } catch (error) {
+      logger.error('Error fetching receipts needing review', { userId, error });
+      throw new AppError('Failed to fetch review queue', 500);
+    }
+  }
+
+  /**
+   * Set or clear a receipt's duplicate flag
+   * The flag isn't an edit of the receipt, so updatedAt and the version are left alone
+   */
+  public async setDuplicate(
+    receiptId: string,
+    userId: string,
+    duplicate: DuplicateFlag | null
+  ): Promise<Receipt> {
+    try {
+      const receiptRef = this.getDb().collection(this.receiptsCollection).doc(receiptId);
+      const receiptDoc = await receiptRef.get();
+      const data = receiptDoc.data();
+
+      if (!receiptDoc.exists || !data || data.deletedAt) {
+        throw new AppError('Receipt not found', 404);
       }
 
-      const snapshot = await query.get();
+      // Verify ownership
+      if (data.userId !== userId) {
+        throw new AppError('Unauthorized access to receipt', 403);
+      }
 
-      let totalAmount = 0;
-      let count = 0;
-      const byCategory: Record<string, { amount: number; count: number }> = {};
-      const byPeriod: Record<string, { amount: number; count: number }> = {};
+      await receiptRef.update({ duplicate });
 
-      snapshot.forEach((doc) => {
-        const data = doc.data();
-        totalAmount += data.total || 0;
-        count++;
-
-        // Group by category
-        if (groupBy === 'category') {
-          const category = data.category || 'Other';
-          if (!byCategory[category]) {
-            byCategory[category] = { amount: 0, count: 0 };
-          }
-          byCategory[category].amount += data.total || 0;
-          byCategory[category].count++;
-        }
+      logger.info('Receipt duplicate flag updated', {
+        receiptId,
+        userId,
+        originalId: duplicate?.originalId,
+        status: duplicate?.status,
+      });
 
-        // Group by month
-        if (groupBy === 'month') {
-          const date = this.convertFirestoreDate(data.date);
-          const period = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-          if (!byPeriod[period]) {
-            byPeriod[period] = { amount: 0, count: 0 };
-          }
-          byPeriod[period].amount += data.total || 0;
-          byPeriod[period].count++;
+      return this.mapDocumentToReceipt(receiptId, { ...data, duplicate });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error updating receipt duplicate flag', { receiptId, userId, error });
+      throw new AppError('Failed to update receipt', 500);
+    }
+  }
+
+  /**
+   * Get a user's receipts with the given total dated within a range
+   * Candidates for near-duplicate detection
+   */
+  public async getReceiptsByTotalAndDate(
+    userId: string,
+    total: number,
+    startDate: Date,
+    endDate: Date
+  ): Promise<Receipt[]> {
+    try {
+      const snapshot = await this.getDb()
+        .collection(this.receiptsCollection)
+        .where('userId', '==', userId)
+        .where('deletedAt', '==', null)
+        .where('total', '==', total)
+        .where('date', '>=', startDate)
+        .where('date', '<=', endDate)
+        .get();
+
+      return snapshot.docs.map((doc) => this.mapDocumentToReceipt(doc.id, doc.data()));
+    } catch (error) {
+      logger.error('Error fetching receipts by total and date', { userId, error });
+      throw new AppError('Failed to fetch receipts', 500);
+    }
+  }
+
+  /**
+   * Get a user's receipts flagged as duplicates and not yet resolved, newest first
+   */
+  public async getPendingDuplicates(
+    userId: string,
+    limit = 20,
+    startAfter?: string
+  ): Promise<PaginatedReceipts> {
+    try {
+      let query = this.getDb()
+        .collection(this.receiptsCollection)
+        .where('userId', '==', userId)
+        .where('deletedAt', '==', null)
+        .where('duplicate.status', '==', 'pending');
+
+      const countSnapshot = await query.count().get();
+      const total = countSnapshot.data().count;
+
+      query = query.orderBy('createdAt', 'desc');
+
+      if (startAfter) {
+        const startAfterDoc = await this.getDb()
+          .collection(this.receiptsCollection)
+          .doc(startAfter)
+          .get();
+        if (startAfterDoc.exists) {
+          query = query.startAfter(startAfterDoc);
         }
-      });
+      }
+
+      const snapshot = await query.limit(limit).get();
+      const receipts = snapshot.docs.map((doc) => this.mapDocumentToReceipt(doc.id, doc.data()));
+      const hasMore = receipts.length === limit;
 
-      const result: {
-        totalAmount: number;
-        count: number;
-        byCategory?: Record<string, { amount: number; count: number }>;
-        byPeriod?: Record<string, { amount: number; count: number }>;
-      } = {
-        totalAmount,
-        count,
+      return {
+        receipts,
+        total,
+        limit,
+        hasMore,
+        nextCursor: hasMore ? receipts[receipts.length - 1].id : undefined,
       };
+    } catch (error) {
+      logger.error('Error fetching duplicate receipts', { userId, error });
+      throw new AppError('Failed to fetch duplicate receipts', 500);
+    }
+  }
+
+  /**
+   * Get the fields needed for receipt statistics
+   */
+  public async getReceiptsForStats(
+    userId: string,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<Array<Pick<Receipt, 'total' | 'currency' | 'category' | 'date'>>> {
+    try {
+      let query = this.getDb()
+        .collection(this.receiptsCollection)
+        .where('userId', '==', userId)
+        .where('deletedAt', '==', null);
 
-      if (groupBy === 'category') {
-        result.byCategory = byCategory;
+      if (startDate) {
+        query = query.where('date', '>=', startDate);
       }
 
-      if (groupBy === 'month') {
-        result.byPeriod = byPeriod;
+      if (endDate) {
+        query = query.where('date', '<=', endDate);
       }
 
-      return result;
+      const snapshot = await query.select('total', 'currency', 'category', 'date').get();
+
+      return snapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          total: data.total || 0,
+          currency: data.currency,
+          category: data.category || 'Other',
+          date: this.convertFirestoreDate(data.date),
+        };
+      });
     } catch (error) {
       logger.error('Error fetching receipt stats', { userId, error });
       throw new AppError('Failed to fetch receipt statistics', 500);
     }
   }
 
+  /**
+   * Helper method to build a version document for a receipt change
+   */
+  private buildVersion(
+    receiptId: string,
+    userId: string,
+    version: number,
+    context: ReceiptChangeContext,
+    receipt: Partial<Receipt>,
+    changes: ReceiptVersion['changes']
+  ): Omit<ReceiptVersion, 'id'> {
+    return {
+      receiptId,
+      userId,
+      version,
+      source: context.source,
+      changedBy: context.changedBy,
+      changes,
+      snapshot: takeSnapshot(receipt),
+      revertedFrom: context.revertedFrom ?? null,
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * Helper method to convert review timestamps inside persisted field confidence
+   */
+  private mapFieldConfidence(fieldConfidence: DocumentData): ReceiptFieldConfidence {
+    return Object.fromEntries(
+      Object.entries(fieldConfidence).map(([field, entry]) => [
+        field,
+        {
+          ...entry,
+          reviewStatus: entry.reviewStatus ?? null,
+          reviewedAt: entry.reviewedAt ? this.convertFirestoreDate(entry.reviewedAt) : null,
+        },
+      ])
+    );
+  }
+
   /**
    * Helper method to map Firestore document to Receipt interface
    */
@@ -502,7 +1268,16 @@ export class ReceiptRepository {
       tags: data.tags || [],
       lineItems: data.lineItems || [],
       imageUrl: data.imageUrl,
+      attachments: data.attachments ?? attachmentsFromImageUrl(data.imageUrl),
+      notes: data.notes ?? null,
       status: data.status,
+      failureReason: data.failureReason ?? null,
+      fieldConfidence: data.fieldConfidence ? this.mapFieldConfidence(data.fieldConfidence) : null,
+      needsReview: data.needsReview ?? false,
+      parsedValues: data.parsedValues ?? null,
+      duplicate: data.duplicate
+        ? { ...data.duplicate, detectedAt: this.convertFirestoreDate(data.duplicate.detectedAt) }
+        : null,
       createdAt: this.convertFirestoreDate(data.createdAt),
       updatedAt: this.convertFirestoreDate(data.updatedAt),
       deletedAt: data.deletedAt ? this.convertFirestoreDate(data.deletedAt) : null,
@@ -0,0 +1,293 @@
+/**
+ * Receipt rule repository layer - handles Firestore operations for rules and their audit trail
+ */
+
+import { getFirestore } from '../config/firebase';
+import {
+  ReceiptRule,
+  RuleApplication,
+  UpdateReceiptRuleDto,
+  reassignRuleCategory,
+} from '../models/receiptRule.model';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { v4 as uuidv4 } from 'uuid';
+import type { DocumentData } from 'firebase-admin/firestore';
+
+// Firestore allows at most 500 writes per batch
+const MAX_BATCH_SIZE = 500;
+
+export class ReceiptRuleRepository {
+  private rulesCollection = 'receiptRules';
+  private applicationsCollection = 'ruleApplications';
+
+  private getDb() {
+    return getFirestore();
+  }
+
+  /**
+   * Helper method to convert Firestore timestamp to Date
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private convertFirestoreDate(date: any): Date {
+    return date?.toDate ? date.toDate() : new Date(date);
+  }
+
+  /**
+   * Create a rule
+   */
+  public async createRule(
+    userId: string,
+    data: Omit<ReceiptRule, 'id' | 'userId' | 'createdAt' | 'updatedAt'>
+  ): Promise<ReceiptRule> {
+    try {
+      const now = new Date();
+      const ruleId = uuidv4();
+
+      const rule: Omit<ReceiptRule, 'id'> = {
+        userId,
+        ...data,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.getDb().collection(this.rulesCollection).doc(ruleId).set(rule);
+
+      logger.info('Receipt rule created successfully', { ruleId, userId });
+
+      return { id: ruleId, ...rule };
+    } catch (error) {
+      logger.error('Error creating receipt rule', { userId, error });
+      throw new AppError('Failed to create receipt rule', 500);
+    }
+  }
+
+  /**
+   * Get a rule by ID
+   */
+  public async getRuleById(ruleId: string, userId: string): Promise<ReceiptRule | null> {
+    try {
+      const ruleDoc = await this.getDb().collection(this.rulesCollection).doc(ruleId).get();
+      const data = ruleDoc.data();
+
+      if (!ruleDoc.exists || !data) {
+        return null;
+      }
+
+      // Verify ownership
+      if (data.userId !== userId) {
+        throw new AppError('Unauthorized access to receipt rule', 403);
+      }
+
+      return this.mapDocumentToRule(ruleDoc.id, data);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error fetching receipt rule', { ruleId, userId, error });
+      throw new AppError('Failed to fetch receipt rule', 500);
+    }
+  }
+
+  /**
+   * Get a user's rules
+   */
+  public async getRulesByUserId(userId: string): Promise<ReceiptRule[]> {
+    try {
+      const snapshot = await this.getDb()
+        .collection(this.rulesCollection)
+        .where('userId', '==', userId)
+        .get();
+
+      return snapshot.docs.map((doc) => this.mapDocumentToRule(doc.id, doc.data()));
+    } catch (error) {
+      logger.error('Error fetching receipt rules', { userId, error });
+      throw new AppError('Failed to fetch receipt rules', 500);
+    }
+  }
+
+  /**
+   * Update a rule
+   */
+  public async updateRule(ruleId: string, updates: UpdateReceiptRuleDto): Promise<ReceiptRule> {
+    try {
+      const ruleRef = this.getDb().collection(this.rulesCollection).doc(ruleId);
+
+      await ruleRef.update({
+        ...updates,
+        updatedAt: new Date(),
+      });
+
+      const updatedDoc = await ruleRef.get();
+      const data = updatedDoc.data();
+      if (!data) {
+        throw new AppError('Failed to retrieve updated receipt rule', 500);
+      }
+
+      logger.info('Receipt rule updated successfully', { ruleId });
+
+      return this.mapDocumentToRule(updatedDoc.id, data);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error updating receipt rule', { ruleId, error });
+      throw new AppError('Failed to update receipt rule', 500);
+    }
+  }
+
+  /**
+   * Point a user's rules that set or test a category name at another name
+   */
+  public async reassignCategory(userId: string, from: string, to: string): Promise<number> {
+    try {
+      const db = this.getDb();
+      const snapshot = await db
+        .collection(this.rulesCollection)
+        .where('userId', '==', userId)
+        .get();
+
+      const batch = db.batch();
+      const now = new Date();
+      let updated = 0;
+      snapshot.docs.forEach((doc) => {
+        const rule = this.mapDocumentToRule(doc.id, doc.data());
+        const changes = reassignRuleCategory(rule, from, to);
+        if (changes) {
+          batch.update(doc.ref, { ...changes, updatedAt: now });
+          updated++;
+        }
+      });
+
+      if (updated > 0) {
+        await batch.commit();
+      }
+
+      return updated;
+    } catch (error) {
+      logger.error('Error moving receipt rules to category', { userId, from, to, error });
+      throw new AppError('Failed to update receipt rule categories', 500);
+    }
+  }
+
+  /**
+   * Delete a rule; its history is kept
+   */
+  public async deleteRule(ruleId: string): Promise<void> {
+    try {
+      await this.getDb().collection(this.rulesCollection).doc(ruleId).delete();
+    } catch (error) {
+      logger.error('Error deleting receipt rule', { ruleId, error });
+      throw new AppError('Failed to delete receipt rule', 500);
+    }
+  }
+
+  /**
+   * Record the changes rules made to a receipt
+   */
+  public async createApplication(
+    application: Omit<RuleApplication, 'id'>
+  ): Promise<RuleApplication> {
+    try {
+      const applicationId = uuidv4();
+      await this.getDb()
+        .collection(this.applicationsCollection)
+        .doc(applicationId)
+        .set(application);
+      return { id: applicationId, ...application };
+    } catch (error) {
+      logger.error('Error recording rule application', {
+        receiptId: application.receiptId,
+        error,
+      });
+      throw new AppError('Failed to record rule application', 500);
+    }
+  }
+
+  /**
+   * Get a user's rule history, optionally for one receipt, most recent first
+   */
+  public async getApplications(
+    userId: string,
+    limit: number,
+    receiptId?: string
+  ): Promise<RuleApplication[]> {
+    try {
+      let query = this.getDb()
+        .collection(this.applicationsCollection)
+        .where('userId', '==', userId);
+
+      if (receiptId) {
+        query = query.where('receiptId', '==', receiptId);
+      }
+
+      const snapshot = await query.orderBy('appliedAt', 'desc').limit(limit).get();
+
+      return snapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          userId: data.userId,
+          receiptId: data.receiptId,
+          trigger: data.trigger,
+          changes: data.changes || [],
+          appliedAt: this.convertFirestoreDate(data.appliedAt),
+        };
+      });
+    } catch (error) {
+      logger.error('Error fetching rule history', { userId, receiptId, error });
+      throw new AppError('Failed to fetch rule history', 500);
+    }
+  }
+
+  /**
+   * Delete the rule history of a receipt
+   */
+  public async deleteApplications(receiptId: string): Promise<void> {
+    try {
+      const db = this.getDb();
+
+      // Deleted applications drop out of the query, so each page starts from the top
+      for (;;) {
+        const snapshot = await db
+          .collection(this.applicationsCollection)
+          .where('receiptId', '==', receiptId)
+          .limit(MAX_BATCH_SIZE)
+          .get();
+
+        if (snapshot.empty) {
+          break;
+        }
+
+        const batch = db.batch();
+        snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+        await batch.commit();
+
+        if (snapshot.size < MAX_BATCH_SIZE) {
+          break;
+        }
+      }
+    } catch (error) {
+      logger.error('Error deleting rule history', { receiptId, error });
+      throw new AppError('Failed to delete rule history', 500);
+    }
+  }
+
+  /**
+   * Helper method to map Firestore document to ReceiptRule interface
+   */
+  private mapDocumentToRule(id: string, data: DocumentData): ReceiptRule {
+    return {
+      id,
+      userId: data.userId,
+      name: data.name,
+      priority: data.priority ?? 100,
+      enabled: data.enabled ?? true,
+      conditions: data.conditions || [],
+      actions: data.actions || {},
+      stopProcessing: data.stopProcessing ?? false,
+      createdAt: this.convertFirestoreDate(data.createdAt),
+      updatedAt: this.convertFirestoreDate(data.updatedAt),
+    };
+  }
+}
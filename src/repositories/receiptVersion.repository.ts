@@ -0,0 +1,156 @@
+/**
+ * Receipt version repository layer - handles Firestore operations for receipt edit history
+ * Versions are written by ReceiptRepository in the same transaction or batch as the receipt.
+ */
+
+import { getFirestore } from '../config/firebase';
+import { ReceiptSnapshot, ReceiptVersion } from '../models/receiptVersion.model';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import type { DocumentData, DocumentReference } from 'firebase-admin/firestore';
+
+// Firestore allows at most 500 writes per batch
+const MAX_BATCH_SIZE = 500;
+
+export class ReceiptVersionRepository {
+  private versionsCollection = 'receiptVersions';
+
+  private getDb() {
+    return getFirestore();
+  }
+
+  /**
+   * Helper method to convert Firestore timestamp to Date
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private convertFirestoreDate(date: any): Date {
+    return date?.toDate ? date.toDate() : new Date(date);
+  }
+
+  /**
+   * Get the document reference for a receipt version
+   * The ID is deterministic so two writers can't both create the same version.
+   */
+  public versionRef(receiptId: string, version: number): DocumentReference {
+    return this.getDb().collection(this.versionsCollection).doc(`${receiptId}:${version}`);
+  }
+
+  /**
+   * Get a receipt's versions, newest first
+   */
+  public async getVersions(
+    receiptId: string,
+    limit: number,
+    startAfter?: number
+  ): Promise<ReceiptVersion[]> {
+    try {
+      let query = this.getDb()
+        .collection(this.versionsCollection)
+        .where('receiptId', '==', receiptId)
+        .orderBy('version', 'desc');
+
+      if (startAfter !== undefined) {
+        query = query.startAfter(startAfter);
+      }
+
+      const snapshot = await query.limit(limit).get();
+      return snapshot.docs.map((doc) => this.mapDocumentToVersion(doc.id, doc.data()));
+    } catch (error) {
+      logger.error('Error fetching receipt history', { receiptId, error });
+      throw new AppError('Failed to fetch receipt history', 500);
+    }
+  }
+
+  /**
+   * Get one version of a receipt
+   */
+  public async getVersion(receiptId: string, version: number): Promise<ReceiptVersion | null> {
+    try {
+      const versionDoc = await this.versionRef(receiptId, version).get();
+      const data = versionDoc.data();
+
+      if (!versionDoc.exists || !data) {
+        return null;
+      }
+
+      return this.mapDocumentToVersion(versionDoc.id, data);
+    } catch (error) {
+      logger.error('Error fetching receipt version', { receiptId, version, error });
+      throw new AppError('Failed to fetch receipt version', 500);
+    }
+  }
+
+  /**
+   * Delete every version of a receipt
+   */
+  public async deleteVersions(receiptId: string): Promise<void> {
+    try {
+      const db = this.getDb();
+
+      // Deleted versions drop out of the query, so each page starts from the top
+      for (;;) {
+        const snapshot = await db
+          .collection(this.versionsCollection)
+          .where('receiptId', '==', receiptId)
+          .limit(MAX_BATCH_SIZE)
+          .get();
+
+        if (snapshot.empty) {
+          break;
+        }
+
+        const batch = db.batch();
+        snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+        await batch.commit();
+
+        if (snapshot.size < MAX_BATCH_SIZE) {
+          break;
+        }
+      }
+    } catch (error) {
+      logger.error('Error deleting receipt history', { receiptId, error });
+      throw new AppError('Failed to delete receipt history', 500);
+    }
+  }
+
+  /**
+   * Helper method to map a stored snapshot, converting its date
+   */
+  private mapSnapshot(data: DocumentData): ReceiptSnapshot {
+    return {
+      merchant: data.merchant,
+      date: this.convertFirestoreDate(data.date),
+      total: data.total,
+      tax: data.tax ?? null,
+      currency: data.currency ?? null,
+      category: data.category,
+      tags: data.tags || [],
+      lineItems: data.lineItems || [],
+      imageUrl: data.imageUrl ?? null,
+      attachments: data.attachments ?? null,
+      notes: data.notes ?? null,
+    };
+  }
+
+  /**
+   * Helper method to map Firestore document to ReceiptVersion interface
+   */
+  private mapDocumentToVersion(id: string, data: DocumentData): ReceiptVersion {
+    return {
+      id,
+      receiptId: data.receiptId,
+      userId: data.userId,
+      version: data.version,
+      source: data.source,
+      changedBy: data.changedBy ?? null,
+      changes: (data.changes || []).map((change: DocumentData) => ({
+        field: change.field,
+        from: change.field === 'date' ? this.convertFirestoreDate(change.from) : change.from,
+        to: change.field === 'date' ? this.convertFirestoreDate(change.to) : change.to,
+      })),
+      snapshot: this.mapSnapshot(data.snapshot || {}),
+      revertedFrom: data.revertedFrom ?? null,
+      createdAt: this.convertFirestoreDate(data.createdAt),
+    };
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Search index repository layer - handles Firestore operations for the receipt search index
+ * Each document holds one user's postings for one term: the IDs of receipts containing it.
+ */
+
+import { getFirestore } from '../config/firebase';
+import { SearchIndexChanges } from '../models/search.model';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { FieldValue } from 'firebase-admin/firestore';
+
+// Firestore allows at most 500 writes per batch
+const MAX_BATCH_SIZE = 500;
+
+export class SearchIndexRepository {
+  private indexCollection = 'searchIndex';
+
+  private getDb() {
+    return getFirestore();
+  }
+
+  /**
+   * Helper method to build the document ID for a user's term
+   */
+  private entryId(userId: string, term: string): string {
+    return `${userId}:${term}`;
+  }
+
+  /**
+   * Get every term indexed for a user
+   */
+  public async getTerms(userId: string): Promise<string[]> {
+    try {
+      const snapshot = await this.getDb()
+        .collection(this.indexCollection)
+        .where('userId', '==', userId)
+        .select('term')
+        .get();
+
+      return snapshot.docs.map((doc) => doc.data().term as string);
+    } catch (error) {
+      logger.error('Error fetching search terms', { userId, error });
+      throw new AppError('Failed to search receipts', 500);
+    }
+  }
+
+  /**
+   * Get the terms indexed for a user that start with a prefix, in term order
+   */
+  public async getTermsByPrefix(userId: string, prefix: string, limit: number): Promise<string[]> {
+    try {
+      const snapshot = await this.getDb()
+        .collection(this.indexCollection)
+        .where('userId', '==', userId)
+        .where('term', '>=', prefix)
+        .where('term', '<', `${prefix}\uf8ff`)
+        .orderBy('term', 'asc')
+        .limit(limit)
+        .select('term')
+        .get();
+
+      return snapshot.docs.map((doc) => doc.data().term as string);
+    } catch (error) {
+      logger.error('Error fetching search terms by prefix', { userId, error });
+      throw new AppError('Failed to search receipts', 500);
+    }
+  }
+
+  /**
+   * Get the receipt IDs indexed under each term
+   */
+  public async getPostings(userId: string, terms: string[]): Promise<Map<string, string[]>> {
+    try {
+      const postings = new Map<string, string[]>();
+      if (terms.length === 0) {
+        return postings;
+      }
+
+      const db = this.getDb();
+      const refs = terms.map((term) =>
+        db.collection(this.indexCollection).doc(this.entryId(userId, term))
+      );
+      const docs = await db.getAll(...refs);
+
+      docs.forEach((doc) => {
+        const data = doc.data();
+        if (data) {
+          postings.set(data.term, data.receiptIds || []);
+        }
+      });
+
+      return postings;
+    } catch (error) {
+      logger.error('Error fetching search postings', { userId, error });
+      throw new AppError('Failed to search receipts', 500);
+    }
+  }
+
+  /**
+   * Add and remove receipts from term postings
+   */
+  public async applyChanges(userId: string, changes: SearchIndexChanges): Promise<void> {
+    try {
+      const db = this.getDb();
+      let batch = db.batch();
+      let writes = 0;
+
+      for (const [term, change] of changes) {
+        const ref = db.collection(this.indexCollection).doc(this.entryId(userId, term));
+
+        if (change.added.length > 0) {
+          batch.set(
+            ref,
+            { userId, term, receiptIds: FieldValue.arrayUnion(...change.added) },
+            { merge: true }
+          );
+          writes++;
+        }
+
+        if (change.removed.length > 0) {
+          batch.set(
+            ref,
+            { userId, term, receiptIds: FieldValue.arrayRemove(...change.removed) },
+            { merge: true }
+          );
+          writes++;
+        }
+
+        if (writes >= MAX_BATCH_SIZE - 1) {
+          await batch.commit();
+          batch = db.batch();
+          writes = 0;
+        }
+      }
+
+      if (writes > 0) {
+        await batch.commit();
+      }
+    } catch (error) {
+      logger.error('Error updating search index', { userId, error });
+      throw new AppError('Failed to update search index', 500);
+    }
+  }
+
+  /**
+   * Replace a user's whole index with freshly built postings
+   */
+  public async replaceIndex(userId: string, postings: Map<string, string[]>): Promise<void> {
+    try {
+      const db = this.getDb();
+
+      // Remove existing entries page by page; deleted entries drop out of the query
+      for (;;) {
+        const snapshot = await db
+          .collection(this.indexCollection)
+          .where('userId', '==', userId)
+          .limit(MAX_BATCH_SIZE)
+          .get();
+
+        if (snapshot.empty) {
+          break;
+        }
+
+        const batch = db.batch();
+        snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+        await batch.commit();
+
+        if (snapshot.size < MAX_BATCH_SIZE) {
+          break;
+        }
+      }
+
+      const entries = Array.from(postings.entries());
+      for (let i = 0; i < entries.length; i += MAX_BATCH_SIZE) {
+        const batch = db.batch();
+        entries.slice(i, i + MAX_BATCH_SIZE).forEach(([term, receiptIds]) => {
+          batch.set(db.collection(this.indexCollection).doc(this.entryId(userId, term)), {
+            userId,
+            term,
+            receiptIds,
+          });
+        });
+        await batch.commit();
+      }
+
+      logger.info('Search index rebuilt', { userId, terms: entries.length });
+    } catch (error) {
+      logger.error('Error rebuilding search index', { userId, error });
+      throw new AppError('Failed to rebuild search index', 500);
+    }
+  }
+}
@@ -0,0 +1,398 @@
+/**
+ * Security repository layer - pluggable storage for rate limit counters, IP abuse tracking
+ * and admin IP rules
+ */
+
+import { getFirestore } from '../config/firebase';
+import { IPRule, IPTracker, RateLimitHits, TrackedIP } from '../models/security.model';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { FieldValue } from 'firebase-admin/firestore';
+import type { DocumentData } from 'firebase-admin/firestore';
+
+// Firestore allows at most 500 writes per batch
+const MAX_BATCH_SIZE = 500;
+
+// Each rate limit window is counted across this many documents so bursts don't contend on one
+const RATE_LIMIT_SHARDS = 4;
+
+/**
+ * Receives the current tracker (null if the IP isn't tracked) and returns the new one,
+ * or null to stop tracking the IP. May be called more than once, so it must not have side effects.
+ */
+export type IPTrackerUpdate = (tracker: IPTracker | null) => IPTracker | null;
+
+/**
+ * Storage contract used by the rate limiters and abuse detection
+ * incrementHits and updateIPTracker must be atomic so that instances sharing a store
+ * never lose each other's counts
+ */
+export interface SecurityStore {
+  incrementHits(key: string, windowMs: number): Promise<RateLimitHits>;
+  decrementHits(key: string, windowMs: number): Promise<void>;
+  resetHits(key: string, windowMs: number): Promise<void>;
+  getIPTracker(ip: string): Promise<IPTracker | null>;
+  updateIPTracker(ip: string, update: IPTrackerUpdate): Promise<IPTracker | null>;
+  deleteIPTracker(ip: string): Promise<void>;
+  listIPTrackers(): Promise<TrackedIP[]>;
+  listIPRules(): Promise<IPRule[]>;
+  saveIPRule(rule: IPRule): Promise<void>;
+  deleteIPRule(ruleId: string): Promise<void>;
+  deleteExpired(now: number): Promise<number>;
+}
+
+/**
+ * Firestore-backed security store (default for deployed environments)
+ */
+export class FirestoreSecurityStore implements SecurityStore {
+  private rateLimitsCollection = 'rateLimits';
+  private ipTrackingCollection = 'ipTracking';
+  private ipRulesCollection = 'ipRules';
+
+  private getDb() {
+    return getFirestore();
+  }
+
+  /**
+   * Helper method to convert Firestore timestamp to Date
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private convertFirestoreDate(date: any): Date {
+    return date?.toDate ? date.toDate() : new Date(date);
+  }
+
+  /**
+   * Helper method to turn a key into a document ID
+   * Keys contain characters Firestore doesn't allow in IDs, such as the slash of an IPv6 subnet
+   */
+  private toDocumentId(key: string): string {
+    return encodeURIComponent(key);
+  }
+
+  /**
+   * Helper method to get the shard documents counting a key's current window
+   * Windows are aligned to multiples of windowMs so every instance counts into the same documents
+   */
+  private getHitShards(key: string, windowMs: number) {
+    const now = Date.now();
+    const windowStart = now - (now % windowMs);
+    const collection = this.getDb().collection(this.rateLimitsCollection);
+
+    return {
+      resetTime: new Date(windowStart + windowMs),
+      refs: Array.from({ length: RATE_LIMIT_SHARDS }, (_, shard) =>
+        collection.doc(this.toDocumentId(`${key}|${windowStart}|${shard}`))
+      ),
+    };
+  }
+
+  /**
+   * Helper method to add to a random shard of a key's current window
+   * Server-side increments don't need a transaction, so concurrent requests never abort each other
+   */
+  private async addHits(key: string, windowMs: number, hits: number) {
+    const { resetTime, refs } = this.getHitShards(key, windowMs);
+    const shardRef = refs[Math.floor(Math.random() * refs.length)];
+    await shardRef.set(
+      { key, hits: FieldValue.increment(hits), resetTime, expiresAt: resetTime },
+      { merge: true }
+    );
+    return { resetTime, refs };
+  }
+
+  public async incrementHits(key: string, windowMs: number): Promise<RateLimitHits> {
+    try {
+      const { resetTime, refs } = await this.addHits(key, windowMs, 1);
+
+      // The sum can miss increments still being written, so the count is approximate
+      const shards = await this.getDb().getAll(...refs);
+      const totalHits = shards.reduce((sum, shard) => sum + (shard.data()?.hits || 0), 0);
+
+      return { totalHits, resetTime };
+    } catch (error) {
+      logger.error('Error incrementing rate limit hits', { key, error });
+      throw new AppError('Failed to increment rate limit hits', 500);
+    }
+  }
+
+  public async decrementHits(key: string, windowMs: number): Promise<void> {
+    try {
+      await this.addHits(key, windowMs, -1);
+    } catch (error) {
+      logger.error('Error decrementing rate limit hits', { key, error });
+      throw new AppError('Failed to decrement rate limit hits', 500);
+    }
+  }
+
+  public async resetHits(key: string, windowMs: number): Promise<void> {
+    try {
+      const batch = this.getDb().batch();
+      this.getHitShards(key, windowMs).refs.forEach((ref) => batch.delete(ref));
+      await batch.commit();
+    } catch (error) {
+      logger.error('Error resetting rate limit hits', { key, error });
+      throw new AppError('Failed to reset rate limit hits', 500);
+    }
+  }
+
+  public async getIPTracker(ip: string): Promise<IPTracker | null> {
+    try {
+      const trackerDoc = await this.getDb()
+        .collection(this.ipTrackingCollection)
+        .doc(this.toDocumentId(ip))
+        .get();
+      const data = trackerDoc.data();
+      if (!trackerDoc.exists || !data) {
+        return null;
+      }
+      return this.mapDocumentToIPTracker(data);
+    } catch (error) {
+      logger.error('Error fetching IP tracker', { ip, error });
+      throw new AppError('Failed to fetch IP tracker', 500);
+    }
+  }
+
+  public async updateIPTracker(ip: string, update: IPTrackerUpdate): Promise<IPTracker | null> {
+    try {
+      const db = this.getDb();
+      const trackerRef = db.collection(this.ipTrackingCollection).doc(this.toDocumentId(ip));
+
+      return await db.runTransaction(async (transaction) => {
+        const trackerDoc = await transaction.get(trackerRef);
+        const data = trackerDoc.data();
+        const tracker = update(
+          trackerDoc.exists && data ? this.mapDocumentToIPTracker(data) : null
+        );
+
+        if (tracker) {
+          transaction.set(trackerRef, {
+            ip,
+            failedAttempts: tracker.failedAttempts,
+            firstFailureTime: tracker.firstFailureTime,
+            blockedUntil: tracker.blockedUntil ?? null,
+            expiresAt: new Date(tracker.expiresAt),
+          });
+        } else if (trackerDoc.exists) {
+          transaction.delete(trackerRef);
+        }
+
+        return tracker;
+      });
+    } catch (error) {
+      logger.error('Error updating IP tracker', { ip, error });
+      throw new AppError('Failed to update IP tracker', 500);
+    }
+  }
+
+  public async deleteIPTracker(ip: string): Promise<void> {
+    try {
+      await this.getDb().collection(this.ipTrackingCollection).doc(this.toDocumentId(ip)).delete();
+    } catch (error) {
+      logger.error('Error deleting IP tracker', { ip, error });
+      throw new AppError('Failed to delete IP tracker', 500);
+    }
+  }
+
+  public async listIPTrackers(): Promise<TrackedIP[]> {
+    try {
+      const snapshot = await this.getDb().collection(this.ipTrackingCollection).get();
+
+      return snapshot.docs.map((doc) => ({
+        ip: doc.data().ip,
+        ...this.mapDocumentToIPTracker(doc.data()),
+      }));
+    } catch (error) {
+      logger.error('Error listing IP trackers', { error });
+      throw new AppError('Failed to list IP trackers', 500);
+    }
+  }
+
+  public async listIPRules(): Promise<IPRule[]> {
+    try {
+      const snapshot = await this.getDb()
+        .collection(this.ipRulesCollection)
+        .orderBy('createdAt', 'desc')
+        .get();
+
+      return snapshot.docs.map((doc) => this.mapDocumentToIPRule(doc.id, doc.data()));
+    } catch (error) {
+      logger.error('Error listing IP rules', { error });
+      throw new AppError('Failed to list IP rules', 500);
+    }
+  }
+
+  public async saveIPRule(rule: IPRule): Promise<void> {
+    try {
+      const { id, ...data } = rule;
+      await this.getDb().collection(this.ipRulesCollection).doc(id).set(data);
+    } catch (error) {
+      logger.error('Error saving IP rule', { ruleId: rule.id, error });
+      throw new AppError('Failed to save IP rule', 500);
+    }
+  }
+
+  public async deleteIPRule(ruleId: string): Promise<void> {
+    try {
+      await this.getDb().collection(this.ipRulesCollection).doc(ruleId).delete();
+    } catch (error) {
+      logger.error('Error deleting IP rule', { ruleId, error });
+      throw new AppError('Failed to delete IP rule', 500);
+    }
+  }
+
+  public async deleteExpired(now: number): Promise<number> {
+    try {
+      const db = this.getDb();
+      let deleted = 0;
+
+      // Rules without an expiry have a null expiresAt, which the range filter skips
+      for (const collection of [
+        this.rateLimitsCollection,
+        this.ipTrackingCollection,
+        this.ipRulesCollection,
+      ]) {
+        // Delete a batch at a time until no expired documents are left
+        for (;;) {
+          const snapshot = await db
+            .collection(collection)
+            .where('expiresAt', '<', new Date(now))
+            .limit(MAX_BATCH_SIZE)
+            .get();
+          if (snapshot.empty) {
+            break;
+          }
+
+          const batch = db.batch();
+          snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+          await batch.commit();
+          deleted += snapshot.size;
+        }
+      }
+
+      return deleted;
+    } catch (error) {
+      logger.error('Error deleting expired security entries', { error });
+      throw new AppError('Failed to delete expired security entries', 500);
+    }
+  }
+
+  /**
+   * Helper method to map Firestore document to IPTracker interface
+   */
+  private mapDocumentToIPTracker(data: DocumentData): IPTracker {
+    return {
+      failedAttempts: data.failedAttempts,
+      firstFailureTime: data.firstFailureTime,
+      ...(data.blockedUntil && { blockedUntil: data.blockedUntil }),
+      expiresAt: this.convertFirestoreDate(data.expiresAt).getTime(),
+    };
+  }
+
+  /**
+   * Helper method to map Firestore document to IPRule interface
+   */
+  private mapDocumentToIPRule(id: string, data: DocumentData): IPRule {
+    return {
+      id,
+      type: data.type,
+      cidr: data.cidr,
+      reason: data.reason ?? null,
+      createdBy: data.createdBy,
+      createdAt: this.convertFirestoreDate(data.createdAt),
+      expiresAt: data.expiresAt ? this.convertFirestoreDate(data.expiresAt) : null,
+    };
+  }
+}
+
+/**
+ * In-memory security store for local development and tests
+ * Counts are per process and lost on restart
+ */
+export class InMemorySecurityStore implements SecurityStore {
+  private hits = new Map<string, RateLimitHits>();
+  private ipTrackers = new Map<string, IPTracker>();
+  private ipRules = new Map<string, IPRule>();
+
+  public async incrementHits(key: string, windowMs: number): Promise<RateLimitHits> {
+    const now = Date.now();
+    const current = this.hits.get(key);
+    const updated =
+      current && current.resetTime.getTime() > now
+        ? { totalHits: current.totalHits + 1, resetTime: current.resetTime }
+        : { totalHits: 1, resetTime: new Date(now + windowMs) };
+
+    this.hits.set(key, updated);
+    return { ...updated };
+  }
+
+  public async decrementHits(key: string): Promise<void> {
+    const current = this.hits.get(key);
+    if (current) {
+      this.hits.set(key, { ...current, totalHits: Math.max(0, current.totalHits - 1) });
+    }
+  }
+
+  public async resetHits(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+
+  public async getIPTracker(ip: string): Promise<IPTracker | null> {
+    const tracker = this.ipTrackers.get(ip);
+    return tracker ? { ...tracker } : null;
+  }
+
+  public async updateIPTracker(ip: string, update: IPTrackerUpdate): Promise<IPTracker | null> {
+    const tracker = update(await this.getIPTracker(ip));
+    if (tracker) {
+      this.ipTrackers.set(ip, { ...tracker });
+    } else {
+      this.ipTrackers.delete(ip);
+    }
+    return tracker;
+  }
+
+  public async deleteIPTracker(ip: string): Promise<void> {
+    this.ipTrackers.delete(ip);
+  }
+
+  public async listIPTrackers(): Promise<TrackedIP[]> {
+    return Array.from(this.ipTrackers.entries()).map(([ip, tracker]) => ({ ip, ...tracker }));
+  }
+
+  public async listIPRules(): Promise<IPRule[]> {
+    return Array.from(this.ipRules.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map((rule) => ({ ...rule }));
+  }
+
+  public async saveIPRule(rule: IPRule): Promise<void> {
+    this.ipRules.set(rule.id, { ...rule });
+  }
+
+  public async deleteIPRule(ruleId: string): Promise<void> {
+    this.ipRules.delete(ruleId);
+  }
+
+  public async deleteExpired(now: number): Promise<number> {
+    let deleted = 0;
+    for (const [key, hits] of this.hits.entries()) {
+      if (hits.resetTime.getTime() < now) {
+        this.hits.delete(key);
+        deleted++;
+      }
+    }
+    for (const [ip, tracker] of this.ipTrackers.entries()) {
+      if (tracker.expiresAt < now) {
+        this.ipTrackers.delete(ip);
+        deleted++;
+      }
+    }
+    for (const [ruleId, rule] of this.ipRules.entries()) {
+      if (rule.expiresAt && rule.expiresAt.getTime() < now) {
+        this.ipRules.delete(ruleId);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+}
@@ -0,0 +1,939 @@
+/**
+ * Admin routes - restricted to users with the admin role
+ */
+
+import { Router } from 'express';
+import { JobController } from '../controllers/job.controller';
+import { ExchangeRateController } from '../controllers/exchangeRate.controller';
+import { SecurityController } from '../controllers/security.controller';
+import { AuditLogController } from '../controllers/auditLog.controller';
+import { authMiddleware } from '../middleware/auth';
+import { requireAdmin } from '../middleware/rbac';
+
+const router = Router();
+const jobController = new JobController();
+const exchangeRateController = new ExchangeRateController();
+const securityController = new SecurityController();
+const auditLogController = new AuditLogController();
+
+// Every admin route requires an authenticated admin
+router.use(authMiddleware, requireAdmin);
+
+/**
+ * @openapi
+ * /admin/jobs/dead-letter:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: List dead-letter jobs
+ *     description: |
+ *       Lists background jobs that exhausted all retry attempts, most recent first.
+ *
+ *       **Requires:** admin role
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *         description: Maximum number of jobs to return
+ *       - in: query
+ *         name: startAfter
+ *         schema:
+ *           type: string
+ *         description: Cursor for pagination (job ID from previous page)
+ *     responses:
+ *       200:
+ *         description: Dead-letter jobs retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     jobs:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/DeadLetterJob'
+ *                     pagination:
+ *                       type: object
+ *                       properties:
+ *                         limit:
+ *                           type: number
+ *                         hasMore:
+ *                           type: boolean
+ *                         nextCursor:
+ *                           type: string
+ *                           nullable: true
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/jobs/dead-letter', jobController.listDeadLetterJobs);
+
+/**
+ * @openapi
+ * /admin/jobs/dead-letter/{jobId}:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: Get a dead-letter job
+ *     description: |
+ *       Returns a permanently failed job with its payload and last error.
+ *
+ *       **Requires:** admin role
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Job ID
+ *     responses:
+ *       200:
+ *         description: Dead-letter job retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     job:
+ *                       $ref: '#/components/schemas/DeadLetterJob'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Dead-letter job not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/jobs/dead-letter/:jobId', jobController.getDeadLetterJob);
+
+/**
+ * @openapi
+ * /admin/jobs/dead-letter/{jobId}/replay:
+ *   post:
+ *     tags:
+ *       - Admin
+ *     summary: Replay a dead-letter job
+ *     description: |
+ *       Re-queues a permanently failed job with a fresh attempt budget and removes it
+ *       from the dead-letter collection.
+ *
+ *       **Requires:** admin role
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Job ID
+ *     responses:
+ *       202:
+ *         description: Job re-queued successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Job re-queued successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     job:
+ *                       $ref: '#/components/schemas/Job'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Dead-letter job not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/jobs/dead-letter/:jobId/replay', jobController.replayDeadLetterJob);
+
+/**
+ * @openapi
+ * /admin/exchange-rates:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: List exchange rate snapshots
+ *     description: |
+ *       Lists the stored daily exchange rate snapshots, most recent first.
+ *
+ *       **Requires:** admin role
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 30
+ *         description: Maximum number of snapshots to return
+ *       - in: query
+ *         name: startAfter
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Cursor for pagination (snapshot date from previous page)
+ *     responses:
+ *       200:
+ *         description: Exchange rate snapshots retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     snapshots:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ExchangeRateSnapshot'
+ *                     pagination:
+ *                       type: object
+ *                       properties:
+ *                         limit:
+ *                           type: number
+ *                         hasMore:
+ *                           type: boolean
+ *                         nextCursor:
+ *                           type: string
+ *                           nullable: true
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   post:
+ *     tags:
+ *       - Admin
+ *     summary: Import exchange rate snapshots
+ *     description: |
+ *       Stores daily exchange rate snapshots, replacing any existing snapshot for the same day.
+ *       Receipts are converted with the latest snapshot on or before the receipt date. The body
+ *       uses the same format as the `EXCHANGE_RATES_FILE` seed file.
+ *
+ *       **Requires:** admin role
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - snapshots
+ *             properties:
+ *               snapshots:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 5000
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - date
+ *                     - base
+ *                     - rates
+ *                   properties:
+ *                     date:
+ *                       type: string
+ *                       format: date
+ *                       example: '2024-01-15'
+ *                     base:
+ *                       $ref: '#/components/schemas/Currency'
+ *                     rates:
+ *                       type: object
+ *                       additionalProperties:
+ *                         type: number
+ *                       example:
+ *                         EUR: 0.9152
+ *                         BRL: 4.9121
+ *                     source:
+ *                       type: string
+ *                       example: ECB reference rates
+ *     responses:
+ *       200:
+ *         description: Exchange rates imported successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Exchange rates imported successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     imported:
+ *                       type: number
+ *                       example: 30
+ *       400:
+ *         description: Invalid snapshot data
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/exchange-rates', exchangeRateController.listExchangeRates);
+router.post('/exchange-rates', exchangeRateController.importExchangeRates);
+
+/**
+ * @openapi
+ * /admin/security/ips:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: List tracked IPs
+ *     description: |
+ *       Lists IP addresses with recent failed attempts (invalid tokens, exceeded rate limits)
+ *       and whether they are automatically blocked.
+ *
+ *       **Requires:** admin role
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tracked IPs retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     totalTracked:
+ *                       type: number
+ *                     blocked:
+ *                       type: number
+ *                     tracking:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/TrackedIP'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/security/ips', securityController.getTrackedIPs);
+
+/**
+ * @openapi
+ * /admin/security/ips/{ip}:
+ *   delete:
+ *     tags:
+ *       - Admin
+ *     summary: Clear a tracked IP
+ *     description: |
+ *       Forgets an IP's failed attempts, lifting its automatic block. Admin blocks are removed
+ *       with `DELETE /admin/security/blocks/{ruleId}`.
+ *
+ *       **Requires:** admin role
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: ip
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: IP address
+ *     responses:
+ *       200:
+ *         description: IP cleared successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: IP address is not tracked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/security/ips/:ip', securityController.clearTrackedIP);
+
+/**
+ * @openapi
+ * /admin/security/blocks:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: List IP blocks
+ *     description: |
+ *       Lists IP addresses and ranges blocked by admins that are still in effect, newest first.
+ *
+ *       **Requires:** admin role
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Rules retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     rules:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/IPRule'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   post:
+ *     tags:
+ *       - Admin
+ *     summary: Block an IP address or range
+ *     description: |
+ *       Rejects all requests from an IP address or CIDR range with `403`, unless it is on the
+ *       allowlist. Takes effect on other instances within 30 seconds.
+ *
+ *       **Requires:** admin role
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/IPRuleInput'
+ *     responses:
+ *       201:
+ *         description: Rule created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     rule:
+ *                       $ref: '#/components/schemas/IPRule'
+ *       400:
+ *         description: Invalid address or range, wider than /8 (IPv4) or /32 (IPv6), or it includes your own IP and your IP isn't allowlisted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Address or range is already blocked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/security/blocks', securityController.listBlocks);
+router.post('/security/blocks', securityController.blockIP);
+
+/**
+ * @openapi
+ * /admin/security/blocks/{ruleId}:
+ *   delete:
+ *     tags:
+ *       - Admin
+ *     summary: Remove an IP block
+ *     description: |
+ *       Lets requests from the address or range through again.
+ *
+ *       **Requires:** admin role
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Rule ID
+ *     responses:
+ *       200:
+ *         description: Rule removed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: IP block not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/security/blocks/:ruleId', securityController.unblockIP);
+
+/**
+ * @openapi
+ * /admin/security/allowlist:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: List allowlisted IPs
+ *     description: |
+ *       Lists IP addresses and ranges that are never blocked, newest first.
+ *
+ *       **Requires:** admin role
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Rules retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     rules:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/IPRule'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   post:
+ *     tags:
+ *       - Admin
+ *     summary: Allowlist an IP address or range
+ *     description: |
+ *       Requests from an allowlisted address or range skip IP blocking, both automatic and admin
+ *       blocks. Rate limits still apply. Takes effect on other instances within 30 seconds.
+ *
+ *       **Requires:** admin role
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/IPRuleInput'
+ *     responses:
+ *       201:
+ *         description: Rule created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     rule:
+ *                       $ref: '#/components/schemas/IPRule'
+ *       400:
+ *         description: Invalid address or range
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Address or range is already on the allowlist
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/security/allowlist', securityController.listAllowlist);
+router.post('/security/allowlist', securityController.addToAllowlist);
+
+/**
+ * @openapi
+ * /admin/security/allowlist/{ruleId}:
+ *   delete:
+ *     tags:
+ *       - Admin
+ *     summary: Remove an allowlist entry
+ *     description: |
+ *       The address or range can be blocked again.
+ *
+ *       **Requires:** admin role
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Rule ID
+ *     responses:
+ *       200:
+ *         description: Rule removed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       400:
+ *         description: Removing the entry would block your own IP
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Allowlist entry not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/security/allowlist/:ruleId', securityController.removeFromAllowlist);
+
+/**
+ * @openapi
+ * /admin/security/events:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: Browse security events
+ *     description: |
+ *       Lists security audit events (rate limits exceeded, invalid tokens, unauthorized access,
+ *       blocked IPs) and admin changes to IP rules, most recent first.
+ *
+ *       **Requires:** admin role
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [security.rate_limit.exceeded, security.invalid_token, security.unauthorized.access, security.ip.blocked, admin.ip.block, admin.ip.unblock, admin.ip.allowlist.add, admin.ip.allowlist.remove]
+ *         description: Only return events with this action
+ *       - in: query
+ *         name: ip
+ *         schema:
+ *           type: string
+ *         description: Only return events from this IP address
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *         description: Only return events for this user
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only return events at or after this time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only return events at or before this time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *         description: Maximum number of events to return
+ *       - in: query
+ *         name: startAfter
+ *         schema:
+ *           type: string
+ *         description: Cursor for pagination (event ID from previous page). An unknown ID is rejected
+ *     responses:
+ *       200:
+ *         description: Security events retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     events:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/AuditLog'
+ *                     pagination:
+ *                       type: object
+ *                       properties:
+ *                         limit:
+ *                           type: number
+ *                         hasMore:
+ *                           type: boolean
+ *                         nextCursor:
+ *                           type: string
+ *                           nullable: true
+ *       400:
+ *         description: Invalid filters or an unknown cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/security/events', securityController.listSecurityEvents);
+
+/**
+ * @openapi
+ * /admin/audit-logs:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: Browse or export audit logs
+ *     description: |
+ *       Lists audit logs matching the filters, most recent first, with cursor pagination.
+ *
+ *       With `format`, the matching logs are downloaded as a CSV or JSON file instead
+ *       (at most 10,000 logs; the `X-Export-Truncated` header is `true` when more matched).
+ *       Exports are themselves recorded in the audit log.
+ *
+ *       **Requires:** admin role
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *         description: Comma-separated actions to include (at most 30), e.g. `receipt.create,receipt.delete`
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *         description: Only return logs for this user
+ *       - in: query
+ *         name: resourceType
+ *         schema:
+ *           type: string
+ *         description: Only return logs for this resource type, e.g. `receipt`
+ *       - in: query
+ *         name: resourceId
+ *         schema:
+ *           type: string
+ *         description: Only return logs for this resource
+ *       - in: query
+ *         name: success
+ *         schema:
+ *           type: boolean
+ *         description: Only return successful (`true`) or failed (`false`) operations
+ *       - in: query
+ *         name: requestId
+ *         schema:
+ *           type: string
+ *         description: Only return logs written while handling this request
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only return logs at or after this time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only return logs at or before this time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *         description: Maximum number of logs to return (ignored for exports)
+ *       - in: query
+ *         name: startAfter
+ *         schema:
+ *           type: string
+ *         description: Cursor for pagination (log ID from previous page; ignored for exports). An unknown ID is rejected
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, json]
+ *         description: Download the matching logs as a file in this format
+ *     responses:
+ *       200:
+ *         description: Audit logs retrieved successfully
+ *         headers:
+ *           X-Export-Truncated:
+ *             description: Set on exports; `true` when more logs matched than were exported
+ *             schema:
+ *               type: boolean
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     logs:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/AuditLog'
+ *                     pagination:
+ *                       type: object
+ *                       properties:
+ *                         limit:
+ *                           type: number
+ *                         hasMore:
+ *                           type: boolean
+ *                         nextCursor:
+ *                           type: string
+ *                           nullable: true
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid filters, a filter combination without an index or an unknown cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/audit-logs', auditLogController.listAuditLogs);
+
+export default router;
@@ -1,9 +1,13 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/auth.controller';
+import { ApiKeyController } from '../controllers/apiKey.controller';
+import { AuditLogController } from '../controllers/auditLog.controller';
 import { authMiddleware } from '../middleware/auth';
 
 const router = Router();
 const authController = new AuthController();
+const apiKeyController = new ApiKeyController();
+const auditLogController = new AuditLogController();
 
 /**
  * @openapi
@@ -136,6 +140,103 @@ router.post('/register', authMiddleware, authController.register);
  */
 router.get('/me', authMiddleware, authController.getMe);
 
+/**
+ * @openapi
+ * /auth/me/activity:
+ *   get:
+ *     tags:
+ *       - Authentication
+ *     summary: Get your account activity
+ *     description: |
+ *       Lists the authenticated user's sign-ins, receipt exports and billing events,
+ *       most recent first.
+ *
+ *       **Rate Limit:** General API limit (100 requests per minute per IP)
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *         description: |
+ *           Comma-separated actions to include. One or more of `auth.login`, `auth.logout`,
+ *           `receipt.export`, `billing.checkout.create`, `billing.portal.create`,
+ *           `billing.subscription.update`. Defaults to all of them.
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only return activity at or after this time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only return activity at or before this time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Maximum number of entries to return
+ *       - in: query
+ *         name: startAfter
+ *         schema:
+ *           type: string
+ *         description: Cursor for pagination (entry ID from previous page)
+ *     responses:
+ *       200:
+ *         description: Activity retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     activity:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/AuditLog'
+ *                     pagination:
+ *                       type: object
+ *                       properties:
+ *                         limit:
+ *                           type: number
+ *                         hasMore:
+ *                           type: boolean
+ *                         nextCursor:
+ *                           type: string
+ *                           nullable: true
+ *       400:
+ *         description: Invalid filters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Rate limit exceeded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/me/activity', authMiddleware, auditLogController.getMyActivity);
+
 /**
  * @openapi
  * /auth/profile:
@@ -159,11 +260,17 @@ router.get('/me', authMiddleware, authController.getMe);
  *                 type: string
  *                 description: User display name
  *                 example: Jane Doe
+ *               homeCurrency:
+ *                 $ref: '#/components/schemas/Currency'
  *           examples:
  *             updateName:
  *               summary: Update display name
  *               value:
  *                 displayName: Jane Doe
+ *             updateHomeCurrency:
+ *               summary: Convert analytics and exports to euros
+ *               value:
+ *                 homeCurrency: EUR
  *     responses:
  *       200:
  *         description: Profile updated successfully
@@ -207,4 +314,343 @@ router.get('/me', authMiddleware, authController.getMe);
  */
 router.patch('/profile', authMiddleware, authController.updateProfile);
 
+/**
+ * @openapi
+ * /auth/api-keys:
+ *   get:
+ *     tags:
+ *       - Authentication
+ *     summary: List API keys
+ *     description: |
+ *       Lists the user's API keys, newest first, including revoked and expired keys.
+ *       Keys are never shown again after creation; `keyPrefix` tells them apart.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: API keys retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     apiKeys:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ApiKey'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Create an API key
+ *     description: |
+ *       Issues an API key for programmatic access, limited to the given scopes. The key is
+ *       returned once in this response; only its hash is stored. A user can have up to 10
+ *       active keys. API keys can't be used to manage API keys.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *                 example: Accounting sync
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/ApiKeyScope'
+ *                 example: [receipts:read, receipts:export]
+ *               expiresInDays:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 365
+ *                 description: Omit for a key that doesn't expire
+ *               rateLimit:
+ *                 $ref: '#/components/schemas/ApiKeyRateLimit'
+ *     responses:
+ *       201:
+ *         description: API key created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     apiKey:
+ *                       $ref: '#/components/schemas/ApiKey'
+ *                     key:
+ *                       type: string
+ *                       description: The API key; shown only in this response
+ *                       example: rsk_live_1a2b3c4d5e6f1a2b3c4d5e6f1a2b3c4d5e6f1a2b3c4d5e6f
+ *       400:
+ *         description: Invalid request or active key limit reached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/api-keys', authMiddleware, apiKeyController.listAPIKeys);
+router.post('/api-keys', authMiddleware, apiKeyController.createAPIKey);
+
+/**
+ * @openapi
+ * /auth/api-keys/{apiKeyId}:
+ *   patch:
+ *     tags:
+ *       - Authentication
+ *     summary: Update an API key
+ *     description: |
+ *       Renames an API key or replaces its scopes or quota. Takes effect on the next request.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: apiKeyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: API key ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/ApiKeyScope'
+ *               rateLimit:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/ApiKeyRateLimit'
+ *                 nullable: true
+ *                 description: null restores the default quota
+ *     responses:
+ *       200:
+ *         description: API key updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     apiKey:
+ *                       $ref: '#/components/schemas/ApiKey'
+ *       400:
+ *         description: Invalid request, or the key is revoked or expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: API key not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   delete:
+ *     tags:
+ *       - Authentication
+ *     summary: Revoke an API key
+ *     description: Revokes an API key immediately. Requests using it are rejected from then on.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: apiKeyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: API key ID
+ *     responses:
+ *       200:
+ *         description: API key revoked successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: API key not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.patch('/api-keys/:apiKeyId', authMiddleware, apiKeyController.updateAPIKey);
+router.delete('/api-keys/:apiKeyId', authMiddleware, apiKeyController.revokeAPIKey);
+
+/**
+ * @openapi
+ * /auth/api-keys/{apiKeyId}/rotate:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Rotate an API key
+ *     description: |
+ *       Issues a new key with the same name, scopes and expiry. The old key keeps working for
+ *       the grace period (default 24 hours, at most 168) so clients can switch over; a grace
+ *       period of 0 revokes it immediately.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: apiKeyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: API key ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               gracePeriodHours:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 168
+ *                 default: 24
+ *     responses:
+ *       201:
+ *         description: API key rotated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     apiKey:
+ *                       $ref: '#/components/schemas/ApiKey'
+ *                     key:
+ *                       type: string
+ *                       description: The API key; shown only in this response
+ *                       example: rsk_live_1a2b3c4d5e6f1a2b3c4d5e6f1a2b3c4d5e6f1a2b3c4d5e6f
+ *       400:
+ *         description: The key is revoked, expired or already rotated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: API key not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/api-keys/:apiKeyId/rotate', authMiddleware, apiKeyController.rotateAPIKey);
+
+/**
+ * @openapi
+ * /auth/api-keys/{apiKeyId}/usage:
+ *   get:
+ *     tags:
+ *       - Authentication
+ *     summary: Get API key usage
+ *     description: |
+ *       Returns the number of requests made with the key over the last 24 hours (per hour)
+ *       and 30 days (per day), and how many were rejected for exceeding the key's quota.
+ *       Counters are written about once a minute, so the latest requests may be missing.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: apiKeyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: API key ID
+ *     responses:
+ *       200:
+ *         description: Usage retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     usage:
+ *                       $ref: '#/components/schemas/ApiKeyUsage'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: API key not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/api-keys/:apiKeyId/usage', authMiddleware, apiKeyController.getAPIKeyUsage);
+
 export default router;
@@ -0,0 +1,324 @@
+import { Router } from 'express';
+import { BudgetController } from '../controllers/budget.controller';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+const budgetController = new BudgetController();
+
+/**
+ * @openapi
+ * /budgets:
+ *   get:
+ *     tags:
+ *       - Budgets
+ *     summary: List budgets
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Budgets retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     budgets:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Budget'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/', authMiddleware, budgetController.listBudgets);
+
+/**
+ * @openapi
+ * /budgets:
+ *   post:
+ *     tags:
+ *       - Budgets
+ *     summary: Create a budget
+ *     description: |
+ *       Sets a spending limit for one category per monthly, quarterly or yearly period.
+ *       Periods follow the calendar. The category may be built-in or custom. The currency
+ *       defaults to the user's home currency.
+ *
+ *       Alerts are raised the first time spending in the current period crosses 50%, 80%
+ *       and 100% of the limit.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - category
+ *               - period
+ *               - amount
+ *             properties:
+ *               category:
+ *                 type: string
+ *                 example: Groceries
+ *               period:
+ *                 $ref: '#/components/schemas/BudgetPeriod'
+ *               amount:
+ *                 type: number
+ *                 example: 400
+ *               currency:
+ *                 $ref: '#/components/schemas/Currency'
+ *     responses:
+ *       201:
+ *         description: Budget created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Budget created successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     budget:
+ *                       $ref: '#/components/schemas/Budget'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: A budget for this category and period already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/', authMiddleware, budgetController.createBudget);
+
+/**
+ * @openapi
+ * /budgets/status:
+ *   get:
+ *     tags:
+ *       - Budgets
+ *     summary: Get budget status
+ *     description: |
+ *       Returns spending against each budget for the period containing the given date.
+ *       Spending uses the same receipts and exchange rates as analytics; receipts without
+ *       an exchange rate to the budget currency are left out.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Date inside the periods to report (defaults to today)
+ *     responses:
+ *       200:
+ *         description: Status retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     budgets:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/BudgetStatus'
+ *       400:
+ *         description: Invalid date
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/status', authMiddleware, budgetController.getBudgetStatus);
+
+/**
+ * @openapi
+ * /budgets/alerts:
+ *   get:
+ *     tags:
+ *       - Budgets
+ *     summary: List budget alerts
+ *     description: Returns the user's most recent threshold alerts, newest first.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Alerts retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     alerts:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/BudgetAlert'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/alerts', authMiddleware, budgetController.listBudgetAlerts);
+
+/**
+ * @openapi
+ * /budgets/{budgetId}:
+ *   patch:
+ *     tags:
+ *       - Budgets
+ *     summary: Update a budget
+ *     description: Changing the limit, period or currency re-arms the budget's alerts.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: budgetId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               period:
+ *                 $ref: '#/components/schemas/BudgetPeriod'
+ *               amount:
+ *                 type: number
+ *                 example: 450
+ *               currency:
+ *                 $ref: '#/components/schemas/Currency'
+ *     responses:
+ *       200:
+ *         description: Budget updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     budget:
+ *                       $ref: '#/components/schemas/Budget'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Budget belongs to another user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Budget not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: A budget for this category and period already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   delete:
+ *     tags:
+ *       - Budgets
+ *     summary: Delete a budget
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: budgetId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Budget deleted successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Budget belongs to another user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Budget not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.patch('/:budgetId', authMiddleware, budgetController.updateBudget);
+router.delete('/:budgetId', authMiddleware, budgetController.deleteBudget);
+
+export default router;
@@ -0,0 +1,320 @@
+import { Router } from 'express';
+import { CategoryController } from '../controllers/category.controller';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+const categoryController = new CategoryController();
+
+/**
+ * @openapi
+ * /categories:
+ *   get:
+ *     tags:
+ *       - Categories
+ *     summary: List categories
+ *     description: |
+ *       Returns the user's categories sorted by name. Children reference their parent
+ *       through `parentId`.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Categories retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     categories:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Category'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/', authMiddleware, categoryController.listCategories);
+
+/**
+ * @openapi
+ * /categories:
+ *   post:
+ *     tags:
+ *       - Categories
+ *     summary: Create a category
+ *     description: |
+ *       Names are unique per user, ignoring case. A category may be nested under a
+ *       top-level category. Built-in category names can be created too, to give them
+ *       metadata or subcategories.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Coffee
+ *               parentId:
+ *                 type: string
+ *                 nullable: true
+ *               color:
+ *                 type: string
+ *                 nullable: true
+ *                 example: '#795548'
+ *               icon:
+ *                 type: string
+ *                 nullable: true
+ *                 example: coffee
+ *     responses:
+ *       201:
+ *         description: Category created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     category:
+ *                       $ref: '#/components/schemas/Category'
+ *       400:
+ *         description: Validation error or invalid parent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: A category with this name already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/', authMiddleware, categoryController.createCategory);
+
+/**
+ * @openapi
+ * /categories/{categoryId}/merge:
+ *   post:
+ *     tags:
+ *       - Categories
+ *     summary: Merge categories
+ *     description: |
+ *       Moves receipts, budgets and learned parsing rules from each source name to this
+ *       category. Sources are names as used on receipts and match exactly, so case variants
+ *       such as `meals` can be listed individually. A source with a category document also
+ *       hands its subcategories to this category, and its document is deleted. Where both
+ *       categories have a budget for the same period, this category's budget is kept.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: categoryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sources
+ *             properties:
+ *               sources:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 20
+ *                 items:
+ *                   type: string
+ *                 example: ['meals', 'Food']
+ *     responses:
+ *       200:
+ *         description: Categories merged successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     category:
+ *                       $ref: '#/components/schemas/Category'
+ *                     updated:
+ *                       $ref: '#/components/schemas/CategoryMigrationResult'
+ *       400:
+ *         description: Validation error, or a category with subcategories merged into a subcategory
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Category not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/:categoryId/merge', authMiddleware, categoryController.mergeCategories);
+
+/**
+ * @openapi
+ * /categories/{categoryId}:
+ *   patch:
+ *     tags:
+ *       - Categories
+ *     summary: Update or rename a category
+ *     description: |
+ *       A new name is applied to the user's receipts (in batches, including deleted ones),
+ *       budgets and learned parsing rules before the category itself is renamed, so a
+ *       rename that fails part-way can be retried.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: categoryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Meals
+ *               parentId:
+ *                 type: string
+ *                 nullable: true
+ *               color:
+ *                 type: string
+ *                 nullable: true
+ *               icon:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Category updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     category:
+ *                       $ref: '#/components/schemas/Category'
+ *                     updated:
+ *                       $ref: '#/components/schemas/CategoryMigrationResult'
+ *       400:
+ *         description: Validation error or invalid parent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Category belongs to another user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Category not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Another category already has the new name; merge them instead
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   delete:
+ *     tags:
+ *       - Categories
+ *     summary: Delete a category
+ *     description: Receipts keep the name as a plain custom category.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: categoryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Category deleted successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Category not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Category has subcategories
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.patch('/:categoryId', authMiddleware, categoryController.updateCategory);
+router.delete('/:categoryId', authMiddleware, categoryController.deleteCategory);
+
+export default router;
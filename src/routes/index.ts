@@ -5,6 +5,10 @@ import uploadRoutes from './upload.routes';
 import receiptRoutes from './receipt.routes';
 import billingRoutes from './billing.routes';
 import docsRoutes from './docs.routes';
+import adminRoutes from './admin.routes';
+import budgetRoutes from './budget.routes';
+import categoryRoutes from './category.routes';
+import receiptRuleRoutes from './receiptRule.routes';
 
 const router = Router();
 const healthController = new HealthController();
@@ -68,6 +72,10 @@ router.get('/health', healthController.getHealth);
 router.use('/docs', docsRoutes);
 router.use('/auth', authRoutes);
 router.use('/billing', billingRoutes);
+router.use('/admin', adminRoutes);
+router.use('/budgets', budgetRoutes);
+router.use('/categories', categoryRoutes);
+router.use('/receipt-rules', receiptRuleRoutes);
 
 // Both upload and CRUD routes are mounted on /receipts
 // Upload routes: /upload, /file, /file-url, /parse (specific paths)
@@ -6,8 +6,9 @@ import { Router } from 'express';
 import { ReceiptController } from '../controllers/receipt.controller';
 import { ExportController } from '../controllers/export.controller';
 import { AnalyticsController } from '../controllers/analytics.controller';
-import { authMiddleware } from '../middleware/auth';
+import { flexibleAuth, requireScope } from '../middleware/apiKey';
 import { uploadRateLimiter, exportRateLimiter } from '../middleware/rateLimiter';
+import { handleMulterError, uploadSingleFile } from '../middleware/upload';
 
 const router = Router();
 const receiptController = new ReceiptController();
@@ -32,6 +33,7 @@ const analyticsController = new AnalyticsController();
  *       **PDF Format:** Professional formatted report with summary and details
  *     security:
  *       - BearerAuth: []
+ *       - ApiKeyAuth: []
  *     parameters:
  *       - in: query
  *         name: format
@@ -125,7 +127,13 @@ const analyticsController = new AnalyticsController();
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.get('/export', authMiddleware, exportRateLimiter, exportController.exportReceipts);
+router.get(
+  '/export',
+  flexibleAuth,
+  requireScope('receipts:export'),
+  exportRateLimiter,
+  exportController.exportReceipts
+);
 
 /**
  * @openapi
@@ -138,6 +146,10 @@ router.get('/export', authMiddleware, exportRateLimiter, exportController.export
  *       Provides comprehensive spending analytics with category breakdown,
  *       monthly trends, and top merchants.
  *
+ *       Amounts are converted to the user's home currency at the exchange rate of each
+ *       receipt date. `summary.byCurrency` lists the original per-currency subtotals; receipts
+ *       without a known rate are counted there and in `summary.unconvertedReceipts` only.
+ *
  *       **Rate Limit:** General API limit (100 requests per minute per IP)
  *
  *       **Available Periods:**
@@ -147,6 +159,7 @@ router.get('/export', authMiddleware, exportRateLimiter, exportController.export
  *       - `custom` - Custom date range (requires startDate and endDate)
  *     security:
  *       - BearerAuth: []
+ *       - ApiKeyAuth: []
  *     parameters:
  *       - in: query
  *         name: period
@@ -167,6 +180,11 @@ router.get('/export', authMiddleware, exportRateLimiter, exportController.export
  *           type: string
  *           format: date-time
  *         description: End date for custom period (required if period=custom)
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           $ref: '#/components/schemas/Currency'
+ *         description: Currency to report in (defaults to the user's home currency)
  *     responses:
  *       200:
  *         description: Analytics data retrieved successfully
@@ -217,7 +235,12 @@ router.get('/export', authMiddleware, exportRateLimiter, exportController.export
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.get('/analytics', authMiddleware, analyticsController.getAnalytics);
+router.get(
+  '/analytics',
+  flexibleAuth,
+  requireScope('analytics:read'),
+  analyticsController.getAnalytics
+);
 
 /**
  * @openapi
@@ -228,10 +251,12 @@ router.get('/analytics', authMiddleware, analyticsController.getAnalytics);
  *     summary: Get receipt statistics
  *     description: |
  *       Returns aggregated statistics with optional grouping by category or time period.
+ *       Amounts are converted to the user's home currency at each receipt date.
  *
  *       **Rate Limit:** 10 requests per minute per user
  *     security:
  *       - BearerAuth: []
+ *       - ApiKeyAuth: []
  *     parameters:
  *       - in: query
  *         name: startDate
@@ -251,6 +276,11 @@ router.get('/analytics', authMiddleware, analyticsController.getAnalytics);
  *           type: string
  *           enum: [category, month]
  *         description: Group statistics by category or month
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           $ref: '#/components/schemas/Currency'
+ *         description: Currency to report in (defaults to the user's home currency)
  *     responses:
  *       200:
  *         description: Statistics retrieved successfully
@@ -268,12 +298,21 @@ router.get('/analytics', authMiddleware, analyticsController.getAnalytics);
  *                     stats:
  *                       type: object
  *                       properties:
+ *                         currency:
+ *                           $ref: '#/components/schemas/Currency'
  *                         totalAmount:
  *                           type: number
  *                           example: 5234.56
  *                         count:
  *                           type: number
  *                           example: 42
+ *                         unconvertedCount:
+ *                           type: number
+ *                           example: 0
+ *                         byCurrency:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/CurrencySubtotal'
  *                         byCategory:
  *                           type: object
  *                           additionalProperties:
@@ -298,8 +337,21 @@ router.get('/analytics', authMiddleware, analyticsController.getAnalytics);
  *               status: success
  *               data:
  *                 stats:
+ *                   currency: USD
  *                   totalAmount: 5234.56
  *                   count: 42
+ *                   unconvertedCount: 0
+ *                   byCurrency:
+ *                     - currency: USD
+ *                       amount: 4900.00
+ *                       count: 39
+ *                       convertedAmount: 4900.00
+ *                       unconvertedCount: 0
+ *                     - currency: EUR
+ *                       amount: 308.20
+ *                       count: 3
+ *                       convertedAmount: 334.56
+ *                       unconvertedCount: 0
  *                   byCategory:
  *                     "Food & Dining":
  *                       amount: 2100.00
@@ -320,7 +372,368 @@ router.get('/analytics', authMiddleware, analyticsController.getAnalytics);
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.get('/stats', authMiddleware, uploadRateLimiter, receiptController.getReceiptStats);
+router.get(
+  '/stats',
+  flexibleAuth,
+  requireScope('analytics:read'),
+  uploadRateLimiter,
+  receiptController.getReceiptStats
+);
+
+/**
+ * @openapi
+ * /receipts/review:
+ *   get:
+ *     tags:
+ *       - Receipts
+ *     summary: List receipts waiting for review
+ *     description: |
+ *       Lists receipts where parsing produced at least one LOW confidence field
+ *       that has not yet been accepted or corrected, oldest first.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: startAfter
+ *         schema:
+ *           type: string
+ *         description: Cursor for pagination (receipt ID)
+ *     responses:
+ *       200:
+ *         description: Review queue retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     receipts:
+ *                       type: array
+ *                       items:
+ *                         allOf:
+ *                           - $ref: '#/components/schemas/Receipt'
+ *                           - type: object
+ *                             properties:
+ *                               pendingReviewFields:
+ *                                 type: array
+ *                                 items:
+ *                                   type: string
+ *                                 example: [total, date]
+ *                     pagination:
+ *                       $ref: '#/components/schemas/PaginationInfo'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/review',
+  flexibleAuth,
+  requireScope('receipts:read'),
+  receiptController.listReviewQueue
+);
+
+/**
+ * @openapi
+ * /receipts/search/reindex:
+ *   post:
+ *     tags:
+ *       - Receipts
+ *     summary: Rebuild the receipt search index
+ *     description: |
+ *       Rebuilds the user's search index from their receipts. The index is kept up to date on
+ *       every receipt write; rebuilding picks up receipts stored before search was indexed.
+ *
+ *       **Rate Limit:** 10 requests per minute per user
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Search index rebuilt successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     result:
+ *                       type: object
+ *                       properties:
+ *                         receipts:
+ *                           type: integer
+ *                           example: 240
+ *                         terms:
+ *                           type: integer
+ *                           example: 1180
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/search/reindex',
+  flexibleAuth,
+  requireScope('receipts:write'),
+  uploadRateLimiter,
+  receiptController.rebuildSearchIndex
+);
+
+/**
+ * @openapi
+ * /receipts/bulk:
+ *   post:
+ *     tags:
+ *       - Receipts
+ *     summary: Apply one operation to many receipts
+ *     description: |
+ *       Re-categorizes, tags, untags, changes the status of or deletes up to 1000 receipts in one
+ *       request. Receipts are selected either by `ids` or by `filter`, which takes the same
+ *       filters as `GET /receipts` (including `search`). Receipts are written in batches; a
+ *       receipt that can't be changed is reported in `results` and the others are still applied.
+ *
+ *       **Rate Limit:** 10 requests per minute per user
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - operation
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 maxItems: 1000
+ *                 items:
+ *                   type: string
+ *               filter:
+ *                 type: object
+ *                 properties:
+ *                   startDate:
+ *                     type: string
+ *                     format: date
+ *                   endDate:
+ *                     type: string
+ *                     format: date
+ *                   category:
+ *                     type: string
+ *                   merchant:
+ *                     type: string
+ *                   status:
+ *                     type: string
+ *                     enum: [pending, processing, completed, failed]
+ *                   tags:
+ *                     type: string
+ *                     description: Comma-separated tags
+ *                   search:
+ *                     type: string
+ *               operation:
+ *                 type: object
+ *                 required:
+ *                   - type
+ *                 properties:
+ *                   type:
+ *                     type: string
+ *                     enum: [categorize, tag, untag, status, delete]
+ *                   category:
+ *                     type: string
+ *                     description: Required for categorize
+ *                   tags:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                     description: Required for tag and untag
+ *                   status:
+ *                     type: string
+ *                     enum: [pending, processing, completed, failed]
+ *                     description: Required for status
+ *           example:
+ *             filter:
+ *               merchant: Uber
+ *               startDate: '2024-01-01'
+ *             operation:
+ *               type: categorize
+ *               category: Transportation
+ *     responses:
+ *       200:
+ *         description: Operation applied; see results for receipts that failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     result:
+ *                       $ref: '#/components/schemas/BulkOperationResult'
+ *       400:
+ *         description: Validation error, or the filter matches more than 1000 receipts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/bulk',
+  flexibleAuth,
+  requireScope('receipts:write'),
+  uploadRateLimiter,
+  receiptController.bulkUpdateReceipts
+);
+
+/**
+ * @openapi
+ * /receipts/trash:
+ *   get:
+ *     tags:
+ *       - Receipts
+ *     summary: List deleted receipts
+ *     description: |
+ *       Lists the user's deleted receipts, most recently deleted first. Deleted receipts are
+ *       purged with their files once they have been in the trash for the retention period
+ *       (30 days by default).
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: startAfter
+ *         schema:
+ *           type: string
+ *         description: Cursor for pagination (receipt ID)
+ *     responses:
+ *       200:
+ *         description: Trash retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     receipts:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Receipt'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/PaginationInfo'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/trash', flexibleAuth, requireScope('receipts:read'), receiptController.listTrash);
+
+/**
+ * @openapi
+ * /receipts/duplicates:
+ *   get:
+ *     tags:
+ *       - Receipts
+ *     summary: List duplicate receipts
+ *     description: |
+ *       Lists receipts flagged as duplicates that haven't been merged or dismissed, newest first.
+ *       A receipt is flagged when its file is byte-identical to an earlier upload, or when its
+ *       merchant, date (within a day) and total match an earlier receipt. `duplicate.originalId`
+ *       links to the original.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: startAfter
+ *         schema:
+ *           type: string
+ *         description: Cursor for pagination (receipt ID)
+ *     responses:
+ *       200:
+ *         description: Duplicates retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     receipts:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Receipt'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/PaginationInfo'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/duplicates',
+  flexibleAuth,
+  requireScope('receipts:read'),
+  receiptController.listDuplicates
+);
 
 /**
  * @openapi
@@ -335,6 +748,16 @@ router.get('/stats', authMiddleware, uploadRateLimiter, receiptController.getRec
  *       **Rate Limit:** 10 requests per minute per user
  *     security:
  *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: strict
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: |
+ *           Reject the receipt when line items, tax and total don't add up
+ *           (item quantity × unit price, items plus tax against total, tax above total)
  *     requestBody:
  *       required: true
  *       content:
@@ -421,6 +844,7 @@ router.get('/stats', authMiddleware, uploadRateLimiter, receiptController.getRec
  *       **Rate Limit:** General API limit (100 requests per minute per IP)
  *     security:
  *       - BearerAuth: []
+ *       - ApiKeyAuth: []
  *     parameters:
  *       - in: query
  *         name: startDate
@@ -461,7 +885,12 @@ router.get('/stats', authMiddleware, uploadRateLimiter, receiptController.getRec
  *         name: search
  *         schema:
  *           type: string
- *         description: Search across merchant names and tags
+ *         description: |
+ *           Full-text search across merchant, category, tags and line item descriptions.
+ *           Every word must match, by prefix or, without a prefix match, with a small typo. Add `total:>50`,
+ *           `total:<=20` or `total:10..50` to filter by amount. Results follow the other
+ *           filters and sort order, and `total` counts every match.
+ *         example: coffee total:>5
  *       - in: query
  *         name: limit
  *         schema:
@@ -522,8 +951,14 @@ router.get('/stats', authMiddleware, uploadRateLimiter, receiptController.getRec
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.post('/', authMiddleware, uploadRateLimiter, receiptController.createReceipt);
-router.get('/', authMiddleware, receiptController.listReceipts);
+router.post(
+  '/',
+  flexibleAuth,
+  requireScope('receipts:write'),
+  uploadRateLimiter,
+  receiptController.createReceipt
+);
+router.get('/', flexibleAuth, requireScope('receipts:read'), receiptController.listReceipts);
 
 /**
  * @openapi
@@ -538,6 +973,7 @@ router.get('/', authMiddleware, receiptController.listReceipts);
  *       **Rate Limit:** General API limit (100 requests per minute per IP)
  *     security:
  *       - BearerAuth: []
+ *       - ApiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -590,6 +1026,7 @@ router.get('/', authMiddleware, receiptController.listReceipts);
  *       **Rate Limit:** 10 requests per minute per user
  *     security:
  *       - BearerAuth: []
+ *       - ApiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -598,6 +1035,12 @@ router.get('/', authMiddleware, receiptController.listReceipts);
  *           type: string
  *           format: uuid
  *         description: Receipt ID
+ *       - in: query
+ *         name: strict
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Reject the update when the amounts it contains don't add up
  *     requestBody:
  *       required: true
  *       content:
@@ -666,12 +1109,14 @@ router.get('/', authMiddleware, receiptController.listReceipts);
  *       - Receipts
  *     summary: Delete a receipt (soft delete)
  *     description: |
- *       Soft deletes a receipt by setting the deletedAt timestamp.
- *       The receipt remains in the database but is excluded from queries.
+ *       Soft deletes a receipt by setting the deletedAt timestamp. The receipt moves to the
+ *       trash, where it can be restored until it is purged after the retention period
+ *       (30 days by default).
  *
  *       **Rate Limit:** 10 requests per minute per user
  *     security:
  *       - BearerAuth: []
+ *       - ApiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -713,8 +1158,749 @@ router.get('/', authMiddleware, receiptController.listReceipts);
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.get('/:id', authMiddleware, receiptController.getReceipt);
-router.patch('/:id', authMiddleware, uploadRateLimiter, receiptController.updateReceipt);
-router.delete('/:id', authMiddleware, uploadRateLimiter, receiptController.deleteReceipt);
+router.get('/:id', flexibleAuth, requireScope('receipts:read'), receiptController.getReceipt);
+
+/**
+ * @openapi
+ * /receipts/{id}/review:
+ *   patch:
+ *     tags:
+ *       - Receipts
+ *     summary: Accept or correct parsed fields
+ *     description: |
+ *       Records review decisions for individual parsed fields. Accepted fields keep their
+ *       parsed value; corrected fields are overwritten. The receipt leaves the review queue
+ *       once no field is pending.
+ *
+ *       **Rate Limit:** 10 requests per minute per user
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Receipt ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               accept:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [merchant, date, total, tax, currency, category, lineItems]
+ *               corrections:
+ *                 type: object
+ *                 description: New values for merchant, date, total, tax, currency, category or lineItems
+ *           example:
+ *             accept: [merchant]
+ *             corrections:
+ *               total: 42.5
+ *     responses:
+ *       200:
+ *         description: Review saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Receipt review saved
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     receipt:
+ *                       $ref: '#/components/schemas/Receipt'
+ *       400:
+ *         description: Invalid review or receipt has no parsed fields
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Receipt not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.patch(
+  '/:id/review',
+  flexibleAuth,
+  requireScope('receipts:write'),
+  uploadRateLimiter,
+  receiptController.reviewReceipt
+);
+router.patch(
+  '/:id',
+  flexibleAuth,
+  requireScope('receipts:write'),
+  uploadRateLimiter,
+  receiptController.updateReceipt
+);
+router.delete(
+  '/:id',
+  flexibleAuth,
+  requireScope('receipts:write'),
+  uploadRateLimiter,
+  receiptController.deleteReceipt
+);
+
+/**
+ * @openapi
+ * /receipts/{id}/history:
+ *   get:
+ *     tags:
+ *       - Receipts
+ *     summary: List a receipt's edit history
+ *     description: |
+ *       Lists the versions of a receipt, newest first. Every change to merchant, date, total,
+ *       tax, currency, category, tags, line items, image, attachments or notes records a version
+ *       with who made it, when, and the old and new values. Receipts in the trash keep their
+ *       history.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Receipt ID
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *       - in: query
+ *         name: startAfter
+ *         schema:
+ *           type: integer
+ *         description: Version number to continue after (from the previous page)
+ *     responses:
+ *       200:
+ *         description: History retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     versions:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ReceiptVersion'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Receipt not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id/history',
+  flexibleAuth,
+  requireScope('receipts:read'),
+  receiptController.getHistory
+);
+
+/**
+ * @openapi
+ * /receipts/{id}/revert/{version}:
+ *   post:
+ *     tags:
+ *       - Receipts
+ *     summary: Revert a receipt to an earlier version
+ *     description: |
+ *       Restores the receipt's tracked fields to their state after the given version. The
+ *       revert is recorded as a new version, so it can be undone the same way.
+ *
+ *       **Rate Limit:** 10 requests per minute per user
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Receipt ID
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Version to restore
+ *     responses:
+ *       200:
+ *         description: Receipt reverted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Receipt reverted successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     receipt:
+ *                       $ref: '#/components/schemas/Receipt'
+ *       400:
+ *         description: Invalid version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Receipt or version not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/revert/:version',
+  flexibleAuth,
+  requireScope('receipts:write'),
+  uploadRateLimiter,
+  receiptController.revertReceipt
+);
+
+/**
+ * @openapi
+ * /receipts/{id}/attachments:
+ *   post:
+ *     tags:
+ *       - Receipts
+ *     summary: Add an attachment to a receipt
+ *     description: |
+ *       Uploads a file (e.g. the back of the receipt, a card slip or an itemized invoice) and
+ *       appends it to the receipt's attachments. The first attachment is the receipt's image.
+ *       A receipt can have up to 10 attachments.
+ *
+ *       **Rate Limit:** 10 uploads per minute per user
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Receipt ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - receipt
+ *             properties:
+ *               receipt:
+ *                 type: string
+ *                 format: binary
+ *                 description: Image or PDF file (max 10MB)
+ *               role:
+ *                 type: string
+ *                 enum: [front, back, card_slip, itemized, supporting]
+ *                 description: Defaults to front for the first attachment, supporting otherwise
+ *     responses:
+ *       201:
+ *         description: Attachment added successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Attachment added successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     receipt:
+ *                       $ref: '#/components/schemas/Receipt'
+ *       400:
+ *         description: No file, invalid file or attachment limit reached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Receipt not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/attachments',
+  flexibleAuth,
+  requireScope('receipts:write'),
+  uploadRateLimiter,
+  uploadSingleFile,
+  handleMulterError,
+  receiptController.addAttachment
+);
+
+/**
+ * @openapi
+ * /receipts/{id}/attachments/order:
+ *   put:
+ *     tags:
+ *       - Receipts
+ *     summary: Reorder a receipt's attachments
+ *     description: |
+ *       Puts the attachments in the given order. The list must contain every attachment ID
+ *       exactly once; the first attachment becomes the receipt's image.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Receipt ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - attachmentIds
+ *             properties:
+ *               attachmentIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Attachments reordered successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Attachments reordered successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     receipt:
+ *                       $ref: '#/components/schemas/Receipt'
+ *       400:
+ *         description: attachmentIds does not list every attachment once
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Receipt not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  '/:id/attachments/order',
+  flexibleAuth,
+  requireScope('receipts:write'),
+  uploadRateLimiter,
+  receiptController.reorderAttachments
+);
+
+/**
+ * @openapi
+ * /receipts/{id}/attachments/{attachmentId}:
+ *   delete:
+ *     tags:
+ *       - Receipts
+ *     summary: Remove an attachment from a receipt
+ *     description: |
+ *       Removes the attachment from the receipt. The stored file is kept until the receipt is
+ *       permanently deleted, so reverting to an earlier version brings the attachment back.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Receipt ID
+ *       - in: path
+ *         name: attachmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Attachment ID
+ *     responses:
+ *       200:
+ *         description: Attachment removed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Attachment removed successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     receipt:
+ *                       $ref: '#/components/schemas/Receipt'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Receipt or attachment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  '/:id/attachments/:attachmentId',
+  flexibleAuth,
+  requireScope('receipts:write'),
+  uploadRateLimiter,
+  receiptController.removeAttachment
+);
+
+/**
+ * @openapi
+ * /receipts/{id}/duplicate/merge:
+ *   post:
+ *     tags:
+ *       - Receipts
+ *     summary: Merge a duplicate receipt into its original
+ *     description: |
+ *       The original keeps its values and gains the duplicate's tags, and its tax and line items
+ *       when it has none. The duplicate moves to the trash. Returns the original.
+ *
+ *       **Rate Limit:** 10 requests per minute per user
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the receipt flagged as a duplicate
+ *     responses:
+ *       200:
+ *         description: Duplicate merged successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Duplicate receipt merged successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     receipt:
+ *                       $ref: '#/components/schemas/Receipt'
+ *       400:
+ *         description: Receipt is not flagged as a duplicate
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Receipt or original receipt not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/duplicate/merge',
+  flexibleAuth,
+  requireScope('receipts:write'),
+  uploadRateLimiter,
+  receiptController.mergeDuplicate
+);
+
+/**
+ * @openapi
+ * /receipts/{id}/duplicate/dismiss:
+ *   post:
+ *     tags:
+ *       - Receipts
+ *     summary: Dismiss a duplicate flag
+ *     description: |
+ *       Marks a flagged receipt as not a duplicate. It keeps the dismissed flag and isn't flagged
+ *       again.
+ *
+ *       **Rate Limit:** 10 requests per minute per user
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Duplicate flag dismissed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Duplicate flag dismissed
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     receipt:
+ *                       $ref: '#/components/schemas/Receipt'
+ *       400:
+ *         description: Receipt is not flagged as a duplicate
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Receipt not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/duplicate/dismiss',
+  flexibleAuth,
+  requireScope('receipts:write'),
+  uploadRateLimiter,
+  receiptController.dismissDuplicate
+);
+
+/**
+ * @openapi
+ * /receipts/{id}/restore:
+ *   post:
+ *     tags:
+ *       - Receipts
+ *     summary: Restore a deleted receipt
+ *     description: |
+ *       Moves a receipt out of the trash. Its budgets are re-checked.
+ *
+ *       **Rate Limit:** 10 requests per minute per user
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Receipt ID
+ *     responses:
+ *       200:
+ *         description: Receipt restored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Receipt restored successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     receipt:
+ *                       $ref: '#/components/schemas/Receipt'
+ *       400:
+ *         description: Receipt is not in the trash
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Receipt not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/restore',
+  flexibleAuth,
+  requireScope('receipts:write'),
+  uploadRateLimiter,
+  receiptController.restoreReceipt
+);
+
+/**
+ * @openapi
+ * /receipts/{id}/permanent:
+ *   delete:
+ *     tags:
+ *       - Receipts
+ *     summary: Permanently delete a receipt
+ *     description: |
+ *       Permanently deletes a receipt that is in the trash, together with its stored files.
+ *       This cannot be undone. Delete the receipt first to move it to the trash.
+ *
+ *       **Rate Limit:** 10 requests per minute per user
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Receipt ID
+ *     responses:
+ *       200:
+ *         description: Receipt permanently deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Receipt permanently deleted
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Receipt belongs to another user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Receipt not found in trash
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  '/:id/permanent',
+  flexibleAuth,
+  requireScope('receipts:write'),
+  uploadRateLimiter,
+  receiptController.purgeReceipt
+);
 
 export default router;
@@ -0,0 +1,352 @@
+import { Router } from 'express';
+import { ReceiptRuleController } from '../controllers/receiptRule.controller';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+const receiptRuleController = new ReceiptRuleController();
+
+/**
+ * @openapi
+ * /receipt-rules:
+ *   get:
+ *     tags:
+ *       - Receipt Rules
+ *     summary: List receipt rules
+ *     description: Returns the user's rules in evaluation order (lowest priority first).
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Rules retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     rules:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ReceiptRule'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/', authMiddleware, receiptRuleController.listRules);
+
+/**
+ * @openapi
+ * /receipt-rules:
+ *   post:
+ *     tags:
+ *       - Receipt Rules
+ *     summary: Create a receipt rule
+ *     description: |
+ *       Rules run when a receipt is created, after a receipt is parsed, and on demand through
+ *       `POST /receipt-rules/apply`. Every condition must match. Rules run in priority order
+ *       and see earlier rules' changes. The first matching rule that sets a category wins,
+ *       and tags from every matching rule are added. A user can have at most 100 rules.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ReceiptRuleInput'
+ *           example:
+ *             name: Uber rides
+ *             priority: 10
+ *             conditions:
+ *               - field: merchant
+ *                 operator: matches
+ *                 value: uber
+ *             actions:
+ *               category: Transportation
+ *               addTags: ['commute']
+ *     responses:
+ *       201:
+ *         description: Rule created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     rule:
+ *                       $ref: '#/components/schemas/ReceiptRule'
+ *       400:
+ *         description: Validation error or rule limit reached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/', authMiddleware, receiptRuleController.createRule);
+
+/**
+ * @openapi
+ * /receipt-rules/apply:
+ *   post:
+ *     tags:
+ *       - Receipt Rules
+ *     summary: Apply rules to existing receipts
+ *     description: |
+ *       Runs rules against the user's receipts, optionally limited to some rules and a date
+ *       range. Runs as a dry run by default, which only reports what would change. Set
+ *       `dryRun` to false to save the changes and record them in the rule history.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               dryRun:
+ *                 type: boolean
+ *                 default: true
+ *               ruleIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Only run these rules (defaults to every rule)
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *     responses:
+ *       200:
+ *         description: Rules evaluated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     result:
+ *                       type: object
+ *                       properties:
+ *                         dryRun:
+ *                           type: boolean
+ *                         scanned:
+ *                           type: integer
+ *                           example: 240
+ *                         changed:
+ *                           type: integer
+ *                           example: 18
+ *                         receipts:
+ *                           type: array
+ *                           description: Changed receipts (at most 200)
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               receiptId:
+ *                                 type: string
+ *                               merchant:
+ *                                 type: string
+ *                               changes:
+ *                                 type: array
+ *                                 items:
+ *                                   $ref: '#/components/schemas/RuleChange'
+ *                         truncated:
+ *                           type: boolean
+ *                           description: More receipts changed than are listed
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: A requested rule was not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/apply', authMiddleware, receiptRuleController.applyRules);
+
+/**
+ * @openapi
+ * /receipt-rules/history:
+ *   get:
+ *     tags:
+ *       - Receipt Rules
+ *     summary: List rule history
+ *     description: Returns the changes rules made to receipts, newest first.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: receiptId
+ *         schema:
+ *           type: string
+ *         description: Only show changes to this receipt
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: History retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     history:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/RuleApplication'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/history', authMiddleware, receiptRuleController.listHistory);
+
+/**
+ * @openapi
+ * /receipt-rules/{ruleId}:
+ *   patch:
+ *     tags:
+ *       - Receipt Rules
+ *     summary: Update a receipt rule
+ *     description: Changes apply to receipts processed from now on; use apply to re-run them.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ReceiptRuleInput'
+ *     responses:
+ *       200:
+ *         description: Rule updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     rule:
+ *                       $ref: '#/components/schemas/ReceiptRule'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Rule belongs to another user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Rule not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   delete:
+ *     tags:
+ *       - Receipt Rules
+ *     summary: Delete a receipt rule
+ *     description: The rule's history is kept.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rule deleted successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Rule belongs to another user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Rule not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.patch('/:ruleId', authMiddleware, receiptRuleController.updateRule);
+router.delete('/:ruleId', authMiddleware, receiptRuleController.deleteRule);
+
+export default router;
@@ -1,32 +1,15 @@
-import { Router, Request, Response, NextFunction } from 'express';
+import { Router } from 'express';
 import { UploadController } from '../controllers/upload.controller';
 import { ReceiptParsingController } from '../controllers/receiptParsing.controller';
 import { authMiddleware } from '../middleware/auth';
-import { uploadSingleFile } from '../middleware/upload';
+import { handleMulterError, uploadSingleFile } from '../middleware/upload';
 import { uploadRateLimiter } from '../middleware/rateLimiter';
 import { checkSubscriptionLimit } from '../middleware/subscriptionLimit';
-import { AppError } from '../middleware/errorHandler';
 
 const router = Router();
 const uploadController = new UploadController();
 const parsingController = new ReceiptParsingController();
 
-/**
- * Multer error handler middleware
- * Converts multer errors to AppError for consistent error handling
- */
-const handleMulterError = (err: Error, _req: Request, _res: Response, next: NextFunction) => {
-  if (err instanceof Error) {
-    if (err.message.includes('File too large')) {
-      return next(new AppError('File size exceeds the maximum limit of 10MB', 400));
-    }
-    if (err.message.includes('Unexpected field')) {
-      return next(new AppError('Invalid file field. Use "receipt" as the field name.', 400));
-    }
-  }
-  next(err);
-};
-
 /**
  * @openapi
  * /receipts/upload:
@@ -90,6 +73,8 @@ const handleMulterError = (err: Error, _req: Request, _res: Response, next: Next
  *                 fileSize: 1024000
  *                 mimeType: image/jpeg
  *                 uploadedAt: "2024-01-01T12:00:00.000Z"
+ *                 contentHash: 9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08
+ *                 duplicateOf: null
  *       400:
  *         description: Invalid file (wrong type, too large, or no file provided)
  *         content:
@@ -300,8 +285,12 @@ router.post('/file-url', authMiddleware, uploadRateLimiter, uploadController.gen
  *       - Receipt Parsing
  *     summary: Parse receipt from image URL using AI
  *     description: |
- *       Extracts structured data from a receipt image using OpenAI GPT-4 Vision.
- *       Returns parsed data with confidence scores for each field.
+ *       Queues extraction of structured data from a receipt image using OpenAI GPT-4 Vision
+ *       and returns immediately with a job ID. Failed attempts are retried with exponential
+ *       backoff; jobs that keep failing are moved to a dead-letter queue.
+ *
+ *       When `receiptId` is provided, the receipt moves through `processing` to `completed`
+ *       (with the parsed fields written to it) or `failed`.
  *
  *       **Rate Limit:** 10 requests per minute per user
  *
@@ -330,8 +319,8 @@ router.post('/file-url', authMiddleware, uploadRateLimiter, uploadController.gen
  *                 format: uuid
  *                 description: Optional receipt ID if updating existing receipt
  *     responses:
- *       200:
- *         description: Receipt parsed successfully
+ *       202:
+ *         description: Receipt parsing queued
  *         content:
  *           application/json:
  *             schema:
@@ -342,10 +331,183 @@ router.post('/file-url', authMiddleware, uploadRateLimiter, uploadController.gen
  *                   example: success
  *                 message:
  *                   type: string
- *                   example: Receipt parsed successfully
+ *                   example: Receipt parsing queued
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     jobId:
+ *                       type: string
+ *                       format: uuid
+ *                       description: Poll GET /receipts/parse/jobs/{jobId} for the result
+ *                     status:
+ *                       $ref: '#/components/schemas/JobStatus'
+ *                     receiptId:
+ *                       type: string
+ *                       format: uuid
+ *                       nullable: true
+ *       400:
+ *         description: Invalid image URL or missing required fields
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Rate limit exceeded (10 requests per minute)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Receipt not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/parse', authMiddleware, uploadRateLimiter, parsingController.parseReceipt);
+
+/**
+ * @openapi
+ * /receipts/scan:
+ *   post:
+ *     tags:
+ *       - Receipt Parsing
+ *     summary: Upload and parse a receipt in one call
+ *     description: |
+ *       Uploads a receipt file, creates a `pending` receipt under the upload's `receiptId`,
+ *       and queues AI parsing. The receipt moves to `processing` and then `completed` or `failed`
+ *       as the job runs; poll `GET /receipts/{id}` or `GET /receipts/parse/jobs/{jobId}`.
+ *
+ *       **Rate Limit:** 10 requests per minute per user
+ *
+ *       **Subscription Limits:** counts as one receipt upload
+ *
+ *       **File Requirements:** same as `POST /receipts/upload` (field name `receipt`)
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - receipt
+ *             properties:
+ *               receipt:
+ *                 type: string
+ *                 format: binary
+ *                 description: Receipt image or PDF file
+ *     responses:
+ *       202:
+ *         description: File uploaded, receipt created and parsing queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Receipt uploaded and parsing queued
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     receiptId:
+ *                       type: string
+ *                       format: uuid
+ *                     jobId:
+ *                       type: string
+ *                       format: uuid
+ *                     status:
+ *                       $ref: '#/components/schemas/JobStatus'
+ *                     receipt:
+ *                       $ref: '#/components/schemas/Receipt'
+ *                     upload:
+ *                       $ref: '#/components/schemas/UploadResponse'
+ *       400:
+ *         description: Invalid file (wrong type, too large, or no file provided)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Subscription limit exceeded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Rate limit exceeded (10 requests per minute)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/scan',
+  authMiddleware,
+  checkSubscriptionLimit,
+  uploadRateLimiter,
+  uploadSingleFile,
+  handleMulterError,
+  parsingController.scanReceipt
+);
+
+/**
+ * @openapi
+ * /receipts/parse/jobs/{jobId}:
+ *   get:
+ *     tags:
+ *       - Receipt Parsing
+ *     summary: Get parse job status and result
+ *     description: |
+ *       Returns the status of a queued parse job. Once the job is `completed`, the response
+ *       includes the parsed data with confidence scores for each field.
+ *
+ *       **Confidence Levels:**
+ *       - **High** (>0.8): Highly accurate, safe to use
+ *       - **Medium** (0.5-0.8): May need review
+ *       - **Low** (<0.5): Should be verified manually
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Job ID returned by POST /receipts/parse
+ *     responses:
+ *       200:
+ *         description: Job retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
  *                 data:
  *                   type: object
  *                   properties:
+ *                     job:
+ *                       $ref: '#/components/schemas/Job'
  *                     parsed:
  *                       $ref: '#/components/schemas/ParsedReceipt'
  *                     metadata:
@@ -353,7 +515,7 @@ router.post('/file-url', authMiddleware, uploadRateLimiter, uploadController.gen
  *                       properties:
  *                         source:
  *                           type: string
- *                           enum: [openai, google-vision, failed]
+ *                           enum: [openai, google-vision, local-ocr, failed]
  *                           example: openai
  *                         processingTime:
  *                           type: number
@@ -362,31 +524,99 @@ router.post('/file-url', authMiddleware, uploadRateLimiter, uploadController.gen
  *                         fallbackUsed:
  *                           type: boolean
  *                           example: false
- *       400:
- *         description: Invalid image URL or missing required fields
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Parse job not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/parse/jobs/:jobId', authMiddleware, parsingController.getParseJob);
+
+/**
+ * @openapi
+ * /receipts/parse/rules:
+ *   get:
+ *     tags:
+ *       - Receipt Parsing
+ *     summary: List learned parsing rules
+ *     description: |
+ *       Returns the corrections learned from the user's edits to parsed receipts, grouped by
+ *       the merchant name as the parser read it. The most recently corrected rules are sent
+ *       to the parser as hints on the user's next parses.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Rules retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     rules:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ParsingRule'
  *       401:
  *         description: Unauthorized - Invalid or missing token
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
- *       429:
- *         description: Rate limit exceeded (10 requests per minute)
+ */
+router.get('/parse/rules', authMiddleware, parsingController.listParsingRules);
+
+/**
+ * @openapi
+ * /receipts/parse/rules/{ruleId}:
+ *   delete:
+ *     tags:
+ *       - Receipt Parsing
+ *     summary: Delete a learned parsing rule
+ *     description: Stops sending the rule to the parser as a hint.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rule deleted successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
- *       500:
- *         description: Parsing failed or OpenAI service unavailable
+ *       403:
+ *         description: Rule belongs to another user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Rule not found
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.post('/parse', authMiddleware, uploadRateLimiter, parsingController.parseReceipt);
+router.delete('/parse/rules/:ruleId', authMiddleware, parsingController.deleteParsingRule);
 
 export default router;
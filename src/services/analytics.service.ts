@@ -3,6 +3,12 @@
  */
 
 import { ReceiptRepository } from '../repositories/receipt.repository';
+import { CategoryRepository } from '../repositories/category.repository';
+import { AuthService } from './auth.service';
+import { ExchangeRateService } from './exchangeRate.service';
+import { Currency, roundToMinorUnits } from '../models/currency.model';
+import { CurrencySubtotal, summarizeByCurrency } from '../models/exchangeRate.model';
+import { getParentNames } from '../models/category.model';
 import { AppError } from '../middleware/errorHandler';
 import logger from '../config/logger';
 
@@ -13,13 +19,15 @@ export interface AnalyticsOptions {
   period: TimePeriod;
   startDate?: Date;
   endDate?: Date;
+  currency?: Currency; // Overrides the user's home currency
 }
 
 export interface CategoryBreakdown {
   category: string;
-  amount: number;
+  amount: number; // Includes subcategories
   count: number;
   percentage: number;
+  subcategories: CategoryBreakdown[];
 }
 
 export interface MonthlyTrend {
@@ -35,11 +43,26 @@ export interface TopMerchant {
   avgAmount: number;
 }
 
+/**
+ * Receipt fields used for analytics, with the total converted to the home currency
+ */
+interface AnalyticsReceipt {
+  merchant: string;
+  total: number;
+  currency: Currency;
+  convertedTotal: number | null; // null when no exchange rate is known for the receipt date
+  category: string;
+  date: Date;
+}
+
 export interface AnalyticsResult {
   summary: {
+    currency: Currency; // Currency of every amount except byCurrency[].amount
     totalAmount: number;
     totalReceipts: number;
     avgAmount: number;
+    unconvertedReceipts: number; // Left out of amounts for lack of an exchange rate
+    byCurrency: CurrencySubtotal[];
     period: {
       start: Date;
       end: Date;
@@ -52,9 +75,15 @@ export interface AnalyticsResult {
 
 export class AnalyticsService {
   private receiptRepository: ReceiptRepository;
+  private categoryRepository: CategoryRepository;
+  private authService: AuthService;
+  private exchangeRateService: ExchangeRateService;
 
   constructor() {
     this.receiptRepository = new ReceiptRepository();
+    this.categoryRepository = new CategoryRepository();
+    this.authService = new AuthService();
+    this.exchangeRateService = new ExchangeRateService();
   }
 
   /**
@@ -69,39 +98,67 @@ export class AnalyticsService {
 
       // Calculate date range based on period
       const { startDate, endDate } = this.calculateDateRange(options);
+      const currency = options.currency || (await this.authService.getHomeCurrency(options.userId));
 
       // Fetch all receipts in the date range
-      const receipts = await this.fetchReceiptsForAnalytics(options.userId, startDate, endDate);
+      const receipts = await this.fetchReceiptsForAnalytics(
+        options.userId,
+        startDate,
+        endDate,
+        currency
+      );
 
       if (receipts.length === 0) {
-        return this.getEmptyAnalytics(startDate, endDate);
+        return this.getEmptyAnalytics(startDate, endDate, currency);
       }
 
+      // Amounts are summed in the home currency; receipts without a rate only appear in byCurrency
+      const converted = receipts.flatMap((r) =>
+        r.convertedTotal === null ? [] : [{ ...r, total: r.convertedTotal }]
+      );
+
       // Calculate summary statistics
-      const totalAmount = receipts.reduce((sum, r) => sum + r.total, 0);
+      const totalAmount = converted.reduce((sum, r) => sum + r.total, 0);
       const totalReceipts = receipts.length;
-      const avgAmount = totalAmount / totalReceipts;
+      const avgAmount = converted.length > 0 ? totalAmount / converted.length : 0;
+      const byCurrency = summarizeByCurrency(
+        receipts.map((r) => ({
+          amount: r.total,
+          currency: r.currency,
+          convertedAmount: r.convertedTotal,
+        })),
+        currency
+      );
 
-      // Generate category breakdown
-      const byCategory = this.calculateCategoryBreakdown(receipts, totalAmount);
+      // Generate category breakdown, with subcategories rolled up into their parents
+      const categories = await this.categoryRepository.getCategoriesByUserId(options.userId);
+      const byCategory = this.calculateCategoryBreakdown(
+        converted,
+        totalAmount,
+        getParentNames(categories)
+      );
 
       // Generate monthly trends
-      const monthlyTrends = this.calculateMonthlyTrends(receipts);
+      const monthlyTrends = this.calculateMonthlyTrends(converted);
 
       // Generate top merchants
-      const topMerchants = this.calculateTopMerchants(receipts);
+      const topMerchants = this.calculateTopMerchants(converted);
 
       logger.info('Analytics generated successfully', {
         userId: options.userId,
         totalReceipts,
         totalAmount,
+        currency,
       });
 
       return {
         summary: {
-          totalAmount,
+          currency,
+          totalAmount: roundToMinorUnits(totalAmount, currency),
           totalReceipts,
-          avgAmount,
+          avgAmount: roundToMinorUnits(avgAmount, currency),
+          unconvertedReceipts: totalReceipts - converted.length,
+          byCurrency,
           period: {
             start: startDate,
             end: endDate,
@@ -120,6 +177,36 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Get spending per category in a currency, the figures budgets are checked against
+   * Parent categories include their subcategories' spending. Receipts without an
+   * exchange rate for their date are left out, as in getAnalytics.
+   */
+  public async getCategorySpending(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    currency: Currency
+  ): Promise<Record<string, number>> {
+    const receipts = await this.fetchReceiptsForAnalytics(userId, startDate, endDate, currency);
+    const parentNames = getParentNames(await this.categoryRepository.getCategoriesByUserId(userId));
+    const spending: Record<string, number> = {};
+
+    receipts.forEach((receipt) => {
+      if (receipt.convertedTotal === null) {
+        return;
+      }
+      spending[receipt.category] = (spending[receipt.category] || 0) + receipt.convertedTotal;
+
+      const parent = parentNames.get(receipt.category);
+      if (parent) {
+        spending[parent] = (spending[parent] || 0) + receipt.convertedTotal;
+      }
+    });
+
+    return spending;
+  }
+
   /**
    * Calculate date range based on period
    */
@@ -158,14 +245,15 @@ export class AnalyticsService {
   }
 
   /**
-   * Fetch receipts for analytics
+   * Fetch receipts for analytics, converting totals at the rate of each receipt date
    */
   private async fetchReceiptsForAnalytics(
     userId: string,
     startDate: Date,
-    endDate: Date
-  ): Promise<Array<{ merchant: string; total: number; category: string; date: Date }>> {
-    const receipts: Array<{ merchant: string; total: number; category: string; date: Date }> = [];
+    endDate: Date,
+    currency: Currency
+  ): Promise<AnalyticsReceipt[]> {
+    const receipts: Array<Omit<AnalyticsReceipt, 'convertedTotal'>> = [];
     let hasMore = true;
     let startAfter: string | undefined;
 
@@ -184,6 +272,7 @@ export class AnalyticsService {
         ...result.receipts.map((r) => ({
           merchant: r.merchant,
           total: r.total,
+          currency: r.currency,
           category: r.category,
           date: r.date instanceof Date ? r.date : new Date(r.date),
         }))
@@ -193,15 +282,22 @@ export class AnalyticsService {
       startAfter = result.nextCursor;
     }
 
-    return receipts;
+    const convertedTotals = await this.exchangeRateService.convertAmounts(
+      receipts.map((r) => ({ amount: r.total, currency: r.currency, date: r.date })),
+      currency
+    );
+
+    return receipts.map((r, index) => ({ ...r, convertedTotal: convertedTotals[index] }));
   }
 
   /**
    * Calculate category breakdown
+   * Subcategories are listed under their parent and included in its totals
    */
   private calculateCategoryBreakdown(
     receipts: Array<{ category: string; total: number }>,
-    totalAmount: number
+    totalAmount: number,
+    parentNames: Map<string, string>
   ): CategoryBreakdown[] {
     const categoryMap = new Map<string, { amount: number; count: number }>();
 
@@ -213,12 +309,43 @@ export class AnalyticsService {
       });
     });
 
-    return Array.from(categoryMap.entries())
-      .map(([category, stats]) => ({
-        category,
-        amount: stats.amount,
-        count: stats.count,
-        percentage: (stats.amount / totalAmount) * 100,
+    const toBreakdown = (
+      category: string,
+      stats: { amount: number; count: number }
+    ): CategoryBreakdown => ({
+      category,
+      amount: stats.amount,
+      count: stats.count,
+      percentage: (stats.amount / totalAmount) * 100,
+      subcategories: [],
+    });
+
+    const topLevel = new Map<string, CategoryBreakdown>();
+    const children: Array<[string, CategoryBreakdown]> = [];
+
+    categoryMap.forEach((stats, category) => {
+      const parent = parentNames.get(category);
+      if (parent) {
+        children.push([parent, toBreakdown(category, stats)]);
+      } else {
+        topLevel.set(category, toBreakdown(category, stats));
+      }
+    });
+
+    // Parents without receipts of their own still appear when a subcategory has spending
+    children.forEach(([parent, child]) => {
+      const breakdown = topLevel.get(parent) || toBreakdown(parent, { amount: 0, count: 0 });
+      breakdown.amount += child.amount;
+      breakdown.count += child.count;
+      breakdown.percentage = (breakdown.amount / totalAmount) * 100;
+      breakdown.subcategories.push(child);
+      topLevel.set(parent, breakdown);
+    });
+
+    return Array.from(topLevel.values())
+      .map((breakdown) => ({
+        ...breakdown,
+        subcategories: breakdown.subcategories.sort((a, b) => b.amount - a.amount),
       }))
       .sort((a, b) => b.amount - a.amount);
   }
@@ -279,12 +406,15 @@ export class AnalyticsService {
   /**
    * Get empty analytics result
    */
-  private getEmptyAnalytics(startDate: Date, endDate: Date): AnalyticsResult {
+  private getEmptyAnalytics(startDate: Date, endDate: Date, currency: Currency): AnalyticsResult {
     return {
       summary: {
+        currency,
         totalAmount: 0,
         totalReceipts: 0,
         avgAmount: 0,
+        unconvertedReceipts: 0,
+        byCurrency: [],
         period: {
           start: startDate,
           end: endDate,
@@ -0,0 +1,194 @@
+/**
+ * API key service - issuing, rotating and revoking API keys, and authenticating requests with them
+ */
+
+import { ApiKeyRepository } from '../repositories/apiKey.repository';
+import {
+  API_KEY_RATE_LIMIT_WINDOWS,
+  APIKey,
+  APIKeyRateLimit,
+  APIKeyUsageSummary,
+  CreateAPIKeyDto,
+  DEFAULT_API_KEY_RATE_LIMIT,
+  DEFAULT_ROTATION_GRACE_HOURS,
+  IssuedAPIKey,
+  MAX_ACTIVE_API_KEYS,
+  UpdateAPIKeyDto,
+  generateAPIKey,
+  getAPIKeyPrefix,
+  getRotationExpiry,
+  hashAPIKey,
+  isAPIKeyUsable,
+  isSupportedAPIKeyRateLimit,
+} from '../models/apiKey.model';
+import { AuthenticatedUser } from '../models/user.model';
+import { AuthService } from './auth.service';
+import { apiKeyUsage } from './apiKeyUsage.service';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../config/logger';
+
+export class ApiKeyService {
+  private apiKeyRepository: ApiKeyRepository;
+  private authService: AuthService;
+
+  constructor() {
+    this.apiKeyRepository = new ApiKeyRepository();
+    this.authService = new AuthService();
+  }
+
+  /**
+   * Issue a new API key
+   * The plaintext key is only returned here; it can't be retrieved later
+   */
+  public async createAPIKey(userId: string, data: CreateAPIKeyDto): Promise<IssuedAPIKey> {
+    this.checkRateLimit(data.rateLimit);
+    const keys = await this.apiKeyRepository.getAPIKeysByUserId(userId);
+    if (keys.filter((apiKey) => isAPIKeyUsable(apiKey)).length >= MAX_ACTIVE_API_KEYS) {
+      throw new AppError(`You can have at most ${MAX_ACTIVE_API_KEYS} active API keys`, 400);
+    }
+
+    const key = generateAPIKey();
+    const apiKey = await this.apiKeyRepository.createAPIKey(
+      userId,
+      data,
+      hashAPIKey(key),
+      getAPIKeyPrefix(key)
+    );
+
+    return { apiKey, key };
+  }
+
+  /**
+   * List a user's API keys, including revoked and expired ones
+   */
+  public async listAPIKeys(userId: string): Promise<APIKey[]> {
+    return this.apiKeyRepository.getAPIKeysByUserId(userId);
+  }
+
+  /**
+   * Rename a key or change its scopes or quota
+   */
+  public async updateAPIKey(
+    apiKeyId: string,
+    userId: string,
+    updates: UpdateAPIKeyDto
+  ): Promise<APIKey> {
+    this.checkRateLimit(updates.rateLimit);
+    await this.getUsableAPIKey(apiKeyId, userId);
+    return this.apiKeyRepository.updateAPIKey(apiKeyId, userId, updates);
+  }
+
+  /**
+   * Replace a key with a new one that has the same name, scopes and expiry
+   * The old key keeps working for the grace period so clients can switch over
+   */
+  public async rotateAPIKey(
+    apiKeyId: string,
+    userId: string,
+    gracePeriodHours: number = DEFAULT_ROTATION_GRACE_HOURS
+  ): Promise<IssuedAPIKey> {
+    const apiKey = await this.getUsableAPIKey(apiKeyId, userId);
+    if (apiKey.rotatedTo) {
+      throw new AppError('API key has already been rotated', 400);
+    }
+
+    const key = generateAPIKey();
+    const rotated = await this.apiKeyRepository.rotateAPIKey(
+      apiKey,
+      hashAPIKey(key),
+      getAPIKeyPrefix(key),
+      gracePeriodHours > 0 ? getRotationExpiry(apiKey, gracePeriodHours) : null
+    );
+
+    return { apiKey: rotated, key };
+  }
+
+  /**
+   * Revoke a key; requests using it are rejected from now on
+   */
+  public async revokeAPIKey(apiKeyId: string, userId: string): Promise<void> {
+    const apiKey = await this.apiKeyRepository.getAPIKeyById(apiKeyId, userId);
+    if (!apiKey) {
+      throw new AppError('API key not found', 404);
+    }
+
+    if (apiKey.active) {
+      await this.apiKeyRepository.revokeAPIKey(apiKeyId);
+    }
+  }
+
+  /**
+   * Get a key's request counts for the last 24 hours and 30 days
+   */
+  public async getAPIKeyUsage(apiKeyId: string, userId: string): Promise<APIKeyUsageSummary> {
+    const apiKey = await this.apiKeyRepository.getAPIKeyById(apiKeyId, userId);
+    if (!apiKey) {
+      throw new AppError('API key not found', 404);
+    }
+
+    return apiKeyUsage.getUsageSummary(apiKey.id, apiKey.rateLimit ?? DEFAULT_API_KEY_RATE_LIMIT);
+  }
+
+  /**
+   * Look up the key sent with a request and the user it belongs to
+   * Returns null for unknown and revoked keys; throws for expired keys
+   */
+  public async authenticate(
+    key: string
+  ): Promise<{ apiKey: APIKey; user: AuthenticatedUser } | null> {
+    const apiKey = await this.apiKeyRepository.findActiveAPIKeyByHash(hashAPIKey(key));
+    if (!apiKey) {
+      return null;
+    }
+
+    if (!isAPIKeyUsable(apiKey)) {
+      logger.warn('Expired API key used', { apiKeyId: apiKey.id, userId: apiKey.userId });
+      throw new AppError('API key has expired', 401);
+    }
+
+    const profile = await this.authService.getUserProfile(apiKey.userId);
+    if (!profile) {
+      logger.warn('API key owner not found', { apiKeyId: apiKey.id, userId: apiKey.userId });
+      return null;
+    }
+
+    // Best-effort: a failed last-used update shouldn't fail the request
+    this.apiKeyRepository.touchAPIKey(apiKey.id).catch(() => undefined);
+
+    return {
+      apiKey,
+      user: {
+        uid: profile.userId,
+        email: profile.email,
+        role: profile.role,
+        subscriptionTier: profile.subscriptionTier,
+      },
+    };
+  }
+
+  /**
+   * Helper method to get a key that hasn't been revoked or expired
+   */
+  private async getUsableAPIKey(apiKeyId: string, userId: string): Promise<APIKey> {
+    const apiKey = await this.apiKeyRepository.getAPIKeyById(apiKeyId, userId);
+    if (!apiKey) {
+      throw new AppError('API key not found', 404);
+    }
+    if (!isAPIKeyUsable(apiKey)) {
+      throw new AppError('API key has been revoked or has expired', 400);
+    }
+    return apiKey;
+  }
+
+  /**
+   * Helper method to reject a quota whose window the rate limiter can't enforce
+   */
+  private checkRateLimit(rateLimit: APIKeyRateLimit | null | undefined): void {
+    if (rateLimit && !isSupportedAPIKeyRateLimit(rateLimit)) {
+      throw new AppError(
+        `Validation error: windowMs must be one of ${API_KEY_RATE_LIMIT_WINDOWS.join(', ')}`,
+        400
+      );
+    }
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * API key usage service - counts requests made with each API key
+ * Counts are buffered in memory and added to hourly and daily counters on an interval, so busy
+ * keys don't turn every request into a Firestore write.
+ */
+
+import { ApiKeyUsageRepository } from '../repositories/apiKeyUsage.repository';
+import {
+  APIKeyRateLimit,
+  APIKeyUsageBucket,
+  APIKeyUsageGranularity,
+  APIKeyUsagePoint,
+  APIKeyUsageSummary,
+  getUsagePeriodStart,
+  sumUsage,
+} from '../models/apiKey.model';
+import logger from '../config/logger';
+
+// How often buffered counts are written
+const FLUSH_INTERVAL_MS = 60 * 1000;
+
+export class ApiKeyUsageService {
+  private repository: ApiKeyUsageRepository;
+  private pending = new Map<string, APIKeyUsageBucket>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private flushing: Promise<void> | null = null;
+
+  constructor() {
+    this.repository = new ApiKeyUsageRepository();
+  }
+
+  /**
+   * Count a request made with a key
+   */
+  record(apiKeyId: string, userId: string, rateLimited = false, now = new Date()): void {
+    const granularities: APIKeyUsageGranularity[] = ['hour', 'day'];
+    for (const granularity of granularities) {
+      const periodStart = getUsagePeriodStart(now, granularity);
+      const bucketKey = `${apiKeyId}:${granularity}:${periodStart.getTime()}`;
+      const bucket = this.pending.get(bucketKey) ?? {
+        apiKeyId,
+        userId,
+        granularity,
+        periodStart,
+        requests: 0,
+        rateLimited: 0,
+      };
+
+      // A rejected request was already counted when it came in
+      if (rateLimited) {
+        bucket.rateLimited += 1;
+      } else {
+        bucket.requests += 1;
+      }
+      this.pending.set(bucketKey, bucket);
+    }
+  }
+
+  /**
+   * Write buffered counts
+   * Counts that fail to write are kept and retried on the next flush
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) {
+      return this.flushing;
+    }
+    if (this.pending.size === 0) {
+      return;
+    }
+
+    const buckets = [...this.pending.values()];
+    this.pending.clear();
+
+    this.flushing = this.repository
+      .incrementUsage(buckets)
+      .catch((error) => {
+        logger.error('Failed to flush API key usage', { buckets: buckets.length, error });
+        buckets.forEach((bucket) => this.requeue(bucket));
+      })
+      .finally(() => {
+        this.flushing = null;
+      });
+
+    return this.flushing;
+  }
+
+  /**
+   * Start flushing on an interval
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.flush();
+    }, FLUSH_INTERVAL_MS);
+    // Don't keep the process alive just for the flush
+    this.timer.unref();
+  }
+
+  /**
+   * Stop flushing and write what is buffered
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await this.flush();
+  }
+
+  /**
+   * Get a key's usage for the last 24 hours and 30 days
+   * Requests from the last minute may not be counted yet.
+   */
+  async getUsageSummary(
+    apiKeyId: string,
+    rateLimit: APIKeyRateLimit,
+    now = new Date()
+  ): Promise<APIKeyUsageSummary> {
+    const hourMs = 60 * 60 * 1000;
+    const [hourly, daily] = await Promise.all([
+      this.repository.getUsage(
+        apiKeyId,
+        'hour',
+        getUsagePeriodStart(new Date(now.getTime() - 23 * hourMs), 'hour')
+      ),
+      this.repository.getUsage(
+        apiKeyId,
+        'day',
+        getUsagePeriodStart(new Date(now.getTime() - 29 * 24 * hourMs), 'day')
+      ),
+    ]);
+
+    const toPoint = (bucket: APIKeyUsageBucket): APIKeyUsagePoint => ({
+      periodStart: bucket.periodStart,
+      requests: bucket.requests,
+      rateLimited: bucket.rateLimited,
+    });
+
+    return {
+      apiKeyId,
+      rateLimit,
+      last24Hours: { ...sumUsage(hourly), hourly: hourly.map(toPoint) },
+      last30Days: { ...sumUsage(daily), daily: daily.map(toPoint) },
+    };
+  }
+
+  /**
+   * Helper method to put counts that failed to write back in the buffer
+   */
+  private requeue(bucket: APIKeyUsageBucket): void {
+    const bucketKey = `${bucket.apiKeyId}:${bucket.granularity}:${bucket.periodStart.getTime()}`;
+    const pending = this.pending.get(bucketKey);
+    if (pending) {
+      pending.requests += bucket.requests;
+      pending.rateLimited += bucket.rateLimited;
+    } else {
+      this.pending.set(bucketKey, bucket);
+    }
+  }
+}
+
+// Export singleton instance
+export const apiKeyUsage = new ApiKeyUsageService();
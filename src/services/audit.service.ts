@@ -1,14 +1,23 @@
 /// <reference path="../types/express.d.ts" />
 import { Request } from 'express';
+import { format as csvFormat } from '@fast-csv/format';
 import { getFirestore } from '../config/firebase';
 import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
 
 export enum AuditAction {
   // Receipt operations
   RECEIPT_CREATE = 'receipt.create',
   RECEIPT_UPDATE = 'receipt.update',
   RECEIPT_DELETE = 'receipt.delete',
+  RECEIPT_RESTORE = 'receipt.restore',
+  RECEIPT_PURGE = 'receipt.purge',
+  RECEIPT_REVERT = 'receipt.revert',
+  RECEIPT_BULK = 'receipt.bulk',
+  RECEIPT_DUPLICATE_MERGE = 'receipt.duplicate.merge',
+  RECEIPT_DUPLICATE_DISMISS = 'receipt.duplicate.dismiss',
   RECEIPT_EXPORT = 'receipt.export',
+  RECEIPT_RULES_APPLY = 'receipt.rules.apply',
 
   // Billing operations
   BILLING_CHECKOUT_CREATE = 'billing.checkout.create',
@@ -20,6 +29,19 @@ export enum AuditAction {
   AUTH_PROFILE_UPDATE = 'auth.profile.update',
   AUTH_LOGIN = 'auth.login',
   AUTH_LOGOUT = 'auth.logout',
+  AUTH_API_KEY_CREATE = 'auth.api_key.create',
+  AUTH_API_KEY_UPDATE = 'auth.api_key.update',
+  AUTH_API_KEY_ROTATE = 'auth.api_key.rotate',
+  AUTH_API_KEY_REVOKE = 'auth.api_key.revoke',
+
+  // Admin operations
+  ADMIN_JOB_REPLAY = 'admin.job.replay',
+  ADMIN_EXCHANGE_RATES_IMPORT = 'admin.exchange_rates.import',
+  ADMIN_IP_BLOCK = 'admin.ip.block',
+  ADMIN_IP_UNBLOCK = 'admin.ip.unblock',
+  ADMIN_IP_ALLOWLIST_ADD = 'admin.ip.allowlist.add',
+  ADMIN_IP_ALLOWLIST_REMOVE = 'admin.ip.allowlist.remove',
+  ADMIN_AUDIT_LOGS_EXPORT = 'admin.audit_logs.export',
 
   // Security events
   SECURITY_RATE_LIMIT_EXCEEDED = 'security.rate_limit.exceeded',
@@ -28,12 +50,84 @@ export enum AuditAction {
   SECURITY_IP_BLOCKED = 'security.ip.blocked',
 }
 
+/**
+ * Actions shown in the admin security console: security events and admin changes to IP rules
+ */
+export const SECURITY_EVENT_ACTIONS: AuditAction[] = [
+  AuditAction.SECURITY_RATE_LIMIT_EXCEEDED,
+  AuditAction.SECURITY_INVALID_TOKEN,
+  AuditAction.SECURITY_UNAUTHORIZED_ACCESS,
+  AuditAction.SECURITY_IP_BLOCKED,
+  AuditAction.ADMIN_IP_BLOCK,
+  AuditAction.ADMIN_IP_UNBLOCK,
+  AuditAction.ADMIN_IP_ALLOWLIST_ADD,
+  AuditAction.ADMIN_IP_ALLOWLIST_REMOVE,
+];
+
+/**
+ * Actions users can see in their own activity feed: sign-ins, exports and billing
+ */
+export const USER_ACTIVITY_ACTIONS: AuditAction[] = [
+  AuditAction.AUTH_LOGIN,
+  AuditAction.AUTH_LOGOUT,
+  AuditAction.RECEIPT_EXPORT,
+  AuditAction.BILLING_CHECKOUT_CREATE,
+  AuditAction.BILLING_PORTAL_CREATE,
+  AuditAction.BILLING_SUBSCRIPTION_UPDATE,
+];
+
+// Firestore allows at most 30 values in an `in` filter
+export const MAX_AUDIT_ACTION_FILTERS = 30;
+export const MAX_AUDIT_EXPORT_ROWS = 10000;
+const AUDIT_EXPORT_PAGE_SIZE = 500;
+
+// Equality filters queryLogs can combine, each set backed by a composite index with timestamp
+// in firestore.indexes.json. Other combinations would fail in Firestore, so they are rejected.
+export const SUPPORTED_AUDIT_FILTER_COMBINATIONS: string[][] = [
+  [],
+  ['action'],
+  ['userId'],
+  ['ip'],
+  ['resourceType'],
+  ['resourceId'],
+  ['success'],
+  ['requestId'],
+  ['action', 'userId'],
+  ['action', 'ip'],
+  ['action', 'success'],
+  ['action', 'ip', 'userId'],
+  ['userId', 'resourceType'],
+  ['userId', 'success'],
+  ['resourceType', 'resourceId'],
+];
+
+export type AuditExportFormat = 'csv' | 'json';
+
+export interface AuditLogFilters {
+  actions?: AuditAction[];
+  userId?: string;
+  ip?: string;
+  resourceType?: string;
+  resourceId?: string;
+  success?: boolean;
+  requestId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditLogExport {
+  content: Buffer;
+  count: number;
+  truncated: boolean; // More logs matched than MAX_AUDIT_EXPORT_ROWS
+}
+
 export interface AuditLog {
   id?: string;
   timestamp: Date;
   action: AuditAction;
   userId?: string;
   userEmail?: string;
+  apiKeyId?: string; // Set when the request authenticated with an API key
   ip?: string;
   userAgent?: string;
   requestId?: string;
@@ -46,6 +140,32 @@ export interface AuditLog {
   errorMessage?: string;
 }
 
+/**
+ * Helper function to list the equality filters set on an audit log query
+ */
+function getAuditFilterNames(filters: AuditLogFilters): string[] {
+  const filterSet: [string, boolean][] = [
+    ['action', !!filters.actions?.length],
+    ['userId', !!filters.userId],
+    ['ip', !!filters.ip],
+    ['resourceType', !!filters.resourceType],
+    ['resourceId', !!filters.resourceId],
+    ['success', filters.success !== undefined],
+    ['requestId', !!filters.requestId],
+  ];
+  return filterSet.filter(([, isSet]) => isSet).map(([name]) => name);
+}
+
+/**
+ * Helper function to check equality filters against the combinations with an index
+ */
+function isSupportedAuditFilterCombination(filterNames: string[]): boolean {
+  const key = [...filterNames].sort().join(',');
+  return SUPPORTED_AUDIT_FILTER_COMBINATIONS.some(
+    (combination) => [...combination].sort().join(',') === key
+  );
+}
+
 export class AuditLogger {
   private collectionName = 'auditLogs';
 
@@ -93,6 +213,7 @@ export class AuditLogger {
       action,
       userId: req.user?.uid,
       userEmail: req.user?.email,
+      ...(req.apiKey && { apiKeyId: req.apiKey.id }),
       ip: req.ip,
       userAgent: req.get('user-agent'),
       requestId: req.requestId,
@@ -149,6 +270,110 @@ export class AuditLogger {
     }
   }
 
+  /**
+   * Query audit logs matching filters, most recent first
+   * startAfter is the ID of the last log of the previous page. Throws a 400 for a filter
+   * combination without an index or an unknown cursor.
+   */
+  async queryLogs(filters: AuditLogFilters, limit = 50, startAfter?: string): Promise<AuditLog[]> {
+    const filterNames = getAuditFilterNames(filters);
+    if (!isSupportedAuditFilterCombination(filterNames)) {
+      const combinations = SUPPORTED_AUDIT_FILTER_COMBINATIONS.filter(
+        (combination) => combination.length > 1
+      ).map((combination) => combination.join('+'));
+      throw new AppError(
+        `Filtering by ${filterNames.join(' and ')} together is not supported; combine at most ${combinations.join(', ')}`,
+        400
+      );
+    }
+
+    try {
+      const db = getFirestore();
+      let query = db.collection(this.collectionName).orderBy('timestamp', 'desc').limit(limit);
+
+      if (filters.actions?.length) {
+        query = query.where('action', 'in', filters.actions);
+      }
+      if (filters.userId) {
+        query = query.where('userId', '==', filters.userId);
+      }
+      if (filters.ip) {
+        query = query.where('ip', '==', filters.ip);
+      }
+      if (filters.resourceType) {
+        query = query.where('resource.type', '==', filters.resourceType);
+      }
+      if (filters.resourceId) {
+        query = query.where('resource.id', '==', filters.resourceId);
+      }
+      if (filters.success !== undefined) {
+        query = query.where('success', '==', filters.success);
+      }
+      if (filters.requestId) {
+        query = query.where('requestId', '==', filters.requestId);
+      }
+      if (filters.from) {
+        query = query.where('timestamp', '>=', filters.from);
+      }
+      if (filters.to) {
+        query = query.where('timestamp', '<=', filters.to);
+      }
+
+      if (startAfter) {
+        const startAfterDoc = await db.collection(this.collectionName).doc(startAfter).get();
+        if (!startAfterDoc.exists) {
+          throw new AppError('Invalid startAfter cursor', 400);
+        }
+        query = query.startAfter(startAfterDoc);
+      }
+
+      const snapshot = await query.get();
+      return snapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          ...data,
+          id: doc.id,
+          timestamp: data.timestamp?.toDate ? data.timestamp.toDate() : new Date(data.timestamp),
+        } as AuditLog;
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Failed to query audit logs', { error, filters });
+      throw new AppError('Failed to query audit logs', 500);
+    }
+  }
+
+  /**
+   * Export the logs matching filters, most recent first, up to MAX_AUDIT_EXPORT_ROWS
+   */
+  async exportLogs(filters: AuditLogFilters, format: AuditExportFormat): Promise<AuditLogExport> {
+    const logs: AuditLog[] = [];
+    let truncated = false;
+    let startAfter: string | undefined;
+
+    for (;;) {
+      const page = await this.queryLogs(filters, AUDIT_EXPORT_PAGE_SIZE, startAfter);
+      logs.push(...page);
+
+      if (logs.length > MAX_AUDIT_EXPORT_ROWS) {
+        logs.length = MAX_AUDIT_EXPORT_ROWS;
+        truncated = true;
+        break;
+      }
+      if (page.length < AUDIT_EXPORT_PAGE_SIZE) {
+        break;
+      }
+      startAfter = page[page.length - 1].id;
+    }
+
+    const content =
+      format === 'csv' ? await this.generateCSV(logs) : Buffer.from(JSON.stringify(logs, null, 2));
+
+    return { content, count: logs.length, truncated };
+  }
+
   /**
    * Query security events (failed operations)
    */
@@ -171,6 +396,54 @@ export class AuditLogger {
       return [];
     }
   }
+
+  /**
+   * Helper method to write logs as CSV, one row per log
+   */
+  private async generateCSV(logs: AuditLog[]): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      const csvStream = csvFormat({
+        headers: true,
+        delimiter: ',',
+      });
+
+      csvStream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      csvStream.on('end', () => resolve(Buffer.concat(chunks)));
+      csvStream.on('error', reject);
+
+      logs.forEach((log) => {
+        csvStream.write({
+          Timestamp: log.timestamp.toISOString(),
+          Action: log.action,
+          Success: log.success,
+          'User ID': this.toCSVCell(log.userId),
+          'User Email': this.toCSVCell(log.userEmail),
+          'API Key ID': this.toCSVCell(log.apiKeyId),
+          IP: this.toCSVCell(log.ip),
+          'User Agent': this.toCSVCell(log.userAgent),
+          'Request ID': this.toCSVCell(log.requestId),
+          'Resource Type': this.toCSVCell(log.resource?.type),
+          'Resource ID': this.toCSVCell(log.resource?.id),
+          Error: this.toCSVCell(log.errorMessage),
+          Metadata: log.metadata ? this.toCSVCell(JSON.stringify(log.metadata)) : '',
+        });
+      });
+
+      csvStream.end();
+    });
+  }
+
+  /**
+   * Helper method to stop spreadsheet apps from running client-supplied values
+   * (such as user agents) as formulas
+   */
+  private toCSVCell(value?: string): string {
+    if (!value) {
+      return '';
+    }
+    return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  }
 }
 
 // Export singleton instance
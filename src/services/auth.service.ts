@@ -6,6 +6,8 @@ import {
   SubscriptionStatus,
   UpdateUserProfileDto,
 } from '../models/user.model';
+import { Currency } from '../models/currency.model';
+import { DEFAULT_HOME_CURRENCY } from '../models/exchangeRate.model';
 import logger from '../config/logger';
 import { AppError } from '../middleware/errorHandler';
 
@@ -30,12 +32,14 @@ export class AuthService {
           userId: userDoc.id,
           email: data.email,
           displayName: data.displayName,
+          homeCurrency: data.homeCurrency ?? DEFAULT_HOME_CURRENCY,
           role: data.role as UserRole,
           subscriptionTier: data.subscriptionTier as SubscriptionTier,
           stripeCustomerId: data.stripeCustomerId,
           subscriptionId: data.subscriptionId,
           subscriptionStatus: data.subscriptionStatus as SubscriptionStatus | undefined,
           currentPeriodEnd: data.currentPeriodEnd?.toDate(),
+          lastSignInAt: data.lastSignInAt?.toDate(),
           receiptUsageThisMonth: data.receiptUsageThisMonth ?? 0,
           usagePeriodStart: data.usagePeriodStart?.toDate() || new Date(),
           createdAt: data.createdAt.toDate(),
@@ -48,6 +52,7 @@ export class AuthService {
       const newProfile: Omit<UserProfile, 'userId'> = {
         email,
         displayName: email.split('@')[0],
+        homeCurrency: DEFAULT_HOME_CURRENCY,
         role: UserRole.USER,
         subscriptionTier: SubscriptionTier.FREE,
         receiptUsageThisMonth: 0,
@@ -87,12 +92,14 @@ export class AuthService {
         userId: userDoc.id,
         email: data.email,
         displayName: data.displayName,
+        homeCurrency: data.homeCurrency ?? DEFAULT_HOME_CURRENCY,
         role: data.role as UserRole,
         subscriptionTier: data.subscriptionTier as SubscriptionTier,
         stripeCustomerId: data.stripeCustomerId,
         subscriptionId: data.subscriptionId,
         subscriptionStatus: data.subscriptionStatus as SubscriptionStatus | undefined,
         currentPeriodEnd: data.currentPeriodEnd?.toDate(),
+        lastSignInAt: data.lastSignInAt?.toDate(),
         receiptUsageThisMonth: data.receiptUsageThisMonth ?? 0,
         usagePeriodStart: data.usagePeriodStart?.toDate() || new Date(),
         createdAt: data.createdAt.toDate(),
@@ -104,6 +111,39 @@ export class AuthService {
     }
   }
 
+  /**
+   * Get the currency a user's analytics and exports are converted to
+   */
+  public async getHomeCurrency(userId: string): Promise<Currency> {
+    const profile = await this.getUserProfile(userId);
+    return profile?.homeCurrency ?? DEFAULT_HOME_CURRENCY;
+  }
+
+  /**
+   * Record a Firebase sign-in
+   * Returns false when the sign-in was already recorded, so each sign-in is only counted once
+   * no matter how many requests its tokens are used on
+   */
+  public async recordSignIn(userId: string, signedInAt: Date): Promise<boolean> {
+    try {
+      const userRef = this.getDb().collection(this.usersCollection).doc(userId);
+
+      return await this.getDb().runTransaction(async (transaction) => {
+        const userDoc = await transaction.get(userRef);
+        const lastSignInAt: Date | undefined = userDoc.data()?.lastSignInAt?.toDate();
+        if (!userDoc.exists || (lastSignInAt && lastSignInAt >= signedInAt)) {
+          return false;
+        }
+
+        transaction.update(userRef, { lastSignInAt: signedInAt });
+        return true;
+      });
+    } catch (error) {
+      logger.error('Error recording sign-in', { userId, error });
+      throw new AppError('Failed to record sign-in', 500);
+    }
+  }
+
   public async updateUserProfile(
     userId: string,
     updates: UpdateUserProfileDto
@@ -157,6 +197,7 @@ export class AuthService {
       const newProfile: Omit<UserProfile, 'userId'> = {
         email,
         displayName: displayName || email.split('@')[0],
+        homeCurrency: DEFAULT_HOME_CURRENCY,
         role: UserRole.USER,
         subscriptionTier: SubscriptionTier.FREE,
         receiptUsageThisMonth: 0,
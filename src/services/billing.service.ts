@@ -4,6 +4,7 @@ import { getFirestore } from '../config/firebase';
 import { SubscriptionTier, SubscriptionStatus, UserProfile } from '../models/user.model';
 import logger from '../config/logger';
 import { AppError } from '../middleware/errorHandler';
+import { auditLogger, AuditAction } from './audit.service';
 
 /**
  * Extended Stripe Subscription type with period fields
@@ -299,6 +300,15 @@ export class BillingService {
       });
 
       logger.info('Subscription activated', { userId, subscriptionId });
+
+      // Audit log
+      await auditLogger.log({
+        action: AuditAction.BILLING_SUBSCRIPTION_UPDATE,
+        userId,
+        resource: { type: 'subscription', id: subscriptionId },
+        metadata: { event: 'activated', tier: SubscriptionTier.PRO, status: subscription.status },
+        success: true,
+      });
     } catch (error) {
       logger.error('Error handling checkout completed', { error });
     }
@@ -342,6 +352,15 @@ export class BillingService {
       });
 
       logger.info('Subscription updated', { userId: userDoc.id, status: subscription.status });
+
+      // Audit log
+      await auditLogger.log({
+        action: AuditAction.BILLING_SUBSCRIPTION_UPDATE,
+        userId: userDoc.id,
+        resource: { type: 'subscription', id: subscription.id },
+        metadata: { event: 'updated', tier, status: subscription.status },
+        success: true,
+      });
     } catch (error) {
       logger.error('Error handling subscription updated', { error });
     }
@@ -375,6 +394,19 @@ export class BillingService {
       });
 
       logger.info('Subscription canceled, downgraded to free tier', { userId: userDoc.id });
+
+      // Audit log
+      await auditLogger.log({
+        action: AuditAction.BILLING_SUBSCRIPTION_UPDATE,
+        userId: userDoc.id,
+        resource: { type: 'subscription', id: subscription.id },
+        metadata: {
+          event: 'canceled',
+          tier: SubscriptionTier.FREE,
+          status: SubscriptionStatus.CANCELED,
+        },
+        success: true,
+      });
     } catch (error) {
       logger.error('Error handling subscription deleted', { error });
     }
@@ -0,0 +1,272 @@
+/**
+ * Budget service - budget management, status and threshold alerts
+ */
+
+import { BudgetRepository } from '../repositories/budget.repository';
+import { CategoryRepository } from '../repositories/category.repository';
+import {
+  Budget,
+  BudgetAlert,
+  BudgetAlertNotifier,
+  BudgetStatus,
+  CreateBudgetDto,
+  UpdateBudgetDto,
+  getBudgetPeriodRange,
+  getCrossedThresholds,
+} from '../models/budget.model';
+import { Receipt } from '../models/receipt.model';
+import { getParentNames } from '../models/category.model';
+import { roundToMinorUnits } from '../models/currency.model';
+import { AnalyticsService } from './analytics.service';
+import { AuthService } from './auth.service';
+import { createBudgetAlertNotifiers } from './notification.service';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../config/logger';
+
+export class BudgetService {
+  private budgetRepository: BudgetRepository;
+  private categoryRepository: CategoryRepository;
+  private analyticsService: AnalyticsService;
+  private authService: AuthService;
+  private notifiers: BudgetAlertNotifier[];
+
+  constructor(notifiers: BudgetAlertNotifier[] = createBudgetAlertNotifiers()) {
+    this.budgetRepository = new BudgetRepository();
+    this.categoryRepository = new CategoryRepository();
+    this.analyticsService = new AnalyticsService();
+    this.authService = new AuthService();
+    this.notifiers = notifiers;
+  }
+
+  /**
+   * Create a budget, one per category and period
+   */
+  public async createBudget(userId: string, data: CreateBudgetDto): Promise<Budget> {
+    const existing = await this.budgetRepository.findBudget(userId, data.category, data.period);
+    if (existing) {
+      throw new AppError(`A ${data.period} budget for ${data.category} already exists`, 409);
+    }
+
+    const currency = data.currency || (await this.authService.getHomeCurrency(userId));
+    const budget = await this.budgetRepository.createBudget(userId, { ...data, currency });
+
+    // A budget created mid-period may already be over a threshold
+    await this.refreshAlerts(userId, [budget]);
+
+    return budget;
+  }
+
+  /**
+   * List a user's budgets
+   */
+  public async listBudgets(userId: string): Promise<Budget[]> {
+    return this.budgetRepository.getBudgetsByUserId(userId);
+  }
+
+  /**
+   * Update a budget's limit, period or currency
+   */
+  public async updateBudget(
+    budgetId: string,
+    userId: string,
+    updates: UpdateBudgetDto
+  ): Promise<Budget> {
+    const budget = await this.budgetRepository.getBudgetById(budgetId, userId);
+    if (!budget) {
+      throw new AppError('Budget not found', 404);
+    }
+
+    if (updates.period && updates.period !== budget.period) {
+      const existing = await this.budgetRepository.findBudget(
+        userId,
+        budget.category,
+        updates.period
+      );
+      if (existing) {
+        throw new AppError(`A ${updates.period} budget for ${budget.category} already exists`, 409);
+      }
+    }
+
+    const updated = await this.budgetRepository.updateBudget(budgetId, updates);
+
+    await this.refreshAlerts(userId, [updated]);
+
+    return updated;
+  }
+
+  /**
+   * Delete a budget
+   */
+  public async deleteBudget(budgetId: string, userId: string): Promise<void> {
+    const budget = await this.budgetRepository.getBudgetById(budgetId, userId);
+    if (!budget) {
+      throw new AppError('Budget not found', 404);
+    }
+
+    await this.budgetRepository.deleteBudget(budgetId);
+
+    logger.info('Budget deleted', { budgetId, userId });
+  }
+
+  /**
+   * Get every budget with its spending for the period containing the date
+   */
+  public async getBudgetStatus(userId: string, date: Date = new Date()): Promise<BudgetStatus[]> {
+    const budgets = await this.budgetRepository.getBudgetsByUserId(userId);
+    return this.calculateStatuses(budgets, date);
+  }
+
+  /**
+   * List a user's recent budget alerts
+   */
+  public async listAlerts(userId: string, limit = 50): Promise<BudgetAlert[]> {
+    return this.budgetRepository.getAlertsByUserId(userId, limit);
+  }
+
+  /**
+   * Re-check the user's budgets affected by created, updated or deleted receipts
+   */
+  public async onReceiptsChanged(
+    userId: string,
+    receipts: Array<Pick<Receipt, 'category' | 'date'>>
+  ): Promise<void> {
+    let budgets: Budget[];
+    let parentNames: Map<string, string>;
+    try {
+      budgets = await this.budgetRepository.getBudgetsByUserId(userId);
+      parentNames =
+        budgets.length > 0
+          ? getParentNames(await this.categoryRepository.getCategoriesByUserId(userId))
+          : new Map();
+    } catch (error) {
+      logger.error('Failed to load budgets after receipt change', { userId, error });
+      return;
+    }
+
+    // Only the current period can raise alerts; past periods are reported by status
+    const now = new Date();
+    const affected = budgets.filter((budget) => {
+      const current = getBudgetPeriodRange(budget.period, now);
+      return receipts.some((receipt) => {
+        const date = receipt.date instanceof Date ? receipt.date : new Date(receipt.date);
+        // A parent category's budget also counts its subcategories
+        const matches =
+          receipt.category === budget.category ||
+          parentNames.get(receipt.category) === budget.category;
+        return matches && date >= current.start && date <= current.end;
+      });
+    });
+
+    if (affected.length > 0) {
+      await this.refreshAlerts(userId, affected);
+    }
+  }
+
+  /**
+   * Update alert state for budgets in their current period
+   * Best-effort: a failure here must not fail the receipt or budget change that triggered it
+   */
+  private async refreshAlerts(userId: string, budgets: Budget[]): Promise<void> {
+    try {
+      await this.evaluateBudgets(budgets, new Date());
+    } catch (error) {
+      logger.error('Failed to update budget alerts', {
+        userId,
+        budgetIds: budgets.map((budget) => budget.id),
+        error,
+      });
+    }
+  }
+
+  /**
+   * Compute spending for budgets, fetching each period and currency once
+   */
+  private async calculateStatuses(budgets: Budget[], date: Date): Promise<BudgetStatus[]> {
+    const spendingByRange = new Map<string, Promise<Record<string, number>>>();
+
+    return Promise.all(
+      budgets.map(async (budget) => {
+        const range = getBudgetPeriodRange(budget.period, date);
+        const rangeKey = `${range.key}:${budget.currency}`;
+
+        let spending = spendingByRange.get(rangeKey);
+        if (!spending) {
+          spending = this.analyticsService.getCategorySpending(
+            budget.userId,
+            range.start,
+            range.end,
+            budget.currency
+          );
+          spendingByRange.set(rangeKey, spending);
+        }
+
+        const spent = roundToMinorUnits((await spending)[budget.category] || 0, budget.currency);
+
+        return {
+          budget,
+          periodKey: range.key,
+          periodStart: range.start,
+          periodEnd: range.end,
+          spent,
+          remaining: roundToMinorUnits(budget.amount - spent, budget.currency),
+          percentUsed: Math.round((spent / budget.amount) * 1000) / 10,
+          crossedThresholds: getCrossedThresholds(spent, budget.amount),
+        };
+      })
+    );
+  }
+
+  /**
+   * Raise alerts for thresholds newly crossed in the current period
+   */
+  private async evaluateBudgets(budgets: Budget[], now: Date): Promise<void> {
+    const statuses = await this.calculateStatuses(budgets, now);
+
+    for (const status of statuses) {
+      const newThresholds = await this.budgetRepository.updateAlertState(
+        status.budget.id,
+        status.periodKey,
+        status.crossedThresholds
+      );
+
+      // Only the highest newly crossed threshold is worth telling the user about
+      if (newThresholds.length === 0) {
+        continue;
+      }
+
+      const alert = await this.budgetRepository.createAlert({
+        userId: status.budget.userId,
+        budgetId: status.budget.id,
+        category: status.budget.category,
+        period: status.budget.period,
+        periodKey: status.periodKey,
+        threshold: Math.max(...newThresholds),
+        spent: status.spent,
+        amount: status.budget.amount,
+        currency: status.budget.currency,
+        createdAt: now,
+      });
+
+      await this.deliverAlert(alert);
+    }
+  }
+
+  /**
+   * Send an alert through every channel; one failing channel doesn't block the others
+   */
+  private async deliverAlert(alert: BudgetAlert): Promise<void> {
+    const results = await Promise.allSettled(
+      this.notifiers.map((notifier) => notifier.notify(alert))
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        logger.error('Failed to deliver budget alert', {
+          alertId: alert.id,
+          notifier: this.notifiers[index].name,
+          error: result.reason,
+        });
+      }
+    });
+  }
+}
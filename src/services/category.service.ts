@@ -0,0 +1,230 @@
+/**
+ * Category service - user-defined categories, nesting, rename and merge
+ */
+
+import { CategoryRepository } from '../repositories/category.repository';
+import { ReceiptRepository } from '../repositories/receipt.repository';
+import { BudgetRepository } from '../repositories/budget.repository';
+import { ParsingRuleRepository } from '../repositories/parsingRule.repository';
+import { ReceiptRuleRepository } from '../repositories/receiptRule.repository';
+import {
+  Category,
+  CategoryMigrationResult,
+  CreateCategoryDto,
+  UpdateCategoryDto,
+} from '../models/category.model';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../config/logger';
+
+export class CategoryService {
+  private categoryRepository: CategoryRepository;
+  private receiptRepository: ReceiptRepository;
+  private budgetRepository: BudgetRepository;
+  private parsingRuleRepository: ParsingRuleRepository;
+  private receiptRuleRepository: ReceiptRuleRepository;
+
+  constructor() {
+    this.categoryRepository = new CategoryRepository();
+    this.receiptRepository = new ReceiptRepository();
+    this.budgetRepository = new BudgetRepository();
+    this.parsingRuleRepository = new ParsingRuleRepository();
+    this.receiptRuleRepository = new ReceiptRuleRepository();
+  }
+
+  /**
+   * List a user's categories
+   */
+  public async listCategories(userId: string): Promise<Category[]> {
+    return this.categoryRepository.getCategoriesByUserId(userId);
+  }
+
+  /**
+   * Create a category; names are unique per user ignoring case
+   */
+  public async createCategory(userId: string, data: CreateCategoryDto): Promise<Category> {
+    const existing = await this.categoryRepository.findByName(userId, data.name);
+    if (existing) {
+      throw new AppError(`Category ${existing.name} already exists`, 409);
+    }
+
+    const parentId = data.parentId ?? null;
+    if (parentId) {
+      await this.getParent(userId, parentId);
+    }
+
+    return this.categoryRepository.createCategory(userId, {
+      name: data.name,
+      parentId,
+      color: data.color ?? null,
+      icon: data.icon ?? null,
+    });
+  }
+
+  /**
+   * Update a category's metadata or parent
+   * A new name is applied to the user's receipts, budgets and parsing rules first,
+   * so a failed rename can be retried
+   */
+  public async updateCategory(
+    categoryId: string,
+    userId: string,
+    updates: UpdateCategoryDto
+  ): Promise<{ category: Category; updated: CategoryMigrationResult }> {
+    const category = await this.getCategory(categoryId, userId);
+    let updated: CategoryMigrationResult = {
+      receipts: 0,
+      budgets: 0,
+      parsingRules: 0,
+      receiptRules: 0,
+    };
+
+    if (updates.parentId) {
+      if (updates.parentId === categoryId) {
+        throw new AppError('A category cannot be its own parent', 400);
+      }
+      await this.getParent(userId, updates.parentId);
+      const categories = await this.categoryRepository.getCategoriesByUserId(userId);
+      if (categories.some((candidate) => candidate.parentId === categoryId)) {
+        throw new AppError('A category with subcategories cannot be nested', 400);
+      }
+    }
+
+    if (updates.name !== undefined && updates.name !== category.name) {
+      const existing = await this.categoryRepository.findByName(userId, updates.name);
+      if (existing && existing.id !== categoryId) {
+        throw new AppError(
+          `Category ${existing.name} already exists; merge the categories instead`,
+          409
+        );
+      }
+
+      updated = await this.reassign(userId, category.name, updates.name);
+    }
+
+    const result = await this.categoryRepository.updateCategory(categoryId, updates);
+
+    logger.info('Category updated', { categoryId, userId, ...updated });
+
+    return { category: result, updated };
+  }
+
+  /**
+   * Fold categories into another one
+   * Receipts, budgets and parsing rules move to the target, subcategories are re-parented to it
+   * and the sources' category documents are deleted
+   */
+  public async mergeCategories(
+    targetId: string,
+    userId: string,
+    sources: string[]
+  ): Promise<{ category: Category; updated: CategoryMigrationResult }> {
+    let target = await this.getCategory(targetId, userId);
+    const updated: CategoryMigrationResult = {
+      receipts: 0,
+      budgets: 0,
+      parsingRules: 0,
+      receiptRules: 0,
+    };
+
+    for (const source of sources) {
+      const sourceCategory = await this.categoryRepository.findByName(userId, source);
+      const names = new Set([source]);
+
+      if (sourceCategory && sourceCategory.id !== target.id) {
+        names.add(sourceCategory.name);
+
+        // The target stops being a child when its parent is merged into it
+        if (target.parentId === sourceCategory.id) {
+          target = await this.categoryRepository.updateCategory(target.id, { parentId: null });
+        }
+        if (target.parentId) {
+          const categories = await this.categoryRepository.getCategoriesByUserId(userId);
+          if (categories.some((candidate) => candidate.parentId === sourceCategory.id)) {
+            throw new AppError(
+              `Category ${sourceCategory.name} has subcategories and cannot be merged into a subcategory`,
+              400
+            );
+          }
+        }
+      }
+
+      for (const name of names) {
+        const moved = await this.reassign(userId, name, target.name);
+        updated.receipts += moved.receipts;
+        updated.budgets += moved.budgets;
+        updated.parsingRules += moved.parsingRules;
+        updated.receiptRules += moved.receiptRules;
+      }
+
+      if (sourceCategory && sourceCategory.id !== target.id) {
+        await this.categoryRepository.reparentChildren(userId, sourceCategory.id, target.id);
+        await this.categoryRepository.deleteCategory(sourceCategory.id);
+      }
+    }
+
+    logger.info('Categories merged', { categoryId: targetId, userId, sources, ...updated });
+
+    return { category: target, updated };
+  }
+
+  /**
+   * Delete a category; receipts keep the name as a plain custom category
+   */
+  public async deleteCategory(categoryId: string, userId: string): Promise<void> {
+    await this.getCategory(categoryId, userId);
+
+    const categories = await this.categoryRepository.getCategoriesByUserId(userId);
+    if (categories.some((candidate) => candidate.parentId === categoryId)) {
+      throw new AppError('Category has subcategories; move or delete them first', 409);
+    }
+
+    await this.categoryRepository.deleteCategory(categoryId);
+
+    logger.info('Category deleted', { categoryId, userId });
+  }
+
+  /**
+   * Get a category or fail with 404
+   */
+  private async getCategory(categoryId: string, userId: string): Promise<Category> {
+    const category = await this.categoryRepository.getCategoryById(categoryId, userId);
+    if (!category) {
+      throw new AppError('Category not found', 404);
+    }
+    return category;
+  }
+
+  /**
+   * Get a parent category, which must itself be top-level
+   */
+  private async getParent(userId: string, parentId: string): Promise<Category> {
+    const parent = await this.categoryRepository.getCategoryById(parentId, userId);
+    if (!parent) {
+      throw new AppError('Parent category not found', 400);
+    }
+    if (parent.parentId) {
+      throw new AppError('Categories can only be nested one level deep', 400);
+    }
+    return parent;
+  }
+
+  /**
+   * Move everything that references a category name to another name
+   */
+  private async reassign(
+    userId: string,
+    from: string,
+    to: string
+  ): Promise<CategoryMigrationResult> {
+    if (from === to) {
+      return { receipts: 0, budgets: 0, parsingRules: 0, receiptRules: 0 };
+    }
+
+    return {
+      receipts: await this.receiptRepository.reassignCategory(userId, from, to),
+      budgets: await this.budgetRepository.reassignCategory(userId, from, to),
+      parsingRules: await this.parsingRuleRepository.reassignCategory(userId, from, to),
+      receiptRules: await this.receiptRuleRepository.reassignCategory(userId, from, to),
+    };
+  }
+}
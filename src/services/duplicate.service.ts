@@ -0,0 +1,176 @@
+/**
+ * Duplicate service - flags receipts that copy an earlier receipt
+ */
+
+import { ReceiptRepository } from '../repositories/receipt.repository';
+import { FileHashRepository } from '../repositories/fileHash.repository';
+import { FileStorageService } from './fileStorage.service';
+import { Receipt } from '../models/receipt.model';
+import {
+  DUPLICATE_DATE_WINDOW_DAYS,
+  DuplicateReason,
+  findDuplicateOriginal,
+} from '../models/duplicate.model';
+import logger from '../config/logger';
+
+export class DuplicateService {
+  private receiptRepository: ReceiptRepository;
+  private fileHashRepository: FileHashRepository;
+  private fileStorageService: FileStorageService;
+
+  constructor() {
+    this.receiptRepository = new ReceiptRepository();
+    this.fileHashRepository = new FileHashRepository();
+    this.fileStorageService = new FileStorageService();
+  }
+
+  /**
+   * Record a new receipt as the first with its file's content, or flag it when an earlier
+   * receipt has the same file
+   * contentHash is read from the uploaded file's metadata when not given. Best-effort: returns
+   * the receipt unflagged when its file isn't an upload with a known hash or the check fails
+   */
+  public async checkIdenticalFile(receipt: Receipt, contentHash?: string): Promise<Receipt> {
+    try {
+      const filePath = this.getUploadedFilePath(receipt);
+      const hash = filePath && (contentHash ?? (await this.getContentHash(filePath)));
+      if (!filePath || !hash) {
+        return receipt;
+      }
+
+      let earlier = await this.fileHashRepository.claimHash(
+        receipt.userId,
+        hash,
+        receipt.id,
+        filePath
+      );
+      if (
+        earlier &&
+        earlier.receiptId !== receipt.id &&
+        !(await this.receiptRepository.getReceiptById(earlier.receiptId, receipt.userId))
+      ) {
+        // The earlier receipt is gone, so this one becomes the first with the file
+        earlier = await this.fileHashRepository.claimHash(
+          receipt.userId,
+          hash,
+          receipt.id,
+          filePath,
+          earlier.receiptId
+        );
+      }
+
+      return earlier ? await this.flagIdenticalFile(receipt, earlier.receiptId) : receipt;
+    } catch (error) {
+      logger.error('Failed to check receipt file for duplicates', {
+        receiptId: receipt.id,
+        error,
+      });
+      return receipt;
+    }
+  }
+
+  /**
+   * Flag a receipt whose file is byte-identical to the file of an earlier receipt
+   * Best-effort: returns the receipt unflagged when the original is gone or flagging fails
+   */
+  public async flagIdenticalFile(receipt: Receipt, originalId: string): Promise<Receipt> {
+    if (originalId === receipt.id) {
+      return receipt;
+    }
+
+    try {
+      const original = await this.receiptRepository.getReceiptById(originalId, receipt.userId);
+      if (!original) {
+        return receipt;
+      }
+
+      // Link to the first copy rather than building chains of duplicates
+      const rootId =
+        original.duplicate?.status === 'pending' ? original.duplicate.originalId : original.id;
+      return await this.flag(receipt, rootId, 'identical_file');
+    } catch (error) {
+      logger.error('Failed to flag identical receipt file', {
+        receiptId: receipt.id,
+        originalId,
+        error,
+      });
+      return receipt;
+    }
+  }
+
+  /**
+   * Flag a receipt whose merchant, date and total match an earlier receipt
+   * Receipts already flagged (or dismissed) and unparsed placeholders are left alone.
+   * Best-effort: returns the receipt unflagged when detection fails
+   */
+  public async checkNearDuplicate(receipt: Receipt): Promise<Receipt> {
+    if (receipt.duplicate || !receipt.merchant.trim()) {
+      return receipt;
+    }
+
+    try {
+      const windowMs = DUPLICATE_DATE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+      const candidates = await this.receiptRepository.getReceiptsByTotalAndDate(
+        receipt.userId,
+        receipt.total,
+        new Date(receipt.date.getTime() - windowMs),
+        new Date(receipt.date.getTime() + windowMs)
+      );
+
+      const originalId = findDuplicateOriginal(receipt, candidates);
+      return originalId ? await this.flag(receipt, originalId, 'similar') : receipt;
+    } catch (error) {
+      logger.error('Failed to check receipt for duplicates', { receiptId: receipt.id, error });
+      return receipt;
+    }
+  }
+
+  /**
+   * Helper method to get the storage path of the user's uploaded file behind a receipt's imageUrl
+   */
+  private getUploadedFilePath(receipt: Receipt): string | null {
+    if (!receipt.imageUrl) {
+      return null;
+    }
+
+    const filePath = /^https?:\/\//i.test(receipt.imageUrl)
+      ? this.fileStorageService.getFilePathFromUrl(receipt.imageUrl)
+      : receipt.imageUrl;
+    return filePath?.startsWith(`receipts/${receipt.userId}/`) ? filePath : null;
+  }
+
+  /**
+   * Helper method to read the content hash stored with an uploaded file
+   * Files uploaded before hashes were recorded have none
+   */
+  private async getContentHash(filePath: string): Promise<string | null> {
+    const metadata = await this.fileStorageService.getFileMetadata(filePath);
+    const custom = metadata.metadata as Record<string, string> | undefined;
+    return custom?.contentHash ?? null;
+  }
+
+  /**
+   * Helper method to store a pending duplicate flag on a receipt
+   */
+  private async flag(
+    receipt: Receipt,
+    originalId: string,
+    reason: DuplicateReason
+  ): Promise<Receipt> {
+    const flagged = await this.receiptRepository.setDuplicate(receipt.id, receipt.userId, {
+      originalId,
+      reason,
+      status: 'pending',
+      detectedAt: new Date(),
+    });
+
+    logger.info('Receipt flagged as duplicate', {
+      userId: receipt.userId,
+      receiptId: receipt.id,
+      originalId,
+      reason,
+    });
+
+    return flagged;
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Exchange rate service - converts receipt amounts at the rate of the receipt date
+ */
+
+import { promises as fs } from 'fs';
+import { ExchangeRateRepository } from '../repositories/exchangeRate.repository';
+import {
+  ExchangeRateSnapshot,
+  MoneyAtDate,
+  getCrossRate,
+  toRateDate,
+} from '../models/exchangeRate.model';
+import {
+  ExchangeRateImportInput,
+  exchangeRateImportSchema,
+} from '../models/exchangeRate.validation';
+import { Currency } from '../models/currency.model';
+import logger from '../config/logger';
+
+export class ExchangeRateService {
+  private exchangeRateRepository: ExchangeRateRepository;
+
+  constructor() {
+    this.exchangeRateRepository = new ExchangeRateRepository();
+  }
+
+  /**
+   * Store validated snapshots, replacing any existing ones for the same days
+   */
+  public async importSnapshots(input: ExchangeRateImportInput): Promise<number> {
+    const now = new Date();
+    const snapshots: ExchangeRateSnapshot[] = input.snapshots.map((snapshot) => ({
+      date: snapshot.date,
+      base: snapshot.base,
+      rates: snapshot.rates,
+      source: snapshot.source ?? null,
+      updatedAt: now,
+    }));
+
+    await this.exchangeRateRepository.saveSnapshots(snapshots);
+
+    logger.info('Exchange rates imported', {
+      count: snapshots.length,
+      from: snapshots[0].date,
+      to: snapshots[snapshots.length - 1].date,
+    });
+
+    return snapshots.length;
+  }
+
+  /**
+   * Seed the store from a JSON file in the import format
+   */
+  public async seedFromFile(filePath: string): Promise<number> {
+    const content = await fs.readFile(filePath, 'utf8');
+    const input = exchangeRateImportSchema.parse(JSON.parse(content));
+    return this.importSnapshots(input);
+  }
+
+  /**
+   * List stored snapshots, most recent first
+   */
+  public async listSnapshots(limit: number, startAfter?: string): Promise<ExchangeRateSnapshot[]> {
+    return this.exchangeRateRepository.listSnapshots(limit, startAfter);
+  }
+
+  /**
+   * Convert amounts using the latest snapshot on or before each amount's date
+   * Results are null where no rate is known, so callers can report them instead of guessing
+   */
+  public async convertAmounts(amounts: MoneyAtDate[], to: Currency): Promise<Array<number | null>> {
+    const snapshots = new Map<string, Promise<ExchangeRateSnapshot | null>>();
+    const getSnapshot = (date: string) => {
+      let snapshot = snapshots.get(date);
+      if (!snapshot) {
+        snapshot = this.exchangeRateRepository.getSnapshotOnOrBefore(date);
+        snapshots.set(date, snapshot);
+      }
+      return snapshot;
+    };
+
+    const converted = await Promise.all(
+      amounts.map(async ({ amount, currency, date }) => {
+        if (currency === to) {
+          return amount;
+        }
+
+        const snapshot = await getSnapshot(toRateDate(date));
+        const rate = snapshot ? getCrossRate(snapshot, currency, to) : null;
+        return rate === null ? null : amount * rate;
+      })
+    );
+
+    const missing = converted.filter((amount) => amount === null).length;
+    if (missing > 0) {
+      logger.warn('Exchange rates missing for some amounts', { to, missing });
+    }
+
+    return converted;
+  }
+}
@@ -5,8 +5,12 @@
 import { format as csvFormat } from '@fast-csv/format';
 import PDFDocument from 'pdfkit';
 import { Receipt } from '../models/receipt.model';
+import { Currency, formatDecimal, formatMoney } from '../models/currency.model';
+import { summarizeByCurrency } from '../models/exchangeRate.model';
 import { ReceiptRepository } from '../repositories/receipt.repository';
 import { FileStorageService } from './fileStorage.service';
+import { AuthService } from './auth.service';
+import { ExchangeRateService } from './exchangeRate.service';
 import { AppError } from '../middleware/errorHandler';
 import logger from '../config/logger';
 
@@ -29,13 +33,26 @@ export interface ExportResult {
   recordCount: number;
 }
 
+/**
+ * Receipt with its amounts in the home currency (null when no exchange rate is known)
+ */
+interface ConvertedReceipt {
+  receipt: Receipt;
+  convertedTotal: number | null;
+  convertedTax: number | null;
+}
+
 export class ExportService {
   private receiptRepository: ReceiptRepository;
   private fileStorageService: FileStorageService;
+  private authService: AuthService;
+  private exchangeRateService: ExchangeRateService;
 
   constructor() {
     this.receiptRepository = new ReceiptRepository();
     this.fileStorageService = new FileStorageService();
+    this.authService = new AuthService();
+    this.exchangeRateService = new ExchangeRateService();
   }
 
   /**
@@ -55,17 +72,20 @@ export class ExportService {
         throw new AppError('No receipts found matching the criteria', 404);
       }
 
+      const homeCurrency = await this.authService.getHomeCurrency(options.userId);
+      const converted = await this.convertReceipts(receipts, homeCurrency);
+
       // Generate export file based on format
       let fileBuffer: Buffer;
       let fileName: string;
       let mimeType: string;
 
       if (options.format === 'csv') {
-        fileBuffer = await this.generateCSV(receipts);
+        fileBuffer = await this.generateCSV(converted, homeCurrency);
         fileName = `receipts-export-${Date.now()}.csv`;
         mimeType = 'text/csv';
       } else if (options.format === 'pdf') {
-        fileBuffer = await this.generatePDF(receipts);
+        fileBuffer = await this.generatePDF(converted, homeCurrency);
         fileName = `receipts-export-${Date.now()}.pdf`;
         mimeType = 'application/pdf';
       } else {
@@ -135,10 +155,37 @@ export class ExportService {
     return receipts;
   }
 
+  /**
+   * Convert receipt totals and taxes to the home currency at each receipt date
+   */
+  private async convertReceipts(
+    receipts: Receipt[],
+    homeCurrency: Currency
+  ): Promise<ConvertedReceipt[]> {
+    const dated = receipts.map((receipt) => ({
+      currency: receipt.currency,
+      date: receipt.date instanceof Date ? receipt.date : new Date(receipt.date),
+    }));
+    const convertedTotals = await this.exchangeRateService.convertAmounts(
+      receipts.map((receipt, index) => ({ ...dated[index], amount: receipt.total })),
+      homeCurrency
+    );
+    const convertedTaxes = await this.exchangeRateService.convertAmounts(
+      receipts.map((receipt, index) => ({ ...dated[index], amount: receipt.tax || 0 })),
+      homeCurrency
+    );
+
+    return receipts.map((receipt, index) => ({
+      receipt,
+      convertedTotal: convertedTotals[index],
+      convertedTax: convertedTaxes[index],
+    }));
+  }
+
   /**
    * Generate CSV export
    */
-  private async generateCSV(receipts: Receipt[]): Promise<Buffer> {
+  private async generateCSV(receipts: ConvertedReceipt[], homeCurrency: Currency): Promise<Buffer> {
     return new Promise((resolve, reject) => {
       const chunks: Buffer[] = [];
       const csvStream = csvFormat({
@@ -151,14 +198,16 @@ export class ExportService {
       csvStream.on('error', reject);
 
       // Write header and rows
-      receipts.forEach((receipt) => {
+      receipts.forEach(({ receipt, convertedTotal }) => {
         csvStream.write({
           Date:
             receipt.date instanceof Date ? receipt.date.toISOString().split('T')[0] : receipt.date,
           Merchant: receipt.merchant,
-          Amount: receipt.total.toFixed(2),
-          Tax: receipt.tax?.toFixed(2) || '0.00',
+          Amount: formatDecimal(receipt.total, receipt.currency),
+          Tax: formatDecimal(receipt.tax || 0, receipt.currency),
           Currency: receipt.currency,
+          [`Amount (${homeCurrency})`]:
+            convertedTotal === null ? '' : formatDecimal(convertedTotal, homeCurrency),
           Category: receipt.category,
           Tags: receipt.tags.join('; '),
           Status: receipt.status,
@@ -173,7 +222,7 @@ export class ExportService {
   /**
    * Generate PDF export
    */
-  private async generatePDF(receipts: Receipt[]): Promise<Buffer> {
+  private async generatePDF(receipts: ConvertedReceipt[], homeCurrency: Currency): Promise<Buffer> {
     return new Promise((resolve, reject) => {
       try {
         const chunks: Buffer[] = [];
@@ -193,24 +242,47 @@ export class ExportService {
         doc.fontSize(10).text(`Generated: ${new Date().toLocaleDateString()}`, { align: 'center' });
         doc.moveDown(2);
 
-        // Calculate totals
-        const totalAmount = receipts.reduce((sum, r) => sum + r.total, 0);
-        const totalTax = receipts.reduce((sum, r) => sum + (r.tax || 0), 0);
+        // Calculate totals in the home currency; receipts without a rate only count per currency
+        const totalAmount = receipts.reduce((sum, r) => sum + (r.convertedTotal ?? 0), 0);
+        const totalTax = receipts.reduce((sum, r) => sum + (r.convertedTax ?? 0), 0);
+        const byCurrency = summarizeByCurrency(
+          receipts.map(({ receipt, convertedTotal }) => ({
+            amount: receipt.total,
+            currency: receipt.currency,
+            convertedAmount: convertedTotal,
+          })),
+          homeCurrency
+        );
 
         // Summary section
         doc.fontSize(14).text('Summary', { underline: true });
         doc.moveDown(0.5);
         doc.fontSize(10);
         doc.text(`Total Receipts: ${receipts.length}`);
-        doc.text(`Total Amount: ${receipts[0]?.currency || 'USD'} ${totalAmount.toFixed(2)}`);
-        doc.text(`Total Tax: ${receipts[0]?.currency || 'USD'} ${totalTax.toFixed(2)}`);
+        // Codes rather than symbols: the built-in PDF fonts lack most currency signs
+        doc.text(`Total Amount: ${formatMoney(totalAmount, homeCurrency, 'code')}`);
+        doc.text(`Total Tax: ${formatMoney(totalTax, homeCurrency, 'code')}`);
+
+        if (byCurrency.length > 1 || byCurrency[0]?.currency !== homeCurrency) {
+          doc.moveDown(0.5);
+          doc.text('By Currency:');
+          byCurrency.forEach((subtotal) => {
+            const missing =
+              subtotal.unconvertedCount > 0
+                ? ` (${subtotal.unconvertedCount} without exchange rate)`
+                : '';
+            doc.text(
+              `   ${formatMoney(subtotal.amount, subtotal.currency, 'code')} in ${subtotal.count} receipt(s) = ${formatMoney(subtotal.convertedAmount, homeCurrency, 'code')}${missing}`
+            );
+          });
+        }
         doc.moveDown(2);
 
         // Receipts list
         doc.fontSize(14).text('Receipts', { underline: true });
         doc.moveDown(0.5);
 
-        receipts.forEach((receipt, index) => {
+        receipts.forEach(({ receipt }, index) => {
           // Check if we need a new page
           if (doc.y > 700) {
             doc.addPage();
@@ -218,7 +290,9 @@ export class ExportService {
 
           doc.fontSize(10);
           doc.text(`${index + 1}. ${receipt.merchant}`, { continued: true });
-          doc.text(` - ${receipt.currency} ${receipt.total.toFixed(2)}`, { align: 'right' });
+          doc.text(` - ${formatMoney(receipt.total, receipt.currency, 'code')}`, {
+            align: 'right',
+          });
 
           doc.fontSize(8);
           const receiptDate =
@@ -66,6 +66,84 @@ export class FileStorageService {
     }
   }
 
+  /**
+   * Download a file from Cloud Storage, refusing anything larger than maxBytes
+   * The size is checked up front and again while streaming, so an oversized file is never
+   * held in memory
+   */
+  async downloadFile(filePath: string, maxBytes: number): Promise<Buffer> {
+    try {
+      const storage = getStorage();
+      const bucket = storage.bucket(this.bucketName);
+      const file = bucket.file(filePath);
+
+      const [metadata] = await file.getMetadata();
+      if (Number(metadata.size) > maxBytes) {
+        throw new AppError('File exceeds the maximum file size', 413);
+      }
+
+      return await new Promise<Buffer>((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const stream = file.createReadStream();
+
+        stream.on('data', (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > maxBytes) {
+            stream.destroy();
+            reject(new AppError('File exceeds the maximum file size', 413));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        stream.on('end', () => resolve(Buffer.concat(chunks)));
+        stream.on('error', reject);
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if ((error as { code?: number }).code === 404) {
+        throw new AppError('File not found', 404);
+      }
+      logger.error('Failed to download file', { filePath, error });
+      throw new AppError('Failed to download file from storage', 500);
+    }
+  }
+
+  /**
+   * Get the path of a file in this bucket from a Cloud Storage or Firebase Storage URL
+   * Returns null for URLs that point anywhere else
+   */
+  getFilePathFromUrl(url: string): string | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+    if (parsed.protocol !== 'https:' || !this.bucketName) {
+      return null;
+    }
+
+    let filePath: string | null = null;
+    if (parsed.hostname === 'storage.googleapis.com') {
+      const prefix = `/${this.bucketName}/`;
+      filePath = parsed.pathname.startsWith(prefix) ? parsed.pathname.slice(prefix.length) : null;
+    } else if (parsed.hostname === `${this.bucketName}.storage.googleapis.com`) {
+      filePath = parsed.pathname.slice(1);
+    } else if (parsed.hostname === 'firebasestorage.googleapis.com') {
+      const prefix = `/v0/b/${this.bucketName}/o/`;
+      filePath = parsed.pathname.startsWith(prefix) ? parsed.pathname.slice(prefix.length) : null;
+    }
+
+    try {
+      return filePath ? decodeURIComponent(filePath) : null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Delete file from Cloud Storage
    */
@@ -89,6 +167,22 @@ export class FileStorageService {
     }
   }
 
+  /**
+   * List the paths of files under a prefix in Cloud Storage
+   */
+  async listFiles(prefix: string): Promise<string[]> {
+    try {
+      const storage = getStorage();
+      const bucket = storage.bucket(this.bucketName);
+
+      const [files] = await bucket.getFiles({ prefix });
+      return files.map((file) => file.name);
+    } catch (error) {
+      logger.error('Failed to list files', { prefix, error });
+      throw new AppError('Failed to list files in storage', 500);
+    }
+  }
+
   /**
    * Check if file exists in Cloud Storage
    */
@@ -0,0 +1,396 @@
+/**
+ * Job queue service - runs background jobs with retries, backoff and dead-lettering
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import {
+  Job,
+  JobStatus,
+  JobHandler,
+  DeadLetterJob,
+  EnqueueJobOptions,
+  calculateBackoffDelay,
+} from '../models/job.model';
+import { JobStore, FirestoreJobStore, InMemoryJobStore } from '../repositories/job.repository';
+
+export interface JobQueueOptions {
+  concurrency: number;
+  pollIntervalMs: number;
+  maxAttempts: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  leaseMs: number;
+}
+
+/**
+ * Job queue service
+ * Workers poll the store for due jobs and run at most `concurrency` jobs at a time per instance.
+ * Each claim holds a lease of `leaseMs`, renewed while the handler runs; if the instance stops
+ * before the job finishes, another instance claims it again once the lease expires, so handlers
+ * must be safe to re-run. Outcomes are only recorded while the claim is still held.
+ */
+export class JobQueueService {
+  private store: JobStore;
+  private options: JobQueueOptions;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private handlers = new Map<string, JobHandler<any, any>>();
+  private activeJobs = new Set<Promise<void>>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  constructor(store: JobStore, options: JobQueueOptions = config.jobQueue) {
+    this.store = store;
+    this.options = options;
+  }
+
+  /**
+   * Register the handler for a job type
+   */
+  registerHandler<TPayload, TResult>(type: string, handler: JobHandler<TPayload, TResult>): void {
+    this.handlers.set(type, handler);
+    logger.debug('Job handler registered', { type });
+  }
+
+  /**
+   * Add a job to the queue
+   */
+  async enqueue<TPayload extends object>(
+    type: string,
+    payload: TPayload,
+    options: EnqueueJobOptions = {}
+  ): Promise<Job<TPayload>> {
+    const now = new Date();
+    const job: Job<TPayload> = {
+      id: uuidv4(),
+      type,
+      payload,
+      userId: options.userId ?? null,
+      status: JobStatus.QUEUED,
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? this.options.maxAttempts,
+      runAt: new Date(now.getTime() + (options.delayMs ?? 0)),
+      lastError: null,
+      result: null,
+      createdAt: now,
+      updatedAt: now,
+      startedAt: null,
+      leaseExpiresAt: null,
+      completedAt: null,
+    };
+
+    await this.store.create(job as Job);
+
+    logger.info('Job enqueued', { jobId: job.id, type, userId: job.userId });
+
+    return job;
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async getJob(jobId: string): Promise<Job | null> {
+    return this.store.get(jobId);
+  }
+
+  /**
+   * Start polling for due jobs
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, this.options.pollIntervalMs);
+    // Don't keep the process alive just for the queue
+    this.timer.unref();
+
+    logger.info('Job queue workers started', {
+      concurrency: this.options.concurrency,
+      pollIntervalMs: this.options.pollIntervalMs,
+    });
+  }
+
+  /**
+   * Stop polling and wait for running jobs to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await this.drain();
+    logger.info('Job queue workers stopped');
+  }
+
+  /**
+   * Claim due jobs for free worker slots and start running them
+   * Returns the number of jobs started
+   */
+  async poll(): Promise<number> {
+    if (this.polling) {
+      return 0;
+    }
+
+    const freeSlots = this.options.concurrency - this.activeJobs.size;
+    if (freeSlots <= 0) {
+      return 0;
+    }
+
+    this.polling = true;
+    try {
+      const jobs = await this.store.claimDue(freeSlots, new Date(), this.options.leaseMs);
+
+      jobs.forEach((job) => {
+        const running = this.runJob(job).finally(() => {
+          this.activeJobs.delete(running);
+        });
+        this.activeJobs.add(running);
+      });
+
+      return jobs.length;
+    } catch (error) {
+      logger.error('Failed to poll for jobs', { error });
+      return 0;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Wait for all currently running jobs to finish
+   */
+  async drain(): Promise<void> {
+    await Promise.all(Array.from(this.activeJobs));
+  }
+
+  /**
+   * List permanently failed jobs
+   */
+  async listDeadLetters(limit = 50, startAfter?: string): Promise<DeadLetterJob[]> {
+    return this.store.listDeadLetters(limit, startAfter);
+  }
+
+  /**
+   * Get a permanently failed job
+   */
+  async getDeadLetter(jobId: string): Promise<DeadLetterJob | null> {
+    return this.store.getDeadLetter(jobId);
+  }
+
+  /**
+   * Re-queue a dead-lettered job with a fresh attempt budget
+   */
+  async replayDeadLetter(jobId: string): Promise<Job> {
+    const deadLetter = await this.store.getDeadLetter(jobId);
+    if (!deadLetter) {
+      throw new AppError('Dead-letter job not found', 404);
+    }
+
+    const now = new Date();
+    const existing = await this.store.get(jobId);
+
+    if (existing) {
+      await this.store.update(jobId, {
+        status: JobStatus.QUEUED,
+        attempts: 0,
+        runAt: now,
+        lastError: null,
+        result: null,
+        updatedAt: now,
+        startedAt: null,
+        leaseExpiresAt: null,
+        completedAt: null,
+      });
+    } else {
+      await this.store.create({
+        id: deadLetter.id,
+        type: deadLetter.type,
+        payload: deadLetter.payload,
+        userId: deadLetter.userId ?? null,
+        status: JobStatus.QUEUED,
+        attempts: 0,
+        maxAttempts: deadLetter.maxAttempts,
+        runAt: now,
+        lastError: null,
+        result: null,
+        createdAt: deadLetter.createdAt,
+        updatedAt: now,
+        startedAt: null,
+        leaseExpiresAt: null,
+        completedAt: null,
+      });
+    }
+
+    await this.store.deleteDeadLetter(jobId);
+
+    logger.info('Dead-letter job replayed', { jobId, type: deadLetter.type });
+
+    const replayed = await this.store.get(jobId);
+    if (!replayed) {
+      throw new AppError('Failed to retrieve replayed job', 500);
+    }
+    return replayed;
+  }
+
+  /**
+   * Run a claimed job and record the outcome
+   */
+  private async runJob(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    const renewal = setInterval(() => {
+      void this.renewLease(job);
+    }, this.options.leaseMs / 3);
+    renewal.unref();
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type: ${job.type}`);
+      }
+
+      // Reclaimed after its lease expired on the last attempt, so the attempt budget is spent
+      if (job.attempts > job.maxAttempts) {
+        throw new Error('Job lease expired before the last attempt finished');
+      }
+
+      const result = await handler.handle(job);
+      clearInterval(renewal);
+      const now = new Date();
+
+      const recorded = await this.store.update(
+        job.id,
+        {
+          status: JobStatus.COMPLETED,
+          result: result ?? null,
+          lastError: null,
+          leaseExpiresAt: null,
+          updatedAt: now,
+          completedAt: now,
+        },
+        job.attempts
+      );
+      if (!recorded) {
+        this.logLostClaim(job, 'completion');
+        return;
+      }
+
+      logger.info('Job completed', { jobId: job.id, type: job.type, attempts: job.attempts });
+    } catch (error) {
+      clearInterval(renewal);
+      const jobError = error instanceof Error ? error : new Error(String(error));
+      await this.handleFailure(job, jobError, handler);
+    }
+  }
+
+  /**
+   * Extend the lease of a job this instance is running
+   * Best-effort: a failed renewal only risks the job being claimed again
+   */
+  private async renewLease(job: Job): Promise<void> {
+    try {
+      const renewed = await this.store.update(
+        job.id,
+        { leaseExpiresAt: new Date(Date.now() + this.options.leaseMs) },
+        job.attempts
+      );
+      if (!renewed) {
+        this.logLostClaim(job, 'lease renewal');
+      }
+    } catch (error) {
+      logger.error('Failed to renew job lease', { jobId: job.id, error });
+    }
+  }
+
+  /**
+   * Log a write dropped because another instance reclaimed the job
+   */
+  private logLostClaim(job: Job, write: string): void {
+    logger.warn('Job was reclaimed by another instance, dropping stale write', {
+      jobId: job.id,
+      type: job.type,
+      attempts: job.attempts,
+      write,
+    });
+  }
+
+  /**
+   * Schedule a retry with exponential backoff, or dead-letter the job when attempts are exhausted
+   */
+  private async handleFailure(
+    job: Job,
+    error: Error,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    handler?: JobHandler<any, any>
+  ): Promise<void> {
+    try {
+      if (handler && job.attempts < job.maxAttempts) {
+        const delayMs = calculateBackoffDelay(
+          job.attempts,
+          this.options.backoffBaseMs,
+          this.options.backoffMaxMs
+        );
+        const now = new Date();
+
+        const scheduled = await this.store.update(
+          job.id,
+          {
+            status: JobStatus.QUEUED,
+            runAt: new Date(now.getTime() + delayMs),
+            lastError: error.message,
+            leaseExpiresAt: null,
+            updatedAt: now,
+          },
+          job.attempts
+        );
+        if (!scheduled) {
+          this.logLostClaim(job, 'retry');
+          return;
+        }
+
+        logger.warn('Job attempt failed, retry scheduled', {
+          jobId: job.id,
+          type: job.type,
+          attempts: job.attempts,
+          maxAttempts: job.maxAttempts,
+          delayMs,
+          error: error.message,
+        });
+        return;
+      }
+
+      const deadLetter = await this.store.moveToDeadLetter(job, error.message);
+      if (!deadLetter) {
+        this.logLostClaim(job, 'dead-letter');
+        return;
+      }
+
+      logger.error('Job moved to dead-letter collection', {
+        jobId: job.id,
+        type: job.type,
+        attempts: job.attempts,
+        error: error.message,
+      });
+
+      if (handler?.onDeadLetter) {
+        await handler.onDeadLetter(job, error);
+      }
+    } catch (storeError) {
+      logger.error('Failed to record job failure', { jobId: job.id, error: storeError });
+    }
+  }
+}
+
+/**
+ * Create the job store selected by JOB_QUEUE_DRIVER
+ */
+export const createJobStore = (): JobStore => {
+  return config.jobQueue.driver === 'memory' ? new InMemoryJobStore() : new FirestoreJobStore();
+};
+
+// Export singleton instance
+export const jobQueue = new JobQueueService(createJobStore());
@@ -0,0 +1,65 @@
+/**
+ * Notification service - delivery channels for budget alerts
+ */
+
+import config from '../config';
+import logger from '../config/logger';
+import { BudgetAlert, BudgetAlertNotifier } from '../models/budget.model';
+
+/**
+ * Writes alerts to the application log (always enabled, useful for log-based alerting)
+ */
+export class LogBudgetAlertNotifier implements BudgetAlertNotifier {
+  readonly name = 'log';
+
+  async notify(alert: BudgetAlert): Promise<void> {
+    logger.info('Budget threshold crossed', {
+      alertId: alert.id,
+      userId: alert.userId,
+      budgetId: alert.budgetId,
+      category: alert.category,
+      periodKey: alert.periodKey,
+      threshold: alert.threshold,
+      spent: alert.spent,
+      amount: alert.amount,
+      currency: alert.currency,
+    });
+  }
+}
+
+/**
+ * POSTs alerts as JSON to a webhook, e.g. an email or push notification relay
+ */
+export class WebhookBudgetAlertNotifier implements BudgetAlertNotifier {
+  readonly name = 'webhook';
+  private url: string;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  async notify(alert: BudgetAlert): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type: 'budget.threshold_crossed', alert }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Budget alert webhook failed with status ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Build the configured budget alert channels
+ */
+export function createBudgetAlertNotifiers(): BudgetAlertNotifier[] {
+  const notifiers: BudgetAlertNotifier[] = [new LogBudgetAlertNotifier()];
+
+  if (config.budgets.alertWebhookUrl) {
+    notifiers.push(new WebhookBudgetAlertNotifier(config.budgets.alertWebhookUrl));
+  }
+
+  return notifiers;
+}
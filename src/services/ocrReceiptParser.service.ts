@@ -0,0 +1,397 @@
+/**
+ * OCR receipt parser - extracts raw text from the image and applies heuristics
+ * Used as a fallback when the AI provider is unavailable or fails
+ */
+
+import config from '../config';
+import logger from '../config/logger';
+import {
+  ParsedReceipt,
+  ParsedLineItem,
+  ReceiptParser,
+  ReceiptParserSource,
+  ParseWarning,
+  createConfidentField,
+} from '../models/parsedReceipt.model';
+import { detectCurrency, getMinorUnits, roundToMinorUnits } from '../models/currency.model';
+
+/**
+ * OCR text source used by OcrReceiptParser
+ */
+export interface TextExtractor {
+  readonly name: ReceiptParserSource;
+  isAvailable(): boolean;
+  extractText(imageUrl: string): Promise<string>;
+}
+
+/**
+ * Google Cloud Vision text extraction (DOCUMENT_TEXT_DETECTION)
+ */
+export class GoogleVisionTextExtractor implements TextExtractor {
+  readonly name = 'google-vision' as const;
+  private readonly endpoint = 'https://vision.googleapis.com/v1/images:annotate';
+
+  isAvailable(): boolean {
+    return config.googleVision.apiKey !== '';
+  }
+
+  async extractText(imageUrl: string): Promise<string> {
+    // Rendered PDF pages are sent inline; Vision can't fetch data URLs
+    const dataUrl = imageUrl.match(/^data:[^;]+;base64,(.*)$/);
+    const image = dataUrl ? { content: dataUrl[1] } : { source: { imageUri: imageUrl } };
+
+    const response = await fetch(
+      `${this.endpoint}?key=${encodeURIComponent(config.googleVision.apiKey)}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          requests: [
+            {
+              image,
+              features: [{ type: 'DOCUMENT_TEXT_DETECTION' }],
+            },
+          ],
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Google Vision request failed with status ${response.status}`);
+    }
+
+    const body = (await response.json()) as {
+      responses?: Array<{ fullTextAnnotation?: { text?: string }; error?: { message?: string } }>;
+    };
+    const result = body.responses?.[0];
+
+    if (result?.error?.message) {
+      throw new Error(`Google Vision error: ${result.error.message}`);
+    }
+
+    return result?.fullTextAnnotation?.text || '';
+  }
+}
+
+/**
+ * Local text extraction stand-in for development and tests
+ * Resolves the OCR text for an image URL without calling an external service
+ */
+export class LocalTextExtractor implements TextExtractor {
+  readonly name = 'local-ocr' as const;
+  private resolveText: (imageUrl: string) => string | Promise<string>;
+
+  constructor(resolveText: (imageUrl: string) => string | Promise<string>) {
+    this.resolveText = resolveText;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async extractText(imageUrl: string): Promise<string> {
+    return this.resolveText(imageUrl);
+  }
+}
+
+/**
+ * OCR-text-plus-heuristics receipt parser
+ */
+export class OcrReceiptParser implements ReceiptParser {
+  readonly name: ReceiptParserSource;
+  private extractor: TextExtractor;
+
+  constructor(extractor: TextExtractor = new GoogleVisionTextExtractor()) {
+    this.extractor = extractor;
+    this.name = extractor.name;
+  }
+
+  isAvailable(): boolean {
+    return this.extractor.isAvailable();
+  }
+
+  async parseReceipt(imageUrl: string): Promise<ParsedReceipt> {
+    if (!this.isAvailable()) {
+      throw new Error(`OCR provider ${this.name} is not available.`);
+    }
+
+    const startTime = Date.now();
+    const text = await this.extractor.extractText(imageUrl);
+
+    if (!text.trim()) {
+      throw new Error('No text detected in receipt image');
+    }
+
+    return this.parseExtractedText(text, startTime);
+  }
+
+  /**
+   * Parse text from a PDF text layer; no OCR needed
+   */
+  async parseText(text: string): Promise<ParsedReceipt> {
+    if (!text.trim()) {
+      throw new Error('No text detected in receipt');
+    }
+
+    return this.parseExtractedText(text, Date.now());
+  }
+
+  /**
+   * Apply layout heuristics to extracted text
+   */
+  private parseExtractedText(text: string, startTime: number): ParsedReceipt {
+    const parsedData = parseReceiptText(text);
+    const processingTime = Date.now() - startTime;
+
+    logger.info('Receipt parsed with OCR heuristics', {
+      provider: this.name,
+      overallConfidence: parsedData.overallConfidence,
+      processingTime,
+    });
+
+    return {
+      ...parsedData,
+      processingTime,
+    };
+  }
+}
+
+// Amounts always carry two decimals; thousands may be grouped with '.' or ','
+// Zero-decimal currencies (JPY, KRW, ...) print whole amounts, optionally with thousands separators
+const WHOLE_AMOUNT_PATTERN = /(?<![\d.,:])(?:\d{1,3}(?:[.,]\d{3})+|\d+)(?![.,:]?\d)/g;
+const ISO_DATE_PATTERN = /\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/;
+const LOCAL_DATE_PATTERN = /\b(\d{1,2})([-/.])(\d{1,2})\2(\d{4}|\d{2})\b/;
+const TOTAL_PATTERN =
+  /\b(grand\s*total|total|amount\s+due|balance\s+due|total\s+a\s+pagar|valor\s+total)\b/i;
+const SUBTOTAL_PATTERN = /\bsub\s*-?\s*total\b/i;
+const TAX_PATTERN = /\b(tax|vat|gst|hst|pst|iva|mwst|tva|icms)\b/i;
+const NON_ITEM_PATTERN =
+  /\b(total|subtotal|change|cash|card|visa|mastercard|amex|payment|paid|balance|tip|due|tender|troco)\b/i;
+const MERCHANT_SKIP_PATTERN = /\b(receipt|invoice|welcome|tel|phone|fax)\b|www\.|https?:|@/i;
+const QUANTITY_PATTERN = /^(\d+)\s*(?:x|@|\*)\s*/i;
+
+/**
+ * Build the amount pattern for a currency's minor units, e.g. "1.234,56" or "1,234.56" for two
+ */
+function amountPattern(minorUnits: number): RegExp {
+  if (minorUnits === 0) {
+    return WHOLE_AMOUNT_PATTERN;
+  }
+  return new RegExp(`\\d+(?:[.,]\\d{3})*[.,]\\d{${minorUnits}}(?!\\d)`, 'g');
+}
+
+/**
+ * Parse an amount matched by amountPattern, whichever separators the receipt uses
+ */
+function parseAmount(raw: string, minorUnits: number): number {
+  if (minorUnits === 0) {
+    return Number(raw.replace(/[.,]/g, ''));
+  }
+  const integerPart = raw.slice(0, -(minorUnits + 1)).replace(/[.,]/g, '');
+  return Number(`${integerPart}.${raw.slice(-minorUnits)}`);
+}
+
+/**
+ * Build a UTC date, rejecting out-of-range components
+ */
+function toDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Find the transaction date and how sure we are about the day/month order
+ */
+function findDate(lines: string[]): { value: Date; confidence: number } | null {
+  for (const line of lines) {
+    const iso = line.match(ISO_DATE_PATTERN);
+    if (iso) {
+      const date = toDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+      if (date) return { value: date, confidence: 0.8 };
+    }
+
+    const local = line.match(LOCAL_DATE_PATTERN);
+    if (local) {
+      const first = Number(local[1]);
+      const second = Number(local[3]);
+      const year = local[4].length === 2 ? 2000 + Number(local[4]) : Number(local[4]);
+
+      // Dotted dates and first components above 12 are day-first; otherwise assume US order
+      const dayFirst = local[2] === '.' || first > 12;
+      const date = dayFirst ? toDate(year, second, first) : toDate(year, first, second);
+      if (date) {
+        const ambiguous = !dayFirst && second <= 12;
+        return { value: date, confidence: ambiguous ? 0.5 : 0.7 };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Strip dates and quantities so their digits are not mistaken for amounts
+ */
+function amountsIn(line: string, minorUnits: number): number[] {
+  const withoutDates = line
+    .replace(QUANTITY_PATTERN, '')
+    .replace(ISO_DATE_PATTERN, ' ')
+    .replace(LOCAL_DATE_PATTERN, ' ');
+  return (withoutDates.match(amountPattern(minorUnits)) || []).map((raw) =>
+    parseAmount(raw, minorUnits)
+  );
+}
+
+/**
+ * Helper function to turn raw OCR text into a ParsedReceipt using layout heuristics
+ * Confidence scores are deliberately lower than the AI provider's
+ */
+export function parseReceiptText(text: string): ParsedReceipt {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const warnings: ParseWarning[] = [];
+
+  // Currency first: it decides how many decimals amounts have
+  const detectedCurrency = detectCurrency(text);
+  const currency = detectedCurrency || { value: 'USD' as const, confidence: 0.3 };
+  if (!detectedCurrency) {
+    warnings.push({ field: 'currency', message: 'No currency found; defaulted to USD' });
+  } else if (detectedCurrency.confidence < 0.5) {
+    warnings.push({
+      field: 'currency',
+      message: `Currency symbol is ambiguous; assumed ${detectedCurrency.value}`,
+    });
+  }
+  const minorUnits = getMinorUnits(currency.value);
+  const amountsInLine = (line: string): number[] => amountsIn(line, minorUnits);
+
+  // Total: last line with a total keyword (excluding subtotals); fall back to the largest amount
+  let total: { value: number; confidence: number } | null = null;
+  let totalLineIndex = -1;
+  for (let index = lines.length - 1; index >= 0; index--) {
+    const line = lines[index];
+    if (!TOTAL_PATTERN.test(line) || SUBTOTAL_PATTERN.test(line) || TAX_PATTERN.test(line)) {
+      continue;
+    }
+    // Some layouts print the amount on the line below the label
+    const amounts = amountsInLine(line);
+    const candidates = amounts.length > 0 ? amounts : amountsInLine(lines[index + 1] || '');
+    if (candidates.length > 0) {
+      total = { value: candidates[candidates.length - 1], confidence: 0.7 };
+      totalLineIndex = index;
+      break;
+    }
+  }
+
+  if (!total) {
+    const allAmounts = lines.flatMap(amountsInLine);
+    if (allAmounts.length === 0) {
+      throw new Error('Could not find a total amount in receipt text');
+    }
+    total = { value: Math.max(...allAmounts), confidence: 0.4 };
+    warnings.push({ field: 'total', message: 'No total line found; largest amount used' });
+  }
+
+  // Tax
+  let tax: { value: number; confidence: number } | undefined;
+  const taxLine = lines.find(
+    (line, index) =>
+      index !== totalLineIndex && TAX_PATTERN.test(line) && amountsInLine(line).length
+  );
+  if (taxLine) {
+    const amounts = amountsInLine(taxLine);
+    tax = { value: amounts[amounts.length - 1], confidence: 0.6 };
+  }
+
+  // Merchant: first prominent line near the top that isn't an amount, date or contact detail
+  const merchantLine = lines
+    .slice(0, 5)
+    .find(
+      (line) =>
+        (line.match(/\p{L}/gu) || []).length >= 3 &&
+        amountsInLine(line).length === 0 &&
+        !ISO_DATE_PATTERN.test(line) &&
+        !LOCAL_DATE_PATTERN.test(line) &&
+        !MERCHANT_SKIP_PATTERN.test(line)
+    );
+  const merchant = merchantLine
+    ? { value: merchantLine, confidence: 0.6 }
+    : { value: 'Unknown merchant', confidence: 0.1 };
+  if (!merchantLine) {
+    warnings.push({ field: 'merchant', message: 'No merchant name found' });
+  }
+
+  const foundDate = findDate(lines);
+  const date = foundDate || { value: new Date(), confidence: 0.2 };
+  if (!foundDate) {
+    warnings.push({ field: 'date', message: 'No date found; defaulted to today' });
+  }
+
+  // Line items: description followed by a price, above the total line
+  const itemsConfidence = 0.4;
+  const itemLines = totalLineIndex >= 0 ? lines.slice(0, totalLineIndex) : lines;
+  const lineItems: ParsedLineItem[] = itemLines
+    .filter(
+      (line) =>
+        line !== merchantLine &&
+        !NON_ITEM_PATTERN.test(line) &&
+        !TAX_PATTERN.test(line) &&
+        amountsInLine(line).length > 0
+    )
+    .map((line) => {
+      const amounts = amountsInLine(line);
+      const itemTotal = amounts[amounts.length - 1];
+      const quantityMatch = line.match(QUANTITY_PATTERN);
+      const quantity = quantityMatch ? Number(quantityMatch[1]) || 1 : 1;
+      const description = line
+        .replace(QUANTITY_PATTERN, '')
+        .split(amountPattern(minorUnits))[0]
+        .replace(/[^\p{L}\p{N})]+$/u, '')
+        .trim();
+      const unitPrice =
+        amounts.length > 1 ? amounts[0] : roundToMinorUnits(itemTotal / quantity, currency.value);
+
+      return {
+        description,
+        quantity,
+        unitPrice,
+        total: itemTotal,
+        confidence: itemsConfidence,
+      };
+    })
+    .filter((item) => (item.description.match(/\p{L}/gu) || []).length >= 2);
+
+  const confidenceScores = [
+    merchant.confidence,
+    date.confidence,
+    total.confidence,
+    currency.confidence,
+  ];
+  if (tax) confidenceScores.push(tax.confidence);
+  if (lineItems.length > 0) confidenceScores.push(itemsConfidence);
+
+  const overallConfidence =
+    confidenceScores.reduce((sum, val) => sum + val, 0) / confidenceScores.length;
+
+  const parsedReceipt: ParsedReceipt = {
+    merchant: createConfidentField(merchant.value, merchant.confidence),
+    date: createConfidentField(date.value, date.confidence),
+    total: createConfidentField(total.value, total.confidence),
+    currency: createConfidentField(currency.value, currency.confidence),
+    lineItems,
+    overallConfidence,
+    rawResponse: text,
+    warnings,
+  };
+
+  if (tax) {
+    parsedReceipt.tax = createConfidentField(tax.value, tax.confidence);
+  }
+
+  return parsedReceipt;
+}
@@ -5,16 +5,37 @@
 import OpenAI from 'openai';
 import config from '../config';
 import logger from '../config/logger';
-import { ParsedReceipt, ParsedLineItem, createConfidentField } from '../models/parsedReceipt.model';
-import { Currency } from '../models/receipt.model';
+import {
+  ParsedReceipt,
+  ParsedLineItem,
+  ReceiptParser,
+  ReceiptParseOptions,
+  ParseWarning,
+  createConfidentField,
+} from '../models/parsedReceipt.model';
+import {
+  AIReceiptOutput,
+  aiReceiptOutputSchema,
+  aiReceiptPageOutputSchema,
+} from '../models/parsedReceipt.validation';
+import { Currency, isCurrency } from '../models/currency.model';
+
+/**
+ * Result of validating a raw model response
+ */
+type ResponseValidation =
+  | { success: true; data: AIReceiptOutput }
+  | { success: false; issues: string[] };
 
 /**
  * OpenAI receipt parsing service
  */
-export class OpenAIService {
+export class OpenAIService implements ReceiptParser {
+  readonly name = 'openai' as const;
   private client: OpenAI | null = null;
   private readonly maxRetries = 3;
   private readonly retryDelay = 1000; // ms
+  private readonly maxRepairAttempts = 1;
 
   constructor() {
     this.initializeClient();
@@ -50,22 +71,92 @@ export class OpenAIService {
   /**
    * Parse receipt from image URL using GPT-4 Vision
    */
-  async parseReceipt(imageUrl: string): Promise<ParsedReceipt> {
+  async parseReceipt(imageUrl: string, options: ReceiptParseOptions = {}): Promise<ParsedReceipt> {
+    // Rendered PDF pages arrive as data URLs, which are too large to log
+    const source = imageUrl.startsWith('data:') ? 'rendered page' : imageUrl;
+
+    return this.parseContent({ type: 'image_url', image_url: { url: imageUrl } }, options, source);
+  }
+
+  /**
+   * Parse receipt from text extracted from a PDF text layer
+   */
+  async parseText(text: string, options: ReceiptParseOptions = {}): Promise<ParsedReceipt> {
+    return this.parseContent(
+      { type: 'text', text: `Receipt text:\n\n${text}` },
+      options,
+      'text layer'
+    );
+  }
+
+  /**
+   * Send receipt content to OpenAI and validate the structured response
+   * Responses that fail validation are sent back once with the validation errors for repair
+   */
+  private async parseContent(
+    content: OpenAI.Chat.Completions.ChatCompletionContentPart,
+    options: ReceiptParseOptions,
+    source: string
+  ): Promise<ParsedReceipt> {
     if (!this.isAvailable()) {
       throw new Error('OpenAI service is not available. Please configure OPENAI_API_KEY.');
     }
 
     const startTime = Date.now();
+    // Later pages of a multi-page document may not repeat the merchant, date or total
+    const partial = (options.page?.count || 1) > 1;
 
     try {
-      logger.info('Starting receipt parsing with OpenAI', { imageUrl });
+      logger.info('Starting receipt parsing with OpenAI', { source, page: options.page });
+
+      const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+        {
+          role: 'system',
+          content: `You are a receipt data extraction expert. Analyze the receipt image and extract structured information in JSON format. Be precise and accurate.`,
+        },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: this.getPrompt(options.hints, options.page),
+            },
+            content,
+          ],
+        },
+      ];
 
-      const response = await this.callOpenAIWithRetry(imageUrl);
-      const parsedData = this.parseOpenAIResponse(response);
+      let response = await this.callOpenAIWithRetry(messages);
+      let validation = this.validateResponse(response, partial);
+
+      for (let repair = 1; !validation.success && repair <= this.maxRepairAttempts; repair++) {
+        logger.warn('OpenAI response failed validation, requesting repair', {
+          repair,
+          issues: validation.issues,
+        });
+
+        messages.push(
+          { role: 'assistant', content: response },
+          { role: 'user', content: this.getRepairPrompt(validation.issues) }
+        );
+        response = await this.callOpenAIWithRetry(messages);
+        validation = this.validateResponse(response, partial);
+      }
+
+      if (!validation.success) {
+        logger.error('OpenAI response failed validation after repair', {
+          issues: validation.issues,
+          response,
+        });
+        throw new Error(`Failed to parse OpenAI response: ${validation.issues.join('; ')}`);
+      }
+
+      const parsedData = this.toParsedReceipt(validation.data, response);
       const processingTime = Date.now() - startTime;
 
       logger.info('Receipt parsed successfully', {
         overallConfidence: parsedData.overallConfidence,
+        warnings: parsedData.warnings?.length || 0,
         processingTime,
       });
 
@@ -74,7 +165,7 @@ export class OpenAIService {
         processingTime,
       };
     } catch (error) {
-      logger.error('Failed to parse receipt with OpenAI', { error, imageUrl });
+      logger.error('Failed to parse receipt with OpenAI', { error, source });
       throw error;
     }
   }
@@ -82,31 +173,15 @@ export class OpenAIService {
   /**
    * Call OpenAI API with retry logic
    */
-  private async callOpenAIWithRetry(imageUrl: string, attempt = 1): Promise<string> {
+  private async callOpenAIWithRetry(
+    messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+    attempt = 1
+  ): Promise<string> {
     try {
       const completion = await this.client!.chat.completions.create({
         model: config.openai.model,
-        messages: [
-          {
-            role: 'system',
-            content: `You are a receipt data extraction expert. Analyze the receipt image and extract structured information in JSON format. Be precise and accurate.`,
-          },
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: this.getPrompt(),
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: imageUrl,
-                },
-              },
-            ],
-          },
-        ],
+        messages,
+        response_format: { type: 'json_object' },
         max_tokens: config.openai.maxTokens,
         temperature: config.openai.temperature,
       });
@@ -123,7 +198,7 @@ export class OpenAIService {
 
       if (attempt < this.maxRetries) {
         await this.sleep(this.retryDelay * attempt);
-        return this.callOpenAIWithRetry(imageUrl, attempt + 1);
+        return this.callOpenAIWithRetry(messages, attempt + 1);
       }
 
       throw error;
@@ -132,9 +207,25 @@ export class OpenAIService {
 
   /**
    * Get the prompt for receipt extraction
+   * Hints learned from the user's corrections are appended as examples
    */
-  private getPrompt(): string {
-    return `Extract the following information from this receipt image and return it as a valid JSON object:
+  getPrompt(hints: string[] = [], page?: ReceiptParseOptions['page']): string {
+    const pageSection =
+      page && page.count > 1
+        ? `
+
+This is page ${page.number} of ${page.count} of a multi-page receipt or invoice. Only extract what appears on this page. Use null for merchant, date or total when they are not on this page, and do not repeat line items carried over from earlier pages.`
+        : '';
+
+    const learnedSection =
+      hints.length > 0
+        ? `
+
+Corrections this user made to earlier receipts (apply them when the merchant matches):
+${hints.map((hint) => `- ${hint}`).join('\n')}`
+        : '';
+
+    return `Extract the following information from this receipt and return it as a valid JSON object:
 
 {
   "merchant": "Store/restaurant name",
@@ -166,122 +257,161 @@ Requirements:
 - Return ONLY valid JSON, no additional text or markdown formatting
 - All confidence scores should be between 0 and 1
 - Date must be in ISO 8601 format (YYYY-MM-DD)
-- Currency must be one of: USD, EUR, BRL, GBP, JPY, CAD, AUD, CHF, CNY
+- Currency must be an ISO 4217 code (e.g. USD, EUR, JPY, INR), inferred from symbols or the merchant's country if not printed
 - If information is unclear or not visible, use your best estimate and lower the confidence score
 - Category should match predefined categories when possible
-- Items array can be empty if line items are not clearly visible`;
+- Items array can be empty if line items are not clearly visible${pageSection}${learnedSection}`;
+  }
+
+  /**
+   * Get the follow-up prompt asking the model to fix an invalid response
+   */
+  private getRepairPrompt(issues: string[]): string {
+    return `Your previous response did not match the required format:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+Return only the corrected JSON object.`;
   }
 
   /**
-   * Parse OpenAI response into structured data
+   * Validate the raw response against the output schema
+   * Partial responses (single pages of a document) may omit merchant, date, total and currency
    */
-  private parseOpenAIResponse(response: string): ParsedReceipt {
+  private validateResponse(response: string, partial = false): ResponseValidation {
+    let json: unknown;
     try {
-      // Remove markdown code block formatting if present
-      let jsonString = response.trim();
-      if (jsonString.startsWith('```json')) {
-        jsonString = jsonString.replace(/```json\n?/g, '').replace(/```\n?$/g, '');
-      } else if (jsonString.startsWith('```')) {
-        jsonString = jsonString.replace(/```\n?/g, '');
-      }
+      json = JSON.parse(response);
+    } catch (error) {
+      return {
+        success: false,
+        issues: [
+          `Response is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ],
+      };
+    }
 
-      const data = JSON.parse(jsonString);
+    const schema = partial ? aiReceiptPageOutputSchema : aiReceiptOutputSchema;
+    const result = schema.safeParse(json);
 
-      // Validate required fields
-      if (!data.merchant || !data.date || data.total === undefined || !data.currency) {
-        throw new Error('Missing required fields in OpenAI response');
-      }
+    if (!result.success) {
+      return {
+        success: false,
+        issues: result.error.issues.map(
+          (issue) => `${issue.path.join('.') || 'response'}: ${issue.message}`
+        ),
+      };
+    }
 
-      // Parse date
-      const parsedDate = new Date(data.date);
-      if (isNaN(parsedDate.getTime())) {
-        throw new Error('Invalid date format in OpenAI response');
-      }
+    return { success: true, data: result.data };
+  }
 
-      // Validate currency
-      const validCurrencies: Currency[] = [
-        'USD',
-        'EUR',
-        'BRL',
-        'GBP',
-        'JPY',
-        'CAD',
-        'AUD',
-        'CHF',
-        'CNY',
-      ];
-      const currency = validCurrencies.includes(data.currency) ? data.currency : 'USD';
-      const currencyConfidence = validCurrencies.includes(data.currency)
-        ? data.confidence?.currency || 0.9
-        : 0.5;
+  /**
+   * Map validated model output to a ParsedReceipt
+   * Defaults filled in for missing or unsupported values are recorded as warnings.
+   * Fields missing from a page get zero confidence so the page merge prefers other pages' values.
+   */
+  private toParsedReceipt(data: AIReceiptOutput, response: string): ParsedReceipt {
+    const warnings: ParseWarning[] = [];
+    const confidence = data.confidence || {};
+
+    if (!data.confidence) {
+      warnings.push({
+        field: 'confidence',
+        message: 'No confidence scores reported; default scores used',
+      });
+    }
 
-      if (!validCurrencies.includes(data.currency)) {
-        logger.warn('Invalid currency in response, defaulting to USD', { currency: data.currency });
+    const merchantConf = data.merchant ? (confidence.merchant ?? 0.8) : 0;
+    const dateConf = data.date ? (confidence.date ?? 0.8) : 0;
+    const totalConf = data.total != null ? (confidence.total ?? 0.9) : 0;
+    const taxConf = confidence.tax ?? 0.7;
+    const categoryConf = confidence.category ?? 0.7;
+    const itemsConf = confidence.items ?? 0.6;
+
+    let currency: Currency = 'USD';
+    let currencyConf = 0;
+    if (data.currency) {
+      const code = data.currency.trim().toUpperCase();
+      if (isCurrency(code)) {
+        currency = code;
+        currencyConf = confidence.currency ?? 0.9;
+      } else {
+        currencyConf = 0.5;
+        warnings.push({
+          field: 'currency',
+          message: `Unsupported currency "${data.currency}" replaced with USD`,
+        });
       }
+    }
 
-      // Extract confidence scores
-      const confidence = data.confidence || {};
-      const merchantConf = confidence.merchant || 0.8;
-      const dateConf = confidence.date || 0.8;
-      const totalConf = confidence.total || 0.9;
-      const taxConf = confidence.tax || 0.7;
-      const categoryConf = confidence.category || 0.7;
-      const itemsConf = confidence.items || 0.6;
-
-      // Parse line items
-      const lineItems: ParsedLineItem[] = (data.items || []).map(
-        (item: {
-          description?: string;
-          quantity?: number;
-          unitPrice?: number;
-          total?: number;
-          category?: string;
-        }) => ({
-          description: item.description || 'Unknown item',
-          quantity: Number(item.quantity) || 1,
-          unitPrice: Number(item.unitPrice) || 0,
-          total: Number(item.total) || 0,
-          category: item.category,
-          confidence: itemsConf,
-        })
-      );
-
-      // Calculate overall confidence
-      const confidenceScores = [merchantConf, dateConf, totalConf, currencyConfidence];
-      if (data.tax !== undefined) confidenceScores.push(taxConf);
-      if (data.category) confidenceScores.push(categoryConf);
-      if (lineItems.length > 0) confidenceScores.push(itemsConf);
-
-      const overallConfidence =
-        confidenceScores.reduce((sum, val) => sum + val, 0) / confidenceScores.length;
-
-      // Build parsed receipt
-      const parsedReceipt: ParsedReceipt = {
-        merchant: createConfidentField(data.merchant, merchantConf),
-        date: createConfidentField(parsedDate, dateConf),
-        total: createConfidentField(Number(data.total), totalConf),
-        currency: createConfidentField(currency as Currency, currencyConfidence),
-        lineItems,
-        overallConfidence,
-        rawResponse: response,
-      };
+    const lineItems: ParsedLineItem[] = (data.items || []).map((item, index) => {
+      const field = `lineItems[${index}]`;
 
-      // Add optional fields
-      if (data.tax !== undefined) {
-        parsedReceipt.tax = createConfidentField(Number(data.tax), taxConf);
+      let description = item.description?.trim();
+      if (!description) {
+        description = 'Unknown item';
+        warnings.push({
+          field: `${field}.description`,
+          message: 'Missing description replaced with "Unknown item"',
+        });
       }
 
-      if (data.category) {
-        parsedReceipt.category = createConfidentField(data.category, categoryConf);
+      let quantity = item.quantity;
+      if (quantity == null) {
+        quantity = 1;
+        warnings.push({ field: `${field}.quantity`, message: 'Missing quantity defaulted to 1' });
       }
 
-      return parsedReceipt;
-    } catch (error) {
-      logger.error('Failed to parse OpenAI response', { error, response });
-      throw new Error(
-        `Failed to parse OpenAI response: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      let unitPrice = item.unitPrice;
+      if (unitPrice == null) {
+        unitPrice = Math.round((item.total / quantity) * 100) / 100;
+        warnings.push({
+          field: `${field}.unitPrice`,
+          message: 'Missing unit price derived from item total and quantity',
+        });
+      }
+
+      return {
+        description,
+        quantity,
+        unitPrice,
+        total: item.total,
+        category: item.category ?? undefined,
+        confidence: itemsConf,
+      };
+    });
+
+    // Calculate overall confidence
+    const confidenceScores = [merchantConf, dateConf, totalConf, currencyConf];
+    if (data.tax != null) confidenceScores.push(taxConf);
+    if (data.category) confidenceScores.push(categoryConf);
+    if (lineItems.length > 0) confidenceScores.push(itemsConf);
+
+    const overallConfidence =
+      confidenceScores.reduce((sum, val) => sum + val, 0) / confidenceScores.length;
+
+    // Build parsed receipt
+    const parsedReceipt: ParsedReceipt = {
+      merchant: createConfidentField(data.merchant || '', merchantConf),
+      date: createConfidentField(data.date ? new Date(data.date) : new Date(), dateConf),
+      total: createConfidentField(data.total ?? 0, totalConf),
+      currency: createConfidentField(currency, currencyConf),
+      lineItems,
+      overallConfidence,
+      rawResponse: response,
+      warnings,
+    };
+
+    // Add optional fields
+    if (data.tax != null) {
+      parsedReceipt.tax = createConfidentField(data.tax, taxConf);
     }
+
+    if (data.category) {
+      parsedReceipt.category = createConfidentField(data.category, categoryConf);
+    }
+
+    return parsedReceipt;
   }
 
   /**
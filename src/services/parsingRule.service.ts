@@ -0,0 +1,95 @@
+/**
+ * Parsing rule service - learns from user corrections and turns them into parsing hints
+ */
+
+import { ParsingRuleRepository } from '../repositories/parsingRule.repository';
+import {
+  ParsingRule,
+  LearnedValues,
+  diffParsedValues,
+  toPromptHint,
+} from '../models/parsingRule.model';
+import { Receipt } from '../models/receipt.model';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../config/logger';
+
+export class ParsingRuleService {
+  private parsingRuleRepository: ParsingRuleRepository;
+  private readonly maxPromptHints = 20;
+
+  constructor() {
+    this.parsingRuleRepository = new ParsingRuleRepository();
+  }
+
+  /**
+   * Record what the user changed compared to the parsed values
+   * Best-effort: a failure here must not fail the user's update
+   */
+  public async learnFromCorrection(receipt: Receipt, updates: LearnedValues): Promise<void> {
+    if (!receipt.parsedValues) {
+      return;
+    }
+
+    const diff = diffParsedValues(receipt.parsedValues, updates);
+    if (Object.keys(diff).length === 0) {
+      return;
+    }
+
+    try {
+      await this.parsingRuleRepository.recordCorrection(
+        receipt.userId,
+        receipt.parsedValues.merchant,
+        diff
+      );
+
+      logger.info('Parsing correction learned', {
+        userId: receipt.userId,
+        receiptId: receipt.id,
+        fields: Object.keys(diff),
+      });
+    } catch (error) {
+      logger.error('Failed to learn from parsing correction', {
+        userId: receipt.userId,
+        receiptId: receipt.id,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Get few-shot hints for the user's next parse
+   * Returns no hints rather than failing the parse when rules can't be loaded
+   */
+  public async getPromptHints(userId: string): Promise<string[]> {
+    try {
+      const rules = await this.parsingRuleRepository.getRulesByUserId(userId, this.maxPromptHints);
+      return rules
+        .filter((rule) => rule.merchant || rule.category || rule.currency)
+        .map(toPromptHint);
+    } catch (error) {
+      logger.warn('Failed to load parsing hints', { userId, error });
+      return [];
+    }
+  }
+
+  /**
+   * List the user's learned rules
+   */
+  public async listRules(userId: string): Promise<ParsingRule[]> {
+    return this.parsingRuleRepository.getRulesByUserId(userId);
+  }
+
+  /**
+   * Delete a learned rule
+   */
+  public async deleteRule(ruleId: string, userId: string): Promise<void> {
+    const rule = await this.parsingRuleRepository.getRuleById(ruleId, userId);
+    if (!rule) {
+      throw new AppError('Parsing rule not found', 404);
+    }
+
+    await this.parsingRuleRepository.deleteRule(ruleId);
+
+    logger.info('Parsing rule deleted', { ruleId, userId });
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * PDF document service - splits PDF receipts and invoices into parseable pages
+ */
+
+import { PDFParse } from 'pdf-parse';
+import config from '../config';
+import logger from '../config/logger';
+import { FILE_UPLOAD_CONFIG } from './fileValidation.service';
+import { FileStorageService } from './fileStorage.service';
+
+/**
+ * A single PDF page, as text when it has a text layer or as a rendered image otherwise
+ */
+export interface PdfPage {
+  pageNumber: number;
+  text: string | null; // Set when the page has a usable text layer
+  imageDataUrl: string | null; // PNG data URL for scanned pages without a text layer
+}
+
+// Pages with fewer letters and digits than this are treated as scans
+const MIN_TEXT_LAYER_CHARACTERS = 20;
+// Render width for scanned pages; wide enough for small receipt print
+const RENDER_WIDTH = 1600;
+
+/**
+ * PDF document service
+ */
+export class PdfDocumentService {
+  private maxPages: number;
+  private fileStorageService: FileStorageService;
+
+  constructor(
+    maxPages: number = config.parsing.pdfMaxPages,
+    fileStorageService: FileStorageService = new FileStorageService()
+  ) {
+    this.maxPages = maxPages;
+    this.fileStorageService = fileStorageService;
+  }
+
+  /**
+   * Check whether a storage path or URL points to a PDF
+   */
+  isPdf(reference: string): boolean {
+    let path = reference;
+    try {
+      path = new URL(reference).pathname;
+    } catch {
+      // Not a URL, treat as a storage path
+    }
+    return decodeURIComponent(path).toLowerCase().endsWith('.pdf');
+  }
+
+  /**
+   * Download a user's PDF from storage, refusing anything larger than the upload limit
+   * Only files uploaded under the user's receipts folder are read, whether given as a storage
+   * path or as a URL into the bucket; other URLs are never fetched
+   */
+  async fetchDocument(reference: string, userId: string): Promise<Buffer> {
+    const filePath = /^https?:\/\//i.test(reference)
+      ? this.fileStorageService.getFilePathFromUrl(reference)
+      : reference;
+
+    if (
+      !filePath ||
+      !filePath.startsWith(`receipts/${userId}/`) ||
+      filePath.split('/').includes('..')
+    ) {
+      throw new Error('PDF receipts must be uploaded files');
+    }
+
+    return this.fileStorageService.downloadFile(filePath, FILE_UPLOAD_CONFIG.maxFileSize);
+  }
+
+  /**
+   * Split a PDF into pages, rendering the ones without a text layer
+   */
+  async loadPages(data: Buffer): Promise<PdfPage[]> {
+    if (data.subarray(0, 5).toString('latin1') !== '%PDF-') {
+      throw new Error('File is not a valid PDF');
+    }
+
+    const parser = new PDFParse({ data: new Uint8Array(data) });
+
+    try {
+      // The page count comes from the document header, before any page is read
+      const { total } = await parser.getInfo();
+      if (total > this.maxPages) {
+        throw new Error(`PDF has ${total} pages; at most ${this.maxPages} are supported`);
+      }
+
+      const text = await parser.getText();
+
+      const pages: PdfPage[] = text.pages.map((page) => {
+        const hasTextLayer =
+          (page.text.match(/[\p{L}\p{N}]/gu) || []).length >= MIN_TEXT_LAYER_CHARACTERS;
+        return {
+          pageNumber: page.num,
+          text: hasTextLayer ? page.text : null,
+          imageDataUrl: null,
+        };
+      });
+
+      const scannedPages = pages.filter((page) => page.text === null);
+      if (scannedPages.length > 0) {
+        const screenshots = await parser.getScreenshot({
+          partial: scannedPages.map((page) => page.pageNumber),
+          desiredWidth: RENDER_WIDTH,
+          imageDataUrl: true,
+          imageBuffer: false,
+        });
+
+        screenshots.pages.forEach((screenshot) => {
+          const page = pages.find((candidate) => candidate.pageNumber === screenshot.pageNumber);
+          if (page) {
+            page.imageDataUrl = screenshot.dataUrl;
+          }
+        });
+      }
+
+      logger.info('PDF split into pages', {
+        pageCount: pages.length,
+        scannedPages: scannedPages.length,
+      });
+
+      return pages;
+    } finally {
+      await parser.destroy();
+    }
+  }
+}
@@ -3,6 +3,7 @@
  */
 
 import { ReceiptRepository } from '../repositories/receipt.repository';
+import { ReceiptVersionRepository } from '../repositories/receiptVersion.repository';
 import {
   Receipt,
   CreateReceiptDto,
@@ -10,35 +11,105 @@ import {
   ReceiptQueryParams,
   PaginatedReceipts,
   ReceiptStats,
+  ReviewReceiptDto,
+  AttachmentRole,
+  ReceiptAttachment,
+  MAX_ATTACHMENTS,
+  attachmentsFromImageUrl,
+  getPendingReviewFields,
 } from '../models/receipt.model';
+import { applyFieldReview } from '../models/parsedReceipt.model';
 import { AppError } from '../middleware/errorHandler';
 import { FileStorageService } from './fileStorage.service';
+import { UploadService } from './upload.service';
+import { ParsingRuleService } from './parsingRule.service';
+import { BudgetService } from './budget.service';
+import { ReceiptRuleService } from './receiptRule.service';
+import { AuthService } from './auth.service';
+import { ExchangeRateService } from './exchangeRate.service';
+import { SearchService } from './search.service';
+import { DuplicateService } from './duplicate.service';
+import { Currency, roundToMinorUnits } from '../models/currency.model';
+import { summarizeByCurrency } from '../models/exchangeRate.model';
+import { SearchIndexRebuildResult } from '../models/search.model';
+import { ReceiptVersion } from '../models/receiptVersion.model';
+import { DuplicateFlag, getMergeUpdates } from '../models/duplicate.model';
+import {
+  BulkOperationResult,
+  BulkReceiptFilter,
+  BulkReceiptRequest,
+  MAX_BULK_RECEIPTS,
+} from '../models/receiptBulk.model';
 import logger from '../config/logger';
+import { v4 as uuidv4 } from 'uuid';
+
+// Expired receipts purged per page of the retention sweep
+const TRASH_PURGE_BATCH_SIZE = 100;
+// Receipts fetched per page when resolving a bulk operation filter
+const BULK_FILTER_PAGE_SIZE = 100;
 
 export class ReceiptService {
   private receiptRepository: ReceiptRepository;
+  private receiptVersionRepository: ReceiptVersionRepository;
   private fileStorageService: FileStorageService;
+  private uploadService: UploadService;
+  private parsingRuleService: ParsingRuleService;
+  private budgetService: BudgetService;
+  private receiptRuleService: ReceiptRuleService;
+  private authService: AuthService;
+  private exchangeRateService: ExchangeRateService;
+  private searchService: SearchService;
+  private duplicateService: DuplicateService;
 
   constructor() {
     this.receiptRepository = new ReceiptRepository();
+    this.receiptVersionRepository = new ReceiptVersionRepository();
     this.fileStorageService = new FileStorageService();
+    this.uploadService = new UploadService();
+    this.parsingRuleService = new ParsingRuleService();
+    this.budgetService = new BudgetService();
+    this.receiptRuleService = new ReceiptRuleService(this.budgetService);
+    this.authService = new AuthService();
+    this.exchangeRateService = new ExchangeRateService();
+    this.searchService = new SearchService();
+    this.duplicateService = new DuplicateService();
   }
 
-  private async withSignedImageUrl(receipt: Receipt): Promise<Receipt> {
-    if (!receipt.imageUrl) {
-      return receipt;
-    }
+  /**
+   * Helper method to sign the URLs of a receipt's attachments and image for the response
+   */
+  private async withSignedUrls(receipt: Receipt): Promise<Receipt> {
+    const attachments = await Promise.all(
+      (receipt.attachments || []).map(async (attachment) => {
+        const url = await this.signUrl(receipt.id, attachment.path);
+        return url ? { ...attachment, url } : attachment;
+      })
+    );
 
+    // The image is the first attachment unless it was stored before attachments existed
+    const imageUrl = receipt.imageUrl
+      ? (attachments.find((attachment) => attachment.path === receipt.imageUrl)?.url ??
+        (await this.signUrl(receipt.id, receipt.imageUrl)) ??
+        receipt.imageUrl)
+      : receipt.imageUrl;
+
+    return { ...receipt, imageUrl, attachments };
+  }
+
+  /**
+   * Helper method to sign one file URL
+   * Returns null on failure so one missing file doesn't break the response
+   */
+  private async signUrl(receiptId: string, filePath: string): Promise<string | null> {
     try {
-      const signedUrl = await this.fileStorageService.generateSignedUrl(receipt.imageUrl);
-      return { ...receipt, imageUrl: signedUrl };
+      return await this.fileStorageService.generateSignedUrl(filePath);
     } catch (error) {
-      // Return receipt without signed URL if generation fails to avoid breaking the response
-      logger.warn('Failed to generate signed URL for receipt image', {
-        receiptId: receipt.id,
+      logger.warn('Failed to generate signed URL for receipt file', {
+        receiptId,
+        filePath,
         error,
       });
-      return receipt;
+      return null;
     }
   }
 
@@ -48,7 +119,23 @@ export class ReceiptService {
   public async createReceipt(userId: string, receiptData: CreateReceiptDto): Promise<Receipt> {
     try {
       logger.debug('Creating receipt', { userId, merchant: receiptData.merchant });
-      return await this.receiptRepository.createReceipt(userId, receiptData);
+
+      // The user's rules may recategorize or tag the receipt before it's stored
+      const evaluation = await this.receiptRuleService.evaluate(userId, {
+        ...receiptData,
+        tags: receiptData.tags || [],
+      });
+      const receipt = await this.receiptRepository.createReceipt(userId, {
+        ...receiptData,
+        category: evaluation.category,
+        tags: evaluation.tags,
+      });
+      await this.receiptRuleService.recordChanges(receipt, 'create', evaluation);
+
+      await this.budgetService.onReceiptsChanged(userId, [receipt]);
+
+      const checked = await this.duplicateService.checkIdenticalFile(receipt);
+      return await this.duplicateService.checkNearDuplicate(checked);
     } catch (error) {
       logger.error('Error in receipt service - createReceipt', { userId, error });
       throw error;
@@ -67,7 +154,7 @@ export class ReceiptService {
         throw new AppError('Receipt not found', 404);
       }
 
-      return await this.withSignedImageUrl(receipt);
+      return await this.withSignedUrls(receipt);
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -83,10 +170,13 @@ export class ReceiptService {
   public async listReceipts(params: ReceiptQueryParams): Promise<PaginatedReceipts> {
     try {
       logger.debug('Listing receipts', { userId: params.userId, filters: params });
-      const result = await this.receiptRepository.getReceiptsByUserId(params);
+      const search = params.search?.trim();
+      const result = search
+        ? await this.searchService.searchReceipts({ ...params, search })
+        : await this.receiptRepository.getReceiptsByUserId(params);
 
       const receiptsWithSignedUrls = await Promise.all(
-        result.receipts.map((receipt) => this.withSignedImageUrl(receipt))
+        result.receipts.map((receipt) => this.withSignedUrls(receipt))
       );
 
       return { ...result, receipts: receiptsWithSignedUrls };
@@ -112,7 +202,19 @@ export class ReceiptService {
         throw new AppError('At least one field must be provided for update', 400);
       }
 
-      return await this.receiptRepository.updateReceipt(receiptId, userId, updates);
+      // The receipt may leave a budget's category or period, so both versions are re-checked
+      const previous = await this.receiptRepository.getReceiptById(receiptId, userId);
+      const receipt = await this.receiptRepository.updateReceipt(receiptId, userId, updates);
+
+      // Feed user corrections of parsed values back into future parses
+      await this.parsingRuleService.learnFromCorrection(receipt, updates);
+
+      await this.budgetService.onReceiptsChanged(
+        userId,
+        previous ? [previous, receipt] : [receipt]
+      );
+
+      return await this.withSignedUrls(receipt);
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -122,13 +224,193 @@ export class ReceiptService {
     }
   }
 
+  /**
+   * List a receipt's edit history, newest first
+   * Receipts in the trash keep their history
+   */
+  public async listHistory(
+    receiptId: string,
+    userId: string,
+    limit = 50,
+    startAfter?: number
+  ): Promise<ReceiptVersion[]> {
+    const receipt =
+      (await this.receiptRepository.getReceiptById(receiptId, userId)) ||
+      (await this.receiptRepository.getDeletedReceiptById(receiptId, userId));
+    if (!receipt) {
+      throw new AppError('Receipt not found', 404);
+    }
+
+    return this.receiptVersionRepository.getVersions(receiptId, limit, startAfter);
+  }
+
+  /**
+   * Restore a receipt's tracked fields to their state at an earlier version
+   * The revert is itself recorded as a new version, so it can be undone the same way
+   */
+  public async revertReceipt(receiptId: string, userId: string, version: number): Promise<Receipt> {
+    try {
+      logger.debug('Reverting receipt', { receiptId, userId, version });
+
+      const receipt = await this.receiptRepository.getReceiptById(receiptId, userId);
+      if (!receipt) {
+        throw new AppError('Receipt not found', 404);
+      }
+
+      const target = await this.receiptVersionRepository.getVersion(receiptId, version);
+      if (!target) {
+        throw new AppError('Receipt version not found', 404);
+      }
+
+      // Fields the version didn't have are cleared
+      const { snapshot } = target;
+      const updated = await this.receiptRepository.updateReceipt(
+        receiptId,
+        userId,
+        {
+          merchant: snapshot.merchant,
+          date: snapshot.date,
+          total: snapshot.total,
+          tax: snapshot.tax ?? undefined,
+          currency: snapshot.currency ?? undefined,
+          category: snapshot.category,
+          tags: snapshot.tags,
+          lineItems: snapshot.lineItems,
+          imageUrl: snapshot.imageUrl ?? undefined,
+          attachments: snapshot.attachments ?? attachmentsFromImageUrl(snapshot.imageUrl),
+          notes: snapshot.notes,
+        },
+        { source: 'revert', changedBy: userId, revertedFrom: version }
+      );
+
+      await this.budgetService.onReceiptsChanged(userId, [receipt, updated]);
+
+      return await this.withSignedUrls(updated);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error in receipt service - revertReceipt', { receiptId, userId, error });
+      throw new AppError('Failed to revert receipt', 500);
+    }
+  }
+
+  /**
+   * Upload a file and attach it to a receipt
+   * The first attachment defaults to the front of the receipt, later ones to supporting documents
+   */
+  public async addAttachment(
+    receiptId: string,
+    userId: string,
+    file: { originalname: string; size: number; mimetype: string; buffer: Buffer },
+    role?: AttachmentRole
+  ): Promise<Receipt> {
+    const receipt = await this.getAttachableReceipt(receiptId, userId);
+    const attachments = receipt.attachments || [];
+    if (attachments.length >= MAX_ATTACHMENTS) {
+      throw new AppError(`A receipt can have at most ${MAX_ATTACHMENTS} attachments`, 400);
+    }
+
+    const upload = await this.uploadService.uploadReceiptFile(userId, file, receiptId);
+    const attachment: ReceiptAttachment = {
+      id: uuidv4(),
+      path: upload.filePath,
+      mimeType: upload.mimeType,
+      size: upload.fileSize,
+      role: role ?? (attachments.length === 0 ? AttachmentRole.FRONT : AttachmentRole.SUPPORTING),
+    };
+
+    try {
+      const updated = await this.receiptRepository.updateReceipt(receiptId, userId, {
+        attachments: [...attachments, attachment],
+      });
+      return await this.withSignedUrls(updated);
+    } catch (error) {
+      // Don't leave an orphaned file behind when the receipt can't be updated
+      try {
+        await this.uploadService.deleteReceiptFile(upload.filePath);
+      } catch (cleanupError) {
+        logger.error('Failed to clean up attachment file', {
+          receiptId,
+          filePath: upload.filePath,
+          error: cleanupError,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Put a receipt's attachments in a new order
+   * attachmentIds must list every attachment exactly once
+   */
+  public async reorderAttachments(
+    receiptId: string,
+    userId: string,
+    attachmentIds: string[]
+  ): Promise<Receipt> {
+    const receipt = await this.getAttachableReceipt(receiptId, userId);
+    const attachments = receipt.attachments || [];
+
+    const reordered = attachmentIds.flatMap((attachmentId) =>
+      attachments.filter((attachment) => attachment.id === attachmentId)
+    );
+    if (
+      new Set(attachmentIds).size !== attachmentIds.length ||
+      attachmentIds.length !== attachments.length ||
+      reordered.length !== attachments.length
+    ) {
+      throw new AppError('attachmentIds must list every attachment of the receipt once', 400);
+    }
+
+    const updated = await this.receiptRepository.updateReceipt(receiptId, userId, {
+      attachments: reordered,
+    });
+    return this.withSignedUrls(updated);
+  }
+
+  /**
+   * Remove an attachment from a receipt
+   * The file stays in storage until the receipt is permanently deleted, so reverting to an
+   * earlier version can bring the attachment back
+   */
+  public async removeAttachment(
+    receiptId: string,
+    userId: string,
+    attachmentId: string
+  ): Promise<Receipt> {
+    const receipt = await this.getAttachableReceipt(receiptId, userId);
+    const attachments = receipt.attachments || [];
+    if (!attachments.some((attachment) => attachment.id === attachmentId)) {
+      throw new AppError('Attachment not found', 404);
+    }
+
+    const updated = await this.receiptRepository.updateReceipt(receiptId, userId, {
+      attachments: attachments.filter((attachment) => attachment.id !== attachmentId),
+    });
+    return this.withSignedUrls(updated);
+  }
+
+  /**
+   * Helper method to get a receipt whose attachments can be changed
+   */
+  private async getAttachableReceipt(receiptId: string, userId: string): Promise<Receipt> {
+    const receipt = await this.receiptRepository.getReceiptById(receiptId, userId);
+    if (!receipt) {
+      throw new AppError('Receipt not found', 404);
+    }
+    return receipt;
+  }
+
   /**
    * Soft delete a receipt
    */
   public async deleteReceipt(receiptId: string, userId: string): Promise<void> {
     try {
       logger.debug('Deleting receipt', { receiptId, userId });
-      await this.receiptRepository.deleteReceipt(receiptId, userId);
+      const receipt = await this.receiptRepository.deleteReceipt(receiptId, userId);
+
+      await this.budgetService.onReceiptsChanged(userId, [receipt]);
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -138,18 +420,466 @@ export class ReceiptService {
     }
   }
 
+  /**
+   * Apply one operation to many receipts, selected by ID or by listing filters
+   * Receipts are written in batches; a receipt that fails is reported and the rest still apply.
+   */
+  public async bulkUpdateReceipts(
+    userId: string,
+    request: BulkReceiptRequest
+  ): Promise<BulkOperationResult> {
+    try {
+      logger.debug('Applying bulk receipt operation', {
+        userId,
+        operation: request.operation.type,
+      });
+
+      const receiptIds =
+        request.ids ?? (await this.resolveBulkFilter(userId, request.filter ?? {}));
+      const { results, changed } = await this.receiptRepository.bulkUpdateReceipts(
+        userId,
+        receiptIds,
+        request.operation
+      );
+
+      // Budgets are re-checked once for every receipt that moved, before and after
+      if (changed.length > 0) {
+        await this.budgetService.onReceiptsChanged(
+          userId,
+          changed.flatMap(({ previous, updated }) => [previous, updated])
+        );
+      }
+
+      return {
+        operation: request.operation.type,
+        matched: results.length,
+        updated: results.filter((result) => result.status === 'updated').length,
+        unchanged: results.filter((result) => result.status === 'unchanged').length,
+        failed: results.filter((result) => result.status === 'failed').length,
+        results,
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error in receipt service - bulkUpdateReceipts', { userId, error });
+      throw new AppError('Failed to apply bulk operation', 500);
+    }
+  }
+
+  /**
+   * Helper method to list the IDs of every receipt matching a bulk operation filter
+   */
+  private async resolveBulkFilter(userId: string, filter: BulkReceiptFilter): Promise<string[]> {
+    const receiptIds: string[] = [];
+    const search = filter.search?.trim();
+    let startAfter: string | undefined;
+
+    for (;;) {
+      const params = { ...filter, userId, limit: BULK_FILTER_PAGE_SIZE, startAfter };
+      const page = search
+        ? await this.searchService.searchReceipts({ ...params, search })
+        : await this.receiptRepository.getReceiptsByUserId(params);
+
+      if (page.total > MAX_BULK_RECEIPTS) {
+        throw new AppError(
+          `Filter matches ${page.total} receipts; bulk operations are limited to ${MAX_BULK_RECEIPTS}`,
+          400
+        );
+      }
+
+      receiptIds.push(...page.receipts.map((receipt) => receipt.id));
+      if (!page.hasMore || !page.nextCursor) {
+        return receiptIds;
+      }
+      startAfter = page.nextCursor;
+    }
+  }
+
+  /**
+   * List the user's deleted receipts
+   */
+  public async listTrash(
+    userId: string,
+    limit = 20,
+    startAfter?: string
+  ): Promise<PaginatedReceipts> {
+    try {
+      logger.debug('Listing trash', { userId, limit, startAfter });
+      const result = await this.receiptRepository.getDeletedReceipts(userId, limit, startAfter);
+
+      const receiptsWithSignedUrls = await Promise.all(
+        result.receipts.map((receipt) => this.withSignedUrls(receipt))
+      );
+
+      return { ...result, receipts: receiptsWithSignedUrls };
+    } catch (error) {
+      logger.error('Error in receipt service - listTrash', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Restore a deleted receipt
+   */
+  public async restoreReceipt(receiptId: string, userId: string): Promise<Receipt> {
+    try {
+      logger.debug('Restoring receipt', { receiptId, userId });
+      const receipt = await this.receiptRepository.restoreReceipt(receiptId, userId);
+
+      await this.budgetService.onReceiptsChanged(userId, [receipt]);
+
+      return await this.withSignedUrls(receipt);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error in receipt service - restoreReceipt', { receiptId, userId, error });
+      throw new AppError('Failed to restore receipt', 500);
+    }
+  }
+
+  /**
+   * Permanently delete a receipt from the trash, with its stored files
+   */
+  public async purgeReceipt(receiptId: string, userId: string): Promise<void> {
+    const receipt = await this.receiptRepository.getDeletedReceiptById(receiptId, userId);
+    if (!receipt) {
+      throw new AppError('Receipt not found in trash', 404);
+    }
+
+    await this.purge(receipt);
+  }
+
+  /**
+   * Permanently delete receipts that have been in the trash longer than the retention period
+   * Returns the number of receipts purged; a receipt that fails is left for the next sweep
+   */
+  public async purgeExpiredTrash(retentionDays: number, now = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+    let purged = 0;
+
+    for (;;) {
+      const receipts = await this.receiptRepository.getExpiredDeletedReceipts(
+        cutoff,
+        TRASH_PURGE_BATCH_SIZE
+      );
+
+      let failed = 0;
+      for (const receipt of receipts) {
+        try {
+          await this.purge(receipt);
+          purged++;
+        } catch (error) {
+          failed++;
+          logger.error('Failed to purge expired receipt', {
+            receiptId: receipt.id,
+            userId: receipt.userId,
+            error,
+          });
+        }
+      }
+
+      // Stop on a short page, or when nothing on a page could be purged to avoid looping on it
+      if (receipts.length < TRASH_PURGE_BATCH_SIZE || failed === receipts.length) {
+        break;
+      }
+    }
+
+    if (purged > 0) {
+      logger.info('Expired trash purged', { purged, retentionDays });
+    }
+
+    return purged;
+  }
+
+  /**
+   * Helper method to delete a receipt's stored files, then the receipt itself
+   * Files go first so a failure leaves the receipt in the trash to retry.
+   */
+  private async purge(receipt: Receipt): Promise<void> {
+    const filePaths = new Set(
+      await this.fileStorageService.listFiles(`receipts/${receipt.userId}/${receipt.id}/`)
+    );
+    // imageUrl is client-supplied, so only the owner's own files are deleted through it
+    if (receipt.imageUrl?.startsWith(`receipts/${receipt.userId}/`)) {
+      filePaths.add(receipt.imageUrl);
+    }
+
+    for (const filePath of filePaths) {
+      await this.fileStorageService.deleteFile(filePath);
+    }
+
+    await this.receiptRepository.purgeReceipt(receipt);
+
+    logger.info('Receipt permanently deleted', {
+      receiptId: receipt.id,
+      userId: receipt.userId,
+      files: filePaths.size,
+    });
+  }
+
+  /**
+   * List receipts flagged as duplicates that the user hasn't merged or dismissed, newest first
+   */
+  public async listDuplicates(
+    userId: string,
+    limit = 20,
+    startAfter?: string
+  ): Promise<PaginatedReceipts> {
+    try {
+      logger.debug('Listing duplicate receipts', { userId, limit, startAfter });
+      const result = await this.receiptRepository.getPendingDuplicates(userId, limit, startAfter);
+
+      const receiptsWithSignedUrls = await Promise.all(
+        result.receipts.map((receipt) => this.withSignedUrls(receipt))
+      );
+
+      return { ...result, receipts: receiptsWithSignedUrls };
+    } catch (error) {
+      logger.error('Error in receipt service - listDuplicates', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Merge a duplicate into its original
+   * The original keeps its values and gains the duplicate's extra tags, tax and line items;
+   * the duplicate moves to the trash. Returns the original.
+   */
+  public async mergeDuplicate(receiptId: string, userId: string): Promise<Receipt> {
+    try {
+      logger.debug('Merging duplicate receipt', { receiptId, userId });
+
+      const duplicate = await this.getPendingDuplicate(receiptId, userId);
+      const flag = duplicate.duplicate;
+      const original = await this.receiptRepository.getReceiptById(flag.originalId, userId);
+      if (!original) {
+        throw new AppError('Original receipt not found', 404);
+      }
+
+      const updates = getMergeUpdates(original, duplicate);
+      const merged =
+        Object.keys(updates).length > 0
+          ? await this.receiptRepository.updateReceipt(original.id, userId, updates, {
+              source: 'merge',
+              changedBy: userId,
+            })
+          : original;
+
+      await this.receiptRepository.setDuplicate(receiptId, userId, { ...flag, status: 'merged' });
+      const deleted = await this.receiptRepository.deleteReceipt(receiptId, userId);
+
+      await this.budgetService.onReceiptsChanged(userId, [deleted, original, merged]);
+
+      return await this.withSignedUrls(merged);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error in receipt service - mergeDuplicate', { receiptId, userId, error });
+      throw new AppError('Failed to merge duplicate receipt', 500);
+    }
+  }
+
+  /**
+   * Mark a receipt flagged as a duplicate as not a duplicate
+   * It keeps the dismissed flag so it isn't flagged again
+   */
+  public async dismissDuplicate(receiptId: string, userId: string): Promise<Receipt> {
+    const duplicate = await this.getPendingDuplicate(receiptId, userId);
+    const receipt = await this.receiptRepository.setDuplicate(receiptId, userId, {
+      ...duplicate.duplicate,
+      status: 'dismissed',
+    });
+
+    return this.withSignedUrls(receipt);
+  }
+
+  /**
+   * Helper method to get a receipt flagged as a duplicate and not yet resolved
+   */
+  private async getPendingDuplicate(
+    receiptId: string,
+    userId: string
+  ): Promise<Receipt & { duplicate: DuplicateFlag }> {
+    const receipt = await this.receiptRepository.getReceiptById(receiptId, userId);
+    if (!receipt) {
+      throw new AppError('Receipt not found', 404);
+    }
+
+    const { duplicate } = receipt;
+    if (!duplicate || duplicate.status !== 'pending') {
+      throw new AppError('Receipt is not flagged as a duplicate', 400);
+    }
+
+    return { ...receipt, duplicate };
+  }
+
+  /**
+   * List receipts with fields pending human review
+   */
+  public async listReviewQueue(
+    userId: string,
+    limit = 20,
+    startAfter?: string
+  ): Promise<PaginatedReceipts> {
+    try {
+      logger.debug('Listing review queue', { userId, limit, startAfter });
+      const result = await this.receiptRepository.getReceiptsNeedingReview(
+        userId,
+        limit,
+        startAfter
+      );
+
+      const receiptsWithSignedUrls = await Promise.all(
+        result.receipts.map((receipt) => this.withSignedUrls(receipt))
+      );
+
+      return { ...result, receipts: receiptsWithSignedUrls };
+    } catch (error) {
+      logger.error('Error in receipt service - listReviewQueue', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Accept or correct parsed fields
+   * The review flag is cleared once no field is pending
+   */
+  public async reviewReceipt(
+    receiptId: string,
+    userId: string,
+    review: ReviewReceiptDto
+  ): Promise<Receipt> {
+    try {
+      logger.debug('Reviewing receipt fields', { receiptId, userId, review });
+
+      const receipt = await this.receiptRepository.getReceiptById(receiptId, userId);
+      if (!receipt) {
+        throw new AppError('Receipt not found', 404);
+      }
+
+      if (!receipt.fieldConfidence) {
+        throw new AppError('Receipt has no parsed fields to review', 400);
+      }
+
+      const missingField = review.accept.find((field) => !receipt.fieldConfidence?.[field]);
+      if (missingField) {
+        throw new AppError(`Field ${missingField} has no parsed value to accept`, 400);
+      }
+
+      const fieldConfidence = applyFieldReview(receipt.fieldConfidence, review);
+      const updated = await this.receiptRepository.updateReceipt(
+        receiptId,
+        userId,
+        {
+          ...review.corrections,
+          fieldConfidence,
+          needsReview: getPendingReviewFields(fieldConfidence).length > 0,
+        },
+        { source: 'review', changedBy: userId }
+      );
+
+      await this.parsingRuleService.learnFromCorrection(updated, review.corrections);
+
+      await this.budgetService.onReceiptsChanged(userId, [receipt, updated]);
+
+      return await this.withSignedUrls(updated);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error in receipt service - reviewReceipt', { receiptId, userId, error });
+      throw new AppError('Failed to review receipt', 500);
+    }
+  }
+
   /**
    * Get receipt statistics with optional grouping
+   * Amounts are converted to the user's home currency (or the requested one) at each receipt date
    */
   public async getReceiptStats(
     userId: string,
     startDate?: Date,
     endDate?: Date,
-    groupBy?: 'category' | 'month'
+    groupBy?: 'category' | 'month',
+    currency?: Currency
   ): Promise<ReceiptStats> {
     try {
       logger.debug('Fetching receipt statistics', { userId, startDate, endDate, groupBy });
-      return await this.receiptRepository.getReceiptStats(userId, startDate, endDate, groupBy);
+
+      const statsCurrency = currency || (await this.authService.getHomeCurrency(userId));
+      const receipts = await this.receiptRepository.getReceiptsForStats(userId, startDate, endDate);
+      const convertedTotals = await this.exchangeRateService.convertAmounts(
+        receipts.map((r) => ({ amount: r.total, currency: r.currency, date: r.date })),
+        statsCurrency
+      );
+
+      let totalAmount = 0;
+      const byCategory: Record<string, { amount: number; count: number }> = {};
+      const byPeriod: Record<string, { amount: number; count: number }> = {};
+
+      receipts.forEach((receipt, index) => {
+        const amount = convertedTotals[index];
+        if (amount === null) {
+          return;
+        }
+
+        totalAmount += amount;
+
+        // Group by category
+        if (groupBy === 'category') {
+          if (!byCategory[receipt.category]) {
+            byCategory[receipt.category] = { amount: 0, count: 0 };
+          }
+          byCategory[receipt.category].amount += amount;
+          byCategory[receipt.category].count++;
+        }
+
+        // Group by month
+        if (groupBy === 'month') {
+          const period = `${receipt.date.getFullYear()}-${String(receipt.date.getMonth() + 1).padStart(2, '0')}`;
+          if (!byPeriod[period]) {
+            byPeriod[period] = { amount: 0, count: 0 };
+          }
+          byPeriod[period].amount += amount;
+          byPeriod[period].count++;
+        }
+      });
+
+      const round = (groups: Record<string, { amount: number; count: number }>) =>
+        Object.fromEntries(
+          Object.entries(groups).map(([key, group]) => [
+            key,
+            { ...group, amount: roundToMinorUnits(group.amount, statsCurrency) },
+          ])
+        );
+
+      const stats: ReceiptStats = {
+        currency: statsCurrency,
+        totalAmount: roundToMinorUnits(totalAmount, statsCurrency),
+        count: receipts.length,
+        unconvertedCount: convertedTotals.filter((amount) => amount === null).length,
+        byCurrency: summarizeByCurrency(
+          receipts.map((r, index) => ({
+            amount: r.total,
+            currency: r.currency,
+            convertedAmount: convertedTotals[index],
+          })),
+          statsCurrency
+        ),
+      };
+
+      if (groupBy === 'category') {
+        stats.byCategory = round(byCategory);
+      }
+
+      if (groupBy === 'month') {
+        stats.byPeriod = round(byPeriod);
+      }
+
+      return stats;
     } catch (error) {
       logger.error('Error in receipt service - getReceiptStats', { userId, error });
       throw error;
@@ -157,7 +887,7 @@ export class ReceiptService {
   }
 
   /**
-   * Search receipts by merchant or tags
+   * Search receipts by merchant, category, tags and line items
    */
   public async searchReceipts(
     userId: string,
@@ -168,7 +898,7 @@ export class ReceiptService {
     try {
       logger.debug('Searching receipts', { userId, searchTerm });
 
-      const result = await this.receiptRepository.getReceiptsByUserId({
+      const result = await this.searchService.searchReceipts({
         userId,
         search: searchTerm,
         limit,
@@ -178,7 +908,7 @@ export class ReceiptService {
       });
 
       const receiptsWithSignedUrls = await Promise.all(
-        result.receipts.map((receipt) => this.withSignedImageUrl(receipt))
+        result.receipts.map((receipt) => this.withSignedUrls(receipt))
       );
 
       return { ...result, receipts: receiptsWithSignedUrls };
@@ -187,4 +917,16 @@ export class ReceiptService {
       throw error;
     }
   }
+
+  /**
+   * Rebuild the user's receipt search index
+   */
+  public async rebuildSearchIndex(userId: string): Promise<SearchIndexRebuildResult> {
+    try {
+      return await this.searchService.rebuildIndex(userId);
+    } catch (error) {
+      logger.error('Error in receipt service - rebuildSearchIndex', { userId, error });
+      throw error;
+    }
+  }
 }
@@ -2,24 +2,92 @@
  * Receipt parsing service - orchestrates AI-powered receipt extraction
  */
 
+import config from '../config';
 import logger from '../config/logger';
 import { OpenAIService } from './openai.service';
-import { ParseReceiptRequest, ParseReceiptResponse } from '../models/parsedReceipt.model';
+import { OcrReceiptParser, GoogleVisionTextExtractor } from './ocrReceiptParser.service';
+import { FileStorageService } from './fileStorage.service';
+import { ParsingRuleService } from './parsingRule.service';
+import { PdfDocumentService, PdfPage } from './pdfDocument.service';
+import { BudgetService } from './budget.service';
+import { ReceiptRuleService } from './receiptRule.service';
+import { DuplicateService } from './duplicate.service';
+import { ReceiptRepository } from '../repositories/receipt.repository';
+import { JobQueueService } from './jobQueue.service';
+import {
+  ParsedReceipt,
+  ParseReceiptRequest,
+  ParseReceiptResponse,
+  ReceiptParser,
+  mergeParsedPages,
+  reconcileParsedReceipt,
+  toReceiptUpdate,
+  toFieldConfidence,
+  toParsedValues,
+} from '../models/parsedReceipt.model';
+import { ReceiptStatus, getPendingReviewFields } from '../models/receipt.model';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Job type for background receipt parsing
+ */
+export const PARSE_RECEIPT_JOB = 'receipt.parse';
+
+/**
+ * Create receipt parsers in fallback order from RECEIPT_PARSER_PROVIDERS
+ */
+export const createReceiptParsers = (
+  providers: string[] = config.parsing.providers
+): ReceiptParser[] => {
+  const factories: Record<string, () => ReceiptParser> = {
+    openai: () => new OpenAIService(),
+    'google-vision': () => new OcrReceiptParser(new GoogleVisionTextExtractor()),
+  };
+
+  return providers.flatMap((provider) => {
+    const factory = factories[provider];
+    if (!factory) {
+      logger.warn('Unknown receipt parser provider ignored', { provider });
+      return [];
+    }
+    return [factory()];
+  });
+};
 
 /**
  * Receipt parsing service
  * Handles receipt data extraction with fallback logic
  */
 export class ReceiptParsingService {
-  private openAIService: OpenAIService;
+  private parsers: ReceiptParser[];
+  private receiptRepository: ReceiptRepository;
+  private fileStorageService: FileStorageService;
+  private parsingRuleService: ParsingRuleService;
+  private pdfDocumentService: PdfDocumentService;
+  private budgetService: BudgetService;
+  private receiptRuleService: ReceiptRuleService;
+  private duplicateService: DuplicateService;
 
-  constructor() {
-    this.openAIService = new OpenAIService();
+  constructor(
+    parsers: ReceiptParser[] = createReceiptParsers(),
+    parsingRuleService: ParsingRuleService = new ParsingRuleService(),
+    pdfDocumentService: PdfDocumentService = new PdfDocumentService(),
+    budgetService: BudgetService = new BudgetService(),
+    receiptRuleService: ReceiptRuleService = new ReceiptRuleService(budgetService)
+  ) {
+    this.parsers = parsers;
+    this.receiptRepository = new ReceiptRepository();
+    this.fileStorageService = new FileStorageService();
+    this.parsingRuleService = parsingRuleService;
+    this.pdfDocumentService = pdfDocumentService;
+    this.budgetService = budgetService;
+    this.receiptRuleService = receiptRuleService;
+    this.duplicateService = new DuplicateService();
   }
 
   /**
-   * Parse receipt from image URL
-   * Attempts OpenAI first, with option to fallback to Google Cloud Vision
+   * Parse receipt from image or PDF URL
+   * Tries each available provider in the configured order until one succeeds
    */
   async parseReceipt(request: ParseReceiptRequest): Promise<ParseReceiptResponse> {
     const { imageUrl, userId, receiptId } = request;
@@ -30,60 +98,129 @@ export class ReceiptParsingService {
       imageUrl,
     });
 
-    try {
-      // Try OpenAI first
-      if (this.openAIService.isAvailable()) {
-        try {
-          const parsedData = await this.openAIService.parseReceipt(imageUrl);
-
-          logger.info('Receipt parsed successfully with OpenAI', {
-            userId,
-            receiptId,
-            confidence: parsedData.overallConfidence,
-          });
-
-          return {
-            success: true,
-            parsedData,
-            source: 'openai',
-          };
-        } catch (error) {
-          logger.error('OpenAI parsing failed, attempting fallback', {
-            userId,
-            receiptId,
-            error,
-          });
-
-          // Could implement Google Cloud Vision fallback here
-          // For now, return error
-          return {
-            success: false,
-            error: error instanceof Error ? error.message : 'Unknown parsing error',
-            source: 'failed',
-          };
-        }
-      } else {
-        logger.error('OpenAI service not available', { userId, receiptId });
-        return {
-          success: false,
-          error:
-            'OpenAI service is not configured. Please add OPENAI_API_KEY to environment variables.',
-          source: 'failed',
-        };
-      }
-    } catch (error) {
-      logger.error('Receipt parsing failed', {
+    const availableParsers = this.parsers.filter((parser) => parser.isAvailable());
+
+    if (availableParsers.length === 0) {
+      logger.error('No receipt parsing provider available', {
         userId,
         receiptId,
-        error,
+        providers: this.parsers.map((parser) => parser.name),
       });
-
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error during receipt parsing',
+        error:
+          'No receipt parsing provider is configured. Please add OPENAI_API_KEY or GOOGLE_VISION_API_KEY to environment variables.',
         source: 'failed',
       };
     }
+
+    let pages: PdfPage[] | null = null;
+    if (this.pdfDocumentService.isPdf(request.filePath || imageUrl)) {
+      try {
+        const document = await this.pdfDocumentService.fetchDocument(
+          request.filePath || imageUrl,
+          userId
+        );
+        pages = await this.pdfDocumentService.loadPages(document);
+      } catch (error) {
+        logger.error('Failed to read PDF receipt', { userId, receiptId, error });
+        return {
+          success: false,
+          error: `Failed to read PDF: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          source: 'failed',
+        };
+      }
+    }
+
+    const hints = await this.parsingRuleService.getPromptHints(userId);
+    const errors: string[] = [];
+
+    for (const parser of availableParsers) {
+      try {
+        const parsedData = reconcileParsedReceipt(
+          pages
+            ? await this.parsePdfPages(parser, pages, hints)
+            : await parser.parseReceipt(imageUrl, { hints })
+        );
+        const fallbackUsed = parser !== this.parsers[0];
+
+        logger.info('Receipt parsed successfully', {
+          userId,
+          receiptId,
+          source: parser.name,
+          fallbackUsed,
+          confidence: parsedData.overallConfidence,
+          discrepancies: parsedData.discrepancies?.length || 0,
+        });
+
+        return {
+          success: true,
+          parsedData,
+          source: parser.name,
+          fallbackUsed,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown parsing error';
+        errors.push(`${parser.name}: ${message}`);
+
+        logger.error('Receipt parser failed, trying next provider', {
+          userId,
+          receiptId,
+          source: parser.name,
+          error,
+        });
+      }
+    }
+
+    return {
+      success: false,
+      error: errors.join('; '),
+      source: 'failed',
+    };
+  }
+
+  /**
+   * Parse each PDF page with one provider and merge the results
+   * Pages that can't be parsed (e.g. terms and conditions) are skipped as long as one page parses
+   */
+  private async parsePdfPages(
+    parser: ReceiptParser,
+    pages: PdfPage[],
+    hints: string[]
+  ): Promise<ParsedReceipt> {
+    const results: ParsedReceipt[] = [];
+    const errors: string[] = [];
+
+    for (const page of pages) {
+      const options = { hints, page: { number: page.pageNumber, count: pages.length } };
+
+      try {
+        if (page.text !== null) {
+          results.push(await parser.parseText(page.text, options));
+        } else if (page.imageDataUrl !== null) {
+          results.push(await parser.parseReceipt(page.imageDataUrl, options));
+        } else {
+          throw new Error('Page could not be rendered');
+        }
+      } catch (error) {
+        errors.push(
+          `page ${page.pageNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    if (results.length === 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    if (errors.length > 0) {
+      logger.warn('Skipped PDF pages that could not be parsed', {
+        source: parser.name,
+        errors,
+      });
+    }
+
+    return mergeParsedPages(results);
   }
 
   /**
@@ -99,36 +236,175 @@ export class ReceiptParsingService {
     }
   }
 
+  /**
+   * Verify a receipt exists and belongs to the user before queueing work against it
+   */
+  async assertReceiptAccessible(receiptId: string, userId: string): Promise<void> {
+    const receipt = await this.receiptRepository.getReceiptById(receiptId, userId);
+    if (!receipt) {
+      throw new AppError('Receipt not found', 404);
+    }
+  }
+
+  /**
+   * Register background job handlers for receipt parsing
+   */
+  registerJobHandlers(queue: JobQueueService): void {
+    queue.registerHandler<ParseReceiptRequest, ParseReceiptResponse>(PARSE_RECEIPT_JOB, {
+      handle: (job) => this.runParseJob(job.payload),
+      onDeadLetter: async (job, error) => {
+        if (job.payload.receiptId) {
+          await this.markFailed(job.payload.receiptId, job.payload.userId, error.message);
+        }
+      },
+    });
+  }
+
+  /**
+   * Parse receipt as a queued job
+   * Throws on failure so the queue can retry; the receipt is only marked FAILED once the job is dead-lettered
+   */
+  async runParseJob(request: ParseReceiptRequest): Promise<ParseReceiptResponse> {
+    const { userId, receiptId } = request;
+
+    if (receiptId) {
+      await this.markProcessing(receiptId, userId);
+    }
+
+    // Signed URLs expire, so jobs that may be retried or replayed carry the storage path instead
+    const imageUrl = request.filePath
+      ? await this.fileStorageService.generateSignedUrl(request.filePath)
+      : request.imageUrl;
+
+    const result = await this.parseReceipt({ ...request, imageUrl });
+
+    if (!result.success || !result.parsedData) {
+      throw new Error(result.error || 'Failed to parse receipt');
+    }
+
+    if (receiptId) {
+      await this.markCompleted(receiptId, userId, result.parsedData);
+    }
+
+    return result;
+  }
+
   /**
    * Parse receipt with async processing
-   * This method can be used for background job processing
+   * Moves the receipt through PROCESSING to COMPLETED or FAILED so clients can poll its status
    */
   async parseReceiptAsync(request: ParseReceiptRequest): Promise<void> {
+    const { userId, receiptId } = request;
+
+    if (!receiptId) {
+      logger.error('Async receipt parsing requires a receipt ID', { userId });
+      return;
+    }
+
     try {
+      await this.markProcessing(receiptId, userId);
+
       const result = await this.parseReceipt(request);
 
       if (result.success && result.parsedData) {
-        // Here you would typically update the receipt in Firestore
-        // with the parsed data and status = 'completed'
+        await this.markCompleted(receiptId, userId, result.parsedData);
+
         logger.info('Async receipt parsing completed', {
-          userId: request.userId,
-          receiptId: request.receiptId,
+          userId,
+          receiptId,
           confidence: result.parsedData.overallConfidence,
         });
       } else {
-        // Update receipt status to 'failed'
+        await this.receiptRepository.updateReceiptStatus(
+          receiptId,
+          userId,
+          ReceiptStatus.FAILED,
+          result.error
+        );
+
         logger.error('Async receipt parsing failed', {
-          userId: request.userId,
-          receiptId: request.receiptId,
+          userId,
+          receiptId,
           error: result.error,
         });
       }
     } catch (error) {
       logger.error('Async receipt parsing error', {
-        userId: request.userId,
-        receiptId: request.receiptId,
+        userId,
+        receiptId,
         error,
       });
+
+      await this.markFailed(
+        receiptId,
+        userId,
+        error instanceof Error ? error.message : 'Unknown error during receipt parsing'
+      );
+    }
+  }
+
+  /**
+   * Move receipt to PROCESSING unless a previous attempt already did
+   */
+  private async markProcessing(receiptId: string, userId: string): Promise<void> {
+    const receipt = await this.receiptRepository.getReceiptById(receiptId, userId);
+    if (!receipt) {
+      throw new AppError('Receipt not found', 404);
+    }
+
+    if (receipt.status !== ReceiptStatus.PROCESSING) {
+      await this.receiptRepository.updateReceiptStatus(receiptId, userId, ReceiptStatus.PROCESSING);
+    }
+  }
+
+  /**
+   * Write parsed fields and their confidence to the receipt and move it to COMPLETED
+   * Receipts with any LOW confidence field are flagged for review
+   */
+  private async markCompleted(
+    receiptId: string,
+    userId: string,
+    parsedData: ParsedReceipt
+  ): Promise<void> {
+    const fieldConfidence = toFieldConfidence(parsedData);
+    await this.receiptRepository.updateReceipt(
+      receiptId,
+      userId,
+      {
+        ...toReceiptUpdate(parsedData),
+        fieldConfidence,
+        needsReview: getPendingReviewFields(fieldConfidence).length > 0,
+        parsedValues: toParsedValues(parsedData),
+      },
+      { source: 'parse', changedBy: null }
+    );
+    const completed = await this.receiptRepository.updateReceiptStatus(
+      receiptId,
+      userId,
+      ReceiptStatus.COMPLETED
+    );
+
+    // The user's rules run on the parsed values, then the final amounts count toward budgets
+    const receipt = await this.receiptRuleService.applyToReceipt(completed, 'parse');
+    await this.budgetService.onReceiptsChanged(userId, [receipt]);
+
+    // Parsed values can reveal a second copy of a receipt, e.g. a photo and an emailed PDF
+    await this.duplicateService.checkNearDuplicate(receipt);
+  }
+
+  /**
+   * Best-effort transition to FAILED after an unexpected error
+   */
+  private async markFailed(receiptId: string, userId: string, reason: string): Promise<void> {
+    try {
+      await this.receiptRepository.updateReceiptStatus(
+        receiptId,
+        userId,
+        ReceiptStatus.FAILED,
+        reason
+      );
+    } catch (error) {
+      logger.error('Failed to mark receipt as failed', { userId, receiptId, error });
     }
   }
 }
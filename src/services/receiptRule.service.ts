@@ -0,0 +1,271 @@
+/**
+ * Receipt rule service - user-defined categorization and tagging rules
+ */
+
+import { ReceiptRuleRepository } from '../repositories/receiptRule.repository';
+import { ReceiptRepository } from '../repositories/receipt.repository';
+import {
+  ApplyRulesOptions,
+  ApplyRulesResult,
+  CreateReceiptRuleDto,
+  ReceiptRule,
+  RuleApplication,
+  RuleEvaluation,
+  RuleTarget,
+  RuleTrigger,
+  UpdateReceiptRuleDto,
+  evaluateRules,
+  sortRules,
+} from '../models/receiptRule.model';
+import { Receipt } from '../models/receipt.model';
+import { BudgetService } from './budget.service';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../config/logger';
+
+// Rules run on every receipt, so each user gets a bounded set
+const MAX_RULES_PER_USER = 100;
+// Receipts listed in an apply response; counts always cover every receipt
+const MAX_LISTED_RECEIPTS = 200;
+
+export class ReceiptRuleService {
+  private receiptRuleRepository: ReceiptRuleRepository;
+  private receiptRepository: ReceiptRepository;
+  private budgetService: BudgetService;
+
+  constructor(budgetService: BudgetService = new BudgetService()) {
+    this.receiptRuleRepository = new ReceiptRuleRepository();
+    this.receiptRepository = new ReceiptRepository();
+    this.budgetService = budgetService;
+  }
+
+  /**
+   * List a user's rules in evaluation order
+   */
+  public async listRules(userId: string): Promise<ReceiptRule[]> {
+    return sortRules(await this.receiptRuleRepository.getRulesByUserId(userId));
+  }
+
+  /**
+   * Create a rule
+   */
+  public async createRule(userId: string, data: CreateReceiptRuleDto): Promise<ReceiptRule> {
+    const rules = await this.receiptRuleRepository.getRulesByUserId(userId);
+    if (rules.length >= MAX_RULES_PER_USER) {
+      throw new AppError(`A user can have at most ${MAX_RULES_PER_USER} rules`, 400);
+    }
+
+    return this.receiptRuleRepository.createRule(userId, {
+      name: data.name,
+      priority: data.priority ?? 100,
+      enabled: data.enabled ?? true,
+      conditions: data.conditions,
+      actions: data.actions,
+      stopProcessing: data.stopProcessing ?? false,
+    });
+  }
+
+  /**
+   * Update a rule
+   */
+  public async updateRule(
+    ruleId: string,
+    userId: string,
+    updates: UpdateReceiptRuleDto
+  ): Promise<ReceiptRule> {
+    const rule = await this.receiptRuleRepository.getRuleById(ruleId, userId);
+    if (!rule) {
+      throw new AppError('Receipt rule not found', 404);
+    }
+
+    return this.receiptRuleRepository.updateRule(ruleId, updates);
+  }
+
+  /**
+   * Delete a rule
+   */
+  public async deleteRule(ruleId: string, userId: string): Promise<void> {
+    const rule = await this.receiptRuleRepository.getRuleById(ruleId, userId);
+    if (!rule) {
+      throw new AppError('Receipt rule not found', 404);
+    }
+
+    await this.receiptRuleRepository.deleteRule(ruleId);
+
+    logger.info('Receipt rule deleted', { ruleId, userId });
+  }
+
+  /**
+   * Run the user's rules against receipt data that isn't stored yet
+   * Returns no changes rather than failing the receipt when rules can't be loaded
+   */
+  public async evaluate(userId: string, target: RuleTarget): Promise<RuleEvaluation> {
+    try {
+      const rules = await this.receiptRuleRepository.getRulesByUserId(userId);
+      return evaluateRules(target, rules);
+    } catch (error) {
+      logger.warn('Failed to evaluate receipt rules', { userId, error });
+      return { category: target.category, tags: target.tags, changes: [] };
+    }
+  }
+
+  /**
+   * Record what rules changed on a receipt
+   * Best-effort: a failure here must not fail the receipt change
+   */
+  public async recordChanges(
+    receipt: Pick<Receipt, 'id' | 'userId'>,
+    trigger: RuleTrigger,
+    evaluation: RuleEvaluation
+  ): Promise<void> {
+    if (evaluation.changes.length === 0) {
+      return;
+    }
+
+    try {
+      await this.receiptRuleRepository.createApplication({
+        userId: receipt.userId,
+        receiptId: receipt.id,
+        trigger,
+        changes: evaluation.changes,
+        appliedAt: new Date(),
+      });
+    } catch (error) {
+      logger.error('Failed to record receipt rule changes', {
+        userId: receipt.userId,
+        receiptId: receipt.id,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Run the user's rules against a stored receipt and save the changes
+   * Used after parsing; returns the receipt unchanged if the rules don't apply or fail
+   */
+  public async applyToReceipt(receipt: Receipt, trigger: RuleTrigger): Promise<Receipt> {
+    const evaluation = await this.evaluate(receipt.userId, receipt);
+    if (evaluation.changes.length === 0) {
+      return receipt;
+    }
+
+    try {
+      const updated = await this.receiptRepository.updateReceipt(
+        receipt.id,
+        receipt.userId,
+        { category: evaluation.category, tags: evaluation.tags },
+        { source: 'rule', changedBy: null }
+      );
+      await this.recordChanges(receipt, trigger, evaluation);
+      return updated;
+    } catch (error) {
+      logger.error('Failed to apply receipt rules', {
+        userId: receipt.userId,
+        receiptId: receipt.id,
+        error,
+      });
+      return receipt;
+    }
+  }
+
+  /**
+   * Run rules against the user's existing receipts
+   * A dry run only reports what would change
+   */
+  public async applyToExistingReceipts(
+    userId: string,
+    options: ApplyRulesOptions
+  ): Promise<ApplyRulesResult> {
+    let rules = await this.receiptRuleRepository.getRulesByUserId(userId);
+    if (options.ruleIds) {
+      const ruleIds = options.ruleIds;
+      const missing = ruleIds.filter((ruleId) => !rules.some((rule) => rule.id === ruleId));
+      if (missing.length > 0) {
+        throw new AppError(`Receipt rule not found: ${missing.join(', ')}`, 404);
+      }
+      rules = rules.filter((rule) => ruleIds.includes(rule.id));
+    }
+
+    const result: ApplyRulesResult = {
+      dryRun: options.dryRun,
+      scanned: 0,
+      changed: 0,
+      receipts: [],
+      truncated: false,
+    };
+
+    // Budgets are re-checked once at the end rather than per receipt
+    const changedReceipts: Array<Pick<Receipt, 'category' | 'date'>> = [];
+    let hasMore = true;
+    let startAfter: string | undefined;
+
+    while (hasMore) {
+      const page = await this.receiptRepository.getReceiptsByUserId({
+        userId,
+        startDate: options.startDate,
+        endDate: options.endDate,
+        limit: 100,
+        startAfter,
+        sortBy: 'date',
+        sortOrder: 'desc',
+      });
+
+      for (const receipt of page.receipts) {
+        result.scanned++;
+
+        const evaluation = evaluateRules(receipt, rules);
+        if (evaluation.changes.length === 0) {
+          continue;
+        }
+
+        result.changed++;
+        if (result.receipts.length < MAX_LISTED_RECEIPTS) {
+          result.receipts.push({
+            receiptId: receipt.id,
+            merchant: receipt.merchant,
+            changes: evaluation.changes,
+          });
+        } else {
+          result.truncated = true;
+        }
+
+        if (!options.dryRun) {
+          const updated = await this.receiptRepository.updateReceipt(
+            receipt.id,
+            userId,
+            { category: evaluation.category, tags: evaluation.tags },
+            { source: 'rule', changedBy: userId }
+          );
+          await this.recordChanges(receipt, 'manual', evaluation);
+          changedReceipts.push(receipt, updated);
+        }
+      }
+
+      hasMore = page.hasMore;
+      startAfter = page.nextCursor;
+    }
+
+    if (changedReceipts.length > 0) {
+      await this.budgetService.onReceiptsChanged(userId, changedReceipts);
+    }
+
+    logger.info('Receipt rules applied to existing receipts', {
+      userId,
+      dryRun: options.dryRun,
+      scanned: result.scanned,
+      changed: result.changed,
+    });
+
+    return result;
+  }
+
+  /**
+   * Get the history of rule changes, optionally for one receipt
+   */
+  public async listApplications(
+    userId: string,
+    limit: number,
+    receiptId?: string
+  ): Promise<RuleApplication[]> {
+    return this.receiptRuleRepository.getApplications(userId, limit, receiptId);
+  }
+}
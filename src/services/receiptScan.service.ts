@@ -0,0 +1,117 @@
+/**
+ * Receipt scan service - upload, receipt creation and parse queueing in one step
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import logger from '../config/logger';
+import { UploadService, UploadResult } from './upload.service';
+import { DuplicateService } from './duplicate.service';
+import { JobQueueService, jobQueue } from './jobQueue.service';
+import { PARSE_RECEIPT_JOB } from './receiptParsing.service';
+import { ReceiptRepository } from '../repositories/receipt.repository';
+import { AttachmentRole, Receipt, ReceiptCategory, ReceiptStatus } from '../models/receipt.model';
+import { ParseReceiptRequest } from '../models/parsedReceipt.model';
+import { Job } from '../models/job.model';
+
+/**
+ * Result of a scan request
+ */
+export interface ScanReceiptResult {
+  receipt: Receipt;
+  upload: UploadResult;
+  job: Job<ParseReceiptRequest>;
+}
+
+/**
+ * Receipt scan service
+ * The receipt is created under the upload's receiptId so storage paths and Firestore IDs match
+ */
+export class ReceiptScanService {
+  private uploadService: UploadService;
+  private receiptRepository: ReceiptRepository;
+  private duplicateService: DuplicateService;
+  private queue: JobQueueService;
+
+  constructor(queue: JobQueueService = jobQueue) {
+    this.uploadService = new UploadService();
+    this.receiptRepository = new ReceiptRepository();
+    this.duplicateService = new DuplicateService();
+    this.queue = queue;
+  }
+
+  /**
+   * Upload a receipt file, create a PENDING receipt for it and queue parsing
+   */
+  async scanReceipt(
+    userId: string,
+    file: { originalname: string; size: number; mimetype: string; buffer: Buffer }
+  ): Promise<ScanReceiptResult> {
+    const upload = await this.uploadService.uploadReceiptFile(userId, file);
+
+    let receipt: Receipt;
+    try {
+      // Placeholder values until parsing fills in the receipt
+      receipt = await this.receiptRepository.createReceipt(
+        userId,
+        {
+          merchant: '',
+          date: new Date(upload.uploadedAt),
+          total: 0,
+          currency: 'USD',
+          category: ReceiptCategory.OTHER,
+          imageUrl: upload.filePath,
+          attachments: [
+            {
+              id: uuidv4(),
+              path: upload.filePath,
+              mimeType: upload.mimeType,
+              size: upload.fileSize,
+              role: AttachmentRole.FRONT,
+            },
+          ],
+          status: ReceiptStatus.PENDING,
+        },
+        upload.receiptId
+      );
+    } catch (error) {
+      // Don't leave an orphaned file behind when the receipt can't be created
+      await this.uploadService.deleteReceiptFile(upload.filePath).catch((cleanupError) => {
+        logger.error('Failed to clean up scanned file', {
+          userId,
+          filePath: upload.filePath,
+          error: cleanupError,
+        });
+      });
+      throw error;
+    }
+
+    // A copy of an earlier receipt's file stays a copy whatever parsing finds
+    receipt = await this.duplicateService.checkIdenticalFile(receipt, upload.contentHash);
+
+    const parseRequest: ParseReceiptRequest = {
+      imageUrl: upload.fileUrl,
+      filePath: upload.filePath,
+      userId,
+      receiptId: receipt.id,
+    };
+
+    try {
+      const job = await this.queue.enqueue(PARSE_RECEIPT_JOB, parseRequest, { userId });
+
+      logger.info('Receipt scan queued', { userId, receiptId: receipt.id, jobId: job.id });
+
+      return { receipt, upload, job };
+    } catch (error) {
+      await this.receiptRepository
+        .updateReceiptStatus(receipt.id, userId, ReceiptStatus.FAILED, 'Failed to queue parsing')
+        .catch((statusError) => {
+          logger.error('Failed to mark scanned receipt as failed', {
+            userId,
+            receiptId: receipt.id,
+            error: statusError,
+          });
+        });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Search service - full-text receipt search over the inverted search index
+ */
+
+import { SearchIndexRepository } from '../repositories/searchIndex.repository';
+import { ReceiptRepository } from '../repositories/receipt.repository';
+import { PaginatedReceipts, Receipt, ReceiptQueryParams } from '../models/receipt.model';
+import {
+  MAX_EXPANSIONS_PER_WORD,
+  MAX_SEARCH_CANDIDATES,
+  SearchIndexRebuildResult,
+  expandWord,
+  matchesAmountFilters,
+  matchesReceiptQuery,
+  parseSearchQuery,
+  sortReceipts,
+} from '../models/search.model';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../config/logger';
+
+export class SearchService {
+  private searchIndexRepository: SearchIndexRepository;
+  private receiptRepository: ReceiptRepository;
+
+  constructor() {
+    this.searchIndexRepository = new SearchIndexRepository();
+    this.receiptRepository = new ReceiptRepository();
+  }
+
+  /**
+   * Search a user's receipts
+   * Every word must match merchant, category, a tag or a line item, by prefix or with a typo.
+   * `total:` filters narrow by amount. The other list filters, sorting and the cursor work
+   * as in a plain listing, and total counts every match.
+   */
+  public async searchReceipts(
+    params: ReceiptQueryParams & { search: string }
+  ): Promise<PaginatedReceipts> {
+    const query = parseSearchQuery(params.search);
+    if (!query) {
+      throw new AppError('Invalid amount filter; use e.g. total:>50 or total:10..50', 400);
+    }
+
+    const limit = params.limit || 20;
+    let candidates: Receipt[] = [];
+
+    // Every page filters and sorts all matches, so the receipts read per page are capped
+    if (query.words.length > 0) {
+      const receiptIds = await this.findReceiptIds(params.userId, query.words);
+      this.checkCandidateCount(receiptIds.length);
+      candidates = await this.receiptRepository.getReceiptsByIds(params.userId, receiptIds);
+    } else if (query.amountFilters.length > 0) {
+      candidates = await this.receiptRepository.getReceiptsByAmount(
+        params.userId,
+        query.amountFilters,
+        MAX_SEARCH_CANDIDATES + 1
+      );
+      this.checkCandidateCount(candidates.length);
+    }
+
+    const matches = sortReceipts(
+      candidates.filter(
+        (receipt) =>
+          matchesAmountFilters(receipt.total, query.amountFilters) &&
+          matchesReceiptQuery(receipt, params)
+      ),
+      params.sortBy || 'date',
+      params.sortOrder || 'desc'
+    );
+
+    // An unknown cursor starts from the top, as in a plain listing
+    const start = params.startAfter
+      ? matches.findIndex((receipt) => receipt.id === params.startAfter) + 1
+      : 0;
+    const receipts = matches.slice(start, start + limit);
+    const hasMore = start + limit < matches.length;
+
+    logger.debug('Receipts searched', {
+      userId: params.userId,
+      words: query.words.length,
+      matches: matches.length,
+    });
+
+    return {
+      receipts,
+      total: matches.length,
+      limit,
+      hasMore,
+      nextCursor: hasMore ? receipts[receipts.length - 1].id : undefined,
+    };
+  }
+
+  /**
+   * Rebuild a user's search index from their receipts
+   * Fixes receipts written before the index existed or missed by a failed index update.
+   */
+  public async rebuildIndex(userId: string): Promise<SearchIndexRebuildResult> {
+    const termsByReceipt = await this.receiptRepository.getSearchTermsByReceipt(userId);
+
+    const postings = new Map<string, string[]>();
+    termsByReceipt.forEach((terms, receiptId) => {
+      terms.forEach((term) => {
+        const receiptIds = postings.get(term) || [];
+        receiptIds.push(receiptId);
+        postings.set(term, receiptIds);
+      });
+    });
+
+    await this.searchIndexRepository.replaceIndex(userId, postings);
+
+    return { receipts: termsByReceipt.size, terms: postings.size };
+  }
+
+  /**
+   * Helper method to reject a search matching more receipts than a page may read
+   */
+  private checkCandidateCount(count: number): void {
+    if (count > MAX_SEARCH_CANDIDATES) {
+      throw new AppError(
+        `Search matches more than ${MAX_SEARCH_CANDIDATES} receipts; add words or filters to narrow it`,
+        400
+      );
+    }
+  }
+
+  /**
+   * Helper method to find the indexed terms a query word matches
+   * Prefix matches come from a range query on the index; typos are only tried for a word
+   * without any. A word that is the prefix of more terms than can be read (e.g. "co" while
+   * typing) only matches itself as a whole term. If it isn't one, the word is rejected
+   * rather than cut short, which would silently drop receipts from the results.
+   */
+  private async findTerms(
+    userId: string,
+    word: string,
+    getVocabulary: () => Promise<string[]>
+  ): Promise<string[]> {
+    const prefixed = await this.searchIndexRepository.getTermsByPrefix(
+      userId,
+      word,
+      MAX_EXPANSIONS_PER_WORD + 1
+    );
+    if (prefixed.length > MAX_EXPANSIONS_PER_WORD) {
+      // Terms come back in order, so an exact match is always the first
+      if (prefixed[0] === word) {
+        return [word];
+      }
+      throw new AppError(`Search word "${word}" matches too many terms; use a longer word`, 400);
+    }
+
+    const terms = prefixed.length > 0 ? prefixed : expandWord(word, await getVocabulary());
+    if (terms.length > MAX_EXPANSIONS_PER_WORD) {
+      throw new AppError(`Search word "${word}" matches too many terms; use a longer word`, 400);
+    }
+    return terms;
+  }
+
+  /**
+   * Helper method to find the receipts matching every query word
+   */
+  private async findReceiptIds(userId: string, words: string[]): Promise<string[]> {
+    // Loaded at most once, and only if some word needs typo matching
+    let vocabulary: Promise<string[]> | undefined;
+    const getVocabulary = () => (vocabulary ??= this.searchIndexRepository.getTerms(userId));
+
+    const expansions = await Promise.all(
+      words.map((word) => this.findTerms(userId, word, getVocabulary))
+    );
+    if (expansions.some((terms) => terms.length === 0)) {
+      return [];
+    }
+
+    const postings = await this.searchIndexRepository.getPostings(
+      userId,
+      Array.from(new Set(expansions.flat()))
+    );
+
+    // A word matches the receipts of any of its terms; every word must match
+    const [first, ...rest] = expansions.map(
+      (terms) => new Set(terms.flatMap((term) => postings.get(term) || []))
+    );
+    return Array.from(first).filter((receiptId) =>
+      rest.every((wordMatches) => wordMatches.has(receiptId))
+    );
+  }
+}
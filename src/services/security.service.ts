@@ -0,0 +1,156 @@
+/**
+ * Security service - admin management of IP blocks, the IP allowlist and security events
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CreateIPRuleDto,
+  IPRule,
+  IPRuleType,
+  MIN_IP_BLOCK_PREFIX,
+  findIPRule,
+  isCIDRTooWideToBlock,
+  isIPInCIDR,
+  isIPRuleActive,
+  normalizeCIDR,
+  normalizeIP,
+} from '../models/security.model';
+import { getIPTrackingStats, refreshIPRules, securityStore } from '../middleware/abuseDetection';
+import { AuditLog, AuditLogFilters, auditLogger, SECURITY_EVENT_ACTIONS } from './audit.service';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../config/logger';
+
+export class SecurityService {
+  /**
+   * List IPs with recorded failures, including automatically blocked ones
+   */
+  public async getTrackedIPs(): ReturnType<typeof getIPTrackingStats> {
+    return getIPTrackingStats();
+  }
+
+  /**
+   * Forget an IP's failures, lifting an automatic block
+   */
+  public async clearTrackedIP(ip: string): Promise<void> {
+    const normalized = normalizeIP(ip);
+    if (!(await securityStore.getIPTracker(normalized))) {
+      throw new AppError('IP address is not tracked', 404);
+    }
+
+    await securityStore.deleteIPTracker(normalized);
+  }
+
+  /**
+   * List the block or allow rules that are in effect, newest first
+   */
+  public async listIPRules(type: IPRuleType): Promise<IPRule[]> {
+    const rules = await securityStore.listIPRules();
+    const now = new Date();
+    return rules.filter((rule) => rule.type === type && isIPRuleActive(rule, now));
+  }
+
+  /**
+   * Block or allowlist an IP address or range
+   * requestIP is the admin's own address, which can't be blocked unless it is allowlisted
+   */
+  public async addIPRule(
+    type: IPRuleType,
+    data: CreateIPRuleDto,
+    createdBy: string,
+    requestIP: string
+  ): Promise<IPRule> {
+    const cidr = normalizeCIDR(data.cidr);
+    if (!cidr) {
+      throw new AppError('cidr must be an IP address or CIDR range', 400);
+    }
+
+    const rules = await securityStore.listIPRules();
+
+    if (type === 'block') {
+      if (isCIDRTooWideToBlock(cidr)) {
+        throw new AppError(
+          `Blocks can't be wider than /${MIN_IP_BLOCK_PREFIX[4]} for IPv4 or /${MIN_IP_BLOCK_PREFIX[6]} for IPv6`,
+          400
+        );
+      }
+      if (isIPInCIDR(requestIP, cidr) && !findIPRule(rules, requestIP, 'allow')) {
+        throw new AppError("You can't block your own IP address", 400);
+      }
+    }
+
+    const now = new Date();
+    if (
+      rules.some((rule) => rule.type === type && isIPRuleActive(rule, now) && rule.cidr === cidr)
+    ) {
+      throw new AppError(
+        `${cidr} is already ${type === 'block' ? 'blocked' : 'on the allowlist'}`,
+        409
+      );
+    }
+
+    const rule: IPRule = {
+      id: uuidv4(),
+      type,
+      cidr,
+      reason: data.reason ?? null,
+      createdBy,
+      createdAt: new Date(),
+      expiresAt: data.expiresAt ?? null,
+    };
+    await securityStore.saveIPRule(rule);
+
+    // Other instances pick the rule up when their cache expires
+    refreshIPRules();
+
+    logger.info('IP rule added', { ruleId: rule.id, type, cidr, createdBy });
+
+    return rule;
+  }
+
+  /**
+   * Remove a block or allow rule
+   * An allowlist entry can't be removed if that would leave the admin's own address blocked
+   */
+  public async removeIPRule(type: IPRuleType, ruleId: string, requestIP: string): Promise<IPRule> {
+    const rules = await securityStore.listIPRules();
+    const rule = rules.find((candidate) => candidate.id === ruleId && candidate.type === type);
+    if (!rule) {
+      throw new AppError(
+        type === 'block' ? 'IP block not found' : 'Allowlist entry not found',
+        404
+      );
+    }
+
+    const remaining = rules.filter((candidate) => candidate.id !== ruleId);
+    if (
+      type === 'allow' &&
+      findIPRule(remaining, requestIP, 'block') &&
+      !findIPRule(remaining, requestIP, 'allow')
+    ) {
+      throw new AppError('Removing this entry would block your own IP address', 400);
+    }
+
+    await securityStore.deleteIPRule(ruleId);
+    refreshIPRules();
+
+    logger.info('IP rule removed', { ruleId, type, cidr: rule.cidr });
+
+    return rule;
+  }
+
+  /**
+   * Browse security audit events, most recent first
+   * Without an action filter, all security events and IP rule changes are returned
+   */
+  public async getSecurityEvents(
+    filters: AuditLogFilters,
+    limit: number,
+    startAfter?: string
+  ): Promise<AuditLog[]> {
+    return auditLogger.queryLogs(
+      { ...filters, actions: filters.actions?.length ? filters.actions : SECURITY_EVENT_ACTIONS },
+      limit,
+      startAfter
+    );
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Trash retention service - periodically purges receipts deleted longer ago than the retention period
+ */
+
+import config from '../config';
+import logger from '../config/logger';
+import { ReceiptService } from './receipt.service';
+
+export interface TrashRetentionOptions {
+  retentionDays: number;
+  sweepIntervalMs: number;
+}
+
+/**
+ * Trash retention sweeper
+ * Every instance sweeps on its own timer; purging is idempotent, so overlapping sweeps are harmless
+ */
+export class TrashRetentionService {
+  private receiptService: ReceiptService;
+  private options: TrashRetentionOptions;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sweeping = false;
+
+  constructor(receiptService: ReceiptService, options: TrashRetentionOptions = config.trash) {
+    this.receiptService = receiptService;
+    this.options = options;
+  }
+
+  /**
+   * Start sweeping on the configured interval
+   */
+  start(): void {
+    if (this.timer || this.options.retentionDays <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.sweep();
+    }, this.options.sweepIntervalMs);
+    // Don't keep the process alive just for the sweeper
+    this.timer.unref();
+
+    logger.info('Trash retention sweep started', {
+      retentionDays: this.options.retentionDays,
+      sweepIntervalMs: this.options.sweepIntervalMs,
+    });
+  }
+
+  /**
+   * Stop sweeping
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Purge expired trash once
+   * Returns the number of receipts purged
+   */
+  async sweep(now = new Date()): Promise<number> {
+    if (this.sweeping) {
+      return 0;
+    }
+
+    this.sweeping = true;
+    try {
+      return await this.receiptService.purgeExpiredTrash(this.options.retentionDays, now);
+    } catch (error) {
+      logger.error('Trash retention sweep failed', { error });
+      return 0;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+}
@@ -1,8 +1,10 @@
 /// <reference types="multer" />
+import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import logger from '../config/logger';
 import { FileValidationService } from './fileValidation.service';
 import { FileStorageService } from './fileStorage.service';
+import { FileHashRepository } from '../repositories/fileHash.repository';
 import { AppError } from '../middleware/errorHandler';
 
 /**
@@ -16,6 +18,8 @@ export interface UploadResult {
   fileSize: number;
   mimeType: string;
   uploadedAt: string;
+  contentHash: string; // SHA-256 of the file content
+  duplicateOf: string | null; // ID of an earlier receipt with the same file
 }
 
 /**
@@ -25,19 +29,26 @@ export interface UploadResult {
 export class UploadService {
   private validationService: FileValidationService;
   private storageService: FileStorageService;
+  private fileHashRepository: FileHashRepository;
 
   constructor() {
     this.validationService = new FileValidationService();
     this.storageService = new FileStorageService();
+    this.fileHashRepository = new FileHashRepository();
   }
 
   /**
    * Upload a receipt file
+   * receiptId can be supplied to store the file with an existing receipt, which then claims the
+   * file's content hash. Otherwise the file gets a new receipt ID and the hash is only looked up;
+   * it is claimed once a receipt is created for the file.
    */
   async uploadReceiptFile(
     userId: string,
-    file: { originalname: string; size: number; mimetype: string; buffer: Buffer }
+    file: { originalname: string; size: number; mimetype: string; buffer: Buffer },
+    existingReceiptId?: string
   ): Promise<UploadResult> {
+    const receiptId = existingReceiptId ?? uuidv4();
     const requestId = `upload-${uuidv4()}`;
     logger.info('Starting file upload', {
       requestId,
@@ -51,8 +62,7 @@ export class UploadService {
       // Validate file
       this.validationService.validateFile(file);
 
-      // Generate unique receipt ID
-      const receiptId = uuidv4();
+      const contentHash = createHash('sha256').update(file.buffer).digest('hex');
 
       // Generate file path
       const filePath = this.validationService.generateFilePath(
@@ -67,8 +77,16 @@ export class UploadService {
         receiptId,
         originalName: file.originalname,
         uploadedAt: new Date().toISOString(),
+        contentHash,
       });
 
+      const duplicateOf = await this.findEarlierUpload(
+        userId,
+        contentHash,
+        filePath,
+        existingReceiptId
+      );
+
       // Generate signed URL
       const fileUrl = await this.storageService.generateSignedUrl(filePath);
 
@@ -80,12 +98,15 @@ export class UploadService {
         fileSize: file.size,
         mimeType: file.mimetype,
         uploadedAt: new Date().toISOString(),
+        contentHash,
+        duplicateOf,
       };
 
       logger.info('File upload completed successfully', {
         requestId,
         receiptId,
         filePath,
+        duplicateOf,
       });
 
       return result;
@@ -100,6 +121,28 @@ export class UploadService {
     }
   }
 
+  /**
+   * Helper method to find an earlier receipt with the same content
+   * Only an existing receipt records the hash, so uploads that never become receipts can't
+   * shadow later ones. Best-effort: a failure only means the duplicate goes unnoticed.
+   */
+  private async findEarlierUpload(
+    userId: string,
+    contentHash: string,
+    filePath: string,
+    existingReceiptId?: string
+  ): Promise<string | null> {
+    try {
+      const earlier = existingReceiptId
+        ? await this.fileHashRepository.claimHash(userId, contentHash, existingReceiptId, filePath)
+        : await this.fileHashRepository.getHash(userId, contentHash);
+      return earlier ? earlier.receiptId : null;
+    } catch (error) {
+      logger.error('Failed to check upload for duplicates', { userId, filePath, error });
+      return null;
+    }
+  }
+
   /**
    * Delete a receipt file
    */
@@ -1,4 +1,5 @@
 import { AuthenticatedUser } from '../models/user.model';
+import { APIKeyRateLimit } from '../models/apiKey.model';
 
 declare global {
   namespace Express {
@@ -10,6 +11,7 @@ declare global {
         userId: string;
         scopes: string[];
         name: string;
+        rateLimit: APIKeyRateLimit;
       };
     }
   }